@@ -3,13 +3,32 @@
  * Uses GitHub Copilot SDK with agentic tool-calling to analyze repositories
  */
 
-import { CopilotClient, SessionEvent } from "@github/copilot-sdk";
+import type { SessionEvent } from "@github/copilot-sdk";
 import chalk from "chalk";
 import * as fs from "fs";
 import * as path from "path";
-import type { RepoFacts, ScanResult, RepoInfo, BootcampOptions } from "./types.js";
+import type {
+  RepoFacts,
+  ScanResult,
+  RepoInfo,
+  BootcampOptions,
+  PromptOverrides,
+  EffectivePrompts,
+  UsageReport,
+} from "./types.js";
 import { getRepoTools } from "./tools.js";
-import { validateRepoFacts, getMissingFieldsSummary, type ValidatedRepoFacts } from "./schema.js";
+import type { LLMProvider, ProviderSession, ProviderSessionConfig, ReplayedToolCall } from "./providers.js";
+import { createSessionProvider } from "./recording.js";
+import { AnalysisBudget, getBudgetLimits } from "./budget.js";
+import { verifyRepoFacts } from "./verify.js";
+import { mergeEntrypoints } from "./entrypoints.js";
+import {
+  validateRepoFacts,
+  validateSection,
+  getMissingFieldsSummary,
+  type ValidatedRepoFacts,
+  type SectionName,
+} from "./schema.js";
 
 /**
  * System prompt for the repo analysis agent
@@ -17,10 +36,16 @@ import { validateRepoFacts, getMissingFieldsSummary, type ValidatedRepoFacts } f
 const SYSTEM_PROMPT = `You are an expert software architect and technical writer. Your job is to analyze codebases and produce comprehensive onboarding documentation.
 
 You have access to tools to explore the repository:
-- read_file: Read contents of any file
+- read_file: Read a file, a line range or a single symbol, with line numbers
 - list_files: List files and directories
 - search: Search for patterns in code using ripgrep
 - get_repo_metadata: Get repository statistics
+- git_log: Recent commits for a file or directory
+- git_blame: Who last changed a file or line range, and in which commits
+- git_co_changes: Files that usually change together with a path
+- find_definition / find_references / list_exports: Jump to symbol definitions, usages and module exports by name
+- search_relevant: Rank code and docs across the whole repository by relevance to a question
+- run_command (only when enabled): Run allowlisted read-only commands such as \`npm run\` or \`npm ls\` to check quickstart commands
 
 EFFICIENCY GUIDELINES:
 1. Make ONE batch of tool calls to gather key info (README, package.json, entry point, one source file)
@@ -34,6 +59,11 @@ IMPORTANT:
 - After gathering basics, produce output - don't over-research
 - Always return valid JSON as the final output`;
 
+/**
+ * System prompt for fast mode (no tools)
+ */
+const FAST_SYSTEM_PROMPT = "You are an expert software architect. Analyze repositories and produce JSON output.";
+
 const CUSTOM_PROMPT_FILE = ".bootcamp-prompts.md";
 const CUSTOM_PROMPT_MAX_CHARS = 8000;
 const MAX_FILE_LIST_ITEMS = 50;
@@ -42,6 +72,9 @@ const MAX_KEY_FILE_CHARS = 5000;
 const MAX_ENTRY_POINT_CHARS = 3000;
 const FAST_MODE_TIMEOUT_MS = 300_000; // 5 minutes
 const STANDARD_MODE_TIMEOUT_MS = 600_000; // 10 minutes
+const RETRY_TIMEOUT_MS = 300_000; // 5 minutes
+const SECTION_MAX_RETRIES = 2;
+const SECTION_TOOL_CALL_BUDGET = 5;
 
 export function readCustomPrompt(repoPath: string, overridePath?: string): string | null {
   const promptPath = overridePath
@@ -70,31 +103,195 @@ export function formatCustomPromptSection(customPrompt?: string | null): string
 }
 
 /**
- * Create the analysis prompt with scan results
+ * Apply a bootcamp.config.json system prompt override to a built-in system prompt
  */
-function createAnalysisPrompt(
-  repoInfo: RepoInfo,
-  scanResult: ScanResult,
-  options: BootcampOptions,
+export function resolveSystemPrompt(basePrompt: string, prompts?: PromptOverrides): string {
+  if (!prompts?.system) {
+    return basePrompt;
+  }
+  return prompts.mode === "replace" ? prompts.system : `${basePrompt}\n\n${prompts.system}`;
+}
+
+/**
+ * Apply a bootcamp.config.json analysis prompt override to the built analysis prompt.
+ * In replace mode the .bootcamp-prompts.md guidance is re-attached so repo-level
+ * instructions still layer on top of the team-level prompt.
+ */
+export function resolveAnalysisPrompt(
+  builtPrompt: string,
+  prompts?: PromptOverrides,
   customPrompt?: string | null
 ): string {
+  if (!prompts?.analysis) {
+    return builtPrompt;
+  }
+  if (prompts.mode === "replace") {
+    return `${prompts.analysis}\n${formatCustomPromptSection(customPrompt)}`;
+  }
+  return `${builtPrompt}\n\n## Team Guidance (bootcamp.config.json)\n${prompts.analysis}\n`;
+}
+
+/**
+ * Describe the prompt layers that were applied, for repo_facts.json
+ */
+function describePromptSources(prompts?: PromptOverrides, customPromptSource?: string | null): string[] {
+  const mode = prompts?.mode || "append";
+  const sources: string[] = [];
+  if (mode === "append" || !prompts?.system || !prompts?.analysis) {
+    sources.push("built-in");
+  }
+  if (prompts?.system || prompts?.analysis) {
+    sources.push(`bootcamp.config.json (${mode})`);
+  }
+  if (customPromptSource) {
+    sources.push(customPromptSource);
+  }
+  return sources;
+}
+
+/**
+ * Audience-specific guidance appended to the analysis prompts
+ */
+const AUDIENCE_GUIDANCE: Record<BootcampOptions["audience"], string> = {
+  "new-hire": `The reader just joined the team and has never seen this codebase.
+- Spell out prerequisites, environment setup and the first-day checklist in detail
+- Explain domain terminology and key abstractions in plain language
+- Prefer beginner firstTasks that build confidence and touch core code paths`,
+  "oss-contributor": `The reader is an external open source contributor.
+- Document contribution etiquette: CLA/DCO requirements, issue-first policies, PR size and review expectations
+- Describe how to run the same checks CI runs before opening a pull request
+- Highlight good-first-issue style firstTasks and where maintainers want help`,
+  "internal-dev": `The reader is an engineer on a team that owns or depends on this service.
+- Emphasize deployment, environments, release process and rollback steps
+- Fill runbook.observability and runbook.incidents with on-call relevant checks (dashboards, logs, alerts)
+- Call out configuration, secrets and service dependencies that matter in production`,
+};
+
+/**
+ * Focus-specific guidance appended to the analysis prompts
+ */
+const FOCUS_GUIDANCE: Record<BootcampOptions["focus"], string> = {
+  onboarding: `Prioritize quickstart, prerequisites, commonErrors and structure.
+Keep architecture brief; spend tool calls on setup and build files.`,
+  architecture: `Prioritize the architecture section: list every major component with its directory,
+describe dataFlow step by step, include 4-6 keyAbstractions and 3-4 codeExamples.
+Structure.keyDirs should include keyFiles for each directory. Keep quickstart brief.`,
+  contributing: `Prioritize contrib (howToAddFeature, howToAddTest, codeStyle), ci.mainChecks and firstTasks.
+Read CONTRIBUTING, PR templates and CI workflows before producing output.`,
+  all: `Cover every section with balanced depth.`,
+};
+
+/**
+ * Build the focus and audience section shared by the analysis prompts
+ */
+export function formatAudienceFocusSection(
+  options: Pick<BootcampOptions, "focus" | "audience">
+): string {
+  const focusGuidance = FOCUS_GUIDANCE[options.focus] || FOCUS_GUIDANCE.all;
+  const audienceGuidance = AUDIENCE_GUIDANCE[options.audience] || "";
+
+  return `## Focus: ${options.focus}
+${focusGuidance}
+
+## Target audience: ${options.audience}
+${audienceGuidance}
+`;
+}
+
+/**
+ * Point the model at search_relevant when the file tree preview leaves most files out
+ */
+function formatUnlistedFilesNote(scanResult: ScanResult): string {
+  const indexed = scanResult.retrieval?.files ?? 0;
+  if (indexed <= MAX_FILE_LIST_ITEMS) return "";
+  return `\n(${indexed} source and doc files in total; use search_relevant to find the ones about a topic)`;
+}
+
+/** Workspace packages listed in prompts */
+const MAX_PROMPT_WORKSPACE_PACKAGES = 30;
+/** Characters of the repo-root README included in scoped prompts */
+const MAX_ROOT_README_CHARS = 2000;
+
+/**
+ * Scope line for scoped runs and the workspace package list for monorepos
+ */
+function formatWorkspaceContext(repoInfo: RepoInfo, scanResult: ScanResult): string {
+  const scope = repoInfo.subdir
+    ? `- Scope: ${repoInfo.subdir} (analysis is scoped to this directory; paths and tools are relative to it)\n`
+    : "";
+  const packages = scanResult.workspaces?.packages ?? [];
+  if (packages.length === 0) return scope;
+
+  const list = packages
+    .slice(0, MAX_PROMPT_WORKSPACE_PACKAGES)
+    .map((p) => `- ${p.name} (${p.path})${p.internalDeps.length > 0 ? ` -> ${p.internalDeps.join(", ")}` : ""}`)
+    .join("\n");
+  const more = packages.length > MAX_PROMPT_WORKSPACE_PACKAGES ? `\n(${packages.length} packages in total)` : "";
+  return `${scope}
+## Workspace Packages (${scanResult.workspaces!.tools.join(", ")})
+${list}${more}
+`;
+}
+
+/**
+ * Repo-root README, CODEOWNERS rules and CI config for scoped runs; the tools
+ * cannot reach outside the scoped directory, so these go into the prompt
+ */
+function formatRootContext(scanResult: ScanResult): string {
+  const root = scanResult.rootContext;
+  if (!root) return "";
+
+  const parts: string[] = [];
+  if (root.readme) {
+    const excerpt = root.readme.length > MAX_ROOT_README_CHARS ? `${root.readme.slice(0, MAX_ROOT_README_CHARS)}\n[...]` : root.readme;
+    parts.push(`### Root README (excerpt)\n${excerpt}`);
+  }
+  if (root.codeowners && root.codeowners.rules.length > 0) {
+    parts.push(`### Owners (${root.codeowners.path})\n${root.codeowners.rules.join("\n")}`);
+  }
+  if (root.ciFiles.length > 0) {
+    parts.push(`### CI Configuration\n${root.ciFiles.map((f) => `- ${f}`).join("\n")}`);
+  }
+  if (parts.length === 0) return "";
+
+  return `\n\n## Repository Root Context (outside ${root.subdir}; not readable with tools)\n${parts.join("\n\n")}`;
+}
+
+/**
+ * Detected commands with the help text or script body each one runs
+ */
+function formatCommandList(scanResult: ScanResult): string {
+  return scanResult.commands
+    .map((c) => `- ${c.name}: ${c.command}${c.description ? ` — ${c.description}` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Entrypoints found by reading manifests and config rather than by the model
+ */
+function formatEntrypointList(scanResult: ScanResult): string {
+  return (scanResult.entrypoints ?? [])
+    .map((e) => `- ${e.path} (${e.type})${e.description ? ` — ${e.description}` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Format the repository details and scan results shared by the tool-calling prompts
+ */
+function formatRepoContext(repoInfo: RepoInfo, scanResult: ScanResult): string {
   const fileList = scanResult.files
     .filter((f) => !f.isDirectory)
     .slice(0, MAX_FILE_LIST_ITEMS)
     .map((f) => f.path)
     .join("\n");
 
-  const cmdList = scanResult.commands.map((c) => `- ${c.name}: ${c.command}`).join("\n");
-
-  const customSection = formatCustomPromptSection(customPrompt);
-
-  return `Analyze this GitHub repository and produce a comprehensive onboarding kit.
+  const cmdList = formatCommandList(scanResult);
 
-## Repository
+  return `## Repository
 - Name: ${repoInfo.fullName}
 - URL: ${repoInfo.url}
 - Branch: ${repoInfo.branch}
-
+${formatWorkspaceContext(repoInfo, scanResult)}
 ## Pre-detected Information
 Languages: ${scanResult.stack.languages.join(", ") || "Unknown"}
 Frameworks: ${scanResult.stack.frameworks.join(", ") || "None detected"}
@@ -103,11 +300,30 @@ Has CI: ${scanResult.stack.hasCi}
 Has Docker: ${scanResult.stack.hasDocker}
 
 ## File Tree Preview (first 50 files)
-${fileList}
+${fileList}${formatUnlistedFilesNote(scanResult)}
 
 ## Detected Commands
 ${cmdList || "None detected"}
 
+## Detected Entrypoints
+${formatEntrypointList(scanResult) || "None detected"}${formatRootContext(scanResult)}`;
+}
+
+/**
+ * Create the analysis prompt with scan results
+ */
+function createAnalysisPrompt(
+  repoInfo: RepoInfo,
+  scanResult: ScanResult,
+  options: BootcampOptions,
+  customPrompt?: string | null
+): string {
+  const customSection = formatCustomPromptSection(customPrompt);
+
+  return `Analyze this repository and produce a comprehensive onboarding kit.
+
+${formatRepoContext(repoInfo, scanResult)}
+
 ---
 
 ## Your Task
@@ -191,9 +407,7 @@ Return a JSON object with this exact structure. Include "sources" arrays citing
 }
 \`\`\`
 
-Focus: ${options.focus}
-Target audience: ${options.audience}
-${customSection}
+${formatAudienceFocusSection(options)}${customSection}
 
 Provide at least 8-10 first tasks of varying difficulty. Be specific about file paths.
 Set runbook.applicable = false for libraries/tools that aren't deployed as services.
@@ -249,7 +463,7 @@ function createFastAnalysisPrompt(
     .map((f) => f.path)
     .join("\n");
 
-  const cmdList = scanResult.commands.map((c) => `- ${c.name}: ${c.command}`).join("\n");
+  const cmdList = formatCommandList(scanResult);
 
   const customSection = formatCustomPromptSection(customPrompt);
 
@@ -259,7 +473,7 @@ function createFastAnalysisPrompt(
 - Name: ${repoInfo.fullName}
 - URL: ${repoInfo.url}
 - Branch: ${repoInfo.branch}
-
+${formatWorkspaceContext(repoInfo, scanResult)}
 ## Pre-detected Information
 Languages: ${scanResult.stack.languages.join(", ") || "Unknown"}
 Frameworks: ${scanResult.stack.frameworks.join(", ") || "None detected"}
@@ -272,6 +486,9 @@ ${fileList}
 ## Detected Commands
 ${cmdList || "None detected"}
 
+## Detected Entrypoints
+${formatEntrypointList(scanResult) || "None detected"}${formatRootContext(scanResult)}
+
 ## Key File Contents (READ THESE - no tools available)
 ${inlineContents.join("\n\n")}
 
@@ -372,9 +589,7 @@ Based on the above information, produce a JSON object. Follow this EXACT structu
 }
 \`\`\`
 
-Focus: ${options.focus}
-Target audience: ${options.audience}
-${customSection}
+${formatAudienceFocusSection(options)}${customSection}
 
 INSTRUCTIONS:
 1. Replace the example values above with actual data from this repository
@@ -386,28 +601,187 @@ IMPORTANT: Return ONLY the JSON object, no other text or markdown.`;
 }
 
 /**
- * Parse the JSON response from Copilot and validate against schema
+ * A section of RepoFacts requested on its own in sectioned analysis
  */
-function parseAndValidateRepoFacts(
-  response: string, 
-  verbose: boolean = false
-): { facts: ValidatedRepoFacts | null; errors?: string[]; warnings?: string[] } {
-  if (verbose) {
-    console.log("\n[DEBUG] Raw response length:", response.length);
-    console.log("[DEBUG] Response preview:", response.substring(0, 500));
-  }
+interface AnalysisSection {
+  name: SectionName;
+  title: string;
+  /** JSON structure the model must return */
+  skeleton: string;
+  instructions: string;
+  /** Optional sections are dropped on failure instead of falling back to empty values */
+  optional?: boolean;
+}
 
-  if (!response || response.trim().length === 0) {
-    return { facts: null, errors: ["Empty response received from Copilot"] };
+/**
+ * Sections requested independently in sectioned mode, in merge order
+ */
+const ANALYSIS_SECTIONS: AnalysisSection[] = [
+  {
+    name: "overview",
+    title: "overview",
+    skeleton: `{
+  "purpose": "one-line description",
+  "description": "2-3 sentence description",
+  "confidence": "high|medium|low",
+  "sources": ["README.md", "package.json"]
+}`,
+    instructions: "Read the README and the main manifest. Describe what the project does and who uses it.",
+  },
+  {
+    name: "quickstart",
+    title: "quickstart",
+    skeleton: `{
+  "quickstart": {
+    "prerequisites": [],
+    "steps": [],
+    "commands": [{"name": "", "command": "", "source": ""}],
+    "commonErrors": [{"error": "", "fix": ""}],
+    "sources": []
+  }
+}`,
+    instructions: "Read the README, manifests and setup docs. List prerequisites with versions, setup steps and the exact commands to install, build, test and run.",
+  },
+  {
+    name: "structure",
+    title: "structure",
+    skeleton: `{
+  "structure": {
+    "keyDirs": [{"path": "", "purpose": "", "keyFiles": []}],
+    "entrypoints": [{"path": "", "type": "main|binary|server|cli|web|library", "description": ""}],
+    "testDirs": [],
+    "docsDirs": [],
+    "sources": []
+  }
+}`,
+    instructions: "List the important directories with their purpose and key files, and the entry points. Be specific about file paths.",
+  },
+  {
+    name: "architecture",
+    title: "architecture",
+    skeleton: `{
+  "architecture": {
+    "overview": "",
+    "components": [{"name": "", "description": "", "directory": ""}],
+    "dataFlow": "",
+    "keyAbstractions": [{"name": "", "description": ""}],
+    "codeExamples": [{"title": "", "file": "", "code": "", "explanation": ""}],
+    "sources": []
+  }
+}`,
+    instructions: "Glance at the main entry point and 1-2 core modules. Include 2-4 codeExamples showing key patterns/usage (short snippets of 5-15 lines with explanations).",
+  },
+  {
+    name: "firstTasks",
+    title: "first tasks",
+    skeleton: `{
+  "firstTasks": [
+    {
+      "title": "",
+      "description": "",
+      "difficulty": "beginner|intermediate|advanced",
+      "category": "bug-fix|test|docs|refactor|feature",
+      "files": [],
+      "why": ""
+    }
+  ]
+}`,
+    instructions: "Provide at least 8-10 first tasks of varying difficulty. Be specific about file paths.",
+  },
+  {
+    name: "runbook",
+    title: "runbook",
+    skeleton: `{
+  "runbook": {
+    "applicable": true,
+    "deploySteps": [],
+    "observability": [],
+    "incidents": [{"name": "", "check": ""}],
+    "sources": []
+  }
+}`,
+    instructions: "Set runbook.applicable = false for libraries/tools that aren't deployed as services.",
+    optional: true,
+  },
+  {
+    name: "ciContrib",
+    title: "CI and contributing",
+    skeleton: `{
+  "ci": {
+    "workflows": [{"name": "", "file": "", "triggers": [], "mainSteps": []}],
+    "mainChecks": [],
+    "sources": []
+  },
+  "contrib": {
+    "howToAddFeature": [],
+    "howToAddTest": [],
+    "codeStyle": "",
+    "sources": []
   }
+}`,
+    instructions: "Read the CI workflows, CONTRIBUTING and PR templates. Describe the checks a change must pass and how to add a feature and a test.",
+  },
+];
+
+/**
+ * Values used for a required section that failed validation after retries
+ */
+const SECTION_FALLBACKS: Record<SectionName, Record<string, unknown>> = {
+  overview: { purpose: "", description: "" },
+  quickstart: { quickstart: { prerequisites: [], steps: [], commands: [] } },
+  structure: { structure: { keyDirs: [], entrypoints: [], testDirs: [], docsDirs: [] } },
+  architecture: { architecture: { overview: "", components: [] } },
+  firstTasks: { firstTasks: [] },
+  runbook: {},
+  ciContrib: {
+    ci: { workflows: [], mainChecks: [] },
+    contrib: { howToAddFeature: [], howToAddTest: [] },
+  },
+};
+
+/**
+ * Create the prompt for one section of a sectioned analysis
+ */
+function createSectionPrompt(
+  section: AnalysisSection,
+  repoInfo: RepoInfo,
+  scanResult: ScanResult,
+  options: BootcampOptions,
+  customPrompt?: string | null
+): string {
+  const customSection = formatCustomPromptSection(customPrompt);
+
+  return `Analyze this repository and produce the ${section.title} section of an onboarding kit.
+
+${formatRepoContext(repoInfo, scanResult)}
+
+---
+
+## Your Task
+
+Explore only what this section needs (max ${SECTION_TOOL_CALL_BUDGET} tool calls), then return ONLY a JSON object with this exact structure. Include "sources" arrays citing which files informed it:
+
+\`\`\`json
+${section.skeleton}
+\`\`\`
 
-  let parsed: unknown = null;
+${section.instructions}
 
+${formatAudienceFocusSection(options)}${customSection}
+
+Other sections are requested separately; return only the fields above.`;
+}
+
+/**
+ * Extract a JSON object from a model response: a ```json block, an object
+ * containing the marker key, or the whole response
+ */
+function extractJson(response: string, markerKey: string, verbose: boolean = false): unknown {
   // Try to find JSON in markdown code block
   const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
   if (jsonMatch) {
     try {
-      parsed = JSON.parse(jsonMatch[1]);
+      return JSON.parse(jsonMatch[1]);
     } catch (e: unknown) {
       if (verbose) {
         console.error("Failed to parse JSON from code block:", (e as Error).message);
@@ -416,29 +790,47 @@ function parseAndValidateRepoFacts(
   }
 
   // Try to find any JSON object in the response
-  if (!parsed) {
-    const jsonObjectMatch = response.match(/\{[\s\S]*"repoName"[\s\S]*\}/);
-    if (jsonObjectMatch) {
-      try {
-        parsed = JSON.parse(jsonObjectMatch[0]);
-      } catch (e: unknown) {
-        if (verbose) {
-          console.error("Failed to parse extracted JSON object:", (e as Error).message);
-        }
+  const jsonObjectMatch = response.match(new RegExp(`\\{[\\s\\S]*"${markerKey}"[\\s\\S]*\\}`));
+  if (jsonObjectMatch) {
+    try {
+      return JSON.parse(jsonObjectMatch[0]);
+    } catch (e: unknown) {
+      if (verbose) {
+        console.error("Failed to parse extracted JSON object:", (e as Error).message);
       }
     }
   }
 
   // Try to parse entire response as JSON
-  if (!parsed) {
-    try {
-      parsed = JSON.parse(response);
-    } catch (e: unknown) {
-      if (verbose) {
-        console.error("Failed to parse response as JSON:", (e as Error).message);
-      }
-      return { facts: null, errors: ["Could not find valid JSON in response"] };
+  try {
+    return JSON.parse(response);
+  } catch (e: unknown) {
+    if (verbose) {
+      console.error("Failed to parse response as JSON:", (e as Error).message);
     }
+    return null;
+  }
+}
+
+/**
+ * Parse the JSON response from Copilot and validate against schema
+ */
+function parseAndValidateRepoFacts(
+  response: string, 
+  verbose: boolean = false
+): { facts: ValidatedRepoFacts | null; errors?: string[]; warnings?: string[] } {
+  if (verbose) {
+    console.log("\n[DEBUG] Raw response length:", response.length);
+    console.log("[DEBUG] Response preview:", response.substring(0, 500));
+  }
+
+  if (!response || response.trim().length === 0) {
+    return { facts: null, errors: ["Empty response received from Copilot"] };
+  }
+
+  const parsed = extractJson(response, "repoName", verbose);
+  if (parsed === null) {
+    return { facts: null, errors: ["Could not find valid JSON in response"] };
   }
 
   // Validate against schema
@@ -457,33 +849,25 @@ function parseAndValidateRepoFacts(
   };
 }
 
-/**
- * Models to try in order of preference
- */
-const PREFERRED_MODELS = [
-  "claude-opus-4-5",
-  "claude-sonnet-4-5",
-  "claude-sonnet-4-20250514",
-];
-
 /**
  * Try to create a session with the preferred model, falling back to alternatives
  */
 async function createSessionWithFallback(
-  client: CopilotClient,
-  config: Parameters<CopilotClient["createSession"]>[0],
+  provider: LLMProvider,
+  config: Omit<ProviderSessionConfig, "model">,
   verbose: boolean = false,
   overrideModel?: string
-): Promise<{ session: Awaited<ReturnType<CopilotClient["createSession"]>>; model: string }> {
+): Promise<{ session: ProviderSession; model: string }> {
   // If a specific model is requested, try it first
-  const modelsToTry = overrideModel ? [overrideModel, ...PREFERRED_MODELS] : PREFERRED_MODELS;
+  const preferredModels = provider.preferredModels;
+  const modelsToTry = overrideModel ? [overrideModel, ...preferredModels] : preferredModels;
   
   for (const model of modelsToTry) {
     try {
       if (verbose) {
         console.log(chalk.gray(`Trying model: ${model}`));
       }
-      const session = await client.createSession({
+      const session = await provider.createSession({
         ...config,
         model,
       });
@@ -499,7 +883,7 @@ async function createSessionWithFallback(
   }
 
   // If all models failed, throw error
-  throw new Error(`No available models. Tried: ${PREFERRED_MODELS.join(", ")}`);
+  throw new Error(`No available models. Tried: ${preferredModels.join(", ")}`);
 }
 
 /**
@@ -512,6 +896,230 @@ export interface AnalysisStats {
   responseLength: number;
   startTime: number;
   endTime?: number;
+  /** Per-section results in sectioned mode */
+  sections?: SectionStats[];
+  usage?: UsageReport;
+}
+
+/**
+ * Outcome and timing of one section in sectioned mode
+ */
+export interface SectionStats {
+  name: SectionName;
+  durationMs: number;
+  /** Requests sent, including retries */
+  attempts: number;
+  success: boolean;
+  errors?: string[];
+}
+
+/**
+ * Send a prompt with its timeout capped by the budget. A session aborted for
+ * overrunning the budget keeps whatever it streamed before the abort.
+ */
+async function sendWithinBudget(
+  session: ProviderSession,
+  prompt: string,
+  budget: AnalysisBudget,
+  defaultTimeoutMs: number
+): Promise<void> {
+  const timeout = budget.timeoutFor(defaultTimeoutMs);
+  try {
+    await session.sendAndWait({ prompt }, timeout);
+  } catch (error: unknown) {
+    if (!budget.overrun()) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Request one section in its own session, retrying only that section on validation failure
+ */
+async function runSection(
+  session: ProviderSession,
+  section: AnalysisSection,
+  prompt: string,
+  stats: AnalysisStats,
+  budget: AnalysisBudget,
+  verbose: boolean
+): Promise<{ data: Record<string, unknown> | null; sectionStats: SectionStats }> {
+  const start = Date.now();
+  let response = "";
+
+  session.on((event: SessionEvent) => {
+    stats.totalEvents++;
+    budget.track(event, session);
+    if (event.type === "assistant.message_delta" && event.data.deltaContent) {
+      response += event.data.deltaContent;
+    }
+    if (event.type === "assistant.message" && event.data.content && !response) {
+      response = event.data.content;
+    }
+  });
+
+  const marker = section.skeleton.match(/"(\w+)"/)?.[1] ?? section.name;
+  let attempts = 0;
+  let errors: string[] = [];
+
+  while (attempts <= SECTION_MAX_RETRIES) {
+    const isRetry = attempts > 0;
+    const stopReason = isRetry ? budget.stopReason() : undefined;
+    if (stopReason) {
+      errors = [...errors, `Not retried: ${stopReason}`];
+      break;
+    }
+    const message = isRetry
+      ? `Your previous ${section.title} response had validation issues: ${getMissingFieldsSummary(errors)}
+
+Return ONLY a valid JSON object with this structure, starting with { and ending with }:
+${section.skeleton}`
+      : prompt;
+
+    attempts++;
+    response = "";
+    try {
+      await sendWithinBudget(session, message, budget, isRetry ? RETRY_TIMEOUT_MS : STANDARD_MODE_TIMEOUT_MS);
+    } catch (error: unknown) {
+      errors = [(error as Error).message];
+      break;
+    }
+    stats.responseLength += response.length;
+
+    const parsed = extractJson(response, marker, verbose);
+    const validation = parsed === null
+      ? { success: false, errors: ["Could not find valid JSON in response"] }
+      : validateSection(section.name, parsed);
+
+    if (validation.success && "data" in validation && validation.data) {
+      return {
+        data: validation.data,
+        sectionStats: { name: section.name, durationMs: Date.now() - start, attempts, success: true },
+      };
+    }
+    errors = validation.errors ?? ["Schema validation failed"];
+    if (verbose) {
+      console.log(chalk.yellow(`[Section ${section.name}] attempt ${attempts} failed: ${errors.slice(0, 3).join("; ")}`));
+    }
+  }
+
+  return {
+    data: null,
+    sectionStats: { name: section.name, durationMs: Date.now() - start, attempts, success: false, errors },
+  };
+}
+
+/**
+ * Put the detected entrypoints ahead of the model's, dropping the model's duplicates
+ * (trust deterministic detection, as with the stack)
+ */
+function mergeDetectedEntrypoints(facts: RepoFacts, scanResult: ScanResult): void {
+  if (!scanResult.entrypoints?.length) return;
+  facts.structure = {
+    ...facts.structure,
+    entrypoints: mergeEntrypoints(scanResult.entrypoints, facts.structure?.entrypoints ?? []),
+  };
+}
+
+/**
+ * Check the facts' cited paths, commands and code examples against the repo
+ */
+async function verifyFacts(
+  repoPath: string,
+  facts: RepoFacts,
+  scanResult: ScanResult,
+  verbose: boolean
+): Promise<RepoFacts> {
+  const verified = await verifyRepoFacts(repoPath, facts, scanResult);
+  const { checked, issues } = verified.verification!;
+  if (issues.length > 0) {
+    console.log(chalk.yellow(`\nVerification corrected ${issues.length} of ${checked} cited claims`));
+    if (verbose) {
+      issues.forEach((i) => console.log(chalk.yellow(`  - ${i.field}: ${i.value} (${i.reason}, ${i.action})`)));
+    }
+  }
+  return verified;
+}
+
+/**
+ * Run every analysis section concurrently in separate sessions and merge the results.
+ * Sections that still fail validation after retries fall back to empty values
+ * (marked low confidence) so good sections are never discarded.
+ */
+async function analyzeSections(
+  provider: LLMProvider,
+  sessionConfig: Omit<ProviderSessionConfig, "model">,
+  model: string,
+  firstSession: ProviderSession,
+  prompts: Map<SectionName, string>,
+  repoInfo: RepoInfo,
+  scanResult: ScanResult,
+  stats: AnalysisStats,
+  budget: AnalysisBudget,
+  options: BootcampOptions,
+  onProgress?: (message: string) => void
+): Promise<RepoFacts> {
+  const sessions = [firstSession];
+  for (let i = 1; i < ANALYSIS_SECTIONS.length; i++) {
+    sessions.push(await provider.createSession({ ...sessionConfig, model }));
+  }
+
+  let completed = 0;
+  const results = await Promise.all(
+    ANALYSIS_SECTIONS.map(async (section, i) => {
+      const result = await runSection(sessions[i], section, prompts.get(section.name)!, stats, budget, options.verbose);
+      completed++;
+      const { durationMs, attempts, success } = result.sectionStats;
+      const status = success ? chalk.green("ok") : chalk.red("failed");
+      if (options.verbose) {
+        console.log(chalk.gray(`[Section] ${section.name}: ${status} in ${(durationMs / 1000).toFixed(1)}s (${attempts} attempt${attempts === 1 ? "" : "s"})`));
+      } else if (onProgress) {
+        onProgress(`Sections ${completed}/${ANALYSIS_SECTIONS.length} (${section.name} ${success ? "done" : "failed"})`);
+      }
+      return { section, ...result };
+    })
+  );
+
+  stats.sections = results.map((r) => r.sectionStats);
+
+  const failed = results.filter((r) => !r.data);
+  if (failed.length === results.length) {
+    const reasons = failed.map((r) => `${r.section.name}: ${r.sectionStats.errors?.[0] ?? "unknown error"}`);
+    throw new Error(`All analysis sections failed (${reasons.join("; ")})`);
+  }
+
+  const merged: Record<string, unknown> = {
+    repoName: repoInfo.fullName,
+    stack: scanResult.stack,
+  };
+  const fieldConfidence: Record<string, "high" | "medium" | "low"> = {};
+
+  for (const { section, data } of results) {
+    if (data) {
+      Object.assign(merged, data);
+      continue;
+    }
+    console.log(chalk.yellow(`\nSection "${section.title}" failed after retries${section.optional ? "; omitting it" : "; using empty values"}`));
+    Object.assign(merged, SECTION_FALLBACKS[section.name]);
+    for (const key of Object.keys(SECTION_FALLBACKS[section.name])) {
+      fieldConfidence[key] = "low";
+    }
+  }
+
+  if (Object.keys(fieldConfidence).length > 0) {
+    merged.fieldConfidence = fieldConfidence;
+  }
+
+  const validation = validateRepoFacts(merged);
+  if (!validation.success || !validation.data) {
+    throw new Error(`Merged sections failed validation: ${validation.errors?.join(", ")}`);
+  }
+  if (validation.warnings && options.verbose) {
+    console.log(chalk.yellow("\n[Warnings]"));
+    validation.warnings.forEach(w => console.log(chalk.yellow(`  - ${w}`)));
+  }
+
+  return validation.data as unknown as RepoFacts;
 }
 
 /**
@@ -532,22 +1140,29 @@ export async function analyzeRepo(
     startTime: Date.now(),
   };
 
-  const client = new CopilotClient();
+  const provider = createSessionProvider(options.provider, options);
+  const budget = new AnalysisBudget(getBudgetLimits(options), provider.now?.bind(provider));
   const customPrompt = readCustomPrompt(repoPath, options.repoPrompts);
+  const customPromptSource = customPrompt
+    ? options.repoPrompts || path.join(repoPath, CUSTOM_PROMPT_FILE)
+    : null;
 
   if (customPrompt) {
-    const source = options.repoPrompts || path.join(repoPath, CUSTOM_PROMPT_FILE);
-    console.log(chalk.cyan(`📋 Custom prompts loaded from ${source} (${customPrompt.length} chars)`));
+    console.log(chalk.cyan(`📋 Custom prompts loaded from ${customPromptSource} (${customPrompt.length} chars)`));
+  }
+  if (options.prompts?.system || options.prompts?.analysis) {
+    console.log(chalk.cyan(`📋 Prompt overrides from config (${options.prompts.mode || "append"} mode)`));
   }
 
   // Fast mode: no tools, inline file contents
   if (options.fast) {
     try {
+      const systemPrompt = resolveSystemPrompt(FAST_SYSTEM_PROMPT, options.prompts);
       const { session, model } = await createSessionWithFallback(
-        client,
+        provider,
         {
           streaming: true,
-          systemMessage: { content: "You are an expert software architect. Analyze repositories and produce JSON output." },
+          systemMessage: { content: systemPrompt },
           // No tools in fast mode
         },
         options.verbose,
@@ -558,11 +1173,16 @@ export async function analyzeRepo(
       console.log(chalk.blue(`\nUsing model: ${model}`));
       console.log(chalk.yellow(`⚡ Fast mode: no tools, inline file contents\n`));
 
-      const prompt = createFastAnalysisPrompt(repoPath, repoInfo, scanResult, options, customPrompt);
+      const prompt = resolveAnalysisPrompt(
+        createFastAnalysisPrompt(repoPath, repoInfo, scanResult, options, customPrompt),
+        options.prompts,
+        customPrompt
+      );
       let fullResponse = "";
 
       session.on((event: SessionEvent) => {
         stats.totalEvents++;
+        budget.track(event, session);
         if (event.type === "assistant.message_delta") {
           const delta = event.data.deltaContent;
           if (delta) {
@@ -574,14 +1194,17 @@ export async function analyzeRepo(
         }
       });
 
-      await session.sendAndWait({ prompt }, FAST_MODE_TIMEOUT_MS);
+      await sendWithinBudget(session, prompt, budget, FAST_MODE_TIMEOUT_MS);
       stats.responseLength = fullResponse.length;
       stats.endTime = Date.now();
 
       const { facts, errors, warnings } = parseAndValidateRepoFacts(fullResponse, options.verbose);
       
       if (!facts) {
-        throw new Error(`Analysis failed: ${errors?.join(", ") || "Unknown error"}`);
+        const stopReason = budget.stopReason();
+        throw new Error(
+          `Analysis failed: ${errors?.join(", ") || "Unknown error"}${stopReason ? ` (${stopReason})` : ""}`
+        );
       }
 
       if (warnings?.length) {
@@ -589,40 +1212,62 @@ export async function analyzeRepo(
         warnings.forEach(w => console.log(chalk.yellow(`  - ${w}`)));
       }
 
-      return { facts: facts as RepoFacts, stats };
+      const effectivePrompts: EffectivePrompts = {
+        system: systemPrompt,
+        analysis: prompt,
+        sources: describePromptSources(options.prompts, customPromptSource),
+      };
+      mergeDetectedEntrypoints(facts as RepoFacts, scanResult);
+      const verified = await verifyFacts(repoPath, facts as RepoFacts, scanResult, options.verbose);
+      stats.usage = budget.report();
+      return { facts: { ...verified, effectivePrompts, usage: stats.usage }, stats };
     } catch (error: unknown) {
       throw new Error(`Fast analysis failed: ${(error as Error).message}`);
     }
   }
 
-  // Standard mode with tools
-  const tools = getRepoTools({
+  const reportToolCall = (name: string, args: unknown) => {
+    const argsStr = JSON.stringify(args).substring(0, 100);
+    stats.toolCalls.push({ name, args: argsStr });
+    if (options.verbose) {
+      console.log(chalk.cyan(`\n[Tool Call] ${name}`), chalk.gray(argsStr));
+    } else if (onProgress) {
+      onProgress(`Tool: ${name}`);
+    }
+  };
+  // On --replay the tools don't run, so recorded calls are counted from the recording
+  const onReplayedTool = (call: ReplayedToolCall) => {
+    if (budget.recordToolCall(call.name, call.result)) {
+      reportToolCall(call.name, call.args);
+    }
+  };
+
+  // Standard mode with tools, counted and capped by the budget
+  const tools = budget.wrapTools(getRepoTools({
     repoPath,
     verbose: options.verbose,
-    onToolCall: (name, args) => {
-      const argsStr = JSON.stringify(args).substring(0, 100);
-      stats.toolCalls.push({ name, args: argsStr });
-      if (options.verbose) {
-        console.log(chalk.cyan(`\n[Tool Call] ${name}`), chalk.gray(argsStr));
-      } else if (onProgress) {
-        onProgress(`Tool: ${name}`);
-      }
-    },
+    symbols: scanResult.symbols,
+    retrieval: scanResult.retrieval,
+    ignore: scanResult.ignore,
+    runCommand: options.runCommand,
+    onToolCall: reportToolCall,
     onToolResult: (name, result) => {
       if (options.verbose) {
         console.log(chalk.green(`[Tool Result] ${name}:`), chalk.gray(result.substring(0, 100)));
       }
     },
-  });
+  }));
 
   try {
     // Create session with best available model and tools
+    const systemPrompt = resolveSystemPrompt(SYSTEM_PROMPT, options.prompts);
     const { session, model } = await createSessionWithFallback(
-      client,
+      provider,
       {
         streaming: true,
-        systemMessage: { content: SYSTEM_PROMPT },
+        systemMessage: { content: systemPrompt },
         tools,
+        onReplayedTool,
       },
       options.verbose,
       options.model
@@ -632,12 +1277,62 @@ export async function analyzeRepo(
     console.log(chalk.blue(`\nUsing model: ${model}`));
     console.log(chalk.gray(`Tools available: ${tools.map((t) => t.name).join(", ")}\n`));
 
-    const prompt = createAnalysisPrompt(repoInfo, scanResult, options, customPrompt);
+    if (options.sectioned) {
+      console.log(chalk.gray(`Sectioned mode: ${ANALYSIS_SECTIONS.length} sections in parallel\n`));
+
+      // A replacement analysis prompt can't stand in for every section, so config guidance is appended
+      const sectionOverrides: PromptOverrides | undefined =
+        options.prompts?.analysis ? { ...options.prompts, mode: "append" } : options.prompts;
+      const sectionPrompts = new Map(
+        ANALYSIS_SECTIONS.map((section) => [
+          section.name,
+          resolveAnalysisPrompt(
+            createSectionPrompt(section, repoInfo, scanResult, options, customPrompt),
+            sectionOverrides,
+            customPrompt
+          ) + budget.describe(),
+        ])
+      );
+
+      const merged = await analyzeSections(
+        provider,
+        { streaming: true, systemMessage: { content: systemPrompt }, tools, onReplayedTool },
+        model,
+        session,
+        sectionPrompts,
+        repoInfo,
+        scanResult,
+        stats,
+        budget,
+        options,
+        onProgress
+      );
+      stats.endTime = Date.now();
+      mergeDetectedEntrypoints(merged, scanResult);
+      const facts = await verifyFacts(repoPath, merged, scanResult, options.verbose);
+      stats.usage = facts.usage = budget.report();
+
+      facts.effectivePrompts = {
+        system: systemPrompt,
+        analysis: [...sectionPrompts].map(([name, text]) => `## Section: ${name}\n\n${text}`).join("\n\n"),
+        sources: describePromptSources(options.prompts, customPromptSource),
+      };
+
+      await provider.stop();
+      return { facts, stats };
+    }
+
+    const prompt = resolveAnalysisPrompt(
+      createAnalysisPrompt(repoInfo, scanResult, options, customPrompt),
+      options.prompts,
+      customPrompt
+    ) + budget.describe();
     let fullResponse = "";
 
     // Set up event handlers
     session.on((event: SessionEvent) => {
       stats.totalEvents++;
+      budget.track(event, session);
       const eventAny = event as Record<string, unknown>;
 
       // Stream deltas (actual response text)
@@ -679,7 +1374,7 @@ export async function analyzeRepo(
     });
 
     // Send the analysis prompt
-    await session.sendAndWait({ prompt }, STANDARD_MODE_TIMEOUT_MS); // 10 minute timeout for tool-calling
+    await sendWithinBudget(session, prompt, budget, STANDARD_MODE_TIMEOUT_MS); // 10 minute timeout for tool-calling
 
     stats.endTime = Date.now();
     stats.responseLength = fullResponse.length;
@@ -695,8 +1390,8 @@ export async function analyzeRepo(
     let retryCount = 0;
     const maxRetries = 2;
 
-    // Retry with targeted prompts if validation fails
-    while (!result.facts && retryCount < maxRetries) {
+    // Retry with targeted prompts if validation fails (never once a budget is spent)
+    while (!result.facts && retryCount < maxRetries && !budget.exhausted()) {
       retryCount++;
       const errorSummary = result.errors ? getMissingFieldsSummary(result.errors) : "Invalid JSON structure";
       
@@ -721,7 +1416,7 @@ No markdown, no explanations, just the JSON object starting with { and ending wi
 - firstTasks: [{ title, description, difficulty, category, files, why }]`;
 
       fullResponse = "";
-      await session.sendAndWait({ prompt: retryPrompt }, 300000);
+      await sendWithinBudget(session, retryPrompt, budget, RETRY_TIMEOUT_MS);
       result = parseAndValidateRepoFacts(fullResponse, options.verbose);
     }
 
@@ -732,7 +1427,8 @@ No markdown, no explanations, just the JSON object starting with { and ending wi
         result.errors.forEach(e => console.error(chalk.red(`  - ${e}`)));
       }
       console.error(chalk.gray("\nResponse preview:"), fullResponse.substring(0, 1000));
-      throw new Error("Failed to parse repo facts from Copilot response");
+      const stopReason = budget.stopReason();
+      throw new Error(`Failed to parse repo facts from Copilot response${stopReason ? ` (${stopReason})` : ""}`);
     }
 
     // Log any warnings
@@ -752,12 +1448,23 @@ No markdown, no explanations, just the JSON object starting with { and ending wi
         ...new Set([...scanResult.stack.frameworks, ...(facts.stack?.frameworks || [])]),
       ],
     };
+    mergeDetectedEntrypoints(facts, scanResult);
+
+    facts = await verifyFacts(repoPath, facts, scanResult, options.verbose);
+    stats.usage = facts.usage = budget.report();
+
+    // Record the prompts that produced these facts
+    facts.effectivePrompts = {
+      system: systemPrompt,
+      analysis: prompt,
+      sources: describePromptSources(options.prompts, customPromptSource),
+    };
 
-    await client.stop();
+    await provider.stop();
 
     return { facts, stats };
   } catch (error) {
-    await client.stop();
+    await provider.stop();
     throw error;
   }
 }
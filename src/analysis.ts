@@ -19,17 +19,22 @@ export interface ParallelAnalysisResult {
 /**
  * Run security, radar, impact, and deps analyzers concurrently.
  * Each analyzer starts as early as its dependencies allow; independent
- * branches (deps, security, impacts) execute in parallel via Promise.all.
+ * branches (deps, impacts) execute in parallel via Promise.all, and
+ * security follows deps so it can check the lockfile.
+ *
+ * @param rootPath - Repository root when repoPath is a workspace package or
+ *   --path subdirectory, so a lockfile committed at the root is found
  */
 export async function runParallelAnalysis(
   repoPath: string,
   scanResult: ScanResult,
   progress?: ProgressTracker,
+  rootPath?: string,
 ): Promise<ParallelAnalysisResult> {
   progress?.update("Running analyzers in parallel…");
 
   // --- independent branches, kicked off immediately ---
-  const depsPromise = extractDependencies(repoPath).then((deps) => {
+  const depsPromise = extractDependencies(repoPath, rootPath).then((deps) => {
     if (deps) {
       const allDepNames = [
         ...deps.runtime.map(d => d.name),
@@ -48,8 +53,8 @@ export async function runParallelAnalysis(
     .then((pkgContent) => JSON.parse(pkgContent) as Record<string, unknown>)
     .catch(() => undefined);
 
-  const securityPromise = packageJsonPromise.then((packageJson) =>
-    analyzeSecurityPatterns(repoPath, scanResult.files, packageJson)
+  const securityPromise = Promise.all([packageJsonPromise, depsPromise]).then(([packageJson, deps]) =>
+    analyzeSecurityPatterns(repoPath, scanResult.files, packageJson, deps?.lockfile)
   ).then((security) => {
     progress?.update("security ✓");
     return security;
@@ -0,0 +1,259 @@
+/**
+ * Analysis Budgets
+ *
+ * Enforces --max-tool-calls, --max-tokens and --timeout for an analysis run and
+ * keeps the usage report (tokens, tool calls by tool, bytes read).
+ *
+ * Budgets are enforced where the agent spends them: tool handlers are wrapped
+ * to count calls and refuse once a budget is spent, token usage comes from
+ * `assistant.usage` events, and session timeouts are capped by the time left.
+ * When a budget is nearly spent, tool results tell the model to wrap up and
+ * produce its JSON so the run ends with output instead of a hard failure.
+ * A session that runs past its token or time budget, or keeps calling tools
+ * after being refused, is aborted, and no retries are sent once a budget is spent.
+ */
+
+import type { SessionEvent, Tool } from "@github/copilot-sdk";
+import { toolResultText, type ProviderSession } from "./providers.js";
+import type { BootcampOptions, BudgetLimits, UsageReport } from "./types.js";
+
+/** Fraction of a budget after which the model is told to wrap up */
+const WRAP_UP_THRESHOLD = 0.8;
+
+type BudgetKind = NonNullable<UsageReport["exhausted"]>;
+
+const BUDGET_LABELS: Record<BudgetKind, string> = {
+  toolCalls: "tool-call",
+  tokens: "token",
+  timeout: "time",
+};
+
+/**
+ * Wrap-up note appended to tool results once a budget is nearly spent
+ */
+function nearlySpentNote(kind: BudgetKind): string {
+  return `\n\n[Budget] The ${BUDGET_LABELS[kind]} budget is nearly spent. Stop exploring and return the final JSON.`;
+}
+
+/**
+ * Read budget limits from CLI options
+ */
+export function getBudgetLimits(options: Pick<BootcampOptions, "maxToolCalls" | "maxTokens" | "timeout">): BudgetLimits {
+  return {
+    ...(options.maxToolCalls ? { maxToolCalls: options.maxToolCalls } : {}),
+    ...(options.maxTokens ? { maxTokens: options.maxTokens } : {}),
+    ...(options.timeout ? { timeoutMs: options.timeout * 1000 } : {}),
+  };
+}
+
+/**
+ * Describe budget limits for display, e.g. "20 tool calls, 120s"
+ */
+export function formatBudgetLimits(limits: BudgetLimits): string {
+  const parts: string[] = [];
+  if (limits.maxToolCalls !== undefined) parts.push(`${limits.maxToolCalls} tool calls`);
+  if (limits.maxTokens !== undefined) parts.push(`${limits.maxTokens} tokens`);
+  if (limits.timeoutMs !== undefined) parts.push(`${Math.round(limits.timeoutMs / 1000)}s`);
+  return parts.join(", ");
+}
+
+/**
+ * Tracks usage against the limits of one analysis run
+ */
+export class AnalysisBudget {
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private cost: number | undefined;
+  private toolCallsByName: Record<string, number> = {};
+  private toolCalls = 0;
+  private bytesRead = 0;
+  private refusedToolCalls = 0;
+  private readonly abortedSessions = new WeakSet<ProviderSession>();
+  private readonly startTime: number;
+  private exhaustedKind: BudgetKind | undefined;
+
+  constructor(
+    readonly limits: BudgetLimits = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.startTime = now();
+  }
+
+  /**
+   * Record token usage from a session event
+   */
+  recordEvent(event: SessionEvent): void {
+    if (event.type !== "assistant.usage") return;
+    this.inputTokens += event.data.inputTokens ?? 0;
+    this.outputTokens += event.data.outputTokens ?? 0;
+    if (event.data.cost !== undefined) {
+      this.cost = (this.cost ?? 0) + event.data.cost;
+    }
+  }
+
+  /**
+   * The first budget that has run out, if any
+   */
+  exhausted(): BudgetKind | undefined {
+    const { maxToolCalls, maxTokens, timeoutMs } = this.limits;
+    const kind: BudgetKind | undefined =
+      maxToolCalls !== undefined && this.toolCalls >= maxToolCalls ? "toolCalls"
+        : maxTokens !== undefined && this.inputTokens + this.outputTokens >= maxTokens ? "tokens"
+          : timeoutMs !== undefined && this.now() - this.startTime >= timeoutMs ? "timeout"
+            : undefined;
+    this.exhaustedKind ??= kind;
+    return kind;
+  }
+
+  /**
+   * The budget a session has run past and must be stopped for, if any: tokens or time
+   * spent, or a tool call attempted after the tool-call budget refused one
+   * (a spent tool-call budget alone still lets the model return its JSON)
+   */
+  overrun(): BudgetKind | undefined {
+    const kind = this.exhausted();
+    if (!kind) return undefined;
+    const { maxTokens, timeoutMs } = this.limits;
+    if (maxTokens !== undefined && this.inputTokens + this.outputTokens >= maxTokens) return "tokens";
+    if (timeoutMs !== undefined && this.now() - this.startTime >= timeoutMs) return "timeout";
+    return this.refusedToolCalls > 0 ? kind : undefined;
+  }
+
+  /**
+   * Record a session event and abort the session once it has overrun a budget
+   */
+  track(event: SessionEvent, session: ProviderSession): void {
+    this.recordEvent(event);
+    if (!this.abortedSessions.has(session) && this.overrun()) {
+      this.abortedSessions.add(session);
+      session.abort?.().catch(() => {
+        // The session may already be idle
+      });
+    }
+  }
+
+  /**
+   * The first budget past the wrap-up threshold, if any
+   */
+  nearlySpent(): BudgetKind | undefined {
+    const { maxToolCalls, maxTokens, timeoutMs } = this.limits;
+    if (maxToolCalls !== undefined && this.toolCalls >= maxToolCalls * WRAP_UP_THRESHOLD) return "toolCalls";
+    if (maxTokens !== undefined && this.inputTokens + this.outputTokens >= maxTokens * WRAP_UP_THRESHOLD) return "tokens";
+    if (timeoutMs !== undefined && this.now() - this.startTime >= timeoutMs * WRAP_UP_THRESHOLD) return "timeout";
+    return undefined;
+  }
+
+  /**
+   * Why the run has to stop, once a budget is spent
+   */
+  stopReason(): string | undefined {
+    const spent = this.exhausted();
+    return spent ? `the ${BUDGET_LABELS[spent]} budget is exhausted` : undefined;
+  }
+
+  /**
+   * Session timeout for the next request: the default, capped by the time budget left
+   * @throws Error if the time budget is already spent
+   */
+  timeoutFor(defaultMs: number): number {
+    if (this.limits.timeoutMs === undefined) {
+      return defaultMs;
+    }
+    const remaining = this.limits.timeoutMs - (this.now() - this.startTime);
+    if (remaining <= 0) {
+      this.exhaustedKind ??= "timeout";
+      throw new Error(`Analysis exceeded the --timeout budget of ${Math.round(this.limits.timeoutMs / 1000)}s`);
+    }
+    return Math.min(defaultMs, remaining);
+  }
+
+  /**
+   * Prompt section telling the model about hard limits
+   */
+  describe(): string {
+    const lines: string[] = [];
+    if (this.limits.maxToolCalls !== undefined) {
+      lines.push(`- At most ${this.limits.maxToolCalls} tool calls in total; further calls will be refused`);
+    }
+    if (this.limits.maxTokens !== undefined) {
+      lines.push(`- At most ${this.limits.maxTokens} tokens in total`);
+    }
+    if (this.limits.timeoutMs !== undefined) {
+      lines.push(`- At most ${Math.round(this.limits.timeoutMs / 1000)} seconds in total`);
+    }
+    if (lines.length === 0) return "";
+    return `\n## Budget\n${lines.join("\n")}\nWhen told the budget is nearly spent, stop exploring and return the JSON.\n`;
+  }
+
+  /**
+   * Wrap tool handlers so every call is counted and refused once a budget is spent
+   */
+  wrapTools(tools: Tool<unknown>[]): Tool<unknown>[] {
+    return tools.map((tool): Tool<unknown> => ({
+      ...tool,
+      handler: async (args, invocation) => {
+        const spent = this.exhausted();
+        if (spent) {
+          this.refusedToolCalls++;
+          return {
+            textResultForLlm: `The ${BUDGET_LABELS[spent]} budget is exhausted. Do not call any more tools; return the final JSON now using what you have gathered.`,
+            resultType: "failure" as const,
+          };
+        }
+
+        this.toolCalls++;
+        this.toolCallsByName[tool.name] = (this.toolCallsByName[tool.name] ?? 0) + 1;
+        const result = await tool.handler(args, invocation);
+        const text = toolResultText(result);
+        this.bytesRead += Buffer.byteLength(text, "utf-8");
+
+        const nearly = this.nearlySpent();
+        if (!nearly) {
+          return result;
+        }
+        const note = nearlySpentNote(nearly);
+        return typeof result === "string"
+          ? result + note
+          : { ...(result as object), textResultForLlm: text + note };
+      },
+    }));
+  }
+
+  /**
+   * Count a tool call served from a recording the way wrapTools counts a live one
+   * @returns false if the call was refused because a budget was already spent
+   */
+  recordToolCall(name: string, result: string): boolean {
+    if (this.exhausted()) {
+      this.refusedToolCalls++;
+      return false;
+    }
+
+    this.toolCalls++;
+    this.toolCallsByName[name] = (this.toolCallsByName[name] ?? 0) + 1;
+    // The recorded result carries the wrap-up note wrapTools appended; the live count excludes it
+    const nearly = this.nearlySpent();
+    const note = nearly ? nearlySpentNote(nearly) : "";
+    const text = note && result.endsWith(note) ? result.slice(0, -note.length) : result;
+    this.bytesRead += Buffer.byteLength(text, "utf-8");
+    return true;
+  }
+
+  /**
+   * Usage so far
+   */
+  report(): UsageReport {
+    this.exhausted();
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      ...(this.cost !== undefined ? { cost: this.cost } : {}),
+      toolCalls: this.toolCalls,
+      toolCallsByName: { ...this.toolCallsByName },
+      bytesRead: this.bytesRead,
+      durationMs: this.now() - this.startTime,
+      limits: this.limits,
+      ...(this.exhaustedKind ? { exhausted: this.exhaustedKind } : {}),
+    };
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Cache layer for analysis results
- * Stores/retrieves RepoFacts by repo fullName + commit SHA
+ * Stores/retrieves RepoFacts and retrieval indexes by repo fullName + commit SHA
+ * (facts are additionally keyed on the options that shape the analysis prompt)
  * Cache location: ~/.cache/repo-bootcamp/
  */
 
@@ -8,29 +9,68 @@ import { mkdir, readFile, writeFile, readdir, rm, stat } from "fs/promises";
 import { join } from "path";
 import { homedir } from "os";
 import { createHash } from "crypto";
-import type { RepoFacts } from "./types.js";
+import type { BootcampOptions, RepoFacts, RepoInfo, RetrievalIndex } from "./types.js";
 
 const CACHE_DIR = join(homedir(), ".cache", "repo-bootcamp");
 const CACHE_VERSION = 1;
+/** Bump when tokenization or chunking changes so stale indexes are rebuilt */
+const INDEX_CACHE_VERSION = 1;
 
 interface CacheEntry {
   version: number;
   repoFullName: string;
   commitSha: string;
+  variant?: string;
   createdAt: string;
   facts: RepoFacts;
 }
 
+interface IndexCacheEntry {
+  version: number;
+  repoFullName: string;
+  commitSha: string;
+  createdAt: string;
+  index: RetrievalIndex;
+}
+
 /**
- * Build a cache key from repo name and commit SHA
+ * Name a repo's analysis is cached under; analyses scoped to a subdirectory get their own entries
  */
-function cacheKey(repoFullName: string, commitSha: string): string {
+export function cacheName(repoInfo: RepoInfo): string {
+  return repoInfo.subdir ? `${repoInfo.fullName}/${repoInfo.subdir}` : repoInfo.fullName;
+}
+
+/**
+ * Fingerprint of the options that shape the analysis prompt and model
+ * (focus, audience, prompt overrides, repo prompt file, provider/model, analysis mode),
+ * so facts produced under one configuration are never served to another
+ */
+export function analysisVariant(options: BootcampOptions, repoPrompt?: string | null): string {
+  const shape = {
+    focus: options.focus,
+    audience: options.audience,
+    prompts: options.prompts ?? null,
+    repoPrompt: repoPrompt ?? null,
+    provider: options.provider
+      ? { name: options.provider.name, baseUrl: options.provider.baseUrl, models: options.provider.models }
+      : null,
+    model: options.model ?? null,
+    fast: !!options.fast,
+    sectioned: !!options.sectioned,
+  };
+  return createHash("sha256").update(JSON.stringify(shape)).digest("hex").substring(0, 16);
+}
+
+/**
+ * Build a cache key from repo name, commit SHA and optional analysis variant
+ */
+function cacheKey(repoFullName: string, commitSha: string, extension = ".json", variant = ""): string {
   const hash = createHash("sha256")
-    .update(`${repoFullName}@${commitSha}`)
+    .update(variant ? `${repoFullName}@${commitSha}#${variant}` : `${repoFullName}@${commitSha}`)
     .digest("hex")
     .substring(0, 16);
   const safeName = repoFullName.replace(/\//g, "-");
-  return `${safeName}-${hash}.json`;
+  return `${safeName}-${hash}${extension}`;
 }
 
 /**
@@ -46,17 +86,19 @@ async function ensureCacheDir(): Promise<void> {
  */
 export async function readCache(
   repoFullName: string,
-  commitSha: string
+  commitSha: string,
+  variant = ""
 ): Promise<RepoFacts | null> {
   try {
-    const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha));
+    const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha, ".json", variant));
     const raw = await readFile(filePath, "utf-8");
     const entry: CacheEntry = JSON.parse(raw);
 
     if (
       entry.version !== CACHE_VERSION ||
       entry.repoFullName !== repoFullName ||
-      entry.commitSha !== commitSha
+      entry.commitSha !== commitSha ||
+      (entry.variant ?? "") !== variant
     ) {
       return null;
     }
@@ -73,7 +115,8 @@ export async function readCache(
 export async function writeCache(
   repoFullName: string,
   commitSha: string,
-  facts: RepoFacts
+  facts: RepoFacts,
+  variant = ""
 ): Promise<void> {
   await ensureCacheDir();
 
@@ -81,14 +124,65 @@ export async function writeCache(
     version: CACHE_VERSION,
     repoFullName,
     commitSha,
+    ...(variant ? { variant } : {}),
     createdAt: new Date().toISOString(),
     facts,
   };
 
-  const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha));
+  const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha, ".json", variant));
   await writeFile(filePath, JSON.stringify(entry, null, 2), "utf-8");
 }
 
+/**
+ * Read a cached retrieval index
+ * Returns null if no cache hit or cache is invalid
+ */
+export async function readIndexCache(
+  repoFullName: string,
+  commitSha: string
+): Promise<RetrievalIndex | null> {
+  try {
+    const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha, ".index.json"));
+    const raw = await readFile(filePath, "utf-8");
+    const entry: IndexCacheEntry = JSON.parse(raw);
+
+    if (
+      entry.version !== INDEX_CACHE_VERSION ||
+      entry.repoFullName !== repoFullName ||
+      entry.commitSha !== commitSha ||
+      !Array.isArray(entry.index?.chunks)
+    ) {
+      return null;
+    }
+
+    return entry.index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a retrieval index to cache
+ */
+export async function writeIndexCache(
+  repoFullName: string,
+  commitSha: string,
+  index: RetrievalIndex
+): Promise<void> {
+  await ensureCacheDir();
+
+  const entry: IndexCacheEntry = {
+    version: INDEX_CACHE_VERSION,
+    repoFullName,
+    commitSha,
+    createdAt: new Date().toISOString(),
+    index,
+  };
+
+  const filePath = join(CACHE_DIR, cacheKey(repoFullName, commitSha, ".index.json"));
+  await writeFile(filePath, JSON.stringify(entry), "utf-8");
+}
+
 /**
  * Clear all cached entries
  */
@@ -0,0 +1,514 @@
+/**
+ * CI Pipeline Parsing
+ * Reads GitHub Actions workflows, GitLab CI, CircleCI and Azure Pipelines
+ * configuration and declarative Jenkinsfiles into pipelines of jobs: their
+ * steps (shell commands and the actions, orbs, tasks or templates they use),
+ * matrix axes, service containers, dependencies and triggers.
+ */
+
+import { readFile } from "fs/promises";
+import { basename, join } from "path";
+import { parse as parseYaml } from "yaml";
+import type { CIJob, CIStep, CISystem, CIWorkflow, FileInfo } from "./types.js";
+
+/** Shell commands listed as a pipeline's main steps */
+const MAX_MAIN_STEPS = 15;
+
+/** Merge keys are common in GitLab and CircleCI config; custom tags such as !reference parse as plain values */
+const YAML_OPTIONS = { merge: true, uniqueKeys: false, logLevel: "silent" } as const;
+
+/** Top-level .gitlab-ci.yml keys that configure the pipeline rather than declare a job */
+const GITLAB_RESERVED_KEYS = new Set([
+  "image",
+  "services",
+  "stages",
+  "types",
+  "before_script",
+  "after_script",
+  "variables",
+  "cache",
+  "include",
+  "workflow",
+  "default",
+  "spec",
+]);
+
+/** Stages GitLab uses when .gitlab-ci.yml lists none */
+const GITLAB_DEFAULT_STAGES = [".pre", "build", "test", "deploy", ".post"];
+
+/** Azure Pipelines step keys that run a script */
+const AZURE_SCRIPT_KEYS = ["script", "bash", "pwsh", "powershell"];
+
+type YamlMap = Record<string, unknown>;
+
+function asMap(value: unknown): YamlMap {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as YamlMap) : {};
+}
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value.flat(2) : [value];
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  return typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+}
+
+function textList(value: unknown): string[] {
+  return asList(value)
+    .map(asText)
+    .filter((v): v is string => v !== undefined);
+}
+
+function step(fields: { name?: string; run?: string; uses?: string }): CIStep {
+  const result: CIStep = {};
+  if (fields.name) result.name = fields.name;
+  if (fields.run?.trim()) result.run = fields.run.trim();
+  if (fields.uses) result.uses = fields.uses;
+  return result;
+}
+
+function isEmptyStep(s: CIStep): boolean {
+  return !s.run && !s.uses;
+}
+
+/**
+ * Matrix axes with list values; include/exclude-style keys are skipped
+ */
+function matrixAxes(matrix: YamlMap, reserved: string[] = []): Record<string, string[]> {
+  const axes: Record<string, string[]> = {};
+  for (const [axis, values] of Object.entries(matrix)) {
+    if (reserved.includes(axis) || !Array.isArray(values)) continue;
+    axes[axis] = values.map((v) => asText(v) ?? JSON.stringify(v));
+  }
+  return axes;
+}
+
+/**
+ * First lines of the pipeline's shell commands, deduplicated
+ */
+function mainSteps(jobs: CIJob[]): string[] {
+  const commands = jobs.flatMap((job) =>
+    job.steps.map((s) => s.run?.split("\n")[0].trim()).filter((c): c is string => Boolean(c))
+  );
+  return [...new Set(commands)].slice(0, MAX_MAIN_STEPS);
+}
+
+function pipeline(
+  name: string,
+  file: string,
+  system: CISystem,
+  triggers: string[],
+  jobs: CIJob[],
+  stages?: string[]
+): CIWorkflow {
+  return { name, file, triggers, mainSteps: mainSteps(jobs), system, ...(stages ? { stages } : {}), jobs };
+}
+
+/**
+ * CI system a repository file configures, or null if it is not CI configuration
+ */
+export function ciSystemFor(path: string): CISystem | null {
+  if (/^\.github\/workflows\/[^/]+\.ya?ml$/.test(path)) return "github-actions";
+  if (/^\.gitlab-ci\.ya?ml$/.test(path)) return "gitlab-ci";
+  if (/^\.circleci\/config\.ya?ml$/.test(path)) return "circleci";
+  if (/^(?:\.?azure-pipelines\.ya?ml|\.azure-pipelines\/[^/]+\.ya?ml)$/.test(path)) return "azure-pipelines";
+  if (path === "Jenkinsfile") return "jenkins";
+  return null;
+}
+
+/**
+ * GitHub Actions workflow: one pipeline per file
+ */
+export function parseGitHubActions(content: string, file: string): CIWorkflow[] {
+  const doc = asMap(parseYaml(content, YAML_OPTIONS));
+  const triggers = Array.isArray(doc.on) || typeof doc.on === "string" ? textList(doc.on) : Object.keys(asMap(doc.on));
+
+  const jobs = Object.entries(asMap(doc.jobs)).map(([id, value]): CIJob => {
+    const job = asMap(value);
+    const runsOn = job["runs-on"];
+    const runner = asText(runsOn) ?? (Array.isArray(runsOn) ? textList(runsOn).join(", ") : undefined) ??
+      (textList(asMap(runsOn).labels).join(", ") || asText(asMap(runsOn).group));
+    // Jobs that call a reusable workflow have no steps of their own
+    const steps = job.uses
+      ? [step({ uses: asText(job.uses) })]
+      : asList(job.steps).map((s) => step({ name: asText(asMap(s).name), run: asText(asMap(s).run), uses: asText(asMap(s).uses) }));
+
+    return {
+      id,
+      name: asText(job.name) ?? id,
+      ...(runner ? { runsOn: runner } : {}),
+      needs: textList(job.needs),
+      steps: steps.filter((s) => !isEmptyStep(s)),
+      matrix: matrixAxes(asMap(asMap(job.strategy).matrix), ["include", "exclude"]),
+      services: Object.entries(asMap(job.services)).map(([name, service]) => asText(asMap(service).image) ?? asText(service) ?? name),
+    };
+  });
+
+  return [pipeline(asText(doc.name) ?? basename(file).replace(/\.ya?ml$/, ""), file, "github-actions", triggers, jobs)];
+}
+
+function gitlabImage(value: unknown): string | undefined {
+  return asText(value) ?? asText(asMap(value).name);
+}
+
+/**
+ * GitLab CI: jobs are the top-level keys that are not settings or hidden (.template) jobs.
+ * `extends` is resolved against templates in the same file; `include`d files are not fetched.
+ */
+export function parseGitLabCi(content: string, file: string): CIWorkflow[] {
+  const doc = asMap(parseYaml(content, YAML_OPTIONS));
+  const defaults = asMap(doc.default);
+  const stages = doc.stages ? textList(doc.stages) : GITLAB_DEFAULT_STAGES;
+
+  const resolve = (value: unknown, depth = 0): YamlMap => {
+    const job = asMap(value);
+    if (depth > 5) return job;
+    const parents = textList(job.extends).map((name) => resolve(doc[name], depth + 1));
+    return Object.assign({}, ...parents, job);
+  };
+
+  const jobs = Object.entries(doc)
+    .filter(([key, value]) => !key.startsWith(".") && !GITLAB_RESERVED_KEYS.has(key) && Object.keys(asMap(value)).length > 0)
+    .map(([id, value]): CIJob => {
+      const job = resolve(value);
+      const script = [...textList(job.before_script ?? defaults.before_script ?? doc.before_script), ...textList(job.script)];
+      const matrix: Record<string, string[]> = {};
+      for (const entry of asList(asMap(job.parallel).matrix)) {
+        for (const [axis, values] of Object.entries(asMap(entry))) {
+          matrix[axis] = [...new Set([...(matrix[axis] ?? []), ...textList(values)])];
+        }
+      }
+      const runner = gitlabImage(job.image ?? defaults.image ?? doc.image) ?? (textList(job.tags).join(", ") || undefined);
+      const trigger = asText(job.trigger) ?? asText(asMap(job.trigger).project) ?? asText(asMap(job.trigger).include);
+
+      return {
+        id,
+        name: id,
+        stage: asText(job.stage) ?? "test",
+        ...(runner ? { runsOn: runner } : {}),
+        needs: asList(job.needs)
+          .map((n) => asText(n) ?? asText(asMap(n).job))
+          .filter((n): n is string => n !== undefined),
+        steps: [...(trigger ? [step({ uses: trigger })] : []), ...script.map((run) => step({ run }))].filter((s) => !isEmptyStep(s)),
+        matrix,
+        services: asList(job.services ?? defaults.services ?? doc.services)
+          .map(gitlabImage)
+          .filter((s): s is string => s !== undefined),
+      };
+    });
+
+  // Rules name the events that start pipelines; without them GitLab runs on every push
+  const sources = [...new Set([...content.matchAll(/\$CI_PIPELINE_SOURCE\s*==\s*["']?(\w+)/g)].map((m) => m[1]))];
+  return [pipeline("GitLab CI", file, "gitlab-ci", sources.length > 0 ? sources : ["push"], jobs, stages)];
+}
+
+function circleStep(value: unknown): CIStep {
+  if (typeof value === "string") return step({ uses: value });
+  const [key, options] = Object.entries(asMap(value))[0] ?? [];
+  if (key === "run") {
+    return typeof options === "string"
+      ? step({ run: options })
+      : step({ name: asText(asMap(options).name), run: asText(asMap(options).command) });
+  }
+  return step({ uses: key });
+}
+
+/**
+ * CircleCI: one pipeline per workflow, with the jobs it runs
+ */
+export function parseCircleCi(content: string, file: string): CIWorkflow[] {
+  const doc = asMap(parseYaml(content, YAML_OPTIONS));
+  const definitions = asMap(doc.jobs);
+
+  const describeJob = (id: string, name = id, needs: string[] = [], matrix: Record<string, string[]> = {}): CIJob => {
+    const job = asMap(definitions[id]);
+    // The first docker image runs the steps; the rest are service containers
+    const images = asList(job.docker)
+      .map((d) => asText(asMap(d).image))
+      .filter((i): i is string => i !== undefined);
+    const runner = images[0] ?? (job.machine ? "machine" : job.macos ? "macos" : (asText(job.executor) ?? asText(asMap(job.executor).name)));
+    return {
+      id: name,
+      name,
+      ...(runner ? { runsOn: runner } : {}),
+      needs,
+      // Jobs from orbs (node/test) are not defined in this file
+      steps: asList(job.steps).map(circleStep).filter((s) => !isEmptyStep(s)),
+      matrix,
+      services: images.slice(1),
+    };
+  };
+
+  const workflows = Object.entries(asMap(doc.workflows)).filter(([key]) => key !== "version");
+  if (workflows.length === 0) {
+    return [pipeline("CircleCI", file, "circleci", ["push"], Object.keys(definitions).map((id) => describeJob(id)))];
+  }
+
+  return workflows.map(([name, value]) => {
+    const workflow = asMap(value);
+    const jobs = asList(workflow.jobs).flatMap((entry): CIJob[] => {
+      if (typeof entry === "string") return [describeJob(entry)];
+      const [id, config] = Object.entries(asMap(entry))[0] ?? [];
+      if (!id) return [];
+      const options = asMap(config);
+      return [
+        describeJob(id, asText(options.name) ?? id, textList(options.requires), matrixAxes(asMap(asMap(options.matrix).parameters))),
+      ];
+    });
+    const scheduled = asList(workflow.triggers).some((t) => asMap(t).schedule);
+    return pipeline(name, file, "circleci", scheduled ? ["schedule"] : ["push"], jobs);
+  });
+}
+
+function azureStep(value: unknown): CIStep {
+  const s = asMap(value);
+  const name = asText(s.displayName);
+  const scriptKey = AZURE_SCRIPT_KEYS.find((key) => s[key] !== undefined);
+  if (scriptKey) return step({ name, run: asText(s[scriptKey]) });
+  if (s.task) return step({ name, uses: asText(s.task) });
+  if (s.checkout) return step({ name, uses: `checkout: ${asText(s.checkout)}` });
+  return step({ name, uses: asText(s.template) });
+}
+
+function azureJob(job: YamlMap, stage?: string): CIJob {
+  const id = asText(job.job) ?? asText(job.deployment) ?? asText(job.template) ?? "job";
+  const pool = asText(job.pool) ?? asText(asMap(job.pool).vmImage) ?? asText(asMap(job.pool).name);
+  // Matrix entries are named sets of variables; each variable becomes an axis
+  const matrix: Record<string, string[]> = {};
+  for (const variables of Object.values(asMap(asMap(job.strategy).matrix))) {
+    for (const [axis, value] of Object.entries(asMap(variables))) {
+      const text = asText(value);
+      if (text !== undefined && !matrix[axis]?.includes(text)) matrix[axis] = [...(matrix[axis] ?? []), text];
+    }
+  }
+
+  return {
+    id,
+    name: asText(job.displayName) ?? id,
+    ...(stage ? { stage } : {}),
+    ...(pool ? { runsOn: pool } : {}),
+    needs: textList(job.dependsOn),
+    steps: (job.template && !job.steps ? [step({ uses: asText(job.template) })] : asList(job.steps).map(azureStep)).filter(
+      (s) => !isEmptyStep(s)
+    ),
+    matrix,
+    services: Object.values(asMap(job.services))
+      .map(asText)
+      .filter((s): s is string => s !== undefined),
+  };
+}
+
+/**
+ * Azure Pipelines: stages of jobs, a list of jobs, or the steps of a single implicit job
+ */
+export function parseAzurePipelines(content: string, file: string): CIWorkflow[] {
+  const doc = asMap(parseYaml(content, YAML_OPTIONS));
+  const stages = asList(doc.stages).map(asMap);
+
+  const jobsOf = (value: unknown, stage?: string) =>
+    asList(value)
+      .map(asMap)
+      .filter((job) => job.job || job.deployment || job.template)
+      .map((job) => azureJob(job, stage));
+
+  let jobs: CIJob[];
+  if (stages.length > 0) {
+    jobs = stages.flatMap((stage) => jobsOf(stage.jobs, asText(stage.stage)));
+  } else if (doc.jobs) {
+    jobs = jobsOf(doc.jobs);
+  } else {
+    jobs = [azureJob({ job: "Job", steps: doc.steps, pool: doc.pool, strategy: doc.strategy, services: doc.services })];
+  }
+
+  // Branch pushes trigger a run unless `trigger: none`
+  const triggers: string[] = [];
+  if (doc.trigger !== "none") triggers.push("push");
+  if (doc.pr !== undefined && doc.pr !== "none") triggers.push("pull_request");
+  if (doc.schedules) triggers.push("schedule");
+
+  const name = file.startsWith(".azure-pipelines/") ? basename(file).replace(/\.ya?ml$/, "") : "Azure Pipelines";
+  const stageNames = stages.map((s) => asText(s.stage)).filter((s): s is string => s !== undefined);
+  return [pipeline(name, file, "azure-pipelines", triggers, jobs, stageNames.length > 0 ? stageNames : undefined)];
+}
+
+/** Index just past the Groovy string starting at `start` */
+function skipString(text: string, start: number): number {
+  const quote = text.startsWith("'''", start) || text.startsWith('"""', start) ? text.slice(start, start + 3) : text[start];
+  let i = start + quote.length;
+  while (i < text.length && !text.startsWith(quote, i)) i += text[i] === "\\" ? 2 : 1;
+  return i + quote.length;
+}
+
+/** Index of the brace closing the block opened at `open` */
+function blockEnd(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'" || char === '"') {
+      i = skipString(text, i) - 1;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/** Contents of every `<keyword> {` block in the text */
+function groovyBlocks(text: string, keyword: string): string[] {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`\\b${keyword}\\s*\\{`, "g");
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const end = blockEnd(text, open);
+    blocks.push(text.slice(open + 1, end));
+    pattern.lastIndex = end + 1;
+  }
+  return blocks;
+}
+
+/** The text with nested stage blocks cut out, so only the enclosing block's settings remain */
+function outsideStages(text: string): string {
+  let result = "";
+  let from = 0;
+  const pattern = /\bstage\s*\(\s*(['"])(.*?)\1\s*\)\s*\{/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const end = blockEnd(text, match.index + match[0].length - 1);
+    result += text.slice(from, match.index);
+    from = end + 1;
+    pattern.lastIndex = from;
+  }
+  return result + text.slice(from);
+}
+
+function jenkinsAgent(text: string): string | undefined {
+  const agent = groovyBlocks(outsideStages(text), "agent")[0];
+  if (!agent) return undefined;
+  return agent.match(/\b(?:image|docker|label)\s+['"]([^'"]+)['"]/)?.[1];
+}
+
+/** sh/bat/powershell commands in the text's steps blocks */
+function jenkinsSteps(text: string): CIStep[] {
+  const steps: CIStep[] = [];
+  const pattern = /\b(?:sh|bat|powershell|pwsh)\s*\(?\s*(?:script\s*:\s*)?('''[\s\S]*?'''|"""[\s\S]*?"""|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/g;
+  for (const block of groovyBlocks(text, "steps")) {
+    for (const match of block.matchAll(pattern)) {
+      const quote = match[1].startsWith("'''") || match[1].startsWith('"""') ? 3 : 1;
+      const run = match[1]
+        .slice(quote, -quote)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join("\n");
+      steps.push(step({ run }));
+    }
+  }
+  return steps.filter((s) => !isEmptyStep(s));
+}
+
+function jenkinsAxes(text: string): Record<string, string[]> {
+  const axes: Record<string, string[]> = {};
+  for (const axis of groovyBlocks(text, "axis")) {
+    const name = axis.match(/\bname\s+['"]([^'"]+)['"]/)?.[1];
+    const values = axis.match(/\bvalues\s+([^\n]+)/)?.[1];
+    if (name && values) axes[name] = [...values.matchAll(/['"]([^'"]*)['"]/g)].map((m) => m[1]);
+  }
+  return axes;
+}
+
+/**
+ * Leaf stages of a stages/parallel block as jobs, grouped under their top-level stage
+ */
+function jenkinsStages(text: string, agent: string | undefined, parent?: string): CIJob[] {
+  const jobs: CIJob[] = [];
+  const pattern = /\bstage\s*\(\s*(['"])(.*?)\1\s*\)\s*\{/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const end = blockEnd(text, open);
+    pattern.lastIndex = end + 1;
+
+    const name = match[2];
+    const body = text.slice(open + 1, end);
+    const stage = parent ?? name;
+    const runsOn = jenkinsAgent(body) ?? agent;
+    const isMatrix = /\bmatrix\s*\{/.test(body);
+    if (!isMatrix && /\b(?:parallel|stages)\s*\{/.test(body)) {
+      jobs.push(...jenkinsStages(body, runsOn, stage));
+      continue;
+    }
+    jobs.push({
+      id: name,
+      name,
+      stage,
+      ...(runsOn ? { runsOn } : {}),
+      needs: [],
+      steps: jenkinsSteps(body),
+      matrix: isMatrix ? jenkinsAxes(body) : {},
+      services: [],
+    });
+  }
+  return jobs;
+}
+
+/**
+ * Declarative Jenkinsfile; stages run in order, parallel branches share their parent's stage
+ */
+export function parseJenkinsfile(content: string, file: string): CIWorkflow[] {
+  const code = content.replace(
+    /('''[\s\S]*?'''|"""[\s\S]*?"""|'(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (_match, string?: string) => string ?? ""
+  );
+  const stagesAt = code.search(/\bstages\s*\{/);
+  if (stagesAt === -1) return [pipeline("Jenkins", file, "jenkins", [], [])];
+
+  const stagesBlock = groovyBlocks(code.slice(stagesAt), "stages")[0];
+  const jobs = jenkinsStages(stagesBlock, jenkinsAgent(code.slice(0, stagesAt)));
+
+  const triggerBlock = groovyBlocks(code.slice(0, stagesAt), "triggers")[0] ?? "";
+  const triggers = [...triggerBlock.matchAll(/\b(\w+)\s*\(/g)].map((m) => (m[1] === "cron" ? "schedule" : m[1]));
+
+  return [pipeline("Jenkins", file, "jenkins", [...new Set(triggers)], jobs, [...new Set(jobs.map((j) => j.stage!))])];
+}
+
+/**
+ * Parse one CI configuration file
+ */
+export function parseCiFile(path: string, content: string): CIWorkflow[] {
+  switch (ciSystemFor(path)) {
+    case "github-actions":
+      return parseGitHubActions(content, path);
+    case "gitlab-ci":
+      return parseGitLabCi(content, path);
+    case "circleci":
+      return parseCircleCi(content, path);
+    case "azure-pipelines":
+      return parseAzurePipelines(content, path);
+    case "jenkins":
+      return parseJenkinsfile(content, path);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse every CI configuration file among the scanned files
+ */
+export async function parsePipelines(repoPath: string, files: FileInfo[]): Promise<CIWorkflow[]> {
+  const pipelines: CIWorkflow[] = [];
+  for (const file of files) {
+    if (file.isDirectory || !ciSystemFor(file.path)) continue;
+    try {
+      const content = await readFile(join(repoPath, file.path), "utf-8");
+      pipelines.push(...parseCiFile(file.path, content));
+    } catch {
+      // Skip unreadable or malformed config
+    }
+  }
+  return pipelines;
+}
@@ -0,0 +1,529 @@
+/**
+ * Command Discovery
+ * Finds the commands a repository defines for building, testing and running
+ * it: package.json scripts, Makefile targets, justfile recipes, Taskfile tasks,
+ * Poetry/Hatch/PDM scripts in pyproject.toml, tox environments, nox sessions,
+ * Cargo aliases, composer scripts, deno tasks and Rake tasks. Each command is
+ * the invocation that runs it, described by the help text or comment the file
+ * gives it (or the script body when there is none).
+ */
+
+import { access } from "fs/promises";
+import { join } from "path";
+import { readFileSafe } from "./utils.js";
+import type { Command } from "./types.js";
+
+/** Tools that run package.json scripts */
+export type ScriptRunner = "npm" | "yarn" | "pnpm" | "bun";
+
+/** Lockfiles in the order they decide the script runner */
+const LOCKFILE_RUNNERS: [string, ScriptRunner][] = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["package-lock.json", "npm"],
+  ["npm-shrinkwrap.json", "npm"],
+];
+
+/** Scripts composer runs on its own events rather than on request */
+const COMPOSER_EVENT_PATTERN = /^(?:pre|post)-(?:install|update|status|archive|create-project|root-package|package|autoload|operations|file|command|pool)-/;
+
+/** TOML keys that describe a script, most descriptive first */
+const SCRIPT_TABLE_KEYS = ["help", "cmd", "shell", "call", "composite", "callable", "reference"];
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseJson(content: string | null): Record<string, unknown> | null {
+  if (content === null) return null;
+  try {
+    const value = JSON.parse(content);
+    return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Strip comments and trailing commas so JSONC (deno.jsonc) parses as JSON
+ */
+function stripJsonComments(content: string): string {
+  return content
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, string?: string) => string ?? "")
+    .replace(/,(\s*[}\]])/g, "$1");
+}
+
+/**
+ * Text of the `#` comment lines directly above a line, skipping lines that
+ * may sit between a comment and what it documents (.PHONY, recipe attributes)
+ */
+function commentAbove(lines: string[], index: number, skip?: RegExp): string | undefined {
+  const comments: string[] = [];
+  for (let i = index - 1; i >= 0; i--) {
+    if (skip?.test(lines[i]) && comments.length === 0) continue;
+    const comment = lines[i].match(/^#+(?!!)\s?(.*)$/);
+    if (!comment) break;
+    comments.unshift(comment[1].trim());
+  }
+  // Divider lines such as "# -----" say nothing
+  return comments.filter((c) => /\w/.test(c)).join(" ") || undefined;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Which tool runs package.json scripts, from the first directory with a
+ * lockfile or a Corepack `packageManager` field; npm when none has either.
+ *
+ * @param dirs - Directories to check in order, e.g. a package and then the repo root
+ */
+export async function detectScriptRunner(...dirs: string[]): Promise<ScriptRunner> {
+  for (const dir of dirs) {
+    for (const [lockfile, runner] of LOCKFILE_RUNNERS) {
+      if (await exists(join(dir, lockfile))) return runner;
+    }
+    const declared = parseJson(await readFileSafe(join(dir, "package.json")))?.packageManager;
+    const name = typeof declared === "string" ? declared.split("@")[0] : "";
+    if (LOCKFILE_RUNNERS.some(([, runner]) => runner === name)) return name as ScriptRunner;
+  }
+  return "npm";
+}
+
+/**
+ * package.json scripts, run with the repo's package manager
+ */
+export function parsePackageJsonScripts(content: string, runner: ScriptRunner = "npm"): Command[] {
+  const scripts = asRecord(parseJson(content)?.scripts);
+  return Object.entries(scripts)
+    .filter(([, script]) => typeof script === "string")
+    .map(([name, script]) => ({
+      name,
+      command: `${runner} run ${name}`,
+      source: "package.json",
+      description: script as string,
+    }));
+}
+
+/**
+ * Makefile targets, described by a `## help` suffix or the comment above
+ */
+export function parseMakefile(content: string, source = "Makefile"): Command[] {
+  const lines = content.split("\n");
+  const commands: Command[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((line, index) => {
+    // Targets, not variable assignments (VAR := x, VAR ::= x) or target-specific variables
+    const match = line.match(/^([a-zA-Z_][a-zA-Z0-9_-]*)\s*::?(?!=)([^#]*)(?:#+\s*(.*))?$/);
+    if (!match || match[2].includes("=") || seen.has(match[1])) return;
+    seen.add(match[1]);
+    commands.push({
+      name: match[1],
+      command: `make ${match[1]}`,
+      source,
+      description: line.includes("##") ? match[3]?.trim() || undefined : commentAbove(lines, index, /^\.PHONY\b/),
+    });
+  });
+  return commands;
+}
+
+/**
+ * Public justfile recipes, described by a [doc()] attribute or the comment above
+ */
+export function parseJustfile(content: string, source = "justfile"): Command[] {
+  const lines = content.split("\n");
+  const commands: Command[] = [];
+
+  lines.forEach((line, index) => {
+    // Recipe headers; settings, aliases and variables use := instead
+    const match = line.match(/^@?([a-zA-Z_][\w-]*)(?:\s+[^:]*)?:(?!=)/);
+    if (!match) return;
+
+    let start = index;
+    const attributes: string[] = [];
+    while (start > 0 && /^\[.*\]\s*$/.test(lines[start - 1])) attributes.push(lines[--start]);
+    if (match[1].startsWith("_") || attributes.some((a) => /\bprivate\b/.test(a))) return;
+
+    const doc = attributes.join(" ").match(/\bdoc\(\s*(["'])(.*?)\1\s*\)/)?.[2];
+    commands.push({
+      name: match[1],
+      command: `just ${match[1]}`,
+      source,
+      description: doc ?? commentAbove(lines, start),
+    });
+  });
+  return commands;
+}
+
+/**
+ * Non-internal tasks from a Taskfile, described by their `desc`
+ */
+export function parseTaskfile(content: string, source = "Taskfile.yml"): Command[] {
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) => /^tasks:\s*(?:#.*)?$/.test(line));
+  if (start === -1) return [];
+
+  const commands: Command[] = [];
+  const internal = new Set<string>();
+  let taskIndent = -1;
+  let current: Command | null = null;
+
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim() || /^\s*#/.test(line)) continue;
+    if (/^\S/.test(line)) break;
+
+    const indent = line.length - line.trimStart().length;
+    if (taskIndent === -1) taskIndent = indent;
+    const key = line.match(/^\s*(["']?)([\w:.-]+)\1:\s*(.*?)\s*$/);
+    if (!key) continue;
+
+    if (indent === taskIndent) {
+      // `name: command` is shorthand for a task with a single command
+      const shorthand = key[3] && !/^[|>{[]/.test(key[3]) ? unquote(key[3]) : undefined;
+      current = { name: key[2], command: `task ${key[2]}`, source, description: shorthand };
+      commands.push(current);
+    } else if (current && indent > taskIndent) {
+      if (key[2] === "desc" && !current.description && !/^[|>]/.test(key[3])) current.description = unquote(key[3]);
+      if (key[2] === "internal" && key[3] === "true") internal.add(current.name);
+    }
+  }
+  return commands.filter((c) => !internal.has(c.name));
+}
+
+/**
+ * Net depth of [ and { outside strings
+ */
+function bracketDepth(value: string): number {
+  const code = value.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, "").replace(/#.*/, "");
+  return (code.match(/[[{]/g)?.length ?? 0) - (code.match(/[\]}]/g)?.length ?? 0);
+}
+
+/**
+ * Tables of a TOML file and their raw `key = value` entries. Values that span
+ * lines (arrays, inline tables) are joined onto one line; arrays of tables are skipped.
+ */
+export function tomlTables(content: string): Map<string, Map<string, string>> {
+  const tables = new Map<string, Map<string, string>>();
+  let table: Map<string, string> | null = new Map();
+  tables.set("", table);
+  let pending: { key: string; value: string } | null = null;
+
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (bracketDepth(pending.value) <= 0) {
+        table?.set(pending.key, pending.value);
+        pending = null;
+      }
+      continue;
+    }
+    if (line.startsWith("[[")) {
+      table = null;
+      continue;
+    }
+    const header = line.match(/^\[\s*([^[\]]+?)\s*\]\s*(?:#.*)?$/);
+    if (header) {
+      const name = header[1].replace(/["']/g, "");
+      table = tables.get(name) ?? new Map();
+      tables.set(name, table);
+      continue;
+    }
+    const entry = line.match(/^(["']?)([^"'=\s]+)\1\s*=\s*(.+)$/);
+    if (!entry || !table) continue;
+    if (bracketDepth(entry[3]) > 0) pending = { key: entry[2], value: entry[3] };
+    else table.set(entry[2], entry[3]);
+  }
+  return tables;
+}
+
+/**
+ * Entries of each `[[name]]` array-of-tables block in a TOML file, raw as in
+ * tomlTables. Entries of a block's subtables ([name.sub]) are keyed "sub.key".
+ */
+export function tomlArrayTables(content: string, name: string): Map<string, string>[] {
+  const tables: Map<string, string>[] = [];
+  let table: Map<string, string> | null = null;
+  let prefix = "";
+  let pending: { key: string; value: string } | null = null;
+
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (bracketDepth(pending.value) <= 0) {
+        table?.set(pending.key, pending.value);
+        pending = null;
+      }
+      continue;
+    }
+    if (line.startsWith("[")) {
+      const header = line.replace(/\s*#.*$/, "");
+      if (header === `[[${name}]]`) {
+        table = new Map();
+        tables.push(table);
+        prefix = "";
+      } else if (table && header.startsWith(`[${name}.`) && header.endsWith("]") && !header.startsWith("[[")) {
+        prefix = `${header.slice(name.length + 2, -1)}.`;
+      } else {
+        table = null;
+      }
+      continue;
+    }
+    const entry = line.match(/^(["']?)([^"'=\s]+)\1\s*=\s*(.+)$/);
+    if (!entry || !table) continue;
+    if (bracketDepth(entry[3]) > 0) pending = { key: `${prefix}${entry[2]}`, value: entry[3] };
+    else table.set(`${prefix}${entry[2]}`, entry[3]);
+  }
+  return tables;
+}
+
+/**
+ * String literals in a raw TOML value, in order
+ */
+export function tomlStrings(value: string): string[] {
+  return [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map((m) => m[2] ?? m[1].replace(/\\(.)/g, "$1"));
+}
+
+/**
+ * What a script in a TOML scripts table runs: its help text or command for an
+ * inline table ({ cmd = "...", help = "..." }), otherwise its command(s)
+ */
+function tomlScriptText(value: string): string | undefined {
+  if (value.startsWith("{")) {
+    for (const key of SCRIPT_TABLE_KEYS) {
+      const field = value.match(new RegExp(`[{,]\\s*${key}\\s*=\\s*("(?:[^"\\\\]|\\\\.)*"|'[^']*'|\\[[^\\]]*\\])`));
+      if (field) return tomlStrings(field[1]).join(" && ");
+    }
+    return undefined;
+  }
+  return tomlStrings(value).join(" && ") || undefined;
+}
+
+/**
+ * Poetry scripts, Hatch environment scripts and PDM scripts from pyproject.toml
+ */
+export function parsePyproject(content: string, source = "pyproject.toml"): Command[] {
+  const tables = tomlTables(content);
+  const commands: Command[] = [];
+
+  for (const [name, value] of tables.get("tool.poetry.scripts") ?? []) {
+    commands.push({ name, command: `poetry run ${name}`, source, description: tomlScriptText(value) });
+  }
+
+  for (const [table, entries] of tables) {
+    const hatch = table.match(/^tool\.hatch\.envs\.([^.]+)\.scripts$/);
+    if (!hatch) continue;
+    const env = hatch[1] === "default" ? "" : `${hatch[1]}:`;
+    for (const [name, value] of entries) {
+      commands.push({ name: `${env}${name}`, command: `hatch run ${env}${name}`, source, description: tomlScriptText(value) });
+    }
+  }
+
+  // PDM scripts are keys of [tool.pdm.scripts] or their own [tool.pdm.scripts.<name>] tables; "_" holds shared options
+  for (const [name, value] of tables.get("tool.pdm.scripts") ?? []) {
+    if (name === "_" || name.includes(".")) continue;
+    commands.push({ name, command: `pdm run ${name}`, source, description: tomlScriptText(value) });
+  }
+  for (const [table, entries] of tables) {
+    const pdm = table.match(/^tool\.pdm\.scripts\.([^.]+)$/);
+    if (!pdm || pdm[1] === "_") continue;
+    const key = SCRIPT_TABLE_KEYS.find((k) => entries.has(k));
+    commands.push({ name: pdm[1], command: `pdm run ${pdm[1]}`, source, description: key ? tomlScriptText(entries.get(key)!) : undefined });
+  }
+  return commands;
+}
+
+/**
+ * tox environments: the default run plus each named [testenv:<name>]
+ */
+export function parseToxIni(content: string, source = "tox.ini"): Command[] {
+  const commands: Command[] = [];
+  const envList = content.match(/^env_?list\s*=[ \t]*(.*(?:\n[ \t]+\S.*)*)/m)?.[1];
+  if (envList !== undefined) {
+    const envs = envList.split(/[\s,]+/).filter(Boolean);
+    commands.push({ name: "tox", command: "tox", source, description: `Run the default environments: ${envs.join(", ")}` });
+  }
+
+  let current: Command | null = null;
+  for (const line of content.split("\n")) {
+    const section = line.match(/^\[([^\]]+)\]/);
+    if (section) {
+      // Generative sections like [testenv:py{39,310}] have no single name
+      const env = section[1].match(/^testenv:([^\s{},]+)$/);
+      current = env ? { name: env[1], command: `tox -e ${env[1]}`, source } : null;
+      if (current) commands.push(current);
+      continue;
+    }
+    const description = line.match(/^description\s*=\s*(.+)$/);
+    if (current && description) current.description = description[1].trim();
+  }
+  return commands;
+}
+
+/**
+ * nox sessions, described by the first line of their docstring
+ */
+export function parseNoxfile(content: string, source = "noxfile.py"): Command[] {
+  const lines = content.split("\n");
+  const commands: Command[] = [];
+
+  lines.forEach((line, index) => {
+    const decorator = line.match(/^@(?:nox\.)?session\b(.*)$/);
+    if (!decorator) return;
+    // Skip past other decorators and wrapped decorator arguments to the function
+    const offset = lines.slice(index + 1, index + 10).findIndex((l) => /^(?:async\s+)?def\s+\w+/.test(l));
+    if (offset === -1) return;
+
+    const defIndex = index + 1 + offset;
+    const fn = lines[defIndex].match(/def\s+(\w+)/)![1];
+    const name = decorator[1].match(/\bname\s*=\s*["']([^"']+)["']/)?.[1] ?? fn;
+    const docstring = lines[defIndex + 1]?.match(/^\s+[rR]?(?:"""|''')\s*(.*?)\s*(?:"""|''')?\s*$/)?.[1];
+    commands.push({ name, command: `nox -s ${name}`, source, description: docstring || undefined });
+  });
+  return commands;
+}
+
+/**
+ * Cargo aliases from .cargo/config.toml
+ */
+export function parseCargoConfig(content: string, source = ".cargo/config.toml"): Command[] {
+  return [...(tomlTables(content).get("alias") ?? [])].map(([name, value]) => ({
+    name,
+    command: `cargo ${name}`,
+    source,
+    description: tomlStrings(value).join(" ") || undefined,
+  }));
+}
+
+/**
+ * composer.json scripts, described by scripts-descriptions, skipping event hooks
+ */
+export function parseComposerJson(content: string, source = "composer.json"): Command[] {
+  const composer = parseJson(content);
+  const descriptions = asRecord(composer?.["scripts-descriptions"]);
+  const commands: Command[] = [];
+
+  for (const [name, script] of Object.entries(asRecord(composer?.scripts))) {
+    if (COMPOSER_EVENT_PATTERN.test(name)) continue;
+    const body = Array.isArray(script) ? script.join(" && ") : typeof script === "string" ? script : undefined;
+    const description = descriptions[name];
+    commands.push({
+      name,
+      command: `composer run ${name}`,
+      source,
+      description: typeof description === "string" ? description : body,
+    });
+  }
+  return commands;
+}
+
+/**
+ * deno.json(c) tasks, as strings or { command, description } objects
+ */
+export function parseDenoJson(content: string, source = "deno.json"): Command[] {
+  const tasks = asRecord(parseJson(stripJsonComments(content))?.tasks);
+  return Object.entries(tasks).map(([name, task]) => {
+    const definition = asRecord(task);
+    const description = typeof task === "string" ? task : (definition.description ?? definition.command);
+    return {
+      name,
+      command: `deno task ${name}`,
+      source,
+      description: typeof description === "string" ? description : undefined,
+    };
+  });
+}
+
+/**
+ * Rake tasks with their namespaces, described by the preceding `desc`
+ */
+export function parseRakefile(content: string, source = "Rakefile"): Command[] {
+  const commands: Command[] = [];
+  const namespaces: { name: string; indent: number }[] = [];
+  let description: string | undefined;
+
+  for (const line of content.split("\n")) {
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    const namespace = text.match(/^namespace\s+(?::(\w+)|["'](\w+)["'])\s+do\b/);
+    if (namespace) {
+      namespaces.push({ name: namespace[1] ?? namespace[2], indent });
+      continue;
+    }
+    if (/^end\b/.test(text) && namespaces[namespaces.length - 1]?.indent === indent) {
+      namespaces.pop();
+      continue;
+    }
+    const desc = text.match(/^desc\s*\(?\s*(["'])(.*)\1/);
+    if (desc) {
+      description = desc[2];
+      continue;
+    }
+    // task :name, task "name", task name: [deps]
+    const task = text.match(/^(?:multi)?task\s*\(?\s*(?::(\w+)|["']([\w:-]+)["']|(\w+):)/);
+    if (task) {
+      const name = [...namespaces.map((n) => n.name), task[1] ?? task[2] ?? task[3]].join(":");
+      commands.push({ name, command: `rake ${name}`, source, description });
+      description = undefined;
+    }
+  }
+  return commands;
+}
+
+/**
+ * Command files and their parsers; the first existing name of each is read
+ */
+const COMMAND_FILES: { names: string[]; parse: (content: string, source: string) => Command[] }[] = [
+  { names: ["Makefile"], parse: parseMakefile },
+  { names: ["justfile", "Justfile", ".justfile"], parse: parseJustfile },
+  { names: ["Taskfile.yml", "Taskfile.yaml", "taskfile.yml", "taskfile.yaml"], parse: parseTaskfile },
+  { names: ["pyproject.toml"], parse: parsePyproject },
+  { names: ["tox.ini"], parse: parseToxIni },
+  { names: ["noxfile.py"], parse: parseNoxfile },
+  { names: [".cargo/config.toml", ".cargo/config"], parse: parseCargoConfig },
+  { names: ["composer.json"], parse: parseComposerJson },
+  { names: ["deno.json", "deno.jsonc"], parse: parseDenoJson },
+  { names: ["Rakefile", "rakefile", "Rakefile.rb"], parse: parseRakefile },
+];
+
+/**
+ * Discover the commands a repository (or one directory of it) defines
+ *
+ * @param repoPath - Directory whose command files are read
+ * @param rootPath - Repository root when repoPath is a subdirectory; its lockfile
+ *   decides the script runner when the subdirectory has none
+ */
+export async function extractCommands(repoPath: string, rootPath?: string): Promise<Command[]> {
+  const commands: Command[] = [];
+
+  const packageJson = await readFileSafe(join(repoPath, "package.json"));
+  if (packageJson !== null) {
+    const runner = await detectScriptRunner(repoPath, ...(rootPath ? [rootPath] : []));
+    commands.push(...parsePackageJsonScripts(packageJson, runner));
+  }
+
+  for (const { names, parse } of COMMAND_FILES) {
+    for (const name of names) {
+      const content = await readFileSafe(join(repoPath, name));
+      if (content === null) continue;
+      commands.push(...parse(content, name));
+      break;
+    }
+  }
+  return commands;
+}
@@ -5,6 +5,8 @@
 
 import { readFile } from "fs/promises";
 import { join } from "path";
+import { tomlStrings, tomlTables } from "./commands.js";
+import { analyzeLockfile, expectsLockfile, type LockfileAnalysis } from "./lockfiles.js";
 import categoryPatternsJson from "./data/category-patterns.json" with { type: "json" };
 
 /**
@@ -15,6 +17,8 @@ export interface Dependency {
   version: string;
   type: "runtime" | "dev" | "peer" | "optional";
   description?: string;
+  /** Version the lockfile resolved the declared range to */
+  resolved?: string;
 }
 
 /**
@@ -35,6 +39,14 @@ export interface DependencyAnalysis {
   dev: Dependency[];
   peer: Dependency[];
   categories: DependencyCategory[];
+  /**
+   * Resolved dependency tree from the committed lockfile. null only when the
+   * package manager uses a lockfile and none is committed; absent when none is
+   * expected or the committed one could not be parsed (see unreadableLockfile).
+   */
+  lockfile?: LockfileAnalysis | null;
+  /** Lockfile that is committed but could not be parsed */
+  unreadableLockfile?: string;
 }
 
 /**
@@ -249,6 +261,18 @@ async function extractPythonDependencies(repoPath: string): Promise<DependencyAn
           }
         }
       }
+
+      // PEP 621 dependencies (uv, Hatch, PDM, setuptools)
+      for (const spec of tomlStrings(tomlTables(content).get("project")?.get("dependencies") ?? "")) {
+        const match = spec.match(/^([a-zA-Z0-9_.-]+)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+        if (match) {
+          runtime.push({
+            name: match[1],
+            version: match[2].trim() || "*",
+            type: "runtime",
+          });
+        }
+      }
     }
 
     if (runtime.length === 0 && dev.length === 0) return null;
@@ -317,8 +341,11 @@ async function extractGoDependencies(repoPath: string): Promise<DependencyAnalys
 
 /**
  * Extract dependencies from the repository
+ *
+ * @param rootPath - Repository root when repoPath is a subdirectory; its
+ *   lockfile covers the subdirectory when the subdirectory has none
  */
-export async function extractDependencies(repoPath: string): Promise<DependencyAnalysis | null> {
+export async function extractDependencies(repoPath: string, rootPath?: string): Promise<DependencyAnalysis | null> {
   // Try each package manager in order
   const extractors = [
     extractNpmDependencies,
@@ -329,12 +356,32 @@ export async function extractDependencies(repoPath: string): Promise<DependencyA
 
   for (const extractor of extractors) {
     const result = await extractor(repoPath);
-    if (result) return result;
+    if (result) return attachLockfile(repoPath, result, rootPath);
   }
 
   return null;
 }
 
+/**
+ * Add resolved versions and the transitive tree from the committed lockfile
+ */
+async function attachLockfile(repoPath: string, deps: DependencyAnalysis, rootPath?: string): Promise<DependencyAnalysis> {
+  const all = [...deps.runtime, ...deps.dev, ...deps.peer];
+  const lockfile = await analyzeLockfile(repoPath, deps.packageManager, all.map(d => d.name), rootPath);
+  if (!lockfile) {
+    return expectsLockfile(deps.packageManager) ? { ...deps, lockfile: null } : deps;
+  }
+  if (!lockfile.analysis) {
+    return { ...deps, packageManager: lockfile.packageManager, unreadableLockfile: lockfile.file };
+  }
+
+  for (const dep of all) {
+    const resolved = lockfile.analysis.resolved[dep.name];
+    if (resolved) dep.resolved = resolved;
+  }
+  return { ...deps, packageManager: lockfile.packageManager, lockfile: lockfile.analysis };
+}
+
 /**
  * Generate a Mermaid diagram showing dependency categories
  */
@@ -395,10 +442,23 @@ export function generateDependencyDiagram(deps: DependencyAnalysis, projectName:
   return lines.join("\n");
 }
 
+/**
+ * Options for DEPENDENCIES.md generation
+ */
+export interface DependencyDocsOptions {
+  /** Include the Mermaid dependency graph (default: true) */
+  showGraph?: boolean;
+}
+
 /**
  * Generate markdown documentation for dependencies
  */
-export function generateDependencyDocs(deps: DependencyAnalysis, projectName: string): string {
+export function generateDependencyDocs(
+  deps: DependencyAnalysis,
+  projectName: string,
+  options: DependencyDocsOptions = {}
+): string {
+  const { showGraph = true } = options;
   const lines: string[] = [];
 
   lines.push("# Dependency Overview");
@@ -417,15 +477,21 @@ export function generateDependencyDocs(deps: DependencyAnalysis, projectName: st
     lines.push(`| Peer | ${deps.peer.length} |`);
   }
   lines.push(`| **Total** | **${deps.totalCount}** |`);
+  if (deps.lockfile) {
+    lines.push(`| Transitive (${deps.lockfile.file}) | ${deps.lockfile.transitiveCount} |`);
+    lines.push(`| Resolved packages | ${deps.lockfile.totalPackages} |`);
+  }
   lines.push("");
 
   // Dependency graph
-  lines.push("## Dependency Graph");
-  lines.push("");
-  lines.push("```mermaid");
-  lines.push(generateDependencyDiagram(deps, projectName));
-  lines.push("```");
-  lines.push("");
+  if (showGraph) {
+    lines.push("## Dependency Graph");
+    lines.push("");
+    lines.push("```mermaid");
+    lines.push(generateDependencyDiagram(deps, projectName));
+    lines.push("```");
+    lines.push("");
+  }
 
   // Categories breakdown
   if (deps.categories.length > 0) {
@@ -443,14 +509,7 @@ export function generateDependencyDocs(deps: DependencyAnalysis, projectName: st
   lines.push("## Runtime Dependencies");
   lines.push("");
   if (deps.runtime.length > 0) {
-    lines.push("| Package | Version |");
-    lines.push("|---------|---------|");
-    for (const dep of deps.runtime.slice(0, 50)) {
-      lines.push(`| ${dep.name} | ${dep.version} |`);
-    }
-    if (deps.runtime.length > 50) {
-      lines.push(`| ... | +${deps.runtime.length - 50} more |`);
-    }
+    lines.push(...dependencyTable(deps.runtime, 50, !!deps.lockfile));
   } else {
     lines.push("No runtime dependencies found.");
   }
@@ -460,18 +519,85 @@ export function generateDependencyDocs(deps: DependencyAnalysis, projectName: st
   lines.push("## Development Dependencies");
   lines.push("");
   if (deps.dev.length > 0) {
-    lines.push("| Package | Version |");
-    lines.push("|---------|---------|");
-    for (const dep of deps.dev.slice(0, 30)) {
-      lines.push(`| ${dep.name} | ${dep.version} |`);
-    }
-    if (deps.dev.length > 30) {
-      lines.push(`| ... | +${deps.dev.length - 30} more |`);
-    }
+    lines.push(...dependencyTable(deps.dev, 30, !!deps.lockfile));
   } else {
     lines.push("No development dependencies found.");
   }
   lines.push("");
 
+  if (deps.lockfile) {
+    lines.push(...lockfileSections(deps.lockfile));
+  } else if (deps.unreadableLockfile) {
+    lines.push(`> \`${deps.unreadableLockfile}\` is committed but could not be parsed, so resolved versions and transitive dependencies are not shown.`);
+    lines.push("");
+  }
+
   return lines.join("\n");
 }
+
+/**
+ * Table of declared dependencies, with the locked version when a lockfile was read
+ */
+function dependencyTable(deps: Dependency[], limit: number, withResolved: boolean): string[] {
+  const lines = withResolved
+    ? ["| Package | Version | Resolved |", "|---------|---------|----------|"]
+    : ["| Package | Version |", "|---------|---------|"];
+  for (const dep of deps.slice(0, limit)) {
+    lines.push(withResolved ? `| ${dep.name} | ${dep.version} | ${dep.resolved ?? "-"} |` : `| ${dep.name} | ${dep.version} |`);
+  }
+  if (deps.length > limit) {
+    lines.push(withResolved ? `| ... | +${deps.length - limit} more | |` : `| ... | +${deps.length - limit} more |`);
+  }
+  return lines;
+}
+
+/**
+ * How a transitive package gets installed: "express → body-parser"
+ */
+function pulledInBy(lockfile: LockfileAnalysis, name: string): string {
+  const path = lockfile.paths[name];
+  if (!path) return lockfile.resolved[name] ? "direct dependency" : "-";
+  return path.slice(0, -1).map(p => `\`${p}\``).join(" → ");
+}
+
+/**
+ * Duplicated and transitive package sections from the lockfile
+ */
+function lockfileSections(lockfile: LockfileAnalysis): string[] {
+  const lines: string[] = [];
+
+  if (lockfile.duplicates.length > 0) {
+    lines.push("## Duplicated Packages");
+    lines.push("");
+    lines.push(`${lockfile.duplicates.length} packages are installed at more than one version.`);
+    lines.push("");
+    lines.push("| Package | Versions | Pulled in by |");
+    lines.push("|---------|----------|--------------|");
+    for (const dup of lockfile.duplicates.slice(0, 30)) {
+      lines.push(`| ${dup.name} | ${dup.versions.join(", ")} | ${pulledInBy(lockfile, dup.name)} |`);
+    }
+    if (lockfile.duplicates.length > 30) {
+      lines.push(`| ... | +${lockfile.duplicates.length - 30} more | |`);
+    }
+    lines.push("");
+  }
+
+  const transitive = Object.keys(lockfile.paths).sort((a, b) => a.localeCompare(b));
+  if (transitive.length > 0) {
+    lines.push("## Transitive Dependencies");
+    lines.push("");
+    lines.push(`${lockfile.transitiveCount} packages are installed only as dependencies of other packages (resolved from \`${lockfile.file}\`).`);
+    lines.push("");
+    lines.push("| Package | Pulled in by |");
+    lines.push("|---------|--------------|");
+    for (const name of transitive.slice(0, 30)) {
+      lines.push(`| ${name} | ${pulledInBy(lockfile, name)} |`);
+    }
+    if (transitive.length > 30) {
+      lines.push(`| ... | +${transitive.length - 30} more |`);
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
@@ -5,7 +5,8 @@
 
 import { execFile } from "child_process";
 import { promisify } from "util";
-import type { DiffSummary, RepoInfo } from "./types.js";
+import { HOST_GIT_USERS, repoHost, webOrigin } from "./hosts.js";
+import type { DiffSummary, RepoHost, RepoInfo } from "./types.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -324,14 +325,17 @@ async function detectBreakingChanges(
 
 /**
  * Parse a PR target string into repo URL and PR number.
- * Supports: owner/repo#123, owner/repo/pull/123, https://github.com/owner/repo/pull/123
+ * Supports: owner/repo#123, owner/repo/pull/123 (GitHub), and pull or merge
+ * request URLs from GitHub, GitLab (/-/merge_requests/N), Bitbucket
+ * (/pull-requests/N) and Gitea (/pulls/N) hosts.
  */
 export function parsePullRequestTarget(target: string): { repoUrl: string; prNumber: number } {
-  const urlMatch = target.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/i);
+  const urlMatch = target.match(/^(\S+?:\/\/[^/]+\/.+?|[\w-]+(?:\.[\w-]+)+(?::\d+)?\/.+?)\/(?:-\/merge_requests|pull-requests|pulls|pull)\/(\d+)(?:[/?#]\S*)?$/i);
   if (urlMatch) {
+    const base = urlMatch[1].includes("://") ? urlMatch[1] : `https://${urlMatch[1]}`;
     return {
-      repoUrl: `https://github.com/${urlMatch[1]}/${urlMatch[2].replace(/\.git$/, "")}`,
-      prNumber: parseInt(urlMatch[3], 10),
+      repoUrl: base.replace(/\.git$/, ""),
+      prNumber: parseInt(urlMatch[2], 10),
     };
   }
 
@@ -351,14 +355,41 @@ export function parsePullRequestTarget(target: string): { repoUrl: string; prNum
     };
   }
 
-  throw new Error("Invalid PR reference. Use owner/repo#123 or https://github.com/owner/repo/pull/123");
+  throw new Error("Invalid PR reference. Use owner/repo#123 or a pull/merge request URL such as https://github.com/owner/repo/pull/123");
 }
 
-interface PullRequestApiResponse {
+/**
+ * Pull request fields read from GitHub, GitLab, Bitbucket and Gitea API responses
+ */
+export interface PullRequestApiResponse {
+  title?: string;
+  // GitHub and Gitea
   base?: { ref?: string; sha?: string };
   head?: { ref?: string; sha?: string };
-  title?: string;
   html_url?: string;
+  // GitLab
+  target_branch?: string;
+  source_branch?: string;
+  diff_refs?: { base_sha?: string };
+  web_url?: string;
+  // Bitbucket
+  destination?: { branch?: { name?: string } };
+  source?: { branch?: { name?: string } };
+  links?: { html?: { href?: string } };
+}
+
+/**
+ * Pull request fields the diff needs, normalized across hosts
+ */
+export interface PullRequestInfo {
+  baseName: string;
+  headName: string;
+  /** What to fetch for the base: a full commit SHA, or a branch ref when the host only gives short SHAs */
+  baseFetch: string;
+  /** Ref the host publishes the PR head under */
+  headFetch: string;
+  title?: string;
+  url?: string;
 }
 
 export interface PullRequestRefs {
@@ -370,31 +401,135 @@ export interface PullRequestRefs {
   url?: string;
 }
 
-async function fetchPullRequestInfo(repoInfo: RepoInfo, prNumber: number): Promise<PullRequestApiResponse> {
-  const headers: Record<string, string> = {
-    "Accept": "application/vnd.github+json",
-    "User-Agent": "repo-bootcamp",
-  };
+function hostLabel(host: RepoHost): string {
+  return { github: "GitHub", gitlab: "GitLab", bitbucket: "Bitbucket", gitea: "Gitea", git: "git" }[host];
+}
 
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
+/**
+ * API request for a pull request on the repo's host
+ */
+function pullRequestRequest(repoInfo: RepoInfo, prNumber: number): { url: string; headers: Record<string, string> } {
+  const host = repoHost(repoInfo);
+  const origin = host === "git" ? "" : webOrigin(repoInfo);
+  const token = repoInfo.tokenEnv ? process.env[repoInfo.tokenEnv] : undefined;
+  const headers: Record<string, string> = { "User-Agent": "repo-bootcamp" };
+
+  switch (host) {
+    case "github": {
+      headers["Accept"] = "application/vnd.github+json";
+      if (token) headers["Authorization"] = `Bearer ${token}`;
+      // GitHub Enterprise serves the REST API under /api/v3 on its own host
+      const api = origin === "https://github.com" ? "https://api.github.com" : `${origin}/api/v3`;
+      return { url: `${api}/repos/${repoInfo.fullName}/pulls/${prNumber}`, headers };
+    }
+    case "gitlab":
+      if (token) headers["PRIVATE-TOKEN"] = token;
+      return {
+        url: `${origin}/api/v4/projects/${encodeURIComponent(repoInfo.fullName)}/merge_requests/${prNumber}`,
+        headers,
+      };
+    case "bitbucket":
+      if (origin !== "https://bitbucket.org") {
+        throw new Error("Pull request diffs are only supported on Bitbucket Cloud (bitbucket.org).");
+      }
+      if (token) headers["Authorization"] = `Bearer ${token}`;
+      return { url: `https://api.bitbucket.org/2.0/repositories/${repoInfo.fullName}/pullrequests/${prNumber}`, headers };
+    case "gitea":
+      if (token) headers["Authorization"] = `token ${token}`;
+      return { url: `${origin}/api/v1/repos/${repoInfo.fullName}/pulls/${prNumber}`, headers };
+    case "git":
+      throw new Error("Pull request diffs need a GitHub, GitLab, Bitbucket or Gitea remote.");
   }
+}
 
-  const response = await fetch(
-    `https://api.github.com/repos/${repoInfo.fullName}/pulls/${prNumber}`,
-    { headers }
-  );
+/**
+ * Normalize a host's pull request API response
+ */
+export function toPullRequestInfo(
+  host: RepoHost,
+  prNumber: number,
+  data: PullRequestApiResponse
+): PullRequestInfo | null {
+  switch (host) {
+    case "github":
+    case "gitea": {
+      if (!data.base?.ref || !data.head?.ref || !data.base?.sha) return null;
+      return {
+        baseName: data.base.ref,
+        headName: data.head.ref,
+        baseFetch: data.base.sha,
+        headFetch: host === "github" ? `pull/${prNumber}/head` : `refs/pull/${prNumber}/head`,
+        title: data.title,
+        url: data.html_url,
+      };
+    }
+    case "gitlab": {
+      if (!data.target_branch || !data.source_branch || !data.diff_refs?.base_sha) return null;
+      return {
+        baseName: data.target_branch,
+        headName: data.source_branch,
+        baseFetch: data.diff_refs.base_sha,
+        headFetch: `refs/merge-requests/${prNumber}/head`,
+        title: data.title,
+        url: data.web_url,
+      };
+    }
+    case "bitbucket": {
+      // Bitbucket publishes no PR refs and only short SHAs, so fetch both branches by name
+      // (pull requests from forks cannot be fetched this way)
+      const baseName = data.destination?.branch?.name;
+      const headName = data.source?.branch?.name;
+      if (!baseName || !headName) return null;
+      return {
+        baseName,
+        headName,
+        baseFetch: `refs/heads/${baseName}`,
+        headFetch: `refs/heads/${headName}`,
+        title: data.title,
+        url: data.links?.html?.href,
+      };
+    }
+    case "git":
+      return null;
+  }
+}
+
+async function fetchPullRequestInfo(repoInfo: RepoInfo, prNumber: number): Promise<PullRequestInfo> {
+  const host = repoHost(repoInfo);
+  const request = pullRequestRequest(repoInfo, prNumber);
+  const response = await fetch(request.url, { headers: request.headers });
 
   if (!response.ok) {
-    throw new Error(`GitHub API error (${response.status}): ${response.statusText}`);
+    throw new Error(`${hostLabel(host)} API error (${response.status}): ${response.statusText}`);
   }
 
-  return await response.json() as PullRequestApiResponse;
+  const info = toPullRequestInfo(host, prNumber, (await response.json()) as PullRequestApiResponse);
+  if (!info) {
+    throw new Error(`${hostLabel(host)} API response missing pull request refs.`);
+  }
+  return info;
 }
 
 /**
- * Fetch GitHub PR base/head refs into the local repo.
+ * Environment for git fetches, carrying the host's access token when one is set
+ * and the host may receive it (see hostTokenEnv)
+ */
+function authenticatedFetchEnv(repoInfo: RepoInfo): NodeJS.ProcessEnv | undefined {
+  const host = repoHost(repoInfo);
+  const token = repoInfo.tokenEnv ? process.env[repoInfo.tokenEnv] : undefined;
+  if (host === "git" || !token) return undefined;
+  const gitUser = HOST_GIT_USERS[host];
+
+  return {
+    ...process.env, GIT_ASKPASS: "echo", GIT_TERMINAL_PROMPT: "0",
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: `http.${webOrigin(repoInfo)}/.extraheader`,
+    GIT_CONFIG_VALUE_0: `Authorization: basic ${Buffer.from(`${gitUser}:${token}`).toString("base64")}`,
+  };
+}
+
+/**
+ * Fetch PR base/head refs into the local repo.
  */
 export async function fetchPullRequestRefs(
   repoPath: string,
@@ -402,31 +537,17 @@ export async function fetchPullRequestRefs(
   prNumber: number
 ): Promise<PullRequestRefs> {
   const prInfo = await fetchPullRequestInfo(repoInfo, prNumber);
-  const baseRefName = prInfo.base?.ref;
-  const headRefName = prInfo.head?.ref;
-  const baseSha = prInfo.base?.sha;
-
-  if (!baseRefName || !headRefName || !baseSha) {
-    throw new Error("GitHub API response missing pull request refs.");
-  }
 
-  if (!/^[0-9a-f]{40}$/.test(baseSha)) {
+  if (!prInfo.baseFetch.startsWith("refs/heads/") && !/^[0-9a-f]{40}$/.test(prInfo.baseFetch)) {
     throw new Error("Invalid base SHA format.");
   }
 
   const baseRef = `pr-${prNumber}-base`;
   const headRef = `pr-${prNumber}-head`;
-
-  const token = process.env.GITHUB_TOKEN;
-  const fetchEnv = token
-    ? { ...process.env, GIT_ASKPASS: "echo", GIT_TERMINAL_PROMPT: "0",
-        GIT_CONFIG_COUNT: "1",
-        GIT_CONFIG_KEY_0: "http.https://github.com/.extraheader",
-        GIT_CONFIG_VALUE_0: `Authorization: basic ${Buffer.from(`x-access-token:${token}`).toString("base64")}` }
-    : undefined;
+  const fetchEnv = authenticatedFetchEnv(repoInfo);
 
   try {
-    await execFileAsync("git", ["fetch", "--quiet", "origin", `${baseSha}:${baseRef}`], {
+    await execFileAsync("git", ["fetch", "--quiet", "origin", `${prInfo.baseFetch}:${baseRef}`], {
       cwd: repoPath,
       maxBuffer: FILE_DIFF_MAX_BUFFER,
       env: fetchEnv,
@@ -436,7 +557,7 @@ export async function fetchPullRequestRefs(
   }
 
   try {
-    await execFileAsync("git", ["fetch", "--quiet", "origin", `pull/${prNumber}/head:${headRef}`], {
+    await execFileAsync("git", ["fetch", "--quiet", "origin", `${prInfo.headFetch}:${headRef}`], {
       cwd: repoPath,
       maxBuffer: FILE_DIFF_MAX_BUFFER,
       env: fetchEnv,
@@ -448,10 +569,10 @@ export async function fetchPullRequestRefs(
   return {
     baseRef,
     headRef,
-    baseName: baseRefName,
-    headName: headRefName,
+    baseName: prInfo.baseName,
+    headName: prInfo.headName,
     title: prInfo.title,
-    url: prInfo.html_url,
+    url: prInfo.url,
   };
 }
 
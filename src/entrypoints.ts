@@ -0,0 +1,432 @@
+/**
+ * Entrypoint Detection
+ * Finds where a repository's programs start without asking the model:
+ * package.json main/module/exports/bin, Cargo binaries and library roots, Go
+ * `package main` directories, Python console scripts and `__main__.py`
+ * modules, Dockerfile CMD/ENTRYPOINT, Procfile processes and serverless
+ * function handlers. Commands (a container's CMD, a Procfile line) are
+ * resolved to the repository file they run when it can be found; otherwise
+ * the entrypoint points at the file that declares them.
+ */
+
+import { readFile } from "fs/promises";
+import { basename, join, posix } from "path";
+import { parse as parseYaml } from "yaml";
+import { tomlArrayTables, tomlStrings, tomlTables } from "./commands.js";
+import { readFileSafe } from "./utils.js";
+import type { Entrypoint, FileInfo } from "./types.js";
+
+/** Python servers whose first plain argument is the application module (gunicorn myapp.wsgi) */
+const PYTHON_SERVERS = /^(gunicorn|uvicorn|hypercorn|daphne|waitress-serve)$/;
+
+/** Extensions tried when a handler names a module without one */
+const HANDLER_EXTENSIONS = [".ts", ".js", ".mjs", ".cjs", ".py", ".rb", ".go"];
+
+/** Serverless event types that put a function behind HTTP */
+const HTTP_EVENTS = new Set(["http", "httpApi", "alb", "Api", "HttpApi", "FunctionUrl"]);
+
+/** package.json fields that name entrypoints */
+export interface PackageManifestEntries {
+  name?: string;
+  main?: string;
+  module?: string;
+  bin?: string | Record<string, string>;
+  exports?: unknown;
+}
+
+type YamlMap = Record<string, unknown>;
+
+function asMap(value: unknown): YamlMap {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as YamlMap) : {};
+}
+
+function inDir(dir: string, path: string): string {
+  return posix.normalize(dir ? `${dir}/${path}` : path).replace(/^\.\//, "");
+}
+
+/**
+ * Combine entrypoint lists, keeping the first entry for each path
+ */
+export function mergeEntrypoints(...lists: Entrypoint[][]): Entrypoint[] {
+  const merged: Entrypoint[] = [];
+  for (const entry of lists.flat()) {
+    const path = entry.path.replace(/^\.\//, "");
+    if (!merged.some((e) => e.path === path)) {
+      merged.push({ ...entry, path });
+    }
+  }
+  return merged;
+}
+
+function findExportPath(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object") {
+    const conditions = value as Record<string, unknown>;
+    for (const key of ["import", "default", "require", "node"]) {
+      const found = findExportPath(conditions[key]);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Entry points named by package.json bin, main, module and the root export
+ */
+export function packageEntrypoints(manifest: PackageManifestEntries | null): Entrypoint[] {
+  const entrypoints: Entrypoint[] = [];
+
+  if (manifest?.bin) {
+    const bins = typeof manifest.bin === "string" ? { [manifest.name || "bin"]: manifest.bin } : manifest.bin;
+    for (const [name, path] of Object.entries(bins)) {
+      entrypoints.push({ path, type: "cli", description: `\`${name}\` command (package.json bin)` });
+    }
+  }
+  if (manifest?.main) {
+    entrypoints.push({ path: manifest.main, type: "main", description: "Package main module (package.json main)" });
+  }
+  if (manifest?.module) {
+    entrypoints.push({ path: manifest.module, type: "library", description: "ES module build (package.json module)" });
+  }
+  if (manifest?.exports) {
+    const rootExport =
+      typeof manifest.exports === "string"
+        ? manifest.exports
+        : findExportPath((manifest.exports as Record<string, unknown>)["."] ?? manifest.exports);
+    if (rootExport) {
+      entrypoints.push({ path: rootExport, type: "library", description: "Package export (package.json exports)" });
+    }
+  }
+
+  return mergeEntrypoints(entrypoints);
+}
+
+/**
+ * Cargo binaries ([[bin]], src/main.rs, src/bin/) and the library root
+ */
+export function parseCargoEntrypoints(content: string, filePaths: Set<string>): Entrypoint[] {
+  const tables = tomlTables(content);
+  const packageName = tomlStrings(tables.get("package")?.get("name") ?? "")[0];
+  const entrypoints: Entrypoint[] = [];
+
+  for (const bin of tomlArrayTables(content, "bin")) {
+    const name = tomlStrings(bin.get("name") ?? "")[0];
+    const path = tomlStrings(bin.get("path") ?? "")[0] ?? (name ? `src/bin/${name}.rs` : undefined);
+    if (path) entrypoints.push({ path, type: "binary", description: `\`${name ?? basename(path, ".rs")}\` binary (Cargo.toml [[bin]])` });
+  }
+  if (filePaths.has("src/main.rs")) {
+    entrypoints.push({ path: "src/main.rs", type: "binary", description: `\`${packageName ?? "main"}\` binary (Cargo default)` });
+  }
+  for (const path of [...filePaths].sort()) {
+    const extra = path.match(/^src\/bin\/(?:([^/]+)\.rs|([^/]+)\/main\.rs)$/);
+    if (extra) entrypoints.push({ path, type: "binary", description: `\`${extra[1] ?? extra[2]}\` binary (src/bin)` });
+  }
+
+  const libPath = tomlStrings(tables.get("lib")?.get("path") ?? "")[0] ?? "src/lib.rs";
+  if (filePaths.has(libPath)) {
+    entrypoints.push({ path: libPath, type: "library", description: "Crate library root" });
+  }
+  return mergeEntrypoints(entrypoints);
+}
+
+/**
+ * File that holds a dotted Python module, looked up beside `dir` and under src/
+ *
+ * @param runnable - Prefer the package's __main__.py, as `python -m` does
+ */
+function pythonModuleFile(module: string, dir: string, filePaths: Set<string>, runnable = false): string | null {
+  const base = module.replace(/\./g, "/");
+  const names = [`${base}.py`, ...(runnable ? [`${base}/__main__.py`] : []), `${base}/__init__.py`];
+  for (const prefix of [dir, inDir(dir, "src")]) {
+    for (const name of names) {
+      const path = inDir(prefix, name);
+      if (filePaths.has(path)) return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Console scripts from [project.scripts], [project.gui-scripts] and [tool.poetry.scripts],
+ * pointing at the module that defines each one
+ */
+export function parsePyprojectEntrypoints(content: string, filePaths: Set<string>, source = "pyproject.toml"): Entrypoint[] {
+  const tables = tomlTables(content);
+  const entrypoints: Entrypoint[] = [];
+
+  for (const table of ["project.scripts", "project.gui-scripts", "tool.poetry.scripts"]) {
+    for (const [name, value] of tables.get(table) ?? []) {
+      // Poetry also accepts { callable = "pkg.cli:main" }
+      const target = tomlStrings(value)[0];
+      const module = target?.match(/^\s*([\w.]+)\s*:/)?.[1];
+      if (!module) continue;
+      entrypoints.push({
+        path: pythonModuleFile(module, "", filePaths) ?? source,
+        type: "cli",
+        description: `\`${name}\` command (${target})`,
+      });
+    }
+  }
+  return mergeEntrypoints(entrypoints);
+}
+
+/**
+ * The repository file a command runs: a script argument, `python -m module`,
+ * or the application module of a Python server (gunicorn app:app)
+ *
+ * @param dir - Directory the command runs from, relative to the repository root
+ */
+export function commandTarget(tokens: string[], dir: string, filePaths: Set<string>): string | null {
+  let pythonServer = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/^\.\//, "");
+    if (!token || token.startsWith("-")) {
+      if (token === "-m" && tokens[i + 1]) {
+        return pythonModuleFile(tokens[i + 1], dir, filePaths, true);
+      }
+      continue;
+    }
+
+    const appModule = token.match(/^([A-Za-z_][\w.]*):[A-Za-z_][\w.()]*$/)?.[1] ??
+      (pythonServer && /^[A-Za-z_][\w.]*$/.test(token) ? token : undefined);
+    const found = appModule ? pythonModuleFile(appModule, dir, filePaths) : [inDir(dir, token), token].find((p) => filePaths.has(p));
+    if (found) return found;
+    pythonServer ||= PYTHON_SERVERS.test(basename(token));
+  }
+  return null;
+}
+
+function shellWords(command: string): string[] {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+}
+
+/**
+ * What the final image of a Dockerfile runs (ENTRYPOINT followed by CMD)
+ */
+export function parseDockerfileEntrypoints(content: string, path: string, filePaths: Set<string>): Entrypoint[] {
+  const dir = posix.dirname(path) === "." ? "" : posix.dirname(path);
+  let workdir = "";
+  let entry: string[] = [];
+  let cmd: string[] = [];
+
+  for (const line of content.replace(/\\\r?\n/g, " ").split("\n")) {
+    const instruction = line.trim().match(/^(FROM|WORKDIR|ENTRYPOINT|CMD)\s+(.+)$/i);
+    if (!instruction) continue;
+    const [, keyword, args] = instruction;
+    let words: string[];
+    try {
+      words = args.trim().startsWith("[") ? (JSON.parse(args) as string[]) : shellWords(args);
+    } catch {
+      words = shellWords(args);
+    }
+    switch (keyword.toUpperCase()) {
+      case "FROM":
+        workdir = "";
+        entry = [];
+        cmd = [];
+        break;
+      case "WORKDIR":
+        workdir = posix.resolve("/", workdir, args.trim());
+        break;
+      case "ENTRYPOINT":
+        entry = words;
+        break;
+      case "CMD":
+        cmd = words;
+        break;
+    }
+  }
+
+  const words = [...entry, ...cmd];
+  if (words.length === 0) return [];
+
+  // Files copied into the working directory are addressed from it
+  const relativeWords = words.map((w) => (workdir !== "/" && w.startsWith(`${workdir}/`) ? w.slice(workdir.length + 1) : w));
+  const instruction = entry.length > 0 ? "ENTRYPOINT" : "CMD";
+  return [
+    {
+      path: commandTarget(relativeWords, dir, filePaths) ?? path,
+      type: "server",
+      description: `Container start: \`${words.join(" ")}\` (${basename(path)} ${instruction})`,
+    },
+  ];
+}
+
+/**
+ * Processes declared in a Procfile; the web process serves HTTP
+ */
+export function parseProcfile(content: string, filePaths: Set<string>, source = "Procfile"): Entrypoint[] {
+  const entrypoints: Entrypoint[] = [];
+  for (const line of content.split("\n")) {
+    const process = line.match(/^([\w-]+)\s*:\s*(.+)$/);
+    if (!process) continue;
+    const [, name, command] = process;
+    entrypoints.push({
+      path: commandTarget(shellWords(command), "", filePaths) ?? source,
+      type: name === "web" ? "server" : "main",
+      description: `\`${name}\` process: \`${command.trim()}\` (${source})`,
+    });
+  }
+  return mergeEntrypoints(entrypoints);
+}
+
+/**
+ * Source file for a function handler such as src/handlers/user.create
+ */
+function handlerFile(handler: string, dir: string, filePaths: Set<string>): string | null {
+  const base = inDir(dir, handler.replace(/::.*$/, "").replace(/\.[^./]+$/, ""));
+  for (const extension of HANDLER_EXTENSIONS) {
+    if (filePaths.has(`${base}${extension}`)) return `${base}${extension}`;
+  }
+  return filePaths.has(base) ? base : null;
+}
+
+function isHttpFunction(events: unknown): boolean {
+  const list = Array.isArray(events) ? events : Object.values(asMap(events));
+  return list.some((event) => {
+    const fields = asMap(event);
+    return Object.keys(fields).some((k) => HTTP_EVENTS.has(k)) || HTTP_EVENTS.has(String(fields.Type ?? ""));
+  });
+}
+
+/**
+ * Function handlers from a Serverless Framework config or an AWS SAM template;
+ * functions behind HTTP events are servers
+ */
+export function parseServerlessConfig(content: string, path: string, filePaths: Set<string>): Entrypoint[] {
+  let config: YamlMap;
+  try {
+    config = asMap(parseYaml(content, { logLevel: "silent" }));
+  } catch {
+    return [];
+  }
+  const dir = posix.dirname(path) === "." ? "" : posix.dirname(path);
+  const entrypoints: Entrypoint[] = [];
+  const add = (name: string, handler: unknown, codeDir: string, events: unknown): void => {
+    if (typeof handler !== "string") return;
+    entrypoints.push({
+      path: handlerFile(handler, codeDir, filePaths) ?? path,
+      type: isHttpFunction(events) ? "server" : "main",
+      description: `\`${name}\` function handler ${handler} (${basename(path)})`,
+    });
+  };
+
+  for (const [name, fn] of Object.entries(asMap(config.functions))) {
+    add(name, asMap(fn).handler, dir, asMap(fn).events);
+  }
+
+  const globals = asMap(asMap(asMap(config.Globals).Function));
+  for (const [name, resource] of Object.entries(asMap(config.Resources))) {
+    if (asMap(resource).Type !== "AWS::Serverless::Function") continue;
+    const props = asMap(asMap(resource).Properties);
+    const codeUri = props.CodeUri ?? globals.CodeUri;
+    add(name, props.Handler ?? globals.Handler, inDir(dir, typeof codeUri === "string" ? codeUri : ""), props.Events);
+  }
+  return mergeEntrypoints(entrypoints);
+}
+
+/**
+ * Directories whose Go package is `main`, pointing at the file with func main
+ */
+async function goMainPackages(repoPath: string, filePaths: Set<string>): Promise<Entrypoint[]> {
+  const byDir = new Map<string, string[]>();
+  for (const path of [...filePaths].sort()) {
+    if (!path.endsWith(".go") || path.endsWith("_test.go") || /(^|\/)testdata\//.test(path)) continue;
+    const dir = posix.dirname(path);
+    byDir.set(dir, [...(byDir.get(dir) ?? []), path]);
+  }
+
+  const entrypoints: Entrypoint[] = [];
+  for (const [dir, paths] of byDir) {
+    let mainFile: string | null = null;
+    for (const path of paths) {
+      let content: string;
+      try {
+        content = await readFile(join(repoPath, path), "utf-8");
+      } catch {
+        continue;
+      }
+      // Every file in a package shares its package clause
+      if (!/^package\s+main\b/m.test(content)) break;
+      mainFile ??= path;
+      if (/^func\s+main\s*\(\s*\)/m.test(content)) {
+        mainFile = path;
+        break;
+      }
+    }
+    if (mainFile) {
+      entrypoints.push({
+        path: mainFile,
+        type: "binary",
+        description: dir === "." ? "Go program entry point (package main)" : `\`${basename(dir)}\` command (package main)`,
+      });
+    }
+  }
+  return entrypoints;
+}
+
+/**
+ * `__main__.py` modules, run with `python -m`
+ */
+function pythonMainModules(filePaths: Set<string>): Entrypoint[] {
+  return [...filePaths]
+    .filter((p) => basename(p) === "__main__.py" && !/(^|\/)(tests?|testdata)\//.test(p))
+    .sort()
+    .map((path) => {
+      const dir = posix.dirname(path);
+      const module = dir.replace(/^src\//, "").replace(/\//g, ".");
+      return {
+        path,
+        type: "cli" as const,
+        description: dir === "." ? "Run with `python .`" : `Run with \`python -m ${module}\``,
+      };
+    });
+}
+
+/**
+ * Detect entrypoints from manifests, container and process files and source conventions
+ *
+ * @param repoPath - Directory the scan covers; manifests are read from its top level
+ * @param files - Scanned files; Dockerfiles, Go packages and __main__.py are found among them
+ */
+export async function findEntrypoints(repoPath: string, files: FileInfo[]): Promise<Entrypoint[]> {
+  const filePaths = new Set(files.filter((f) => !f.isDirectory).map((f) => f.path));
+  const read = (path: string): Promise<string | null> => readFileSafe(join(repoPath, path));
+  const lists: Entrypoint[][] = [];
+
+  const packageJson = await read("package.json");
+  if (packageJson !== null) {
+    try {
+      lists.push(packageEntrypoints(JSON.parse(packageJson) as PackageManifestEntries));
+    } catch {
+      // Malformed package.json
+    }
+  }
+
+  const cargo = await read("Cargo.toml");
+  if (cargo !== null) lists.push(parseCargoEntrypoints(cargo, filePaths));
+
+  lists.push(await goMainPackages(repoPath, filePaths));
+
+  const pyproject = await read("pyproject.toml");
+  if (pyproject !== null) lists.push(parsePyprojectEntrypoints(pyproject, filePaths));
+  lists.push(pythonMainModules(filePaths));
+
+  for (const path of [...filePaths].sort()) {
+    const name = basename(path);
+    if (/^(Dockerfile|Containerfile)(\..+)?$|\.Dockerfile$/i.test(name)) {
+      const content = await read(path);
+      if (content !== null) lists.push(parseDockerfileEntrypoints(content, path, filePaths));
+    }
+  }
+
+  const procfile = await read("Procfile");
+  if (procfile !== null) lists.push(parseProcfile(procfile, filePaths));
+
+  for (const name of ["serverless.yml", "serverless.yaml", "template.yaml", "template.yml"]) {
+    const content = filePaths.has(name) ? await read(name) : null;
+    if (content !== null) lists.push(parseServerlessConfig(content, name, filePaths));
+  }
+
+  return mergeEntrypoints(...lists);
+}
@@ -3,18 +3,154 @@
  * Generates markdown documentation from repo_facts.json
  */
 
-import type { RepoFacts, BootcampOptions } from "./types.js";
+import { fetchRefFor, fileLink } from "./hosts.js";
+import type { RepoFacts, BootcampOptions, WorkspaceInfo, CIWorkflow, CIJob, CISystem } from "./types.js";
+import type { StyleConfig } from "./plugins.js";
+import { languageShare } from "./loc.js";
 
 /** Maximum items shown in summary sections of BOOTCAMP.md */
 const MAX_BOOTCAMP_SUMMARY_ITEMS = 5;
 /** Maximum beginner tasks shown in the quick-start section */
 const MAX_QUICK_TASKS = 3;
+/** Maximum languages and directories in the CODEMAP.md size tables */
+const MAX_CODE_SIZE_ROWS = 10;
+
+type Focus = BootcampOptions["focus"];
+type Audience = BootcampOptions["audience"];
+
+/**
+ * Built-in documents generated for each --focus value.
+ * Documents not listed for any focus (repo_facts.json, DIFF.md, plugin docs)
+ * are always written.
+ */
+const FOCUS_DOCUMENTS: Record<Exclude<Focus, "all">, string[]> = {
+  onboarding: ["BOOTCAMP.md", "ONBOARDING.md", "CODEMAP.md", "FIRST_TASKS.md", "DEPENDENCIES.md", "RADAR.md", "WORKSPACES.md", "CI.md"],
+  architecture: ["BOOTCAMP.md", "ARCHITECTURE.md", "CODEMAP.md", "diagrams.mmd", "DEPENDENCIES.md", "IMPACT.md", "WORKSPACES.md"],
+  contributing: ["BOOTCAMP.md", "ONBOARDING.md", "CODEMAP.md", "FIRST_TASKS.md", "IMPACT.md", "CI.md"],
+};
+
+/** Every built-in document that is subject to focus filtering */
+const FOCUS_MANAGED_DOCUMENTS = new Set([
+  "BOOTCAMP.md",
+  "ONBOARDING.md",
+  "ARCHITECTURE.md",
+  "CODEMAP.md",
+  "FIRST_TASKS.md",
+  "RUNBOOK.md",
+  "diagrams.mmd",
+  "SECURITY.md",
+  "RADAR.md",
+  "DEPENDENCIES.md",
+  "IMPACT.md",
+  "WORKSPACES.md",
+  "CI.md",
+]);
+
+/**
+ * Check whether a document belongs to the kit for the given focus
+ */
+export function isDocIncludedForFocus(name: string, focus: Focus = "all"): boolean {
+  if (focus === "all" || !FOCUS_MANAGED_DOCUMENTS.has(name)) return true;
+  return FOCUS_DOCUMENTS[focus]?.includes(name) ?? true;
+}
+
+/**
+ * Check whether a document is enabled by the style pack's section flags
+ */
+export function isDocIncludedForStyle(name: string, style?: StyleConfig): boolean {
+  if (!style) return true;
+  switch (name) {
+    case "RUNBOOK.md":
+      return style.sections.showRunbook;
+    case "RADAR.md":
+      return style.sections.showRadar;
+    case "IMPACT.md":
+      return style.sections.showImpact;
+    default:
+      return true;
+  }
+}
+
+/** Matches emoji (and a trailing variation selector/space) for emoji-free styles */
+const EMOJI_PATTERN = /\p{Extended_Pictographic}\uFE0F?\s?/gu;
+
+/**
+ * Apply document-wide style rules (currently emoji removal) to generated markdown
+ */
+export function applyStyleToDocument(content: string, style?: StyleConfig): string {
+  if (!style || style.emoji) return content;
+  return content.replace(EMOJI_PATTERN, "");
+}
+
+/** Section headings that vary with the style pack's tone */
+const TONE_HEADINGS: Record<StyleConfig["tone"], { quickPath: string; nextSteps: string }> = {
+  casual: { quickPath: "If You Only Have 30 Minutes", nextSteps: "Next Steps" },
+  formal: { quickPath: "Recommended First Session", nextSteps: "Further Reading" },
+  technical: { quickPath: "30-Minute Quick Path", nextSteps: "Reference Documents" },
+};
+
+/** Links shown in the "Next Steps" section of BOOTCAMP.md */
+const NEXT_STEP_LINKS: { name: string; label: string }[] = [
+  { name: "ONBOARDING.md", label: "📖 [ONBOARDING.md](./ONBOARDING.md) - Full setup guide" },
+  { name: "ARCHITECTURE.md", label: "🏗️ [ARCHITECTURE.md](./ARCHITECTURE.md) - System design" },
+  { name: "CODEMAP.md", label: "🗺️ [CODEMAP.md](./CODEMAP.md) - Directory tour" },
+  { name: "FIRST_TASKS.md", label: "✅ [FIRST_TASKS.md](./FIRST_TASKS.md) - Starter issues" },
+];
+
+/**
+ * Audience-specific section for BOOTCAMP.md and ONBOARDING.md
+ * `documents` names the files this run writes; RUNBOOK.md is only linked when among them
+ */
+function audienceSection(facts: RepoFacts, audience?: Audience, documents?: ReadonlySet<string>): string {
+  switch (audience) {
+    case "internal-dev": {
+      const deploySteps = facts.runbook?.deploySteps?.length
+        ? facts.runbook.deploySteps.map((s, i) => `${i + 1}. ${s}`).join("\n")
+        : "_Deployment steps not documented - check with the owning team_";
+      const observability = facts.runbook?.observability?.length
+        ? facts.runbook.observability.map((o) => `- ${o}`).join("\n")
+        : "- _No dashboards or alerts documented_";
+      return `## Deploy & On-Call
+
+${deploySteps}
+
+**Where to look when paged:**
+${observability}
+${documents?.has("RUNBOOK.md") ? "\nSee [RUNBOOK.md](./RUNBOOK.md) for incident checks.\n" : ""}`;
+    }
+    case "oss-contributor":
+      return `## Contribution Etiquette
+
+- Check whether the project requires a CLA or DCO sign-off before your first PR
+- Open or comment on an issue before starting large changes
+- Keep pull requests small and focused on one change
+- Run ${facts.ci.mainChecks.length > 0 ? facts.ci.mainChecks.map((c) => `\`${c}\``).join(", ") : "the test suite"} locally before pushing
+- Be patient with reviews - maintainers are often volunteers
+`;
+    case "new-hire":
+      return `## Your First Week
+
+- [ ] Get the project running locally using the Quick Start
+- [ ] Read the architecture overview and trace one request end to end
+- [ ] Pair with a teammate on a beginner task
+- [ ] Ship your first small pull request
+`;
+    default:
+      return "";
+  }
+}
 
 /**
  * Format confidence as a badge
  */
-function confidenceBadge(confidence?: "high" | "medium" | "low"): string {
-  if (!confidence) return "";
+function confidenceBadge(
+  confidence?: "high" | "medium" | "low",
+  badgeStyle: StyleConfig["badges"]["style"] = "shields"
+): string {
+  if (!confidence || badgeStyle === "none") return "";
+  if (badgeStyle === "simple") {
+    return `**Confidence:** ${confidence.charAt(0).toUpperCase()}${confidence.slice(1)}`;
+  }
   const badges: Record<string, string> = {
     high: "![Confidence: High](https://img.shields.io/badge/confidence-high-brightgreen)",
     medium: "![Confidence: Medium](https://img.shields.io/badge/confidence-medium-yellow)",
@@ -23,6 +159,76 @@ function confidenceBadge(confidence?: "high" | "medium" | "low"): string {
   return badges[confidence] || "";
 }
 
+/**
+ * Banner for bootcamps scoped to a subdirectory (--path or --package)
+ */
+function scopeNote(facts: RepoFacts): string {
+  const subdir = facts.location?.subdir;
+  if (!subdir) return "";
+  return `\n> **Scoped bootcamp:** covers \`${subdir}/\` only. Paths are relative to that directory; the repository root README, CODEOWNERS and CI config were read as context.\n`;
+}
+
+function formatCount(n: number): string {
+  return n.toLocaleString("en-US");
+}
+
+/**
+ * Languages with their share of the lines of code, when the scan counted them
+ */
+function languagesWithShare(facts: RepoFacts): string {
+  const stats = facts.codeStats;
+  if (!stats || stats.total.code === 0) return facts.stack.languages.join(", ");
+  return facts.stack.languages
+    .map((language) => {
+      const share = languageShare(stats, language);
+      return share > 0 ? `${language} (${share}%)` : language;
+    })
+    .join(", ");
+}
+
+/**
+ * CODEMAP.md section with lines of code by language and top-level directory
+ */
+function codeSizeSection(facts: RepoFacts): string {
+  const stats = facts.codeStats;
+  if (!stats || stats.total.files === 0) return "";
+
+  const languages = stats.languages
+    .slice(0, MAX_CODE_SIZE_ROWS)
+    .map((l) => `| ${l.language} | ${formatCount(l.files)} | ${formatCount(l.code)} | ${formatCount(l.comment)} | ${formatCount(l.blank)} |`)
+    .join("\n");
+  const directories = stats.directories
+    .slice(0, MAX_CODE_SIZE_ROWS)
+    .map((d) => `| \`${d.path}\` | ${formatCount(d.files)} | ${formatCount(d.code)} | ${d.languages.slice(0, 3).join(", ")} |`)
+    .join("\n");
+
+  return `## Code Size
+
+${formatCount(stats.total.code)} lines of code, ${formatCount(stats.total.comment)} comment lines and ${formatCount(stats.total.blank)} blank lines in ${formatCount(stats.total.files)} files.
+
+| Language | Files | Code | Comment | Blank |
+|----------|-------|------|---------|-------|
+${languages}
+
+| Directory | Files | Code | Languages |
+|-----------|-------|------|-----------|
+${directories}
+
+`;
+}
+
+/**
+ * Command that checks out the ref the docs were generated for (--ref), with its trailing newline
+ */
+function checkoutCommand(facts: RepoFacts): string {
+  const location = facts.location;
+  if (!location?.ref) return "";
+  const fetchRef = fetchRefFor(location.host, location.ref);
+  return fetchRef === location.ref
+    ? `git checkout ${location.ref}\n`
+    : `git fetch origin ${fetchRef} && git checkout --detach FETCH_HEAD\n`;
+}
+
 /**
  * Format sources as a collapsible section
  */
@@ -38,11 +244,37 @@ ${sources.map(s => `- \`${s}\``).join("\n")}
 `;
 }
 
+/**
+ * List the claims the citation verifier dropped or flagged
+ */
+function verificationSection(facts: RepoFacts): string {
+  const issues = facts.verification?.issues ?? [];
+  if (issues.length === 0) return "";
+  const rows = issues
+    .map((i) => `| ${i.field} | \`${i.value.replace(/\|/g, "\\|")}\` | ${i.action} | ${i.reason} |`)
+    .join("\n");
+  return `## Verification
+
+${issues.length} of ${facts.verification!.checked} cited paths, commands and code examples could not be confirmed in the repository and were corrected:
+
+| Field | Claim | Action | Reason |
+|---|---|---|---|
+${rows}
+
+`;
+}
+
 /**
  * Generate BOOTCAMP.md - the main 1-page overview
  */
-export function generateBootcamp(facts: RepoFacts, _options: BootcampOptions): string {
-  void _options;
+export function generateBootcamp(
+  facts: RepoFacts,
+  options: BootcampOptions,
+  style?: StyleConfig,
+  documents?: ReadonlySet<string>
+): string {
+  const quickTaskLimit = Math.min(MAX_QUICK_TASKS, style?.firstTasksCount ?? MAX_QUICK_TASKS);
+  const headings = TONE_HEADINGS[style?.tone || "casual"];
   const prereqs = facts.quickstart.prerequisites.map((p) => `- ${p}`).join("\n");
   const steps = facts.quickstart.steps.map((s, i) => `${i + 1}. ${s}`).join("\n");
   const commands = facts.quickstart.commands
@@ -57,14 +289,26 @@ export function generateBootcamp(facts: RepoFacts, _options: BootcampOptions): s
 
   const quickTasks = facts.firstTasks
     .filter((t) => t.difficulty === "beginner")
-    .slice(0, MAX_QUICK_TASKS)
+    .slice(0, quickTaskLimit)
     .map((t) => `- **${t.title}**: ${t.description}`)
     .join("\n");
 
-  return `# ${facts.repoName} Bootcamp
+  const nextSteps = NEXT_STEP_LINKS
+    .filter((link) =>
+      documents
+        ? documents.has(link.name)
+        : isDocIncludedForFocus(link.name, options.focus) && isDocIncludedForStyle(link.name, style)
+    )
+    .map((link) => `- ${link.label}`)
+    .join("\n");
 
-${confidenceBadge(facts.confidence)}
+  const audience = audienceSection(facts, options.audience, documents);
+  const verification = verificationSection(facts);
 
+  return `# ${facts.repoName} Bootcamp
+${scopeNote(facts)}
+${confidenceBadge(facts.confidence, style?.badges.style)}
+${style?.introText ? `\n${style.introText}\n` : ""}
 > ${facts.purpose}
 
 ${facts.description}
@@ -74,11 +318,11 @@ ${sourcesSection(facts.sources, "Based on")}
 
 | | |
 |---|---|
-| **Languages** | ${facts.stack.languages.join(", ")} |
+| **Languages** | ${languagesWithShare(facts)} |
 | **Frameworks** | ${facts.stack.frameworks.join(", ") || "None"} |
 | **Build System** | ${facts.stack.buildSystem} |
 | **Package Manager** | ${facts.stack.packageManager || "N/A"} |
-
+${facts.codeStats ? `| **Size** | ${formatCount(facts.codeStats.total.code)} lines of code in ${formatCount(facts.codeStats.total.files)} files |\n` : ""}
 ## Prerequisites
 
 ${prereqs}
@@ -93,7 +337,7 @@ ${steps}
 
 ${keyDirs}
 
-## If You Only Have 30 Minutes
+## ${headings.quickPath}
 
 1. Read this document
 2. Run the dev server: \`${facts.quickstart.commands.find((c) => c.name.includes("dev"))?.command || facts.quickstart.commands[0]?.command || "npm run dev"}\`
@@ -101,12 +345,9 @@ ${keyDirs}
 
 ${quickTasks}
 
-## Next Steps
+${audience ? `${audience}\n` : ""}${verification}## ${headings.nextSteps}
 
-- 📖 [ONBOARDING.md](./ONBOARDING.md) - Full setup guide
-- 🏗️ [ARCHITECTURE.md](./ARCHITECTURE.md) - System design
-- 🗺️ [CODEMAP.md](./CODEMAP.md) - Directory tour
-- ✅ [FIRST_TASKS.md](./FIRST_TASKS.md) - Starter issues
+${nextSteps}
 
 ---
 *Generated by [Repo Bootcamp](https://github.com/repo-bootcamp)*
@@ -116,7 +357,11 @@ ${quickTasks}
 /**
  * Generate ONBOARDING.md - detailed setup guide
  */
-export function generateOnboarding(facts: RepoFacts): string {
+export function generateOnboarding(
+  facts: RepoFacts,
+  options?: BootcampOptions,
+  documents?: ReadonlySet<string>
+): string {
   const prereqs = facts.quickstart.prerequisites.map((p) => `- [ ] ${p}`).join("\n");
   const commands = facts.quickstart.commands
     .map((c) => `### ${c.name}\n\`\`\`bash\n${c.command}\n\`\`\`\n${c.description ? `> ${c.description}` : ""}`)
@@ -130,9 +375,10 @@ export function generateOnboarding(facts: RepoFacts): string {
   const testCmd = facts.quickstart.commands.find(
     (c) => c.name.includes("test") || c.command.includes("test")
   );
+  const audience = audienceSection(facts, options?.audience, documents);
 
   return `# Onboarding Guide: ${facts.repoName}
-
+${scopeNote(facts)}
 ## Prerequisites Checklist
 
 ${prereqs}
@@ -141,9 +387,9 @@ ${prereqs}
 
 \`\`\`bash
 # Clone the repository
-git clone https://github.com/${facts.repoName}.git
-cd ${facts.repoName.split("/")[1]}
-
+git clone ${facts.location?.cloneUrl ?? `https://github.com/${facts.repoName}.git`}
+cd ${facts.repoName.split("/").pop()}${facts.location?.subdir ? `/${facts.location.subdir}` : ""}
+${checkoutCommand(facts)}
 # Install dependencies
 ${facts.quickstart.commands.find((c) => c.name === "install")?.command || `${facts.stack.packageManager || "npm"} install`}
 \`\`\`
@@ -178,7 +424,7 @@ Recommended extensions:
 - ESLint / Prettier (if applicable)
 - Language-specific extensions for ${facts.stack.languages.join(", ")}
 
-## Getting Help
+${audience ? `${audience}\n` : ""}## Getting Help
 
 - Check existing issues on GitHub
 - Read through the docs in \`${facts.structure.docsDirs[0] || "docs/"}\`
@@ -192,7 +438,7 @@ Recommended extensions:
 /**
  * Generate ARCHITECTURE.md
  */
-export function generateArchitecture(facts: RepoFacts): string {
+export function generateArchitecture(facts: RepoFacts, options?: BootcampOptions): string {
   const components = facts.architecture.components
     .map((c) => `### ${c.name}\n\n**Directory:** \`${c.directory}\`\n\n${c.description}`)
     .join("\n\n");
@@ -247,8 +493,10 @@ ${examples}
   // Generate Mermaid diagram
   const mermaidDiagram = generateMermaidDiagram(facts);
 
-  return `# Architecture: ${facts.repoName}
+  const deepDive = options?.focus === "architecture" ? architectureDeepDive(facts) : "";
 
+  return `# Architecture: ${facts.repoName}
+${scopeNote(facts)}
 ## Overview
 
 ${facts.architecture.overview}
@@ -272,6 +520,7 @@ ${facts.architecture.dataFlow || "_Data flow not documented_"}
 
 ${abstractions}
 
+${deepDive}
 ## Entrypoints
 
 | Path | Type | Description |
@@ -294,6 +543,43 @@ ${facts.structure.entrypoints.length > 0
 `;
 }
 
+/**
+ * Extra ARCHITECTURE.md sections generated for --focus architecture
+ */
+function architectureDeepDive(facts: RepoFacts): string {
+  const moduleRows = facts.structure.keyDirs.length > 0
+    ? facts.structure.keyDirs
+        .map((d) => {
+          const owner = facts.architecture.components.find(
+            (c) => c.directory.replace(/\/$/, "") === d.path.replace(/\/$/, "")
+          );
+          const keyFiles = d.keyFiles?.map((f) => `\`${f}\``).join(", ") || "-";
+          return `| \`${d.path}\` | ${owner?.name || "-"} | ${d.purpose} | ${keyFiles} |`;
+        })
+        .join("\n")
+    : "| _None documented_ | - | - | - |";
+
+  const readingPath = [
+    ...facts.structure.entrypoints.map((e) => `Start at the entrypoint \`${e.path}\` (${e.type})`),
+    ...facts.architecture.components.map((c) => `Read **${c.name}** in \`${c.directory}\``),
+    ...(facts.architecture.keyAbstractions || []).map((a) => `Find where **${a.name}** is defined and used`),
+  ]
+    .map((step, i) => `${i + 1}. ${step}`)
+    .join("\n");
+
+  return `## Module Map
+
+| Directory | Component | Purpose | Key Files |
+|-----------|-----------|---------|-----------|
+${moduleRows}
+
+## Suggested Reading Path
+
+${readingPath || "_No reading path available_"}
+
+`;
+}
+
 /**
  * Generate a Mermaid diagram from repo facts
  */
@@ -335,11 +621,11 @@ ${files ? `Key files:\n${files}` : ""}`;
     .join("\n\n");
 
   const entrypoints = facts.structure.entrypoints
-    .map((e) => `- [\`${e.path}\`](./${e.path}) - ${e.description || e.type}`)
+    .map((e) => `- [\`${e.path}\`](${fileLink(facts.location, e.path) ?? `./${e.path}`}) - ${e.description || e.type}`)
     .join("\n");
 
   return `# Code Map: ${facts.repoName}
-
+${scopeNote(facts)}
 A guided tour of the codebase for new contributors.
 
 ## Start Here
@@ -352,7 +638,7 @@ These are the main entry points to understand how the code flows.
 
 ${dirs}
 
-## Test Structure
+${codeSizeSection(facts)}## Test Structure
 
 | Directory | Purpose |
 |-----------|---------|
@@ -384,11 +670,12 @@ ${facts.ci.workflows.length > 0
 /**
  * Generate FIRST_TASKS.md
  */
-export function generateFirstTasks(facts: RepoFacts): string {
+export function generateFirstTasks(facts: RepoFacts, options?: BootcampOptions, style?: StyleConfig): string {
+  const tasks = style ? facts.firstTasks.slice(0, style.firstTasksCount) : facts.firstTasks;
   const tasksByCategory = {
-    beginner: facts.firstTasks.filter((t) => t.difficulty === "beginner"),
-    intermediate: facts.firstTasks.filter((t) => t.difficulty === "intermediate"),
-    advanced: facts.firstTasks.filter((t) => t.difficulty === "advanced"),
+    beginner: tasks.filter((t) => t.difficulty === "beginner"),
+    intermediate: tasks.filter((t) => t.difficulty === "intermediate"),
+    advanced: tasks.filter((t) => t.difficulty === "advanced"),
   };
 
   const formatTask = (t: (typeof facts.firstTasks)[0]) => `### ${t.title}
@@ -419,7 +706,7 @@ ${tasksByCategory.intermediate.map(formatTask).join("\n") || "_No intermediate t
 
 ${tasksByCategory.advanced.map(formatTask).join("\n") || "_No advanced tasks suggested_"}
 
-## How to Pick a Task
+${options?.focus === "contributing" ? contributionWorkflowSection(facts) : ""}## How to Pick a Task
 
 1. **New to the codebase?** Start with a beginner task
 2. **Want to learn the architecture?** Pick an intermediate refactor
@@ -438,6 +725,31 @@ ${tasksByCategory.advanced.map(formatTask).join("\n") || "_No advanced tasks sug
 `;
 }
 
+/**
+ * Contribution workflow section added to FIRST_TASKS.md for --focus contributing
+ */
+function contributionWorkflowSection(facts: RepoFacts): string {
+  const feature = facts.contrib.howToAddFeature.map((s, i) => `${i + 1}. ${s}`).join("\n");
+  const test = facts.contrib.howToAddTest.map((s, i) => `${i + 1}. ${s}`).join("\n");
+  const checks = facts.ci.mainChecks.map((c) => `- [ ] ${c}`).join("\n");
+
+  return `## Contribution Workflow
+
+### Adding a Feature
+
+${feature || "_Not documented_"}
+
+### Adding a Test
+
+${test || "_Not documented_"}
+
+### Checks Your PR Must Pass
+
+${checks || "_No CI checks documented_"}
+${facts.contrib.codeStyle ? `\n**Code style:** ${facts.contrib.codeStyle}\n` : ""}
+`;
+}
+
 /**
  * Generate RUNBOOK.md
  */
@@ -509,9 +821,20 @@ ${incidents}
 
 /**
  * Generate Mermaid diagrams file
+ *
+ * @param pipelines - CI pipelines parsed from the repo; without jobs the CI/CD
+ *   section shows a generic flow
  */
-export function generateDiagrams(facts: RepoFacts): string {
+export function generateDiagrams(facts: RepoFacts, pipelines: CIWorkflow[] = []): string {
   const componentDiagram = generateMermaidDiagram(facts);
+  const pipelineDiagram = pipelines.some((p) => (p.jobs ?? []).length > 0)
+    ? generatePipelineDiagram(pipelines)
+    : `graph LR
+    A[Push] --> B[CI]
+    B --> C{Tests Pass?}
+    C -->|Yes| D[Build]
+    C -->|No| E[Fix]
+    D --> F[Deploy]`;
 
   return `# Diagrams: ${facts.repoName}
 
@@ -531,12 +854,226 @@ ${facts.structure.keyDirs.map((d, i) => `    D${i}["${d.path}"]`).join("\n")}
 ## CI/CD Pipeline
 
 \`\`\`mermaid
-graph LR
-    A[Push] --> B[CI]
-    B --> C{Tests Pass?}
-    C -->|Yes| D[Build]
-    C -->|No| E[Fix]
-    D --> F[Deploy]
+${pipelineDiagram}
+\`\`\`
+`;
+}
+
+/** Packages with their own command listing in WORKSPACES.md */
+const MAX_WORKSPACE_COMMAND_SECTIONS = 30;
+
+/**
+ * Mermaid graph of workspace packages and their internal dependencies
+ */
+export function generateWorkspaceGraph(workspaces: WorkspaceInfo): string {
+  const ids = new Map(workspaces.packages.map((p, i) => [p.name, `P${i}`]));
+  const label = (name: string) => name.replace(/"/g, "#quot;");
+
+  const lines = ["graph LR"];
+  for (const pkg of workspaces.packages) {
+    lines.push(`    ${ids.get(pkg.name)}["${label(pkg.name)}"]`);
+  }
+  for (const pkg of workspaces.packages) {
+    for (const dep of pkg.internalDeps) {
+      lines.push(`    ${ids.get(pkg.name)} --> ${ids.get(dep)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate WORKSPACES.md for a monorepo
+ */
+export function generateWorkspaces(facts: RepoFacts, workspaces: WorkspaceInfo): string {
+  const dependents = new Map<string, number>();
+  for (const pkg of workspaces.packages) {
+    for (const dep of pkg.internalDeps) {
+      dependents.set(dep, (dependents.get(dep) ?? 0) + 1);
+    }
+  }
+
+  const rows = workspaces.packages.map((pkg) => {
+    const link = fileLink(facts.location, pkg.manifest) ?? `./${pkg.manifest}`;
+    const stack = [...pkg.stack.languages, ...pkg.stack.frameworks].join(", ") || "-";
+    const uses = pkg.internalDeps.map((d) => `\`${d}\``).join(", ") || "-";
+    return `| [\`${pkg.name}\`](${link}) | \`${pkg.path}\` | ${stack} | ${pkg.dependencies.length} | ${uses} | ${dependents.get(pkg.name) ?? 0} |`;
+  });
+
+  const commandSections = workspaces.packages
+    .filter((pkg) => pkg.commands.length > 0)
+    .slice(0, MAX_WORKSPACE_COMMAND_SECTIONS)
+    .map((pkg) => `### ${pkg.name}
+
+\`\`\`bash
+${pkg.commands.map((c) => c.command).join("\n")}
+\`\`\``)
+    .join("\n\n");
+
+  // Leaf packages depend on no other member, so they are the easiest to learn first
+  const leaves = workspaces.packages.filter((pkg) => pkg.internalDeps.length === 0).map((pkg) => `\`${pkg.name}\``);
+
+  return `# Workspaces: ${facts.repoName}
+
+This repository is a monorepo with ${workspaces.packages.length} packages (${workspaces.tools.join(", ")}).
+Generate a bootcamp for a single package with \`--package <name>\`.
+
+## Packages
+
+| Package | Path | Stack | External deps | Uses | Used by |
+|---------|------|-------|---------------|------|---------|
+${rows.join("\n")}
+
+## Package Graph
+
+Arrows point from a package to the workspace packages it depends on.
+
+\`\`\`mermaid
+${generateWorkspaceGraph(workspaces)}
+\`\`\`
+
+## Where to Start
+
+${leaves.length > 0 ? `Packages with no internal dependencies: ${leaves.join(", ")}.` : "_Every package depends on another member._"}
+
+## Package Commands
+
+Run these from the repository root.
+
+${commandSections || "_No package scripts or targets detected_"}
+
+---
+*Generated by [Repo Bootcamp](https://github.com/repo-bootcamp)*
+`;
+}
+
+/** Jobs drawn in the pipeline diagram */
+const MAX_PIPELINE_DIAGRAM_JOBS = 60;
+/** Jobs described in CI.md */
+const MAX_CI_JOB_SECTIONS = 50;
+
+/** Display names of the CI systems */
+const CI_SYSTEM_NAMES: Record<CISystem, string> = {
+  "github-actions": "GitHub Actions",
+  "gitlab-ci": "GitLab CI",
+  circleci: "CircleCI",
+  "azure-pipelines": "Azure Pipelines",
+  jenkins: "Jenkins",
+};
+
+/**
+ * Jobs a job waits for: the ones it names, or else every job of the nearest
+ * earlier stage on systems that run stages in order
+ */
+function upstreamJobs(pipeline: CIWorkflow, job: CIJob): string[] {
+  const stages = pipeline.stages;
+  if (job.needs.length > 0 || !job.stage || !stages) return job.needs;
+  const jobs = pipeline.jobs ?? [];
+  for (let i = stages.indexOf(job.stage) - 1; i >= 0; i--) {
+    const previous = jobs.filter((j) => j.stage === stages[i]).map((j) => j.id);
+    if (previous.length > 0) return previous;
+  }
+  return [];
+}
+
+/**
+ * Mermaid flowchart of CI pipelines: one subgraph per pipeline, jobs linked
+ * to the jobs that wait for them, matrix jobs marked with their combination count
+ */
+export function generatePipelineDiagram(pipelines: CIWorkflow[]): string {
+  const label = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+  let drawn = 0;
+
+  pipelines.forEach((pipeline, p) => {
+    const jobs = (pipeline.jobs ?? []).slice(0, Math.max(0, MAX_PIPELINE_DIAGRAM_JOBS - drawn));
+    if (jobs.length === 0) return;
+    drawn += jobs.length;
+
+    const ids = new Map(jobs.map((job, j) => [job.id, `P${p}J${j}`]));
+    const triggers = pipeline.triggers.length > 0 ? `<br/>on: ${pipeline.triggers.join(", ")}` : "";
+    lines.push(`    subgraph P${p}["${label(pipeline.name + triggers)}"]`);
+    for (const job of jobs) {
+      const axes = Object.values(job.matrix);
+      const matrix = axes.length > 0 ? ` ×${axes.reduce((n, values) => n * values.length, 1)}` : "";
+      lines.push(`        ${ids.get(job.id)}["${label(job.name + matrix)}"]`);
+    }
+    lines.push("    end");
+    for (const job of jobs) {
+      for (const upstream of upstreamJobs(pipeline, job)) {
+        if (ids.has(upstream)) lines.push(`    ${ids.get(upstream)} --> ${ids.get(job.id)}`);
+      }
+    }
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Description of one CI job with the commands to run it locally
+ */
+function ciJobSection(pipeline: CIWorkflow, job: CIJob): string {
+  const details = [
+    job.stage ? `- **Stage:** ${job.stage}` : "",
+    job.runsOn ? `- **Runs on:** \`${job.runsOn}\`` : "",
+    job.needs.length > 0 ? `- **Needs:** ${job.needs.map((n) => `\`${n}\``).join(", ")}` : "",
+    Object.keys(job.matrix).length > 0
+      ? `- **Matrix:** ${Object.entries(job.matrix).map(([axis, values]) => `${axis} = ${values.join(", ")}`).join("; ")}`
+      : "",
+    job.services.length > 0 ? `- **Services:** ${job.services.map((s) => `\`${s}\``).join(", ")}` : "",
+  ].filter(Boolean);
+
+  const uses = [...new Set(job.steps.filter((s) => s.uses).map((s) => s.uses!))];
+  if (uses.length > 0) details.push(`- **Uses:** ${uses.map((u) => `\`${u}\``).join(", ")}`);
+
+  const commands = job.steps.filter((s) => s.run).map((s) => (s.name ? `# ${s.name}\n${s.run}` : s.run));
+  const script = commands.length > 0 ? `\`\`\`bash\n${commands.join("\n")}\n\`\`\`` : "_No shell commands; the job only runs the steps listed above._";
+
+  return `### ${pipeline.name}: ${job.name}
+
+${details.join("\n")}
+
+${script}`;
+}
+
+/**
+ * Generate CI.md: the repo's CI pipelines, their jobs and how to reproduce them locally
+ */
+export function generateCi(facts: RepoFacts, pipelines: CIWorkflow[]): string {
+  const systems = [...new Set(pipelines.map((p) => (p.system ? CI_SYSTEM_NAMES[p.system] : "CI")))];
+  const rows = pipelines.map((p) => {
+    const jobs = (p.jobs ?? []).map((j) => j.name).join(", ") || "-";
+    return `| ${p.name} | ${p.system ? CI_SYSTEM_NAMES[p.system] : "-"} | \`${p.file}\` | ${p.triggers.join(", ") || "-"} | ${jobs} |`;
+  });
+
+  const jobSections = pipelines
+    .flatMap((pipeline) => (pipeline.jobs ?? []).map((job) => ciJobSection(pipeline, job)))
+    .slice(0, MAX_CI_JOB_SECTIONS)
+    .join("\n\n");
+
+  return `# CI: ${facts.repoName}
+
+${pipelines.length} ${pipelines.length === 1 ? "pipeline" : "pipelines"} on ${systems.join(", ")}.
+
+## Pipelines
+
+| Pipeline | System | File | Triggers | Jobs |
+|----------|--------|------|----------|------|
+${rows.join("\n")}
+
+## Pipeline Diagram
+
+Arrows point from a job to the jobs that wait for it.
+
+\`\`\`mermaid
+${generatePipelineDiagram(pipelines)}
 \`\`\`
+
+## Reproducing CI Locally
+
+Run a job's commands from the repository root to check your change before pushing. Start its services first (for example with \`docker run\`), pick one value for each matrix axis, and fill in \`\${{ ... }}\` expressions and CI variables yourself.
+
+${jobSections || "_No jobs detected_"}
+
+---
+*Generated by [Repo Bootcamp](https://github.com/repo-bootcamp)*
 `;
 }
@@ -0,0 +1,216 @@
+/**
+ * Git History
+ * Commit history, blame and co-change queries behind the agent's git tools.
+ *
+ * cloneRepo makes shallow clones unless --full-clone is given, so callers check
+ * isShallowClone() and say when history is truncated rather than presenting the
+ * newest commit as the whole story.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/** Timeout for a single git query */
+const GIT_TIMEOUT_MS = 30_000;
+/** Output cap for git log / blame on large repos */
+const GIT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * One commit in a path's history
+ */
+export interface CommitSummary {
+  sha: string;
+  date: string;
+  author: string;
+  subject: string;
+}
+
+/**
+ * Lines attributed to one commit by git blame
+ */
+export interface BlameCommit {
+  sha: string;
+  author: string;
+  date: string;
+  summary: string;
+  lines: number;
+  /** Line ranges in the blamed file, e.g. "12-18" */
+  ranges: string[];
+  /** True for the oldest commit of a shallow clone, which also owns every older line */
+  boundary: boolean;
+}
+
+/**
+ * Blame totals for a file or line range
+ */
+export interface BlameSummary {
+  totalLines: number;
+  authors: { name: string; lines: number }[];
+  commits: BlameCommit[];
+}
+
+/**
+ * Files that changed in the same commits as a path
+ */
+export interface CoChangeSummary {
+  /** Commits that touched the path */
+  commits: number;
+  files: { path: string; count: number }[];
+}
+
+async function git(repoPath: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd: repoPath,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: GIT_MAX_BUFFER,
+  });
+  return stdout;
+}
+
+/**
+ * Whether the repository is a shallow clone (missing older history)
+ */
+export async function isShallowClone(repoPath: string): Promise<boolean> {
+  try {
+    return (await git(repoPath, ["rev-parse", "--is-shallow-repository"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recent commits that touched a path (the whole repo when path is empty)
+ */
+export async function getFileHistory(repoPath: string, path: string, maxCount: number): Promise<CommitSummary[]> {
+  const args = ["log", `--max-count=${maxCount}`, "--date=short", "--format=%h%x09%ad%x09%an%x09%s"];
+  if (path) args.push("--", path);
+
+  const stdout = await git(repoPath, args);
+  return stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [sha, date, author, ...subject] = line.split("\t");
+      return { sha, date, author, subject: subject.join("\t") };
+    });
+}
+
+/**
+ * Collapse sorted line numbers into ranges ("3", "7-9")
+ */
+function toRanges(lineNumbers: number[]): string[] {
+  const ranges: string[] = [];
+  let start = lineNumbers[0];
+  let prev = start;
+  for (const n of [...lineNumbers.slice(1), NaN]) {
+    if (n === prev + 1) {
+      prev = n;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = prev = n;
+  }
+  return ranges;
+}
+
+/**
+ * Summarize `git blame --porcelain` output by author and commit
+ */
+export function parseBlamePorcelain(output: string): BlameSummary {
+  const commits = new Map<string, Omit<BlameCommit, "lines" | "ranges"> & { lineNumbers: number[] }>();
+  let current: ReturnType<typeof commits.get>;
+  let totalLines = 0;
+
+  for (const line of output.split("\n")) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      const [, sha, finalLine] = header;
+      current = commits.get(sha);
+      if (!current) {
+        current = { sha: sha.slice(0, 7), author: "", date: "", summary: "", boundary: false, lineNumbers: [] };
+        commits.set(sha, current);
+      }
+      current.lineNumbers.push(parseInt(finalLine, 10));
+      totalLines++;
+    } else if (current && line.startsWith("author ")) {
+      current.author = line.slice("author ".length);
+    } else if (current && line.startsWith("author-time ")) {
+      current.date = new Date(parseInt(line.slice("author-time ".length), 10) * 1000).toISOString().slice(0, 10);
+    } else if (current && line.startsWith("summary ")) {
+      current.summary = line.slice("summary ".length);
+    } else if (current && line === "boundary") {
+      current.boundary = true;
+    }
+  }
+
+  const byAuthor = new Map<string, number>();
+  const summaries: BlameCommit[] = [...commits.values()].map(({ lineNumbers, ...commit }) => {
+    byAuthor.set(commit.author, (byAuthor.get(commit.author) ?? 0) + lineNumbers.length);
+    return { ...commit, lines: lineNumbers.length, ranges: toRanges(lineNumbers.sort((a, b) => a - b)) };
+  });
+
+  return {
+    totalLines,
+    authors: [...byAuthor].map(([name, lines]) => ({ name, lines })).sort((a, b) => b.lines - a.lines),
+    commits: summaries.sort((a, b) => b.lines - a.lines),
+  };
+}
+
+/**
+ * Blame a file, optionally limited to a line range
+ */
+export async function getBlameSummary(
+  repoPath: string,
+  path: string,
+  startLine?: number,
+  endLine?: number
+): Promise<BlameSummary> {
+  const args = ["blame", "--porcelain"];
+  if (startLine !== undefined || endLine !== undefined) {
+    args.push("-L", `${startLine ?? 1},${endLine ?? ""}`);
+  }
+  args.push("--", path);
+  return parseBlamePorcelain(await git(repoPath, args));
+}
+
+/**
+ * Files most often changed in the same commits as a path
+ */
+export async function getCoChanges(
+  repoPath: string,
+  path: string,
+  maxCommits: number,
+  maxResults: number
+): Promise<CoChangeSummary> {
+  // --full-diff lists every file in the matching commits, not just the path itself
+  const stdout = await git(repoPath, [
+    "log",
+    `--max-count=${maxCommits}`,
+    "--format=%x00%h",
+    "--name-only",
+    "--full-diff",
+    "--",
+    path,
+  ]);
+
+  const target = path.replace(/^\.\//, "").replace(/\/+$/, "");
+  const counts = new Map<string, number>();
+  let commits = 0;
+
+  for (const chunk of stdout.split("\0").slice(1)) {
+    commits++;
+    const files = chunk.split("\n").slice(1).filter(Boolean);
+    for (const file of new Set(files)) {
+      if (file === target || file.startsWith(`${target}/`)) continue;
+      counts.set(file, (counts.get(file) ?? 0) + 1);
+    }
+  }
+
+  const files = [...counts]
+    .map(([file, count]) => ({ path: file, count }))
+    .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path))
+    .slice(0, maxResults);
+  return { commits, files };
+}
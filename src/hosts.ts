@@ -0,0 +1,264 @@
+/**
+ * Git Hosts
+ * Parses repository URLs for GitHub (including Enterprise), GitLab, Bitbucket,
+ * Gitea and plain git remotes, and holds the per-host details other modules
+ * dispatch on: web links, API endpoints and credentials.
+ */
+
+import { basename } from "path";
+import type { HostSettings, RepoHost, RepoInfo, RepoLocation } from "./types.js";
+
+/** Public hosts recognized by exact hostname */
+const KNOWN_HOSTS: Record<string, RepoHost> = {
+  "github.com": "github",
+  "gitlab.com": "gitlab",
+  "bitbucket.org": "bitbucket",
+  "codeberg.org": "gitea",
+  "gitea.com": "gitea",
+};
+
+/** git@host:path remotes; the host needs a dot so Windows drive letters never match */
+const SCP_REMOTE_PATTERN = /^(?:[^@\s/-][^@\s/]*@)?([^:\s/-][^:\s/]*\.[^:\s/]+):(?!\/\/)(.+)$/;
+
+/** Protocols accepted in repository URLs besides file:// */
+const REMOTE_PROTOCOLS = new Set(["https:", "http:", "ssh:", "git:"]);
+
+/** pr/123 (or pull/123, mr/123) in --ref */
+const PULL_REQUEST_REF_PATTERN = /^(?:pr|pull|mr)\/(\d+)$/i;
+/** Branch and tag names, full refs and commit SHAs; never starts with "-" so git can't read it as an option */
+const REF_PATTERN = /^[\w@+][\w@+./-]*$/;
+
+/**
+ * Environment variable holding the access token of each public host. Tokens
+ * are only sent to these exact hostnames; a self-hosted server gets one only
+ * through its own `tokenEnv` in the config's `hosts` map.
+ */
+const PUBLIC_HOST_TOKENS: Record<string, string> = {
+  "github.com": "GITHUB_TOKEN",
+  "gitlab.com": "GITLAB_TOKEN",
+  "bitbucket.org": "BITBUCKET_TOKEN",
+  "codeberg.org": "CODEBERG_TOKEN",
+  "gitea.com": "GITEA_TOKEN",
+};
+
+/**
+ * User name git sends with an access token over https, per hosting service
+ */
+export const HOST_GIT_USERS: Record<Exclude<RepoHost, "git">, string> = {
+  github: "x-access-token",
+  gitlab: "oauth2",
+  bitbucket: "x-token-auth",
+  gitea: "oauth2",
+};
+
+/**
+ * Hosting service for a hostname. Configured overrides win, then known public
+ * hosts, then the product name in self-hosted hostnames (github.acme.com,
+ * gitlab.internal); anything else is a plain git server.
+ */
+export function detectHost(hostname: string, overrides: Record<string, RepoHost | HostSettings> = {}): RepoHost {
+  const name = hostname.toLowerCase();
+  const override = overrides[name];
+  if (override) return typeof override === "string" ? override : override.type;
+  if (KNOWN_HOSTS[name]) return KNOWN_HOSTS[name];
+  if (/github/.test(name)) return "github";
+  if (/gitlab/.test(name)) return "gitlab";
+  if (/bitbucket/.test(name)) return "bitbucket";
+  if (/gitea|forgejo|codeberg/.test(name)) return "gitea";
+  return "git";
+}
+
+/**
+ * Environment variable whose token may be sent to a host: the public host's
+ * own variable or a configured server's `tokenEnv`, and never over plain http.
+ * A hostname that merely contains "github" gets nothing.
+ */
+export function hostTokenEnv(
+  hostname: string,
+  protocol: string,
+  overrides: Record<string, RepoHost | HostSettings> = {}
+): string | undefined {
+  if (protocol !== "https:") return undefined;
+  const name = hostname.toLowerCase();
+  const override = overrides[name];
+  if (override) return typeof override === "string" ? undefined : override.tokenEnv;
+  return PUBLIC_HOST_TOKENS[name];
+}
+
+/**
+ * Repository path segments for a host. GitLab nests groups, so everything up
+ * to the "/-/" marker is the project; GitHub, Bitbucket and Gitea web URLs put
+ * pages such as /tree/main after owner/repo; plain git servers use the whole path.
+ */
+function repoSegments(host: RepoHost, path: string): string[] {
+  const segments = path.split("/").filter(Boolean);
+  switch (host) {
+    case "gitlab": {
+      const marker = segments.indexOf("-");
+      return marker === -1 ? segments : segments.slice(0, marker);
+    }
+    case "git":
+      return segments;
+    default:
+      return segments.slice(0, 2);
+  }
+}
+
+/**
+ * Parse a repository URL from any supported host: https web and clone URLs,
+ * git@host:path and ssh:// remotes, and file:// paths to local or bare repos.
+ *
+ * @param input - Repository URL as the user typed it
+ * @param hosts - Host type (and token variable) of self-hosted servers, by hostname
+ */
+export function parseRepoUrl(input: string, hosts: Record<string, RepoHost | HostSettings> = {}): RepoInfo {
+  const trimmed = input.trim().replace(/\/+$/, "");
+  const invalid = new Error(`Invalid repository URL: ${input}`);
+
+  if (trimmed.startsWith("file://")) {
+    const path = decodeURIComponent(new URL(trimmed).pathname).replace(/\/+$/, "");
+    const repo = basename(path).replace(/\.git$/, "");
+    if (!repo) throw invalid;
+    return {
+      owner: "local",
+      repo,
+      url: `file://${path}`,
+      cloneUrl: `file://${path}`,
+      branch: "main", // will be updated later
+      fullName: `local/${repo}`,
+      host: "git",
+    };
+  }
+
+  let hostname: string;
+  let webOrigin: string;
+  let path: string;
+  // Remotes that are not https clone exactly as given
+  let remote: string | undefined;
+  // API calls and token-carrying fetches go to the web origin; http origins get no token
+  let webProtocol = "https:";
+
+  const scp = trimmed.includes("://") ? null : trimmed.match(SCP_REMOTE_PATTERN);
+  if (scp) {
+    hostname = scp[1];
+    webOrigin = `https://${hostname}`;
+    path = scp[2];
+    remote = trimmed;
+  } else {
+    let url: URL;
+    try {
+      url = new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`);
+    } catch {
+      throw invalid;
+    }
+    if (!REMOTE_PROTOCOLS.has(url.protocol) || (!url.hostname.includes(".") && url.hostname !== "localhost")) {
+      throw invalid;
+    }
+    const isWeb = url.protocol === "https:" || url.protocol === "http:";
+    hostname = url.hostname;
+    webOrigin = isWeb ? url.origin : `https://${url.hostname}`;
+    webProtocol = isWeb ? url.protocol : "https:";
+    path = decodeURIComponent(url.pathname);
+    remote = isWeb ? undefined : trimmed;
+  }
+
+  const host = detectHost(hostname, hosts);
+  const segments = repoSegments(host, path);
+  if (segments.length < (host === "git" ? 1 : 2)) throw invalid;
+
+  const repo = segments[segments.length - 1].replace(/\.git$/, "");
+  const owner = segments.slice(0, -1).join("/") || hostname;
+  const webUrl = `${webOrigin}/${[...segments.slice(0, -1), repo].join("/")}`;
+  // Plain git servers have no web UI and may not use a .git suffix
+  const url = host === "git" ? (remote ?? trimmed) : webUrl;
+
+  const tokenEnv = host === "git" ? undefined : hostTokenEnv(hostname, webProtocol, hosts);
+  return {
+    owner,
+    repo,
+    url,
+    cloneUrl: remote ?? (host === "git" ? url : `${webUrl}.git`),
+    branch: "main", // will be updated later
+    fullName: `${owner}/${repo}`,
+    host,
+    ...(tokenEnv ? { tokenEnv } : {}),
+  };
+}
+
+/**
+ * Hosting service of a parsed repo; RepoInfo built before host detection is GitHub
+ */
+export function repoHost(repoInfo: RepoInfo): RepoHost {
+  return repoInfo.host ?? "github";
+}
+
+/**
+ * Scheme, hostname and port of a hosted repo's web UI, e.g. https://gitlab.example.com
+ */
+export function webOrigin(repoInfo: RepoInfo): string {
+  return new URL(repoInfo.url).origin;
+}
+
+/**
+ * Clone URL and web page of a repo, for generated docs
+ */
+export function repoLocation(repoInfo: RepoInfo): RepoLocation {
+  const host = repoHost(repoInfo);
+  return {
+    host,
+    cloneUrl: repoInfo.cloneUrl ?? `${repoInfo.url}.git`,
+    webUrl: host === "git" ? undefined : repoInfo.url,
+    branch: repoInfo.branch,
+    commitSha: repoInfo.commitSha,
+    ...(repoInfo.ref ? { ref: repoInfo.ref } : {}),
+    ...(repoInfo.subdir ? { subdir: repoInfo.subdir } : {}),
+  };
+}
+
+/**
+ * Ref to fetch for a --ref value. pr/N becomes the host's pull or merge request
+ * head ref; branches, tags and full commit SHAs are fetched as given.
+ */
+export function fetchRefFor(host: RepoHost, ref: string): string {
+  const pullRequest = ref.match(PULL_REQUEST_REF_PATTERN);
+  if (pullRequest) {
+    switch (host) {
+      case "github":
+      case "gitea":
+        return `refs/pull/${pullRequest[1]}/head`;
+      case "gitlab":
+        return `refs/merge-requests/${pullRequest[1]}/head`;
+      default:
+        throw new Error(`Pull request refs are not available on ${host} remotes; pass the source branch or commit SHA`);
+    }
+  }
+  if (!REF_PATTERN.test(ref) || ref.includes("..") || ref.endsWith(".lock") || ref.endsWith("/")) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+  return ref;
+}
+
+/**
+ * Web link to a file (and optionally a line) at the analyzed commit, or
+ * undefined when the remote has no web UI. Paths are relative to the analyzed
+ * subdirectory, if any.
+ */
+export function fileLink(location: RepoLocation | undefined, path: string, line?: number): string | undefined {
+  if (!location?.webUrl) return undefined;
+
+  const ref = location.commitSha ?? location.branch;
+  const fullPath = location.subdir ? `${location.subdir}/${path}` : path;
+  const file = fullPath.split("/").map(encodeURIComponent).join("/");
+  switch (location.host) {
+    case "github":
+      return `${location.webUrl}/blob/${ref}/${file}${line ? `#L${line}` : ""}`;
+    case "gitlab":
+      return `${location.webUrl}/-/blob/${ref}/${file}${line ? `#L${line}` : ""}`;
+    case "bitbucket":
+      return `${location.webUrl}/src/${ref}/${file}${line ? `#lines-${line}` : ""}`;
+    case "gitea":
+      return `${location.webUrl}/src/${location.commitSha ? "commit" : "branch"}/${ref}/${file}${line ? `#L${line}` : ""}`;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Ignore Rules
+ * Decides which repository files scanning, the agent tools, the retrieval
+ * index, security scanning and the import graph look at. Files come from
+ * `git ls-files` when the repo is a git checkout, so .gitignore is honored
+ * exactly; otherwise the root .gitignore is applied by hand. On top of that a
+ * repo-level .bootcampignore (gitignore syntax) excludes more paths, and files
+ * marked linguist-generated or linguist-vendored in .gitattributes are skipped.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { SKIP_DIRS, escapeRegex } from "./utils.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Output accepted from git ls-files; larger repos fall back to walking the filesystem */
+const MAX_LS_FILES_BUFFER = 64 * 1024 * 1024;
+/** linguist attributes that mark files as not worth reading */
+const SKIPPED_ATTRIBUTES = new Set(["linguist-generated", "linguist-vendored"]);
+
+/**
+ * One line of a .gitignore-style file
+ */
+export interface IgnorePattern {
+  /** Pattern as written, without the "!" prefix */
+  glob: string;
+  regex: RegExp;
+  /** "!" patterns re-include what earlier patterns excluded */
+  negated: boolean;
+  /** Patterns ending in "/" only match directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Which repository files to skip
+ */
+export interface IgnoreRules {
+  /** Files git reports (tracked, plus untracked ones .gitignore allows), or null outside a git checkout */
+  gitFiles: string[] | null;
+  /** .bootcampignore patterns, preceded by the root .gitignore when git is unavailable */
+  excludes: IgnorePattern[];
+  /** .gitattributes patterns that set (or, negated, unset) linguist-generated/linguist-vendored */
+  generated: IgnorePattern[];
+}
+
+/**
+ * Repository entry yielded by walkRepo
+ */
+export interface RepoEntry {
+  /** Path relative to the repository root */
+  path: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Convert a gitignore glob to a regex over repo-relative paths. Globs without
+ * a slash match at any depth; `**` spans directories.
+ */
+export function globToRegex(glob: string): RegExp {
+  const anchored = glob.includes("/");
+  const body = glob.replace(/^\//, "");
+  let out = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "*" && body[i + 1] === "*") {
+      if (body[i + 2] === "/") {
+        out += "(?:.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      out += "[^/]*";
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[" && body.indexOf("]", i + 2) !== -1) {
+      const end = body.indexOf("]", i + 2);
+      out += `[${body.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (char === "\\" && i + 1 < body.length) {
+      out += escapeRegex(body[++i]);
+    } else {
+      out += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${out}$`);
+}
+
+function compilePattern(glob: string, negated: boolean): IgnorePattern {
+  const directoryOnly = glob.endsWith("/");
+  const trimmed = glob.replace(/\/+$/, "");
+  return { glob: trimmed, regex: globToRegex(trimmed), negated, directoryOnly };
+}
+
+/**
+ * Parse a .gitignore or .bootcampignore file
+ */
+export function parseIgnoreFile(content: string): IgnorePattern[] {
+  const patterns: IgnorePattern[] = [];
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negated = line.startsWith("!");
+    const glob = line.replace(/^[!\\]/, "");
+    if (glob && glob !== "/") patterns.push(compilePattern(glob, negated));
+  }
+  return patterns;
+}
+
+/**
+ * Parse the linguist-generated and linguist-vendored entries of a .gitattributes file.
+ * `attr`, `attr=true` set the mark; `-attr`, `!attr` and `attr=false` clear it.
+ */
+export function parseGitAttributes(content: string): IgnorePattern[] {
+  const patterns: IgnorePattern[] = [];
+  for (const raw of content.split("\n")) {
+    const [glob, ...attributes] = raw.trim().split(/\s+/);
+    if (!glob || glob.startsWith("#") || glob.startsWith("[attr]")) continue;
+    for (const attribute of attributes) {
+      const match = attribute.match(/^([-!]?)([\w-]+)(?:=(\w+))?$/);
+      if (!match || !SKIPPED_ATTRIBUTES.has(match[2])) continue;
+      const unset = match[1] !== "" || match[3] === "false";
+      patterns.push(compilePattern(glob, unset));
+    }
+  }
+  return patterns;
+}
+
+/** Last matching pattern wins */
+function matchesLast(patterns: IgnorePattern[], path: string, isDirectory: boolean): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if ((!pattern.directoryOnly || isDirectory) && pattern.regex.test(path)) {
+      matched = !pattern.negated;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Whether a repo-relative path is excluded by the ignore rules. Excluding a
+ * directory excludes everything in it.
+ */
+export function isIgnored(rules: IgnoreRules, path: string, isDirectory: boolean): boolean {
+  const parts = path.split("/");
+  const directories = isDirectory ? parts : parts.slice(0, -1);
+  if (directories.some((part) => SKIP_DIRS.has(part))) return true;
+  for (let i = 1; i <= parts.length; i++) {
+    if (matchesLast(rules.excludes, parts.slice(0, i).join("/"), i < parts.length || isDirectory)) return true;
+  }
+  // Attribute patterns match files, so a directory is skipped when patterns like dist/** cover all of it
+  return matchesLast(rules.generated, isDirectory ? `${path}/` : path, false);
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files git would list for the directory: tracked plus untracked-but-not-ignored,
+ * relative to it. Null when it is not a git checkout or git is unavailable.
+ */
+export async function gitListFiles(repoPath: string): Promise<string[] | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "--deduplicate", "-z"],
+      { cwd: repoPath, maxBuffer: MAX_LS_FILES_BUFFER, timeout: 60_000 }
+    );
+    return stdout.split("\0").filter(Boolean).sort();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the ignore rules for a repository (or a subdirectory being analyzed)
+ */
+export async function loadIgnoreRules(repoPath: string): Promise<IgnoreRules> {
+  const gitFiles = await gitListFiles(repoPath);
+  const [gitignore, bootcampignore, gitattributes] = await Promise.all([
+    gitFiles ? null : readOptional(join(repoPath, ".gitignore")),
+    readOptional(join(repoPath, ".bootcampignore")),
+    readOptional(join(repoPath, ".gitattributes")),
+  ]);
+
+  return {
+    gitFiles,
+    excludes: [...parseIgnoreFile(gitignore ?? ""), ...parseIgnoreFile(bootcampignore ?? "")],
+    generated: parseGitAttributes(gitattributes ?? ""),
+  };
+}
+
+/**
+ * Walk the repository depth-first, directories before their contents,
+ * skipping ignored paths. Paths are relative to the repository root.
+ *
+ * @param dir - Repo-relative directory to walk (default: the whole repository)
+ * @param recursive - Descend into subdirectories (default: true)
+ */
+export async function* walkRepo(
+  repoPath: string,
+  rules: IgnoreRules,
+  dir = "",
+  recursive = true
+): AsyncGenerator<RepoEntry> {
+  const prefix = dir ? `${dir.replace(/\/+$/, "")}/` : "";
+
+  if (rules.gitFiles) {
+    // Synthesize directory entries from the sorted file list
+    const emitted = new Set<string>();
+    for (const file of rules.gitFiles) {
+      if (!file.startsWith(prefix)) continue;
+      const parts = file.slice(prefix.length).split("/");
+      if (!recursive && parts.length > 1) {
+        const child = prefix + parts[0];
+        if (!emitted.has(child) && !isIgnored(rules, child, true)) {
+          emitted.add(child);
+          yield { path: child, isDirectory: true };
+        }
+        continue;
+      }
+      if (isIgnored(rules, file, false)) continue;
+      for (let i = 1; i < parts.length; i++) {
+        const ancestor = prefix + parts.slice(0, i).join("/");
+        if (!emitted.has(ancestor)) {
+          emitted.add(ancestor);
+          yield { path: ancestor, isDirectory: true };
+        }
+      }
+      yield { path: file, isDirectory: false };
+    }
+    return;
+  }
+
+  const entries = await readdir(join(repoPath, dir), { withFileTypes: true });
+  for (const entry of entries) {
+    const path = prefix + entry.name;
+    if (entry.isDirectory()) {
+      if (entry.name === ".git" || isIgnored(rules, path, true)) continue;
+      yield { path, isDirectory: true };
+      if (recursive) yield* walkRepo(repoPath, rules, path, true);
+    } else if (entry.isFile() && !isIgnored(rules, path, false)) {
+      yield { path, isDirectory: false };
+    }
+  }
+}
@@ -19,11 +19,18 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import { mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
 import { join, basename, resolve } from "path";
 import { pathToFileURL } from "url";
 
-import { parseGitHubUrl, cloneRepo, scanRepo } from "./ingest.js";
-import { analyzeRepo, AnalysisStats } from "./agent.js";
+import { cloneRepo, scanRepo, detectWorkspaces, normalizeSubdir } from "./ingest.js";
+import { findWorkspacePackage } from "./workspaces.js";
+import { parseRepoUrl, repoLocation } from "./hosts.js";
+import { loadRetrievalIndex } from "./retrieval.js";
+import { analyzeRepo, AnalysisStats, readCustomPrompt } from "./agent.js";
+import { analyzeRepoOffline } from "./offline.js";
+import { resolveProviderSettings } from "./providers.js";
+import { formatBudgetLimits, getBudgetLimits } from "./budget.js";
 import { ProgressTracker } from "./progress.js";
 import { generateDependencyDocs, type DependencyAnalysis } from "./deps.js";
 import { generateSecurityDocs, getSecurityGrade, type SecurityAnalysis } from "./security.js";
@@ -34,10 +41,18 @@ import { createIssuesFromTasks, generateIssuePreview } from "./issues.js";
 import { analyzeDiff, generateDiffDocs, fetchPullRequestRefs, parsePullRequestTarget } from "./diff.js";
 import { startServer } from "./web/server.js";
 import { startWatch } from "./watch.js";
-import { loadConfig, getStyleConfig, loadPlugins, runPlugins, type BootcampConfig } from "./plugins.js";
+import {
+  loadConfig,
+  getStyleConfig,
+  loadPlugins,
+  runPlugins,
+  type BootcampConfig,
+  type StyleConfig,
+} from "./plugins.js";
+import { renderCustomDocs } from "./templates.js";
 import { renderOutputDiagrams, DiagramFormat } from "./diagrams.js";
 import { applyOutputFormat, formatDocName, type OutputFormat } from "./formatter.js";
-import { readCache, writeCache, pruneCache, getCacheDir, clearCache } from "./cache.js";
+import { readCache, writeCache, pruneCache, getCacheDir, clearCache, cacheName, analysisVariant } from "./cache.js";
 import {
   generateBootcamp,
   generateOnboarding,
@@ -46,6 +61,11 @@ import {
   generateFirstTasks,
   generateRunbook,
   generateDiagrams,
+  generateWorkspaces,
+  generateCi,
+  isDocIncludedForFocus,
+  isDocIncludedForStyle,
+  applyStyleToDocument,
 } from "./generator.js";
 import type {
   BootcampOptions,
@@ -55,6 +75,7 @@ import type {
   StylePack,
   TechRadar,
   DiffSummary,
+  ProviderSettings,
 } from "./types.js";
 import { resolveRepo, isLocalPath, type RepoSource } from "./repo-resolver.js";
 import { analyzeDocumentation } from "./docs-analyzer.js";
@@ -103,10 +124,13 @@ interface GenerateOutputsParams {
   facts: RepoFacts;
   options: BootcampOptions;
   config: BootcampConfig | null;
+  styleConfig: StyleConfig;
   outputDir: string;
   outputFormat: OutputFormat;
   progress: ProgressTracker;
   allowIssueCreation?: boolean;
+  /** Clone root when repoPath is a workspace package or --path subdirectory */
+  rootPath?: string;
 }
 
 
@@ -121,9 +145,10 @@ async function runPullRequestDiff(prTarget: string, options: PullRequestDiffOpti
     process.exit(1);
   }
 
+  const config = await loadConfig();
   let repoInfo: RepoInfo;
   try {
-    repoInfo = parseGitHubUrl(targetInfo.repoUrl);
+    repoInfo = parseRepoUrl(targetInfo.repoUrl, config?.hosts);
   } catch (error: unknown) {
     console.error(chalk.red(`Invalid repo: ${(error as Error).message}`));
     process.exit(1);
@@ -236,15 +261,23 @@ async function generateOutputs({
   facts,
   options,
   config,
+  styleConfig,
   outputDir,
   outputFormat,
   progress,
   allowIssueCreation = true,
+  rootPath,
 }: GenerateOutputsParams): Promise<GenerationResult> {
+  // Set here rather than during analysis so cached facts link to the current remote
+  // and carry the current scan's line counts
+  facts.location = repoLocation(repoInfo);
+  facts.codeStats = scanResult.codeStats;
+
   const { deps, security, radar, impacts } = await runParallelAnalysis(
     repoPath,
     scanResult,
     progress,
+    rootPath,
   );
 
   // Generate Diff if --compare is specified
@@ -259,16 +292,19 @@ async function generateOutputs({
   }
 
   // Build document list
-  const documents: GeneratedDoc[] = [
-    { name: "BOOTCAMP.md", content: generateBootcamp(facts, options) },
-    { name: "ONBOARDING.md", content: generateOnboarding(facts) },
-    { name: "ARCHITECTURE.md", content: generateArchitecture(facts) },
+  let documents: GeneratedDoc[] = [
+    { name: "ARCHITECTURE.md", content: generateArchitecture(facts, options) },
     { name: "CODEMAP.md", content: generateCodemap(facts) },
-    { name: "FIRST_TASKS.md", content: generateFirstTasks(facts) },
+    { name: "FIRST_TASKS.md", content: generateFirstTasks(facts, options, styleConfig) },
     { name: "RUNBOOK.md", content: generateRunbook(facts) },
-    { name: "diagrams.mmd", content: generateDiagrams(facts) },
+    { name: "diagrams.mmd", content: generateDiagrams(facts, scanResult.ciWorkflows) },
     { name: "repo_facts.json", content: JSON.stringify(facts, null, 2) },
-    { name: "SECURITY.md", content: generateSecurityDocs(security, repoInfo.repo) },
+    {
+      name: "SECURITY.md",
+      content: generateSecurityDocs(security, repoInfo.repo, {
+        showDetails: styleConfig.sections.showSecurityDetails,
+      }),
+    },
     { name: "RADAR.md", content: generateRadarDocs(radar, repoInfo.repo) },
   ];
 
@@ -276,7 +312,25 @@ async function generateOutputs({
   if (deps) {
     documents.push({
       name: "DEPENDENCIES.md",
-      content: generateDependencyDocs(deps, repoInfo.repo),
+      content: generateDependencyDocs(deps, repoInfo.repo, {
+        showGraph: styleConfig.sections.showDependencyGraph,
+      }),
+    });
+  }
+
+  // Add the package inventory for monorepos
+  if (scanResult.workspaces) {
+    documents.push({
+      name: "WORKSPACES.md",
+      content: generateWorkspaces(facts, scanResult.workspaces),
+    });
+  }
+
+  // Add the CI guide when pipelines were parsed
+  if (scanResult.ciWorkflows.length > 0) {
+    documents.push({
+      name: "CI.md",
+      content: generateCi(facts, scanResult.ciWorkflows),
     });
   }
 
@@ -296,6 +350,30 @@ async function generateOutputs({
     });
   }
 
+  // Drop built-in documents unrelated to the requested focus, disabled by the style pack or excluded in config
+  const excludeDocs = config?.output?.excludeDocs ?? [];
+  documents = documents.filter(
+    (doc) =>
+      isDocIncludedForFocus(doc.name, options.focus) &&
+      isDocIncludedForStyle(doc.name, styleConfig) &&
+      !excludeDocs.includes(doc.name)
+  );
+
+  // The entry documents link to the others, so they are generated once the written set is known
+  const written = new Set([
+    ...["BOOTCAMP.md", "ONBOARDING.md"].filter(
+      (name) => isDocIncludedForFocus(name, options.focus) && !excludeDocs.includes(name)
+    ),
+    ...documents.map((doc) => doc.name),
+  ]);
+  documents = [
+    { name: "BOOTCAMP.md", content: generateBootcamp(facts, options, styleConfig, written) },
+    { name: "ONBOARDING.md", content: generateOnboarding(facts, options, written) },
+    ...documents,
+  ]
+    .filter((doc) => isDocIncludedForFocus(doc.name, options.focus))
+    .map((doc) => (doc.name.endsWith(".md") ? { ...doc, content: applyStyleToDocument(doc.content, styleConfig) } : doc));
+
   // Load and run plugins if configured
   if (config?.plugins && config.plugins.length > 0) {
     progress.update("Running plugins...");
@@ -320,6 +398,18 @@ async function generateOutputs({
     }
   }
 
+  // Render custom docs from config templates
+  if (config?.output?.customDocs && config.output.customDocs.length > 0) {
+    progress.update("Rendering custom docs...");
+    const customDocs = await renderCustomDocs(config.output.customDocs, { facts, security, radar, deps });
+    documents.push(...customDocs);
+  }
+
+  // Drop entry, plugin and custom documents excluded in config
+  if (excludeDocs.length > 0) {
+    documents = documents.filter((doc) => !excludeDocs.includes(doc.name));
+  }
+
   const formattedDocuments = applyOutputFormat(documents, outputFormat);
 
   // Only write if not json-only mode
@@ -378,6 +468,13 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 
   // Load config file if present
   const config = await loadConfig();
+  if (config?.prompts && !options.prompts) {
+    options = { ...options, prompts: config.prompts };
+  }
+  if (config?.runCommand) {
+    // --allow-commands only switches the tool on; the allowlist and timeout come from config
+    options = { ...options, runCommand: { ...config.runCommand, ...options.runCommand } };
+  }
   const styleConfig = getStyleConfig(
     options.style || config?.style,
     config?.customStyle
@@ -394,13 +491,37 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
   
   console.log(chalk.dim("─".repeat(50)));
   console.log(chalk.white(`  Repository:  ${chalk.cyan(repoUrl)}`));
-  console.log(chalk.white(`  Branch:      ${chalk.cyan(options.branch || "default")}`));
+  if (options.ref) {
+    console.log(chalk.white(`  Ref:         ${chalk.cyan(options.ref)}`));
+  } else {
+    console.log(chalk.white(`  Branch:      ${chalk.cyan(options.branch || "default")}`));
+  }
   console.log(chalk.white(`  Focus:       ${chalk.cyan(options.focus)}`));
   console.log(chalk.white(`  Audience:    ${chalk.cyan(options.audience)}`));
   console.log(chalk.white(`  Style:       ${chalk.cyan(styleConfig.name)}`));
   console.log(chalk.white(`  Format:      ${chalk.cyan(outputFormat)}`));
-  if (options.model) {
-    console.log(chalk.white(`  Model:       ${chalk.cyan(options.model)}`));
+  if (options.offline) {
+    console.log(chalk.white(`  Mode:        ${chalk.cyan("offline (heuristics)")}`));
+  } else if (options.replay) {
+    console.log(chalk.white(`  Mode:        ${chalk.cyan(`replay (${options.replay})`)}`));
+  } else {
+    if (options.provider && options.provider.name !== "copilot") {
+      const endpoint = options.provider.baseUrl ? ` (${options.provider.baseUrl})` : "";
+      console.log(chalk.white(`  Provider:    ${chalk.cyan(options.provider.name + endpoint)}`));
+    }
+    if (options.model) {
+      console.log(chalk.white(`  Model:       ${chalk.cyan(options.model)}`));
+    }
+  }
+  if (options.record) {
+    console.log(chalk.white(`  Recording:   ${chalk.cyan(options.record)}`));
+  }
+  const budgetLimits = formatBudgetLimits(getBudgetLimits(options));
+  if (budgetLimits && !options.offline) {
+    console.log(chalk.white(`  Budget:      ${chalk.cyan(budgetLimits)}`));
+  }
+  if (options.runCommand?.enabled && !options.offline) {
+    console.log(chalk.white(`  Commands:    ${chalk.cyan("allowlisted read-only (run_command)")}`));
   }
   if (options.compare) {
     console.log(chalk.white(`  Compare:     ${chalk.cyan(options.compare)}`));
@@ -414,7 +535,7 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
   // Parse URL
   let repoInfo: RepoInfo;
   try {
-    repoInfo = parseGitHubUrl(repoUrl);
+    repoInfo = parseRepoUrl(repoUrl, config?.hosts);
     console.log(chalk.white(`Target: ${chalk.bold(repoInfo.fullName)}`));
     console.log();
   } catch (error: unknown) {
@@ -423,27 +544,57 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
   }
 
   // Determine output directory
-  const outputDir = options.output || `./bootcamp-${repoInfo.repo}`;
+  const suffix = [options.package ?? options.path, options.ref]
+    .filter((part): part is string => !!part)
+    .map((part) => `-${part.replace(/^@/, "").replace(/[^\w.-]+/g, "-")}`)
+    .join("");
+  const outputDir = options.output || `./bootcamp-${repoInfo.repo}${suffix}`;
 
-  // Clone repository
+  // Clone repository (only the requested subtree with --path)
   const cloneStart = Date.now();
   progress.startPhase("clone", repoInfo.fullName);
   let repoPath: string;
   try {
-    repoPath = await cloneRepo(repoInfo, process.cwd(), options.branch, options.fullClone);
+    repoPath = await cloneRepo(repoInfo, process.cwd(), options.branch, options.fullClone, options.path, options.ref);
     runStats.cloneTime = Date.now() - cloneStart;
-    progress.succeed(`Cloned ${repoInfo.fullName} (branch: ${repoInfo.branch})`);
+    const checkedOut = options.ref
+      ? `ref: ${options.ref} @ ${repoInfo.commitSha?.slice(0, 7)}`
+      : `branch: ${repoInfo.branch}`;
+    progress.succeed(`Cloned ${repoInfo.fullName} (${checkedOut}${options.path ? `, sparse: ${options.path}` : ""})`);
   } catch (error: unknown) {
     progress.fail(`Clone failed: ${(error as Error).message}`);
     process.exit(1);
   }
 
+  // Scope the analysis to one workspace package; the whole clone is still what gets cleaned up
+  const clonePath = repoPath;
+  if (options.package) {
+    const workspaces = await detectWorkspaces(clonePath);
+    const pkg = findWorkspacePackage(workspaces, options.package);
+    if (!pkg) {
+      const available = workspaces?.packages.map((p) => p.name).join(", ");
+      console.error(chalk.red(`Package not found: ${options.package}`));
+      console.error(chalk.gray(available ? `Workspace packages: ${available}` : "No workspace packages detected"));
+      await rm(clonePath, { recursive: true, force: true });
+      process.exit(1);
+    }
+    repoInfo.subdir = pkg.path;
+    repoPath = join(clonePath, pkg.path);
+    console.log(chalk.white(`Package: ${chalk.bold(pkg.name)} (${pkg.path})`));
+    console.log();
+  } else if (options.path) {
+    repoInfo.subdir = options.path;
+    repoPath = join(clonePath, options.path);
+    console.log(chalk.white(`Scoped to: ${chalk.bold(options.path)}`));
+    console.log();
+  }
+
   // Scan repository
   const scanStart = Date.now();
   progress.startPhase("scan", `max ${options.maxFiles} files`);
   let scanResult: ScanResult;
   try {
-    scanResult = await scanRepo(repoPath, options.maxFiles);
+    scanResult = await scanRepo(repoPath, options.maxFiles, clonePath);
     runStats.scanTime = Date.now() - scanStart;
     runStats.filesScanned = scanResult.files.length;
     progress.succeed(`Scanned ${scanResult.files.length} files (${scanResult.keySourceFiles.size} key files read)`);
@@ -467,15 +618,18 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
   let facts!: RepoFacts;
   let analysisStats!: AnalysisStats;
 
-  // Check cache first
-  const useCache = !options.noCache && !!repoInfo.commitSha;
+  // Check cache first (offline runs are deterministic and never touch the LLM cache;
+  // recording and replaying need a real session)
+  const useCache =
+    !options.noCache && !options.offline && !options.record && !options.replay && !!repoInfo.commitSha;
   let cacheHit = false;
+  const variant = useCache ? analysisVariant(options, readCustomPrompt(repoPath, options.repoPrompts)) : "";
 
   if (useCache) {
     // Auto-prune stale cache entries (older than 7 days)
     pruneCache(7 * 24 * 60 * 60 * 1000).catch(() => {});
 
-    const cached = await readCache(repoInfo.fullName, repoInfo.commitSha!);
+    const cached = await readCache(cacheName(repoInfo), repoInfo.commitSha!, variant);
     if (cached) {
       facts = cached;
       cacheHit = true;
@@ -496,7 +650,13 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 
   if (!cacheHit) {
     try {
-      const result = await analyzeRepo(repoPath, repoInfo, scanResult, options, (msg) => {
+      // Only tool-calling analysis searches the retrieval index (offline and fast mode never call tools)
+      if (!options.offline && !options.fast) {
+        progress.update("Indexing repository for search...");
+        scanResult.retrieval = await loadRetrievalIndex(repoPath, repoInfo, !options.noCache, scanResult.ignore);
+      }
+      const analyze = options.offline ? analyzeRepoOffline : analyzeRepo;
+      const result = await analyze(repoPath, repoInfo, scanResult, options, (msg) => {
         // Track tool calls
         if (msg.startsWith("Tool:")) {
           const toolName = msg.replace("Tool:", "").trim();
@@ -509,20 +669,22 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
       runStats.analysisTime = Date.now() - analysisStart;
       runStats.toolCalls = analysisStats.toolCalls.length;
       runStats.model = analysisStats.model;
-      progress.succeed(`Analysis complete`);
+      progress.succeed(options.offline ? "Offline analysis complete (heuristics, low confidence)" : "Analysis complete");
 
       // Write to cache
       if (useCache) {
         try {
-          await writeCache(repoInfo.fullName, repoInfo.commitSha!, facts);
+          await writeCache(cacheName(repoInfo), repoInfo.commitSha!, facts, variant);
         } catch {
           // Cache write failure is non-fatal
         }
       }
     } catch (error: unknown) {
       progress.fail(`Analysis failed: ${(error as Error).message}`);
-      console.log(chalk.yellow("\nTip: Make sure you're authenticated with GitHub Copilot"));
-      console.log(chalk.gray("Run: gh auth status"));
+      if (!options.offline && !options.replay) {
+        console.log(chalk.yellow("\nTip: Make sure you're authenticated with GitHub Copilot, or use --offline"));
+        console.log(chalk.gray("Run: gh auth status"));
+      }
       process.exit(1);
     }
   }
@@ -546,9 +708,11 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
       facts,
       options,
       config,
+      styleConfig,
       outputDir,
       outputFormat,
       progress,
+      rootPath: clonePath,
     });
 
     runStats.generateTime = Date.now() - generateStart;
@@ -578,21 +742,22 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 
   // Store repoPath and scanResult for interactive mode before cleanup
   const interactiveRepoPath = repoPath;
+  const interactiveClonePath = clonePath;
   const interactiveScanResult = scanResult;
 
   // Cleanup temporary clone (unless keeping for interactive or watch mode)
   if (!options.keepTemp && !options.interactive && !options.watch) {
     progress.startPhase("cleanup");
     try {
-      await rm(repoPath, { recursive: true, force: true });
+      await rm(clonePath, { recursive: true, force: true });
       progress.succeed("Cleanup complete");
     } catch {
       progress.warn("Could not clean up temporary files");
     }
   } else if (options.interactive) {
-    console.log(chalk.gray(`Keeping clone for interactive mode: ${repoPath}`));
+    console.log(chalk.gray(`Keeping clone for interactive mode: ${clonePath}`));
   } else {
-    console.log(chalk.gray(`Temporary clone kept at: ${repoPath}`));
+    console.log(chalk.gray(`Temporary clone kept at: ${clonePath}`));
   }
 
   progress.stop();
@@ -609,21 +774,43 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 
   if (!options.jsonOnly) {
     const formatName = (name: string) => formatDocName(name, outputFormat);
-    console.log(chalk.dim("  Generated files:"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("BOOTCAMP.md")) + chalk.dim("      → 1-page overview (start here!)"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("ONBOARDING.md")) + chalk.dim("    → Full setup guide"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("ARCHITECTURE.md")) + chalk.dim("  → System design & diagrams"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("CODEMAP.md")) + chalk.dim("       → Directory tour"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("FIRST_TASKS.md")) + chalk.dim("   → Starter issues"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("RUNBOOK.md")) + chalk.dim("       → Operations guide"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("DEPENDENCIES.md")) + chalk.dim("  → Dependency graph"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("SECURITY.md")) + chalk.dim("      → Security findings"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("RADAR.md")) + chalk.dim("         → Tech radar & risk score"));
-    console.log(chalk.white("  ├── ") + chalk.cyan(formatName("IMPACT.md")) + chalk.dim("        → Change impact analysis"));
+    const summaryFiles: [string, string][] = [
+      ["BOOTCAMP.md", "      → 1-page overview (start here!)"],
+      ["ONBOARDING.md", "    → Full setup guide"],
+      ["ARCHITECTURE.md", "  → System design & diagrams"],
+      ["CODEMAP.md", "       → Directory tour"],
+      ["FIRST_TASKS.md", "   → Starter issues"],
+      ["RUNBOOK.md", "       → Operations guide"],
+      ["DEPENDENCIES.md", "  → Dependency graph"],
+      ["SECURITY.md", "      → Security findings"],
+      ["RADAR.md", "         → Tech radar & risk score"],
+      ["IMPACT.md", "        → Change impact analysis"],
+    ];
+    if (scanResult.workspaces) {
+      summaryFiles.push(["WORKSPACES.md", "    → Monorepo packages"]);
+    }
+    if (scanResult.ciWorkflows.length > 0) {
+      summaryFiles.push(["CI.md", "            → CI pipelines & local checks"]);
+    }
     if (options.compare) {
-      console.log(chalk.white("  ├── ") + chalk.cyan(formatName("DIFF.md")) + chalk.dim("          → Version comparison"));
+      summaryFiles.push(["DIFF.md", "          → Version comparison"]);
+    }
+    summaryFiles.push(["diagrams.mmd", "     → Mermaid diagrams"]);
+    for (const customDoc of config?.output?.customDocs ?? []) {
+      summaryFiles.push([customDoc.name, "  → Custom doc"]);
+    }
+    const excludeDocs = config?.output?.excludeDocs ?? [];
+    const listedFiles = summaryFiles.filter(
+      ([name]) =>
+        isDocIncludedForFocus(name, options.focus) &&
+        isDocIncludedForStyle(name, styleConfig) &&
+        !excludeDocs.includes(name)
+    );
+
+    console.log(chalk.dim("  Generated files:"));
+    for (const [name, description] of listedFiles) {
+      console.log(chalk.white("  ├── ") + chalk.cyan(formatName(name)) + chalk.dim(description));
     }
-    console.log(chalk.white("  ├── ") + chalk.cyan("diagrams.mmd") + chalk.dim("     → Mermaid diagrams"));
     console.log(chalk.white("  └── ") + chalk.cyan("repo_facts.json") + chalk.dim("  → Structured data"));
     console.log();
   }
@@ -642,6 +829,35 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
     console.log(chalk.dim(`       └── Generate: ${(runStats.generateTime! / 1000).toFixed(1)}s`));
     console.log();
 
+    if (analysisStats.usage) {
+      const usage = analysisStats.usage;
+      const byTool = Object.entries(usage.toolCallsByName)
+        .sort((a, b) => b[1] - a[1])
+        .map(([name, count]) => `${name} ${count}`)
+        .join(", ");
+      console.log(chalk.cyan("Usage:"));
+      console.log(chalk.gray(`  Tokens:     ${usage.inputTokens} in / ${usage.outputTokens} out${usage.cost !== undefined ? ` (cost ${usage.cost})` : ""}`));
+      console.log(chalk.gray(`  Tool calls: ${usage.toolCalls}${byTool ? ` (${byTool})` : ""}`));
+      console.log(chalk.gray(`  Bytes read: ${(usage.bytesRead / 1024).toFixed(1)} KB`));
+      const limits = formatBudgetLimits(usage.limits);
+      if (limits) {
+        console.log(chalk.gray(`  Budget:     ${limits}`));
+      }
+      if (usage.exhausted) {
+        console.log(chalk.yellow(`  Budget exhausted (${usage.exhausted}); the model was told to wrap up`));
+      }
+      console.log();
+    }
+
+    if (analysisStats.sections?.length) {
+      console.log(chalk.cyan("Sections:"));
+      for (const section of analysisStats.sections) {
+        const status = section.success ? chalk.green("ok") : chalk.red("failed");
+        console.log(chalk.gray(`  ${section.name}: ${status} ${(section.durationMs / 1000).toFixed(1)}s, ${section.attempts} attempt(s)`));
+      }
+      console.log();
+    }
+
     if (analysisStats.toolCalls.length > 0) {
       console.log(chalk.cyan("Tool calls made:"));
       for (const call of analysisStats.toolCalls) {
@@ -664,11 +880,16 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
         const wp = new ProgressTracker(options.verbose);
 
         wp.startPhase("scan", `max ${options.maxFiles} files`);
-        const newScan = await scanRepo(repoPath, options.maxFiles);
+        const newScan = await scanRepo(repoPath, options.maxFiles, clonePath);
+        if (!options.offline && !options.fast) {
+          // The working tree changed, so a per-commit cached index may be stale
+          newScan.retrieval = await loadRetrievalIndex(repoPath, repoInfo, false, newScan.ignore);
+        }
         wp.succeed(`Scanned ${newScan.files.length} files`);
 
         wp.startPhase("analyze");
-        const result = await analyzeRepo(repoPath, repoInfo, newScan, options, (msg) => {
+        const analyze = options.offline ? analyzeRepoOffline : analyzeRepo;
+        const result = await analyze(repoPath, repoInfo, newScan, options, (msg) => {
           wp.update(msg);
         });
         wp.succeed("Analysis complete");
@@ -681,10 +902,12 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
           facts: result.facts,
           options,
           config,
+          styleConfig,
           outputDir,
           outputFormat,
           progress: wp,
           allowIssueCreation: false,
+          rootPath: clonePath,
         });
         wp.succeed(`Regenerated ${documentCount} files`);
         wp.stop();
@@ -707,19 +930,35 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 
   // Start interactive mode if requested
   if (options.interactive) {
+    // Built here when analysis didn't need it (cache hit or fast mode)
+    interactiveScanResult.retrieval ??= await loadRetrievalIndex(
+      interactiveRepoPath,
+      repoInfo,
+      !options.noCache,
+      interactiveScanResult.ignore
+    );
     await runInteractiveMode(
       interactiveRepoPath,
       repoInfo,
       interactiveScanResult,
       outputDir,
       facts,
-      { verbose: options.verbose, saveTranscript: options.transcript }
+      {
+        verbose: options.verbose,
+        saveTranscript: options.transcript,
+        provider: options.provider,
+        prompts: options.prompts,
+        record: options.record,
+        replay: options.replay,
+        repoPrompts: options.repoPrompts,
+        runCommand: options.runCommand,
+      }
     );
     
     // Cleanup after interactive mode
     if (!options.keepTemp) {
       try {
-        await rm(interactiveRepoPath, { recursive: true, force: true });
+        await rm(interactiveClonePath, { recursive: true, force: true });
       } catch {
         // Ignore cleanup errors
       }
@@ -733,13 +972,34 @@ async function run(repoUrl: string, options: BootcampOptions): Promise<void> {
 /**
  * Run ask command - standalone Q&A mode
  */
-async function runAsk(repoUrl: string, options: { branch?: string; verbose?: boolean }): Promise<void> {
+async function runAsk(
+  repoUrl: string,
+  options: {
+    branch?: string;
+    ref?: string;
+    verbose?: boolean;
+    provider?: string;
+    baseUrl?: string;
+    record?: string;
+    replay?: string;
+    allowCommands?: boolean;
+  }
+): Promise<void> {
   console.log(chalk.bold.blue("\n=== Repo Bootcamp - Ask Mode ===\n"));
+  const config = await loadConfig();
+
+  let provider: ProviderSettings | undefined;
+  try {
+    provider = resolveProviderSettings({ name: options.provider, baseUrl: options.baseUrl }, config?.provider);
+  } catch (error: unknown) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
 
   // Parse URL
   let repoInfo: RepoInfo;
   try {
-    repoInfo = parseGitHubUrl(repoUrl);
+    repoInfo = parseRepoUrl(repoUrl, config?.hosts);
     console.log(chalk.gray(`Repository: ${repoInfo.fullName}`));
   } catch (error: unknown) {
     console.error(chalk.red(`Invalid URL: ${(error as Error).message}`));
@@ -750,7 +1010,7 @@ async function runAsk(repoUrl: string, options: { branch?: string; verbose?: boo
   console.log(chalk.gray("Cloning repository..."));
   let repoPath: string;
   try {
-    repoPath = await cloneRepo(repoInfo, process.cwd(), options.branch, false);
+    repoPath = await cloneRepo(repoInfo, process.cwd(), options.branch, false, undefined, options.ref);
   } catch (error: unknown) {
     console.error(chalk.red(`Clone failed: ${(error as Error).message}`));
     process.exit(1);
@@ -761,6 +1021,7 @@ async function runAsk(repoUrl: string, options: { branch?: string; verbose?: boo
   let scanResult: ScanResult;
   try {
     scanResult = await scanRepo(repoPath, 200);
+    scanResult.retrieval = await loadRetrievalIndex(repoPath, repoInfo, true, scanResult.ignore);
   } catch (error: unknown) {
     console.error(chalk.red(`Scan failed: ${(error as Error).message}`));
     process.exit(1);
@@ -773,7 +1034,15 @@ async function runAsk(repoUrl: string, options: { branch?: string; verbose?: boo
     scanResult,
     process.cwd(),
     undefined,
-    { verbose: options.verbose, saveTranscript: true }
+    {
+      verbose: options.verbose,
+      saveTranscript: true,
+      provider,
+      prompts: config?.prompts,
+      runCommand: options.allowCommands ? { ...config?.runCommand, enabled: true } : config?.runCommand,
+      record: options.record,
+      replay: options.replay,
+    }
   );
 
   // Cleanup
@@ -794,8 +1063,9 @@ program
 
 // Main command
 program
-  .argument("<repo-url>", "GitHub repository URL")
+  .argument("<repo-url>", "Repository URL (GitHub, GitLab, Bitbucket, Gitea, ssh:// or file://)")
   .option("-b, --branch <branch>", "Branch to analyze", "")
+  .option("--ref <ref>", "Analyze a branch, tag, commit SHA or pr/<number> (checked out detached)")
   .option(
     "-f, --focus <focus>",
     "Focus area: onboarding, architecture, contributing, all",
@@ -810,6 +1080,8 @@ program
   .option("--format <format>", "Output format: markdown, html, pdf", "markdown")
   .option("-m, --max-files <number>", "Maximum files to scan", "200")
   .option("--model <model>", "Override model selection (e.g., claude-opus-4-5)")
+  .option("--provider <name>", "LLM provider: copilot, openai (any OpenAI-compatible server)")
+  .option("--base-url <url>", "Base URL for an OpenAI-compatible server (implies --provider openai)")
   .option("--no-clone", "Use GitHub API instead of cloning (faster but limited)")
   .option("--keep-temp", "Keep temporary clone directory")
   .option("--json-only", "Only generate repo_facts.json, skip markdown docs")
@@ -819,11 +1091,21 @@ program
   .option("-i, --interactive", "Start interactive Q&A mode after generation")
   .option("--transcript", "Save interactive session transcript to TRANSCRIPT.md")
   .option("-c, --compare <ref>", "Compare with another git ref (tag, branch, commit)")
-  .option("--create-issues", "Create GitHub issues from FIRST_TASKS.md")
+  .option("--package <name>", "Generate the bootcamp for one monorepo workspace package (name or path)")
+  .option("--path <subdir>", "Analyze only this subdirectory (sparse checkout; root README, CODEOWNERS and CI are read as context)")
+  .option("--create-issues", "Create GitHub or GitLab issues from FIRST_TASKS.md")
   .option("--dry-run", "Preview issues without creating (use with --create-issues)")
   .option("-s, --style <style>", "Output style: startup, enterprise, oss, devops", "oss")
   .option("--render-diagrams [format]", "Render diagrams.mmd to SVG/PNG (requires mermaid-cli)", "svg")
   .option("--fast", "Fast mode: inline key files, skip tools, much faster (~15-30s)")
+  .option("--record <file>", "Record every LLM session (prompts, streamed events, tool calls) to a JSON file")
+  .option("--replay <file>", "Replay LLM sessions from a --record file instead of calling a model")
+  .option("--max-tool-calls <n>", "Hard limit on agent tool calls; the model is told to wrap up as it nears the limit")
+  .option("--max-tokens <n>", "Hard limit on input + output tokens for the analysis")
+  .option("--timeout <seconds>", "Time budget for the analysis in seconds")
+  .option("--allow-commands", "Let the agent run allowlisted read-only commands (npm run, npm ls, --help)")
+  .option("--sectioned", "Request each section separately in parallel, retrying only sections that fail validation")
+  .option("--offline", "Offline mode: build facts from heuristics only, no LLM required")
   .option("--repo-prompts <path>", "Path to custom prompts file (default: .bootcamp-prompts.md in target repo)")
   .option("--full-clone", "Perform a full clone instead of shallow clone (slower but includes full history)")
   .option("--no-cache", "Skip reading/writing analysis cache")
@@ -844,6 +1126,8 @@ program
       jsonOnly: opts.jsonOnly || false,
       stats: opts.stats || false,
       fast: opts.fast || false,
+      sectioned: opts.sectioned || false,
+      offline: opts.offline || false,
       // New options
       interactive: opts.interactive || false,
       transcript: opts.transcript || false,
@@ -858,8 +1142,28 @@ program
       watch: opts.watch || false,
       watchInterval: parseInt(opts.watchInterval, 10),
       repoPrompts: opts.repoPrompts,
+      record: opts.record,
+      replay: opts.replay,
+      maxToolCalls: opts.maxToolCalls !== undefined ? parseInt(opts.maxToolCalls, 10) : undefined,
+      maxTokens: opts.maxTokens !== undefined ? parseInt(opts.maxTokens, 10) : undefined,
+      timeout: opts.timeout !== undefined ? parseInt(opts.timeout, 10) : undefined,
+      runCommand: opts.allowCommands ? { enabled: true } : undefined,
+      package: opts.package,
+      path: opts.path,
+      ref: opts.ref,
     };
 
+    // CLI flags take precedence over the config file's provider block
+    try {
+      options.provider = resolveProviderSettings(
+        { name: opts.provider, baseUrl: opts.baseUrl },
+        (await loadConfig())?.provider
+      );
+    } catch (error: unknown) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+
     if (!["onboarding", "architecture", "contributing", "all"].includes(options.focus)) {
       console.error(chalk.red(`Invalid focus: ${options.focus}`));
       process.exit(1);
@@ -875,6 +1179,61 @@ program
       process.exit(1);
     }
 
+    if (options.ref) {
+      if (options.branch) {
+        console.error(chalk.red("--ref and --branch cannot be combined"));
+        process.exit(1);
+      }
+      if (options.watch) {
+        console.error(chalk.red("--ref pins a single commit and cannot be combined with --watch"));
+        process.exit(1);
+      }
+    }
+
+    if (options.path) {
+      if (options.package) {
+        console.error(chalk.red("--path and --package cannot be combined"));
+        process.exit(1);
+      }
+      try {
+        options.path = normalizeSubdir(options.path);
+      } catch (error: unknown) {
+        console.error(chalk.red((error as Error).message));
+        process.exit(1);
+      }
+    }
+
+    if (options.sectioned && (options.fast || options.offline)) {
+      console.error(chalk.red("--sectioned uses tool-calling and cannot be combined with --fast or --offline"));
+      process.exit(1);
+    }
+
+    for (const [flag, value] of [
+      ["--max-tool-calls", options.maxToolCalls],
+      ["--max-tokens", options.maxTokens],
+      ["--timeout", options.timeout],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        console.error(chalk.red(`Invalid ${flag}: must be a positive integer`));
+        process.exit(1);
+      }
+    }
+
+    if (options.replay && (options.record || options.offline)) {
+      console.error(chalk.red("--replay cannot be combined with --record or --offline"));
+      process.exit(1);
+    }
+
+    if (options.replay && !existsSync(options.replay)) {
+      console.error(chalk.red(`Recording not found: ${options.replay}`));
+      process.exit(1);
+    }
+
+    if (options.offline && options.interactive) {
+      console.error(chalk.red("--interactive requires a model and cannot be combined with --offline"));
+      process.exit(1);
+    }
+
     const format = options.format || "markdown";
     if (!["markdown", "html", "pdf"].includes(format)) {
       console.error(chalk.red(`Invalid format: ${options.format}. Use: markdown, html, pdf`));
@@ -890,6 +1249,12 @@ program
   .command("ask <repo-url>")
   .description("Start interactive Q&A mode without full generation")
   .option("-b, --branch <branch>", "Branch to analyze")
+  .option("--ref <ref>", "Analyze a branch, tag, commit SHA or pr/<number>")
+  .option("--provider <name>", "LLM provider: copilot, openai")
+  .option("--base-url <url>", "Base URL for an OpenAI-compatible server")
+  .option("--record <file>", "Record the session to a JSON file")
+  .option("--replay <file>", "Replay a recorded session instead of calling a model")
+  .option("--allow-commands", "Let the agent run allowlisted read-only commands (npm run, npm ls, --help)")
   .option("-v, --verbose", "Show detailed output")
   .action(async (repoUrl: string, opts) => {
     await runAsk(repoUrl, opts);
@@ -898,7 +1263,7 @@ program
 // Diff subcommand
 program
   .command("diff <repo-pr>")
-  .description("Generate onboarding diff for a GitHub PR")
+  .description("Generate onboarding diff for a PR or merge request (GitHub, GitLab, Bitbucket, Gitea)")
   .option("-o, --output <dir>", "Output directory")
   .option("--format <format>", "Output format: markdown, html, pdf", "markdown")
   .option("--full-clone", "Perform a full clone instead of shallow clone (slower but includes full history)")
@@ -970,7 +1335,7 @@ async function runDocsCommand(
 ) {
   console.log(chalk.bold("\n📚 Docs Analyzer\n"));
 
-  // Resolve repository source (local path or GitHub URL)
+  // Resolve repository source (local path or repository URL)
   let repoSource: RepoSource;
   try {
     if (isLocalPath(repoUrl)) {
@@ -978,7 +1343,7 @@ async function runDocsCommand(
     } else {
       console.log(chalk.dim("Cloning repository..."));
     }
-    repoSource = await resolveRepo(repoUrl, process.cwd());
+    repoSource = await resolveRepo(repoUrl, process.cwd(), (await loadConfig())?.hosts);
     console.log(chalk.dim(`Analyzing: ${repoSource.repoInfo.fullName}`));
   } catch (error) {
     console.error(chalk.red(`❌ Failed to resolve repository: ${error}`));
@@ -5,16 +5,24 @@
 
 import { execFile } from "child_process";
 import { promisify } from "util";
-import { readdir, stat, readFile, rm } from "fs/promises";
+import { stat, readFile, rm } from "fs/promises";
 import { join, basename, resolve, relative, isAbsolute } from "path";
-import type { RepoInfo, FileInfo, StackInfo, Command, CIWorkflow, ScanResult } from "./types.js";
-import { SKIP_DIRS } from "./utils.js";
+import type { RepoInfo, FileInfo, StackInfo, ScanResult, WorkspaceInfo, RootContext } from "./types.js";
+import { loadIgnoreRules, walkRepo, type IgnoreRules } from "./ignore.js";
+import { buildSymbolIndex } from "./symbols.js";
+import { extractCommands } from "./commands.js";
+import { ciSystemFor, parsePipelines } from "./ci.js";
+import { findEntrypoints } from "./entrypoints.js";
+import { computeCodeStats, orderLanguagesByShare } from "./loc.js";
+import { discoverWorkspaces } from "./workspaces.js";
+import { fetchRefFor, repoHost } from "./hosts.js";
 import frameworkMaps from "./data/framework-maps.json" with { type: "json" };
 
 const execFileAsync = promisify(execFile);
 
 /**
- * Parse a GitHub URL into owner/repo components
+ * Parse a GitHub URL into owner/repo components.
+ * GitHub only; parseRepoUrl in hosts.ts handles every supported host.
  */
 export function parseGitHubUrl(url: string): RepoInfo {
   // Handle various GitHub URL formats
@@ -39,24 +47,56 @@ export function parseGitHubUrl(url: string): RepoInfo {
   throw new Error(`Invalid GitHub URL: ${url}`);
 }
 
+/**
+ * Repo-root directories checked out next to a sparse subdirectory, so CI
+ * configuration and CODEOWNERS stay available as context
+ */
+export const ROOT_CONTEXT_DIRS = [".github", ".gitlab", ".circleci", ".azure-pipelines"];
+
+/**
+ * Normalize a subdirectory given on the command line to a repo-relative path
+ */
+export function normalizeSubdir(input: string): string {
+  const path = input.trim().replace(/\\/g, "/").replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  if (!path || path === "." || isAbsolute(path) || path.split("/").includes("..")) {
+    throw new Error(`Invalid repository path: ${input}`);
+  }
+  return path;
+}
+
 /**
  * Clone a repository to a temporary directory
+ *
+ * @param sparsePath - Check out only this subdirectory (plus root files and CI
+ *   config) with a cone-mode sparse checkout
+ * @param ref - Branch, tag, full commit SHA or pr/N to fetch and check out
+ *   (detached) instead of the default branch
  */
 export async function cloneRepo(
   repoInfo: RepoInfo,
   targetDir: string,
   branch?: string,
-  fullClone?: boolean
+  fullClone?: boolean,
+  sparsePath?: string,
+  ref?: string
 ): Promise<string> {
   const clonePath = join(targetDir, ".tmp", repoInfo.repo);
+  const fetchRef = ref ? fetchRefFor(repoHost(repoInfo), ref) : undefined;
   const cloneArgs = ["clone"];
   if (!fullClone) {
     cloneArgs.push("--filter=blob:none", "--depth", "1");
   }
+  if (sparsePath) {
+    cloneArgs.push("--sparse");
+  }
+  if (fetchRef) {
+    // The default branch only provides the remote setup; the ref is fetched next
+    cloneArgs.push("--no-checkout");
+  }
   if (branch) {
     cloneArgs.push("--branch", branch);
   }
-  cloneArgs.push(`${repoInfo.url}.git`, clonePath);
+  cloneArgs.push("--", repoInfo.cloneUrl ?? `${repoInfo.url}.git`, clonePath);
 
   /** Timeout for git clone operations (2 minutes) */
   const CLONE_TIMEOUT_MS = 120_000;
@@ -65,11 +105,41 @@ export async function cloneRepo(
     await rm(clonePath, { recursive: true, force: true });
     await execFileAsync("git", cloneArgs, { timeout: CLONE_TIMEOUT_MS });
 
-    // Get the actual branch name
-    const { stdout } = await execFileAsync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
-      cwd: clonePath,
-    });
-    repoInfo.branch = stdout.trim();
+    if (fetchRef) {
+      // A shallow clone can't check out arbitrary commits, so fetch exactly the requested object
+      const fetchArgs = ["fetch", "--quiet", ...(fullClone ? [] : ["--depth", "1"]), "origin", fetchRef];
+      try {
+        await execFileAsync("git", fetchArgs, { cwd: clonePath, timeout: CLONE_TIMEOUT_MS });
+      } catch (error: unknown) {
+        throw new Error(
+          `Could not fetch ref ${ref} (use a branch, tag, full commit SHA or pr/N): ${(error as Error).message}`
+        );
+      }
+      await execFileAsync("git", ["checkout", "--quiet", "--detach", "FETCH_HEAD"], { cwd: clonePath });
+    }
+
+    if (sparsePath) {
+      // Cone mode always includes files at the repo root
+      await execFileAsync("git", ["sparse-checkout", "set", "--", sparsePath, ...ROOT_CONTEXT_DIRS], {
+        cwd: clonePath,
+        timeout: CLONE_TIMEOUT_MS,
+      });
+      const scoped = await stat(join(clonePath, sparsePath)).catch(() => null);
+      if (!scoped?.isDirectory()) {
+        throw new Error(`Directory not found in repository: ${sparsePath}`);
+      }
+    }
+
+    // Get the actual branch name; a fetched ref is checked out detached, so it stands in for one
+    if (ref) {
+      repoInfo.branch = ref;
+      repoInfo.ref = ref;
+    } else {
+      const { stdout } = await execFileAsync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
+        cwd: clonePath,
+      });
+      repoInfo.branch = stdout.trim();
+    }
 
     // Get the commit SHA for caching
     const { stdout: sha } = await execFileAsync("git", ["rev-parse", "HEAD"], {
@@ -84,42 +154,31 @@ export async function cloneRepo(
 }
 
 /**
- * Recursively scan directory for files
+ * Recursively scan directory for files, skipping ignored paths
+ *
+ * @param dir - Repo-relative directory to scan; returned paths are relative to it
  */
 async function scanDirectory(
-  dir: string,
-  basePath: string,
+  repoPath: string,
+  rules: IgnoreRules,
   maxFiles: number,
-  files: FileInfo[] = []
+  dir = ""
 ): Promise<FileInfo[]> {
-  if (files.length >= maxFiles) return files;
-
-  const entries = await readdir(dir, { withFileTypes: true });
+  const files: FileInfo[] = [];
+  const prefix = dir ? `${dir}/` : "";
 
-  for (const entry of entries) {
+  for await (const entry of walkRepo(repoPath, rules, dir)) {
     if (files.length >= maxFiles) break;
 
-    const fullPath = join(dir, entry.name);
-    const relativePath = fullPath.replace(basePath + "/", "");
-
-    // Skip common unimportant directories
-    if (
-      entry.isDirectory() &&
-      SKIP_DIRS.has(entry.name)
-    ) {
+    const relativePath = entry.path.slice(prefix.length);
+    if (entry.isDirectory) {
+      files.push({ path: relativePath, size: 0, isDirectory: true });
       continue;
     }
-
-    if (entry.isDirectory()) {
-      files.push({ path: relativePath, size: 0, isDirectory: true });
-      await scanDirectory(fullPath, basePath, maxFiles, files);
-    } else {
-      const stats = await stat(fullPath);
-      files.push({
-        path: relativePath,
-        size: stats.size,
-        isDirectory: false,
-      });
+    // git lists tracked files that are deleted or outside a sparse checkout
+    const stats = await stat(join(repoPath, entry.path)).catch(() => null);
+    if (stats?.isFile()) {
+      files.push({ path: relativePath, size: stats.size, isDirectory: false });
     }
   }
 
@@ -195,9 +254,7 @@ function detectStack(files: FileInfo[]): StackInfo {
   stack.hasDocker = fileNameSet.has("Dockerfile") || fileNameSet.has("docker-compose.yml") || fileNameSet.has("docker-compose.yaml");
 
   // CI detection
-  stack.hasCi = filePaths.some(
-    (p) => p.startsWith(".github/workflows/") || p === ".gitlab-ci.yml" || p.startsWith(".circleci/")
-  );
+  stack.hasCi = filePaths.some((p) => ciSystemFor(p) !== null);
 
   // Set build system based on package.json if not set
   if (!stack.buildSystem && fileNameSet.has("package.json")) {
@@ -207,89 +264,6 @@ function detectStack(files: FileInfo[]): StackInfo {
   return stack;
 }
 
-/**
- * Extract commands from package.json scripts
- */
-async function extractPackageJsonCommands(repoPath: string): Promise<Command[]> {
-  const commands: Command[] = [];
-
-  try {
-    const content = await readFile(join(repoPath, "package.json"), "utf-8");
-    const pkg = JSON.parse(content);
-
-    if (pkg.scripts) {
-      for (const [name, cmd] of Object.entries(pkg.scripts)) {
-        commands.push({
-          name,
-          command: `npm run ${name}`,
-          source: "package.json",
-          description: cmd as string,
-        });
-      }
-    }
-  } catch {
-    // No package.json or parse error
-  }
-
-  return commands;
-}
-
-/**
- * Extract commands from Makefile
- */
-async function extractMakefileCommands(repoPath: string): Promise<Command[]> {
-  const commands: Command[] = [];
-
-  try {
-    const content = await readFile(join(repoPath, "Makefile"), "utf-8");
-    const targetPattern = /^([a-zA-Z_][a-zA-Z0-9_-]*)\s*:/gm;
-    let match;
-
-    while ((match = targetPattern.exec(content)) !== null) {
-      commands.push({
-        name: match[1],
-        command: `make ${match[1]}`,
-        source: "Makefile",
-      });
-    }
-  } catch {
-    // No Makefile
-  }
-
-  return commands;
-}
-
-/**
- * Parse GitHub Actions workflows
- */
-async function parseWorkflows(repoPath: string, files: FileInfo[]): Promise<CIWorkflow[]> {
-  const workflows: CIWorkflow[] = [];
-  const workflowFiles = files.filter((f) =>
-    f.path.startsWith(".github/workflows/") && (f.path.endsWith(".yml") || f.path.endsWith(".yaml"))
-  );
-
-  for (const wf of workflowFiles) {
-    try {
-      const content = await readFile(join(repoPath, wf.path), "utf-8");
-
-      // Simple YAML parsing for workflow name and triggers
-      const nameMatch = content.match(/^name:\s*['"]?([^'"\n]+)/m);
-      const onMatch = content.match(/^on:\s*\[?([^\]\n]+)/m);
-
-      workflows.push({
-        name: nameMatch ? nameMatch[1].trim() : basename(wf.path, ".yml"),
-        file: wf.path,
-        triggers: onMatch ? onMatch[1].split(",").map((t) => t.trim()) : [],
-        mainSteps: [],
-      });
-    } catch {
-      // Skip unparseable workflow
-    }
-  }
-
-  return workflows;
-}
-
 /**
  * Read important documentation files
  */
@@ -455,23 +429,116 @@ async function readKeySourceFiles(
   return sourceFiles;
 }
 
+/** Files scanned per workspace package to detect its stack */
+const MAX_PACKAGE_STACK_FILES = 300;
+
+/**
+ * Discover monorepo workspace packages, each with the stack of its own directory
+ *
+ * @param rules - Ignore rules for the repository, loaded when not given
+ */
+export async function detectWorkspaces(repoPath: string, rules?: IgnoreRules): Promise<WorkspaceInfo | null> {
+  let loaded = rules;
+  const workspaces = await discoverWorkspaces(repoPath, async (path) => {
+    loaded ??= await loadIgnoreRules(repoPath);
+    return detectStack(await scanDirectory(repoPath, loaded, MAX_PACKAGE_STACK_FILES, path === "." ? "" : path));
+  });
+
+  for (const pkg of workspaces?.packages ?? []) {
+    mergeFrameworksFromDeps(pkg.stack, pkg.dependencies);
+  }
+  return workspaces;
+}
+
+/** CODEOWNERS locations, in the order GitHub and GitLab look them up */
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", ".gitlab/CODEOWNERS", "docs/CODEOWNERS"];
+/** Files listed from the repo-root CI directories */
+const MAX_ROOT_CONTEXT_FILES = 100;
+
+/**
+ * CODEOWNERS rules that can apply to files under a subdirectory: rules for the
+ * directory itself, its ancestors or descendants, and unanchored patterns
+ */
+export function codeownersFor(content: string, subdir: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.replace(/#.*/, "").trim())
+    .filter((line) => {
+      const pattern = line.split(/\s+/)[0];
+      if (!pattern || line.startsWith("[")) return false;
+      const path = pattern.replace(/^\//, "").replace(/\/(\*\*?)?$/, "");
+      if (!pattern.slice(0, -1).includes("/")) return true;
+      return path === "" || subdir === path || subdir.startsWith(`${path}/`) || path.startsWith(`${subdir}/`);
+    });
+}
+
+/**
+ * Read the repo-root files that still describe a subdirectory scan: the root
+ * README, CODEOWNERS rules for the subdirectory and CI configuration
+ */
+async function readRootContext(
+  rootPath: string,
+  subdir: string
+): Promise<{ context: RootContext; files: FileInfo[]; contributing: string | null }> {
+  // Root-level files and the CI directories only; listing the whole root could mean the whole monorepo
+  const unfiltered: IgnoreRules = { gitFiles: null, excludes: [], generated: [] };
+  const files: FileInfo[] = [];
+  for await (const entry of walkRepo(rootPath, unfiltered, "", false)) {
+    if (!entry.isDirectory) {
+      files.push({ path: entry.path, size: (await stat(join(rootPath, entry.path))).size, isDirectory: false });
+    }
+  }
+  for (const dir of ROOT_CONTEXT_DIRS) {
+    const dirStat = await stat(join(rootPath, dir)).catch(() => null);
+    if (!dirStat?.isDirectory()) continue;
+    const limit = files.length + MAX_ROOT_CONTEXT_FILES;
+    for await (const entry of walkRepo(rootPath, unfiltered, dir)) {
+      if (files.length >= limit) break;
+      if (!entry.isDirectory) {
+        files.push({ path: entry.path, size: (await stat(join(rootPath, entry.path))).size, isDirectory: false });
+      }
+    }
+  }
+
+  let codeowners: RootContext["codeowners"] = null;
+  for (const path of CODEOWNERS_PATHS) {
+    const content = await readFile(join(rootPath, path), "utf-8").catch(() => null);
+    if (content !== null) {
+      codeowners = { path, rules: codeownersFor(content, subdir) };
+      break;
+    }
+  }
+
+  const [readme, contributing] = await Promise.all([readDocFile(rootPath, "README"), readDocFile(rootPath, "CONTRIBUTING")]);
+  const ciFiles = files.map((f) => f.path).filter((p) => ciSystemFor(p) !== null);
+
+  return { context: { subdir, readme, codeowners, ciFiles }, files, contributing };
+}
+
 /**
  * Full scan of a cloned repository
+ *
+ * @param rootPath - Repository root when repoPath is a subdirectory of it; its
+ *   README, CODEOWNERS, CONTRIBUTING and CI config are read as context
  */
-export async function scanRepo(repoPath: string, maxFiles: number): Promise<ScanResult> {
-  // Scan files
-  const files = await scanDirectory(repoPath, repoPath, maxFiles);
+export async function scanRepo(repoPath: string, maxFiles: number, rootPath?: string): Promise<ScanResult> {
+  // Scan files (.gitignore, .bootcampignore and generated/vendored attributes applied)
+  const ignore = await loadIgnoreRules(repoPath);
+  const files = await scanDirectory(repoPath, ignore, maxFiles);
 
-  // Detect stack
+  // Detect stack, languages ordered by their share of lines of code
+  const codeStats = await computeCodeStats(repoPath, ignore);
   const stack = detectStack(files);
+  stack.languages = orderLanguagesByShare(stack.languages, codeStats);
 
-  // Extract commands
-  const pkgCommands = await extractPackageJsonCommands(repoPath);
-  const makeCommands = await extractMakefileCommands(repoPath);
-  const commands = [...pkgCommands, ...makeCommands];
+  // Extract commands (package.json scripts, Makefile, justfile, Taskfile, pyproject, ...)
+  const commands = await extractCommands(repoPath, rootPath);
 
-  // Parse CI workflows
-  const ciWorkflows = await parseWorkflows(repoPath, files);
+  // Parse CI pipelines (GitHub Actions, GitLab CI, CircleCI, Azure Pipelines, Jenkins)
+  const ciWorkflows = await parsePipelines(repoPath, files);
+
+  // Detect entrypoints (manifests, Dockerfile, Procfile, serverless config, Go/Python conventions)
+  const entrypoints = await findEntrypoints(repoPath, files);
 
   // Read docs in parallel
   const [readme, contributing] = await Promise.all([
@@ -482,14 +549,37 @@ export async function scanRepo(repoPath: string, maxFiles: number): Promise<Scan
   // Read key source files
   const keySourceFiles = await readKeySourceFiles(repoPath, files);
 
+  // Index definitions for the symbol tools
+  const symbols = await buildSymbolIndex(repoPath, files);
+
+  const workspaces = await detectWorkspaces(repoPath, ignore);
+
+  // Scoped scans still run under the repo's CI and contribution rules
+  let rootContext: RootContext | undefined;
+  let rootContributing: string | null = null;
+  const subdir = rootPath ? relative(resolve(rootPath), resolve(repoPath)) : "";
+  if (rootPath && subdir) {
+    const root = await readRootContext(rootPath, subdir.split("\\").join("/"));
+    rootContext = root.context;
+    rootContributing = root.contributing;
+    ciWorkflows.push(...(await parsePipelines(rootPath, root.files)));
+    stack.hasCi = stack.hasCi || root.context.ciFiles.length > 0;
+  }
+
   return {
     files,
     stack,
     commands,
     ciWorkflows,
     readme,
-    contributing,
+    contributing: contributing ?? rootContributing,
     keySourceFiles,
+    symbols,
+    ignore,
+    entrypoints,
+    codeStats,
+    ...(workspaces ? { workspaces } : {}),
+    ...(rootContext ? { rootContext } : {}),
   };
 }
 
@@ -5,15 +5,21 @@
 
 import * as readline from "readline";
 import chalk from "chalk";
-import { CopilotClient, SessionEvent } from "@github/copilot-sdk";
+import type { SessionEvent } from "@github/copilot-sdk";
 import type { 
   ScanResult, 
   RepoInfo, 
   RepoFacts, 
   Transcript,
+  PromptOverrides,
+  ProviderSettings,
+  RunCommandSettings,
 } from "./types.js";
 import { getRepoTools } from "./tools.js";
-import { readCustomPrompt, formatCustomPromptSection } from "./agent.js";
+import { formatRetrievalResults, searchRetrievalIndex } from "./retrieval.js";
+import type { LLMProvider, ProviderSession } from "./providers.js";
+import { createSessionProvider, type RecordReplayOptions } from "./recording.js";
+import { readCustomPrompt, formatCustomPromptSection, resolveSystemPrompt } from "./agent.js";
 import { writeFile } from "fs/promises";
 import { join } from "path";
 
@@ -23,10 +29,16 @@ import { join } from "path";
 const INTERACTIVE_SYSTEM_PROMPT = `You are an expert assistant helping developers understand and navigate a codebase.
 
 You have access to tools to explore the repository:
-- read_file: Read contents of any file
+- read_file: Read a file, a line range or a single symbol, with line numbers
 - list_files: List files and directories  
 - search: Search for patterns in code using ripgrep
 - get_repo_metadata: Get repository statistics
+- git_log: Recent commits for a file or directory
+- git_blame: Who last changed a file or line range, and in which commits
+- git_co_changes: Files that usually change together with a path
+- find_definition / find_references / list_exports: Jump to symbol definitions, usages and module exports by name
+- search_relevant: Rank code and docs across the whole repository by relevance to a question
+- run_command (only when enabled): Run allowlisted read-only commands such as \`npm run\` or \`npm ls\` to check quickstart commands
 
 GUIDELINES:
 1. Answer questions concisely and accurately
@@ -34,9 +46,15 @@ GUIDELINES:
 3. Use tools to verify information before answering
 4. Provide file paths and line numbers when helpful
 5. If you're unsure, say so and suggest how to find the answer
+6. For "who knows this" or "why was this added" questions, back answers with git_blame and git_log
+7. Prefer find_definition and find_references over search for named symbols; they return exact path:line locations to cite
+8. Questions may come with retrieved snippets ranked by keyword match; use them as leads, not as proof
 
 When citing files, use the format: \`path/to/file.ts:lineNumber\``;
 
+/** Chunks retrieved up front for each question */
+const PRE_RETRIEVED_CHUNKS = 3;
+
 /**
  * Create context message with repo info
  */
@@ -73,32 +91,49 @@ ${facts.description}
   return context;
 }
 
+/**
+ * Prompt and backend customization for interactive sessions
+ */
+export interface InteractiveSessionOptions extends RecordReplayOptions {
+  /** LLM backend (defaults to Copilot) */
+  provider?: ProviderSettings;
+  /** Prompt overrides from bootcamp.config.json */
+  prompts?: PromptOverrides;
+  /** Path to a custom prompts file (defaults to .bootcamp-prompts.md in the repo) */
+  repoPrompts?: string;
+  /** Enables the run_command tool */
+  runCommand?: RunCommandSettings;
+}
+
 /**
  * Interactive session class
  */
 export class InteractiveSession {
-  private client: CopilotClient;
-  private session: Awaited<ReturnType<CopilotClient["createSession"]>> | null = null;
+  private provider: LLMProvider;
+  private session: ProviderSession | null = null;
   private transcript: Transcript;
   private repoPath: string;
   private repoInfo: RepoInfo;
   private scanResult: ScanResult;
   private facts?: RepoFacts;
   private verbose: boolean;
+  private sessionOptions: InteractiveSessionOptions;
 
   constructor(
     repoPath: string,
     repoInfo: RepoInfo,
     scanResult: ScanResult,
     facts?: RepoFacts,
-    verbose: boolean = false
+    verbose: boolean = false,
+    sessionOptions: InteractiveSessionOptions = {}
   ) {
-    this.client = new CopilotClient();
+    this.provider = createSessionProvider(sessionOptions.provider, sessionOptions);
     this.repoPath = repoPath;
     this.repoInfo = repoInfo;
     this.scanResult = scanResult;
     this.facts = facts;
     this.verbose = verbose;
+    this.sessionOptions = sessionOptions;
     this.transcript = {
       repoName: repoInfo.fullName,
       startedAt: new Date(),
@@ -113,6 +148,10 @@ export class InteractiveSession {
     const tools = getRepoTools({
       repoPath: this.repoPath,
       verbose: this.verbose,
+      symbols: this.scanResult.symbols,
+      retrieval: this.scanResult.retrieval,
+      ignore: this.scanResult.ignore,
+      runCommand: this.sessionOptions.runCommand,
       onToolCall: (name, args) => {
         if (this.verbose) {
           console.log(chalk.cyan(`\n[Tool] ${name}`), chalk.gray(JSON.stringify(args).substring(0, 80)));
@@ -126,14 +165,15 @@ export class InteractiveSession {
     });
 
     // Create session
-    const customPrompt = readCustomPrompt(this.repoPath);
-    const systemPrompt = `${INTERACTIVE_SYSTEM_PROMPT}${formatCustomPromptSection(customPrompt)}`;
+    const customPrompt = readCustomPrompt(this.repoPath, this.sessionOptions.repoPrompts);
+    const basePrompt = resolveSystemPrompt(INTERACTIVE_SYSTEM_PROMPT, this.sessionOptions.prompts);
+    const systemPrompt = `${basePrompt}${formatCustomPromptSection(customPrompt)}`;
 
-    this.session = await this.client.createSession({
+    this.session = await this.provider.createSession({
       streaming: true,
       systemMessage: { content: systemPrompt },
       tools,
-      model: "claude-sonnet-4-20250514",
+      model: this.provider.chatModel,
     });
 
     // Send initial context
@@ -183,8 +223,9 @@ export class InteractiveSession {
       }
     });
 
-    // Send question
-    await this.session.sendAndWait({ prompt: question }, 120000);
+    // Send question with pre-retrieved context
+    const prompt = await this.withRetrievedContext(question);
+    await this.session.sendAndWait({ prompt }, 120000);
 
     console.log(); // Newline after response
 
@@ -199,6 +240,20 @@ export class InteractiveSession {
     return fullResponse;
   }
 
+  /**
+   * Append the chunks most relevant to a question, so the model starts from
+   * likely files instead of guessing from the first 30 file names
+   */
+  private async withRetrievedContext(question: string): Promise<string> {
+    if (!this.scanResult.retrieval) return question;
+
+    const results = searchRetrievalIndex(this.scanResult.retrieval, question, PRE_RETRIEVED_CHUNKS);
+    if (results.length === 0) return question;
+
+    const snippets = await formatRetrievalResults(this.repoPath, results);
+    return `${question}\n\n## Possibly Relevant Code (retrieved by keyword match)\n${snippets}`;
+  }
+
   /**
    * Get the current transcript
    */
@@ -220,8 +275,8 @@ export class InteractiveSession {
    * Stop the session
    */
   async stop(): Promise<void> {
-    if (this.client) {
-      await this.client.stop();
+    if (this.provider) {
+      await this.provider.stop();
     }
   }
 }
@@ -276,7 +331,7 @@ export async function runInteractiveMode(
   scanResult: ScanResult,
   outputDir: string,
   facts?: RepoFacts,
-  options?: { verbose?: boolean; saveTranscript?: boolean }
+  options?: { verbose?: boolean; saveTranscript?: boolean } & InteractiveSessionOptions
 ): Promise<void> {
   console.log(chalk.bold.cyan("\n=== Interactive Mode ==="));
   console.log(chalk.gray(`Repository: ${repoInfo.fullName}`));
@@ -287,7 +342,15 @@ export async function runInteractiveMode(
     repoInfo,
     scanResult,
     facts,
-    options?.verbose
+    options?.verbose,
+    {
+      provider: options?.provider,
+      prompts: options?.prompts,
+      repoPrompts: options?.repoPrompts,
+      runCommand: options?.runCommand,
+      record: options?.record,
+      replay: options?.replay,
+    }
   );
 
   try {
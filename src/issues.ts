@@ -1,11 +1,13 @@
 /**
  * Auto-Issue Creator Module
- * Creates GitHub issues from FIRST_TASKS using the gh CLI
+ * Creates issues from FIRST_TASKS using the host's CLI: gh for GitHub
+ * (including Enterprise), glab for GitLab
  */
 
 import { execFile } from "child_process";
 import { promisify } from "util";
 import chalk from "chalk";
+import { repoHost, webOrigin } from "./hosts.js";
 import type { FirstTask, RepoInfo } from "./types.js";
 
 const execFileAsync = promisify(execFile);
@@ -30,27 +32,89 @@ export interface IssueResult {
 }
 
 /**
- * Check if gh CLI is available and authenticated
+ * Command-line client that creates issues on a host
  */
-export async function checkGhAuth(): Promise<{ available: boolean; authenticated: boolean; error?: string }> {
+interface IssueCli {
+  program: string;
+  installUrl: string;
+  /** Hostname passed to `auth status` for self-hosted instances */
+  hostname?: string;
+  createArgs: (payload: IssuePayload) => string[];
+}
+
+/**
+ * Issue CLI for the repo's host, or null when issues cannot be created there
+ */
+function issueCli(repoInfo: RepoInfo): IssueCli | null {
+  const host = repoHost(repoInfo);
+  if (host !== "github" && host !== "gitlab") return null;
+
+  const hostname = new URL(webOrigin(repoInfo)).host;
+  const isPublic = hostname === "github.com" || hostname === "gitlab.com";
+  // Both CLIs accept HOST/OWNER/REPO for instances other than the public one
+  const repo = isPublic ? repoInfo.fullName : `${hostname}/${repoInfo.fullName}`;
+
+  if (host === "github") {
+    return {
+      program: "gh",
+      installUrl: "https://cli.github.com",
+      hostname: isPublic ? undefined : hostname,
+      createArgs: (payload) => [
+        "issue", "create",
+        "--repo", repo,
+        "--title", payload.title,
+        "--body", payload.body,
+        ...payload.labels.flatMap((label) => ["--label", label]),
+      ],
+    };
+  }
+
+  return {
+    program: "glab",
+    installUrl: "https://gitlab.com/gitlab-org/cli",
+    hostname: isPublic ? undefined : hostname,
+    createArgs: (payload) => [
+      "issue", "create",
+      "--repo", repo,
+      "--title", payload.title,
+      "--description", payload.body,
+      ...payload.labels.flatMap((label) => ["--label", label]),
+      "--yes",
+    ],
+  };
+}
+
+/**
+ * Check if an issue CLI is available and authenticated
+ */
+async function checkCliAuth(
+  cli: Pick<IssueCli, "program" | "hostname">
+): Promise<{ available: boolean; authenticated: boolean; error?: string }> {
   try {
-    await execFileAsync("which", ["gh"]);
+    await execFileAsync("which", [cli.program]);
   } catch {
-    return { available: false, authenticated: false, error: "gh CLI not installed" };
+    return { available: false, authenticated: false, error: `${cli.program} CLI not installed` };
   }
 
   try {
-    await execFileAsync("gh", ["auth", "status"]);
+    await execFileAsync(cli.program, ["auth", "status", ...(cli.hostname ? ["--hostname", cli.hostname] : [])]);
     return { available: true, authenticated: true };
   } catch {
-    return { 
-      available: true, 
-      authenticated: false, 
-      error: "gh CLI not authenticated. Run 'gh auth login' first." 
+    return {
+      available: true,
+      authenticated: false,
+      error: `${cli.program} CLI not authenticated. Run '${cli.program} auth login' first.`,
     };
   }
 }
 
+/**
+ * Check if gh CLI is available and authenticated
+ */
+export async function checkGhAuth(): Promise<{ available: boolean; authenticated: boolean; error?: string }> {
+  return checkCliAuth({ program: "gh" });
+}
+
 /**
  * Map difficulty to label
  */
@@ -101,7 +165,7 @@ ${task.files.map(f => `- \`${f}\``).join("\n")}
 
 ---
 
-*This issue was auto-generated by [Repo Bootcamp](https://github.com/${repoInfo.fullName}).*
+*This issue was auto-generated by [Repo Bootcamp](${repoInfo.url}).*
 `;
 
   return {
@@ -115,28 +179,17 @@ ${task.files.map(f => `- \`${f}\``).join("\n")}
 }
 
 /**
- * Create a single GitHub issue
+ * Create a single issue
  */
 async function createIssue(
   payload: IssuePayload,
-  repoInfo: RepoInfo
+  cli: IssueCli
 ): Promise<IssueResult> {
   try {
-    // Build arguments array (safe from shell injection)
-    const args = [
-      "issue", "create",
-      "--repo", repoInfo.fullName,
-      "--title", payload.title,
-      "--body", payload.body,
-    ];
-    
-    // Add labels
-    for (const label of payload.labels) {
-      args.push("--label", label);
-    }
-
-    const { stdout } = await execFileAsync("gh", args, { timeout: 30000 });
-    const url = stdout.trim();
+    // Arguments array (safe from shell injection)
+    const { stdout } = await execFileAsync(cli.program, cli.createArgs(payload), { timeout: 30000 });
+    // glab prints a summary before the URL; gh prints only the URL
+    const url = stdout.trim().split("\n").pop()?.trim();
 
     return {
       success: true,
@@ -162,16 +215,22 @@ export async function createIssuesFromTasks(
 ): Promise<IssueResult[]> {
   const results: IssueResult[] = [];
 
-  // Check gh CLI availability
+  const cli = issueCli(repoInfo);
+
+  // Check CLI availability
   if (!options.dryRun) {
-    const auth = await checkGhAuth();
+    if (!cli) {
+      console.error(chalk.red(`Error: creating issues is supported on GitHub and GitLab, not ${repoInfo.url}`));
+      throw new Error(`Issue creation not supported for ${repoHost(repoInfo)} remotes`);
+    }
+    const auth = await checkCliAuth(cli);
     if (!auth.available) {
-      console.error(chalk.red("Error: gh CLI not found. Please install it from https://cli.github.com"));
-      throw new Error("gh CLI not available");
+      console.error(chalk.red(`Error: ${cli.program} CLI not found. Please install it from ${cli.installUrl}`));
+      throw new Error(`${cli.program} CLI not available`);
     }
     if (!auth.authenticated) {
-      console.error(chalk.red("Error: gh CLI not authenticated. Run 'gh auth login' first."));
-      throw new Error("gh CLI not authenticated");
+      console.error(chalk.red(`Error: ${auth.error}`));
+      throw new Error(`${cli.program} CLI not authenticated`);
     }
   }
 
@@ -195,7 +254,7 @@ export async function createIssuesFromTasks(
       });
       console.log(chalk.yellow("  [DRY RUN] Would create issue"));
     } else {
-      const result = await createIssue(payload, repoInfo);
+      const result = await createIssue(payload, cli!);
       results.push(result);
 
       if (result.success) {
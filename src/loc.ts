@@ -0,0 +1,223 @@
+/**
+ * Lines-of-Code Statistics
+ * Counts blank, comment-only and code lines per language and per top-level
+ * directory, cloc-style. Comments are found with each language's line and
+ * block comment markers, skipping string literals so a glob such as
+ * "src/**" followed by "/*.ts" in a string does not open a block comment.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { basename, extname, join } from "path";
+import { walkRepo, type IgnoreRules } from "./ignore.js";
+import type { CodeStats, DirectoryStats, LanguageStats, LineCounts } from "./types.js";
+
+/** Files larger than this (usually generated or vendored) are not counted */
+const MAX_COUNTED_FILE_BYTES = 512 * 1024;
+/** Stop walking after this many files */
+const MAX_COUNTED_FILES = 20_000;
+
+/**
+ * Comment syntax of a language
+ */
+interface CommentSyntax {
+  line: string[];
+  block: [open: string, close: string][];
+  /** String delimiters skipped while looking for comment markers */
+  quotes: string[];
+}
+
+const C_STYLE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]], quotes: ['"', "'", "`"] };
+const HASH: CommentSyntax = { line: ["#"], block: [], quotes: ['"', "'"] };
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]], quotes: [] };
+
+/**
+ * Counted languages by extension or file name. Names match the stack
+ * detection patterns in framework-maps.json so StackInfo.languages can be
+ * ordered by share.
+ */
+const LANGUAGES: { language: string; extensions: string[]; names?: string[]; syntax: CommentSyntax }[] = [
+  { language: "TypeScript", extensions: [".ts", ".tsx", ".mts", ".cts"], syntax: C_STYLE },
+  { language: "JavaScript", extensions: [".js", ".jsx", ".mjs", ".cjs"], syntax: C_STYLE },
+  {
+    language: "Python",
+    extensions: [".py", ".pyi"],
+    // Docstrings count as comments
+    syntax: { line: ["#"], block: [['"""', '"""'], ["'''", "'''"]], quotes: ['"', "'"] },
+  },
+  { language: "Go", extensions: [".go"], syntax: C_STYLE },
+  { language: "Rust", extensions: [".rs"], syntax: { ...C_STYLE, quotes: ['"'] } },
+  { language: "Java", extensions: [".java"], syntax: C_STYLE },
+  { language: "C#", extensions: [".cs"], syntax: C_STYLE },
+  { language: "Ruby", extensions: [".rb", ".rake"], names: ["Rakefile", "Gemfile"], syntax: { ...HASH, block: [["=begin", "=end"]] } },
+  { language: "PHP", extensions: [".php"], syntax: { ...C_STYLE, line: ["//", "#"] } },
+  { language: "Swift", extensions: [".swift"], syntax: C_STYLE },
+  { language: "Kotlin", extensions: [".kt", ".kts"], syntax: C_STYLE },
+  { language: "Lean", extensions: [".lean"], syntax: { line: ["--"], block: [["/-", "-/"]], quotes: ['"'] } },
+  { language: "Haskell", extensions: [".hs"], syntax: { line: ["--"], block: [["{-", "-}"]], quotes: ['"'] } },
+  { language: "OCaml", extensions: [".ml", ".mli"], syntax: { line: [], block: [["(*", "*)"]], quotes: ['"'] } },
+  { language: "Scala", extensions: [".scala"], syntax: C_STYLE },
+  { language: "Elixir", extensions: [".ex", ".exs"], syntax: HASH },
+  { language: "Clojure", extensions: [".clj", ".cljs", ".cljc"], syntax: { line: [";"], block: [], quotes: ['"'] } },
+  { language: "C", extensions: [".c", ".h"], syntax: C_STYLE },
+  { language: "C++", extensions: [".cpp", ".cc", ".cxx", ".hpp", ".hh"], syntax: C_STYLE },
+  { language: "Zig", extensions: [".zig"], syntax: { line: ["//"], block: [], quotes: ['"', "'"] } },
+  { language: "Shell", extensions: [".sh", ".bash", ".zsh"], syntax: HASH },
+  { language: "SQL", extensions: [".sql"], syntax: { line: ["--"], block: [["/*", "*/"]], quotes: ["'"] } },
+  { language: "HTML", extensions: [".html", ".htm"], syntax: MARKUP },
+  { language: "CSS", extensions: [".css", ".scss", ".less"], syntax: { line: [], block: [["/*", "*/"]], quotes: ['"', "'"] } },
+  { language: "Vue", extensions: [".vue"], syntax: { ...C_STYLE, block: [["/*", "*/"], ["<!--", "-->"]] } },
+  { language: "Svelte", extensions: [".svelte"], syntax: { ...C_STYLE, block: [["/*", "*/"], ["<!--", "-->"]] } },
+  { language: "Markdown", extensions: [".md", ".mdx"], syntax: MARKUP },
+  { language: "YAML", extensions: [".yml", ".yaml"], syntax: HASH },
+  { language: "TOML", extensions: [".toml"], syntax: HASH },
+  { language: "JSON", extensions: [".json"], syntax: { line: [], block: [], quotes: [] } },
+  { language: "Dockerfile", extensions: [".dockerfile"], names: ["Dockerfile", "Containerfile"], syntax: HASH },
+  { language: "Makefile", extensions: [".mk"], names: ["Makefile", "GNUmakefile"], syntax: HASH },
+];
+
+const LANGUAGE_BY_EXTENSION = new Map(LANGUAGES.flatMap((lang) => lang.extensions.map((ext) => [ext, lang] as const)));
+const LANGUAGE_BY_NAME = new Map(LANGUAGES.flatMap((lang) => (lang.names ?? []).map((name) => [name, lang] as const)));
+
+/**
+ * Language of a file by name or extension, or null when it is not counted
+ */
+export function languageFor(path: string): string | null {
+  const name = basename(path);
+  return (LANGUAGE_BY_NAME.get(name) ?? LANGUAGE_BY_EXTENSION.get(extname(name).toLowerCase()))?.language ?? null;
+}
+
+function emptyCounts(): LineCounts {
+  return { files: 0, code: 0, comment: 0, blank: 0 };
+}
+
+function addCounts(target: LineCounts, counts: LineCounts): void {
+  target.files += counts.files;
+  target.code += counts.code;
+  target.comment += counts.comment;
+  target.blank += counts.blank;
+}
+
+/**
+ * Count blank, comment-only and code lines of one file
+ */
+export function countLines(content: string, language: string): LineCounts {
+  const syntax = LANGUAGES.find((l) => l.language === language)?.syntax ?? { line: [], block: [], quotes: [] };
+  const counts: LineCounts = { files: 1, code: 0, comment: 0, blank: 0 };
+  let blockClose: string | null = null;
+
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  for (const line of lines) {
+    // Blank lines inside block comments are still blank
+    if (!line.trim()) {
+      counts.blank++;
+      continue;
+    }
+
+    let hasCode = false;
+    let i = 0;
+    while (i < line.length) {
+      if (blockClose) {
+        const end = line.indexOf(blockClose, i);
+        if (end === -1) break;
+        i = end + blockClose.length;
+        blockClose = null;
+        continue;
+      }
+      if (/\s/.test(line[i])) {
+        i++;
+        continue;
+      }
+      const rest = line.slice(i);
+      if (syntax.line.some((marker) => rest.startsWith(marker))) break;
+      const block = syntax.block.find(([open]) => rest.startsWith(open));
+      if (block) {
+        blockClose = block[1];
+        i += block[0].length;
+        continue;
+      }
+      hasCode = true;
+      if (syntax.quotes.includes(line[i])) {
+        const end = line.indexOf(line[i], i + 1);
+        i = end === -1 ? i + 1 : end + 1;
+      } else {
+        i++;
+      }
+    }
+
+    if (hasCode) counts.code++;
+    else counts.comment++;
+  }
+  return counts;
+}
+
+function sortByCode<T extends LineCounts>(entries: T[]): T[] {
+  return entries.sort((a, b) => b.code - a.code || b.files - a.files);
+}
+
+/**
+ * Count lines across the repository, honoring the scan's ignore rules
+ */
+export async function computeCodeStats(repoPath: string, rules: IgnoreRules): Promise<CodeStats> {
+  const total = emptyCounts();
+  const byLanguage = new Map<string, LanguageStats>();
+  const byDirectory = new Map<string, { counts: LineCounts; languages: Map<string, number> }>();
+  let visited = 0;
+
+  for await (const entry of walkRepo(repoPath, rules)) {
+    if (entry.isDirectory) continue;
+    if (++visited > MAX_COUNTED_FILES) break;
+    const language = languageFor(entry.path);
+    if (!language) continue;
+
+    let content: string;
+    try {
+      const fullPath = join(repoPath, entry.path);
+      const stats = await stat(fullPath);
+      if (!stats.isFile() || stats.size > MAX_COUNTED_FILE_BYTES) continue;
+      content = await readFile(fullPath, "utf-8");
+    } catch {
+      continue;
+    }
+    if (content.includes("\0")) continue;
+
+    const counts = countLines(content, language);
+    addCounts(total, counts);
+
+    const languageStats = byLanguage.get(language) ?? { language, ...emptyCounts() };
+    addCounts(languageStats, counts);
+    byLanguage.set(language, languageStats);
+
+    const slash = entry.path.indexOf("/");
+    const dir = slash === -1 ? "." : `${entry.path.slice(0, slash)}/`;
+    const dirStats = byDirectory.get(dir) ?? { counts: emptyCounts(), languages: new Map<string, number>() };
+    addCounts(dirStats.counts, counts);
+    dirStats.languages.set(language, (dirStats.languages.get(language) ?? 0) + counts.code);
+    byDirectory.set(dir, dirStats);
+  }
+
+  const directories: DirectoryStats[] = [...byDirectory].map(([path, { counts, languages }]) => ({
+    path,
+    ...counts,
+    languages: [...languages].sort((a, b) => b[1] - a[1]).map(([language]) => language),
+  }));
+
+  return { total, languages: sortByCode([...byLanguage.values()]), directories: sortByCode(directories) };
+}
+
+/**
+ * Order languages by their share of code lines; languages without counted code keep their order at the end
+ */
+export function orderLanguagesByShare(languages: string[], stats: CodeStats): string[] {
+  const code = new Map(stats.languages.map((l) => [l.language, l.code]));
+  return [...languages].sort((a, b) => (code.get(b) ?? -1) - (code.get(a) ?? -1));
+}
+
+/**
+ * Percentage of the repository's code lines written in a language, rounded
+ */
+export function languageShare(stats: CodeStats, language: string): number {
+  const code = stats.languages.find((l) => l.language === language)?.code ?? 0;
+  return stats.total.code > 0 ? Math.round((code / stats.total.code) * 100) : 0;
+}
@@ -0,0 +1,472 @@
+/**
+ * Lockfile Resolution
+ * Reads the package graph pinned by a committed lockfile (npm, pnpm, Yarn,
+ * Cargo, Poetry, uv, Go) to report resolved versions, the size of the
+ * transitive tree, packages installed at several versions and the chain of
+ * dependencies that pulls in each transitive package.
+ */
+
+import { join, relative, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { tomlArrayTables, tomlStrings } from "./commands.js";
+import { readFileSafe } from "./utils.js";
+
+/**
+ * One package version pinned by a lockfile
+ */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  /** Names of the packages it depends on */
+  dependencies: string[];
+}
+
+/**
+ * Package graph read from a lockfile
+ */
+export interface LockGraph {
+  packages: LockedPackage[];
+  /** Direct dependencies of the project and the versions they resolved to, when the lockfile records them */
+  direct: Record<string, string>;
+}
+
+/**
+ * A package installed at more than one version
+ */
+export interface DuplicatePackage {
+  name: string;
+  versions: string[];
+}
+
+/**
+ * What a lockfile adds to the declared dependencies
+ */
+export interface LockfileAnalysis {
+  /** Lockfile the graph was read from, e.g. pnpm-lock.yaml */
+  file: string;
+  /** Resolved version of each direct dependency */
+  resolved: Record<string, string>;
+  /** Distinct package versions in the lockfile, direct and transitive */
+  totalPackages: number;
+  /** Distinct packages only reached through other packages */
+  transitiveCount: number;
+  duplicates: DuplicatePackage[];
+  /** Shortest chain from a direct dependency to each transitive package, ending with the package */
+  paths: Record<string, string[]>;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function keysOf(...values: unknown[]): string[] {
+  return values.flatMap((value) => Object.keys(asRecord(value)));
+}
+
+/**
+ * Normalized Python distribution name (PEP 503), so "Django" and "django" match
+ */
+function pythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Parse package-lock.json or npm-shrinkwrap.json (lockfileVersion 1 to 3).
+ * Direct dependencies come from the root entry, or from a workspace's entry
+ * (e.g. "packages/api") when the analysis is scoped to it.
+ */
+export function parsePackageLock(content: string, workspace = ""): LockGraph {
+  const lock = asRecord(JSON.parse(content));
+  const packages: LockedPackage[] = [];
+  const direct: Record<string, string> = {};
+
+  if (lock.packages) {
+    const entries = asRecord(lock.packages);
+    const root = asRecord(entries[workspace]);
+    for (const name of keysOf(root.dependencies, root.devDependencies, root.optionalDependencies, root.peerDependencies)) {
+      const nested = workspace ? asRecord(entries[`${workspace}/node_modules/${name}`]).version : undefined;
+      const version = nested ?? asRecord(entries[`node_modules/${name}`]).version;
+      if (typeof version === "string") direct[name] = version;
+    }
+    for (const [key, value] of Object.entries(entries)) {
+      const at = key.lastIndexOf("node_modules/");
+      const pkg = asRecord(value);
+      // Workspace folders and their links are part of the project
+      if (at === -1 || pkg.link || typeof pkg.version !== "string") continue;
+      packages.push({
+        name: typeof pkg.name === "string" ? pkg.name : key.slice(at + "node_modules/".length),
+        version: pkg.version,
+        dependencies: keysOf(pkg.dependencies, pkg.optionalDependencies, pkg.peerDependencies),
+      });
+    }
+  } else {
+    // v1 nests dependencies that could not be hoisted; the top level mixes
+    // direct and hoisted transitive packages, so direct ones come from package.json
+    const walk = (tree: unknown): void => {
+      for (const [name, value] of Object.entries(asRecord(tree))) {
+        const dep = asRecord(value);
+        if (typeof dep.version !== "string") continue;
+        packages.push({ name, version: dep.version, dependencies: keysOf(dep.requires) });
+        walk(dep.dependencies);
+      }
+    };
+    walk(lock.dependencies);
+  }
+  return { packages, direct };
+}
+
+/**
+ * Name and version of a pnpm package key: "/name@1.0.0(peer@2.0.0)" (v6+), "name@1.0.0" (v9) or "/name/1.0.0_peer" (v5)
+ */
+function pnpmPackage(key: string): { name: string; version: string } | null {
+  const v5 = key.match(/^\/((?:@[^/]+\/)?[^/@]+)\/([^/_]+)/);
+  if (v5) return { name: v5[1], version: v5[2] };
+  const id = key.replace(/^\//, "").replace(/\(.*$/, "");
+  const at = id.lastIndexOf("@");
+  return at > 0 ? { name: id.slice(0, at), version: id.slice(at + 1) } : null;
+}
+
+function pnpmVersion(spec: unknown): string | null {
+  const version = typeof spec === "string" ? spec : asRecord(spec).version;
+  if (typeof version !== "string" || /^(link|file|workspace):/.test(version)) return null;
+  return version.replace(/\(.*$/, "").replace(/_.*$/, "");
+}
+
+/**
+ * Parse pnpm-lock.yaml (lockfile v5 to v9). Direct dependencies come from the
+ * root importer, or the workspace's importer when the analysis is scoped to it.
+ */
+export function parsePnpmLock(content: string, workspace = ""): LockGraph {
+  const lock = asRecord(parseYaml(content, { logLevel: "silent" }));
+  const importer = lock.importers ? asRecord(asRecord(lock.importers)[workspace || "."]) : workspace ? {} : lock;
+  const direct: Record<string, string> = {};
+  for (const field of ["dependencies", "devDependencies", "optionalDependencies"]) {
+    for (const [name, spec] of Object.entries(asRecord(importer[field]))) {
+      const version = pnpmVersion(spec);
+      if (version) direct[name] = version;
+    }
+  }
+
+  // v9 moved the dependency edges from packages to snapshots
+  const packages: LockedPackage[] = [];
+  for (const [key, value] of Object.entries(asRecord(lock.snapshots ?? lock.packages))) {
+    const pkg = pnpmPackage(key);
+    if (!pkg) continue;
+    const entry = asRecord(value);
+    packages.push({ ...pkg, dependencies: keysOf(entry.dependencies, entry.optionalDependencies) });
+  }
+  return { packages, direct };
+}
+
+/**
+ * Package name of a yarn.lock descriptor: "lodash@^4.17.0", "@babel/core@npm:^7.0.0"
+ */
+function yarnName(descriptor: string): string {
+  const at = descriptor.indexOf("@", 1);
+  return at === -1 ? descriptor : descriptor.slice(0, at);
+}
+
+/**
+ * Parse yarn.lock, both the classic (v1) and Berry (v2+) formats. Berry lists
+ * each workspace as an entry; the analyzed one's dependencies are the direct ones.
+ */
+export function parseYarnLock(content: string, workspace = ""): LockGraph {
+  const packages: LockedPackage[] = [];
+  const direct: Record<string, string> = {};
+  const project = `@workspace:${workspace || "."}`;
+  let current: LockedPackage | null = null;
+  let isWorkspace = false;
+  let isProject = false;
+  let inDependencies = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    if (!/^\s/.test(line)) {
+      const descriptors = line.replace(/:\s*$/, "").split(",").map((d) => d.trim().replace(/^"|"$/g, ""));
+      current = null;
+      inDependencies = false;
+      if (descriptors[0] === "__metadata") continue;
+      isWorkspace = descriptors.some((d) => d.includes("@workspace:"));
+      isProject = descriptors.some((d) => d.endsWith(project));
+      current = { name: yarnName(descriptors[0]), version: "", dependencies: [] };
+      if (!isWorkspace) packages.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+    if (indent <= 2) {
+      inDependencies = /^(dependencies|optionalDependencies):?$/.test(text);
+      const version = text.match(/^version:?\s+"?([^"\s]+)"?$/);
+      if (version) current.version = version[1];
+      continue;
+    }
+    if (!inDependencies) continue;
+    const dep = text.match(/^"?((?:@[^/"\s]+\/)?[^@"\s:]+)"?:?\s/);
+    if (!dep) continue;
+    if (isProject) direct[dep[1]] = "";
+    else if (!isWorkspace) current.dependencies.push(dep[1]);
+  }
+
+  // Workspace entries record ranges rather than versions; resolve them from the graph
+  for (const name of Object.keys(direct)) {
+    const version = packages.find((p) => p.name === name)?.version;
+    if (version) direct[name] = version;
+    else delete direct[name];
+  }
+  return { packages, direct };
+}
+
+/**
+ * Parse Cargo.lock. Packages without a source are the workspace's own crates;
+ * their dependencies are the direct ones.
+ */
+export function parseCargoLock(content: string): LockGraph {
+  const packages: LockedPackage[] = [];
+  const direct: Record<string, string> = {};
+
+  for (const table of tomlArrayTables(content, "package")) {
+    const name = tomlStrings(table.get("name") ?? "")[0];
+    const version = tomlStrings(table.get("version") ?? "")[0];
+    if (!name || !version) continue;
+    // Entries read "name", or "name version" when several versions are locked
+    const dependencies = tomlStrings(table.get("dependencies") ?? "").map((d) => d.split(" "));
+    if (table.has("source")) {
+      packages.push({ name, version, dependencies: dependencies.map(([dep]) => dep) });
+    } else {
+      for (const [dep, depVersion] of dependencies) direct[dep] = depVersion ?? "";
+    }
+  }
+
+  for (const [name, version] of Object.entries(direct)) {
+    if (!version) direct[name] = packages.find((p) => p.name === name)?.version ?? "";
+    if (!direct[name]) delete direct[name];
+  }
+  return { packages, direct };
+}
+
+/**
+ * Parse poetry.lock. Poetry does not record which packages are direct, so
+ * they come from pyproject.toml.
+ */
+export function parsePoetryLock(content: string): LockGraph {
+  const packages: LockedPackage[] = [];
+  for (const table of tomlArrayTables(content, "package")) {
+    const name = tomlStrings(table.get("name") ?? "")[0];
+    const version = tomlStrings(table.get("version") ?? "")[0];
+    if (!name || !version) continue;
+    const dependencies = [...table.keys()]
+      .filter((key) => key.startsWith("dependencies."))
+      .map((key) => key.slice("dependencies.".length));
+    packages.push({ name, version, dependencies });
+  }
+  return { packages, direct: {} };
+}
+
+/**
+ * Dependency names of a uv.lock dependency array: [{ name = "anyio" }, ...]
+ */
+function uvDependencyNames(value: string | undefined): string[] {
+  return [...(value ?? "").matchAll(/\bname\s*=\s*"([^"]+)"/g)].map((m) => m[1]);
+}
+
+/**
+ * Parse uv.lock. The project itself is the editable or virtual package.
+ */
+export function parseUvLock(content: string): LockGraph {
+  const packages: LockedPackage[] = [];
+  const directNames: string[] = [];
+
+  for (const table of tomlArrayTables(content, "package")) {
+    const name = tomlStrings(table.get("name") ?? "")[0];
+    if (!name) continue;
+    const dependencyKeys = [...table.keys()].filter(
+      (key) => key === "dependencies" || key.startsWith("optional-dependencies.") || key.startsWith("dev-dependencies.")
+    );
+    const dependencies = [...new Set(dependencyKeys.flatMap((key) => uvDependencyNames(table.get(key))))];
+    if (/\b(editable|virtual)\s*=/.test(table.get("source") ?? "")) {
+      directNames.push(...dependencies);
+      continue;
+    }
+    const version = tomlStrings(table.get("version") ?? "")[0];
+    if (version) packages.push({ name, version, dependencies });
+  }
+
+  const direct: Record<string, string> = {};
+  for (const name of directNames) {
+    const version = packages.find((p) => p.name === name)?.version;
+    if (version) direct[name] = version;
+  }
+  return { packages, direct };
+}
+
+/**
+ * Parse go.sum. Modules listed only by their go.mod hash take part in version
+ * selection but are never downloaded, so they are left out. go.sum records no
+ * edges, so Go modules have no dependency paths.
+ */
+export function parseGoSum(content: string): LockGraph {
+  const packages: LockedPackage[] = [];
+  const seen = new Set<string>();
+  for (const line of content.split("\n")) {
+    const [module, version] = line.trim().split(/\s+/);
+    if (!module || !version || version.endsWith("/go.mod")) continue;
+    const key = `${module}@${version}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    packages.push({ name: module, version, dependencies: [] });
+  }
+  return { packages, direct: {} };
+}
+
+/**
+ * Summarize a lockfile graph against the dependencies the manifest declares
+ */
+export function analyzeLockGraph(
+  file: string,
+  graph: LockGraph,
+  declared: string[],
+  normalize: (name: string) => string = (name) => name
+): LockfileAnalysis {
+  const versions = new Map<string, Set<string>>();
+  const edges = new Map<string, Set<string>>();
+  const names = new Map<string, string>();
+  for (const pkg of graph.packages) {
+    const key = normalize(pkg.name);
+    if (!names.has(key)) names.set(key, pkg.name);
+    versions.set(key, (versions.get(key) ?? new Set()).add(pkg.version));
+    const targets = edges.get(key) ?? new Set();
+    for (const dep of pkg.dependencies) targets.add(normalize(dep));
+    edges.set(key, targets);
+  }
+
+  // Declared names win so the report uses the manifest's spelling
+  const direct = new Map<string, string>();
+  for (const name of [...declared, ...Object.keys(graph.direct)]) {
+    const key = normalize(name);
+    if (versions.has(key) && !direct.has(key)) direct.set(key, name);
+  }
+  const lockedDirect = new Map(Object.entries(graph.direct).map(([name, version]) => [normalize(name), version]));
+  const resolved: Record<string, string> = {};
+  for (const [key, name] of direct) {
+    resolved[name] = lockedDirect.get(key) ?? [...versions.get(key)!][0];
+  }
+
+  // Breadth-first from the direct dependencies gives each package its shortest chain
+  const parent = new Map<string, string | null>([...direct.keys()].map((key) => [key, null]));
+  const queue = [...direct.keys()];
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of edges.get(queue[i]) ?? []) {
+      if (parent.has(next) || !versions.has(next)) continue;
+      parent.set(next, queue[i]);
+      queue.push(next);
+    }
+  }
+  const displayName = (key: string): string => direct.get(key) ?? names.get(key) ?? key;
+  const paths: Record<string, string[]> = {};
+  for (const [key, from] of parent) {
+    if (from === null) continue;
+    const chain: string[] = [];
+    for (let node: string | null | undefined = key; node; node = parent.get(node)) chain.unshift(displayName(node));
+    paths[displayName(key)] = chain;
+  }
+
+  const duplicates = [...versions]
+    .filter(([, set]) => set.size > 1)
+    .map(([key, set]) => ({
+      name: displayName(key),
+      versions: [...set].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    }))
+    .sort((a, b) => b.versions.length - a.versions.length || a.name.localeCompare(b.name));
+
+  return {
+    file,
+    resolved,
+    totalPackages: [...versions.values()].reduce((sum, set) => sum + set.size, 0),
+    transitiveCount: [...versions.keys()].filter((key) => !direct.has(key)).length,
+    duplicates,
+    paths,
+  };
+}
+
+/**
+ * Lockfiles in the order they are tried for each package manager reported by
+ * the dependency extractors, with the package manager a lockfile implies.
+ * Parsers that take a workspace can read a scoped package's direct
+ * dependencies from the repository root's lockfile.
+ */
+const LOCKFILES: {
+  file: string;
+  managers: string[];
+  parse: (content: string, workspace: string) => LockGraph;
+  workspaces?: boolean;
+  packageManager?: string;
+  normalize?: (name: string) => string;
+}[] = [
+  { file: "pnpm-lock.yaml", managers: ["npm"], parse: parsePnpmLock, workspaces: true, packageManager: "pnpm" },
+  { file: "yarn.lock", managers: ["npm"], parse: parseYarnLock, workspaces: true, packageManager: "yarn" },
+  { file: "package-lock.json", managers: ["npm"], parse: parsePackageLock, workspaces: true },
+  { file: "npm-shrinkwrap.json", managers: ["npm"], parse: parsePackageLock, workspaces: true },
+  { file: "Cargo.lock", managers: ["cargo"], parse: parseCargoLock },
+  { file: "poetry.lock", managers: ["poetry", "pip"], parse: parsePoetryLock, normalize: pythonName },
+  { file: "uv.lock", managers: ["poetry", "pip"], parse: parseUvLock, packageManager: "uv", normalize: pythonName },
+  { file: "go.sum", managers: ["go"], parse: parseGoSum },
+];
+
+/**
+ * Whether projects using a package manager are expected to commit a lockfile.
+ * requirements.txt often pins versions itself, so pip is not.
+ */
+export function expectsLockfile(packageManager: string): boolean {
+  return packageManager !== "pip" && LOCKFILES.some((l) => l.managers.includes(packageManager));
+}
+
+/**
+ * A committed lockfile; analysis is null when it could not be parsed
+ */
+export interface LockfileLookup {
+  file: string;
+  analysis: LockfileAnalysis | null;
+  packageManager: string;
+}
+
+/**
+ * Find the lockfile committed for a package manager, in the analyzed
+ * directory and then at the repository root, and analyze it against the
+ * declared dependency names. Returns null only when no lockfile exists; an
+ * empty lockfile is analyzed like any other.
+ *
+ * @param rootPath - Repository root when repoPath is a subdirectory of it
+ */
+export async function analyzeLockfile(
+  repoPath: string,
+  packageManager: string,
+  declared: string[],
+  rootPath?: string
+): Promise<LockfileLookup | null> {
+  const dirs = [{ dir: repoPath, workspace: "" }];
+  const workspace = rootPath ? relative(resolve(rootPath), resolve(repoPath)).split("\\").join("/") : "";
+  if (rootPath && workspace && !workspace.startsWith("..")) dirs.push({ dir: rootPath, workspace });
+
+  let unreadable: LockfileLookup | null = null;
+  for (const { dir, workspace } of dirs) {
+    for (const lockfile of LOCKFILES.filter((l) => l.managers.includes(packageManager))) {
+      const content = await readFileSafe(join(dir, lockfile.file));
+      if (content === null) continue;
+      const found = { file: lockfile.file, packageManager: lockfile.packageManager ?? packageManager };
+      let graph: LockGraph;
+      try {
+        graph = lockfile.parse(content, workspace);
+      } catch {
+        unreadable ??= { ...found, analysis: null };
+        continue;
+      }
+      // A root lockfile's own direct dependencies are not the scoped package's
+      if (workspace && !lockfile.workspaces) graph = { ...graph, direct: {} };
+      return { ...found, analysis: analyzeLockGraph(lockfile.file, graph, declared, lockfile.normalize) };
+    }
+  }
+  return unreadable;
+}
@@ -0,0 +1,639 @@
+/**
+ * Offline Heuristic Analysis
+ * Builds RepoFacts from scan results, manifests and directory conventions without an LLM
+ */
+
+import { readFile } from "fs/promises";
+import { join, basename, dirname, extname } from "path";
+import type {
+  RepoFacts,
+  ScanResult,
+  RepoInfo,
+  BootcampOptions,
+  Command,
+  DirectoryInfo,
+  Entrypoint,
+  FirstTask,
+} from "./types.js";
+import type { AnalysisStats } from "./agent.js";
+import { extractDependencies } from "./deps.js";
+import { mergeFrameworksFromDeps } from "./ingest.js";
+import { validateRepoFacts } from "./schema.js";
+import { mergeEntrypoints, packageEntrypoints, type PackageManifestEntries } from "./entrypoints.js";
+
+type Confidence = "high" | "medium" | "low";
+
+/** Maximum key directories listed in offline facts */
+const MAX_KEY_DIRS = 12;
+/** Maximum key files listed per directory */
+const MAX_KEY_FILES_PER_DIR = 3;
+/** Maximum TODO/FIXME tasks harvested from source files */
+const MAX_TODO_TASKS = 4;
+/** Maximum "add tests for X" tasks */
+const MAX_UNTESTED_FILE_TASKS = 3;
+/** Maximum commands pulled from README code blocks */
+const MAX_README_COMMANDS = 6;
+
+/**
+ * Conventional purposes for well-known directory names
+ */
+const DIRECTORY_PURPOSES: Record<string, string> = {
+  src: "Main source code",
+  lib: "Library source code",
+  app: "Application code",
+  cmd: "Command entry points",
+  pkg: "Reusable packages",
+  internal: "Internal packages not meant for external use",
+  bin: "Executable scripts",
+  scripts: "Build and maintenance scripts",
+  test: "Test suite",
+  tests: "Test suite",
+  __tests__: "Test suite",
+  spec: "Test specifications",
+  e2e: "End-to-end tests",
+  docs: "Documentation",
+  doc: "Documentation",
+  examples: "Usage examples",
+  example: "Usage examples",
+  config: "Configuration",
+  public: "Static assets served as-is",
+  assets: "Static assets",
+  static: "Static assets",
+  packages: "Workspace packages",
+  apps: "Workspace applications",
+  tools: "Developer tooling",
+  bench: "Benchmarks",
+  benchmarks: "Benchmarks",
+  migrations: "Database migrations",
+  api: "API definitions and handlers",
+  components: "UI components",
+  routes: "Route handlers",
+  server: "Server code",
+  client: "Client code",
+  web: "Web frontend",
+  ui: "UI code",
+  utils: "Shared utilities",
+  types: "Type definitions",
+  deploy: "Deployment configuration",
+  infra: "Infrastructure as code",
+  terraform: "Terraform infrastructure",
+  charts: "Helm charts",
+  k8s: "Kubernetes manifests",
+  ".github": "GitHub workflows and templates",
+};
+
+const TEST_DIR_NAMES = new Set(["test", "tests", "__tests__", "spec", "specs", "e2e"]);
+const DOCS_DIR_NAMES = new Set(["docs", "doc", "documentation"]);
+
+/**
+ * Conventional entry point files by path
+ */
+const CONVENTIONAL_ENTRYPOINTS: { path: string; type: Entrypoint["type"]; description: string }[] = [
+  { path: "src/index.ts", type: "main", description: "Main module" },
+  { path: "src/index.js", type: "main", description: "Main module" },
+  { path: "index.ts", type: "main", description: "Main module" },
+  { path: "index.js", type: "main", description: "Main module" },
+  { path: "src/main.ts", type: "main", description: "Application entry point" },
+  { path: "src/server.ts", type: "server", description: "Server entry point" },
+  { path: "server.js", type: "server", description: "Server entry point" },
+  { path: "main.go", type: "binary", description: "Go program entry point" },
+  { path: "src/main.rs", type: "binary", description: "Rust binary entry point" },
+  { path: "src/lib.rs", type: "library", description: "Rust library root" },
+  { path: "main.py", type: "main", description: "Python entry point" },
+  { path: "app.py", type: "web", description: "Python web application" },
+  { path: "manage.py", type: "cli", description: "Django management commands" },
+];
+
+/**
+ * Test file naming conventions, used to describe how to add tests
+ */
+const TEST_FILE_CONVENTIONS: { pattern: RegExp; example: string }[] = [
+  { pattern: /\.test\.[jt]sx?$/, example: "*.test.ts / *.test.js" },
+  { pattern: /\.spec\.[jt]sx?$/, example: "*.spec.ts / *.spec.js" },
+  { pattern: /(^|\/)test_[^/]+\.py$/, example: "test_*.py" },
+  { pattern: /_test\.go$/, example: "*_test.go" },
+  { pattern: /_spec\.rb$/, example: "*_spec.rb" },
+  { pattern: /Test\.java$/, example: "*Test.java" },
+];
+
+/**
+ * Code style tooling detected from config files
+ */
+const STYLE_CONFIGS: { pattern: RegExp; tool: string }[] = [
+  { pattern: /^(\.eslintrc(\.\w+)?|eslint\.config\.\w+)$/, tool: "ESLint" },
+  { pattern: /^(\.prettierrc(\.\w+)?|prettier\.config\.\w+)$/, tool: "Prettier" },
+  { pattern: /^biome\.jsonc?$/, tool: "Biome" },
+  { pattern: /^(ruff\.toml|\.ruff\.toml)$/, tool: "Ruff" },
+  { pattern: /^\.flake8$/, tool: "Flake8" },
+  { pattern: /^(rustfmt\.toml|\.rustfmt\.toml)$/, tool: "rustfmt" },
+  { pattern: /^\.golangci\.ya?ml$/, tool: "golangci-lint" },
+  { pattern: /^\.rubocop\.yml$/, tool: "RuboCop" },
+  { pattern: /^\.editorconfig$/, tool: "EditorConfig" },
+];
+
+/**
+ * Install commands by package manager / build system
+ */
+const INSTALL_COMMANDS: Record<string, string> = {
+  npm: "npm install",
+  yarn: "yarn install",
+  pnpm: "pnpm install",
+  bun: "bun install",
+  poetry: "poetry install",
+  cargo: "cargo build",
+  maven: "mvn install",
+  gradle: "./gradlew build",
+};
+
+const CHECK_COMMAND_NAMES = /^(test|lint|typecheck|type-check|check|build|fmt|format:check)$/;
+
+interface PackageManifest extends PackageManifestEntries {
+  description?: string;
+  engines?: Record<string, string>;
+}
+
+interface ReadmeSection {
+  heading: string;
+  body: string;
+}
+
+/**
+ * Split a README into heading sections; text before the first heading gets an empty heading
+ */
+export function parseReadmeSections(readme: string): ReadmeSection[] {
+  const sections: ReadmeSection[] = [{ heading: "", body: "" }];
+  let inFence = false;
+
+  for (const line of readme.split("\n")) {
+    if (line.trimStart().startsWith("```")) inFence = !inFence;
+    const headingMatch = !inFence && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      sections.push({ heading: headingMatch[1].trim(), body: "" });
+    } else {
+      sections[sections.length - 1].body += `${line}\n`;
+    }
+  }
+
+  return sections.filter((s) => s.heading || s.body.trim());
+}
+
+/**
+ * First prose paragraph of a markdown block, skipping badges, images and HTML
+ */
+export function firstParagraph(markdown: string): string | null {
+  const paragraph: string[] = [];
+  let inFence = false;
+
+  for (const raw of markdown.split("\n")) {
+    const line = raw.trim();
+    if (line.startsWith("```")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const isProse = line && !/^(#|!\[|\[!\[|<|>|\||---|===|[-*+]\s|\d+\.\s)/.test(line);
+    if (isProse) {
+      paragraph.push(line);
+    } else if (paragraph.length > 0) {
+      break;
+    }
+  }
+
+  if (paragraph.length === 0) return null;
+  return paragraph
+    .join(" ")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2");
+}
+
+/**
+ * Shell commands from fenced code blocks (bash/sh/shell/console or untagged)
+ */
+function extractShellCommands(markdown: string): string[] {
+  const commands: string[] = [];
+  const fencePattern = /```(bash|sh|shell|console|zsh)?\n([\s\S]*?)```/g;
+  let match;
+
+  while ((match = fencePattern.exec(markdown)) !== null) {
+    for (const raw of match[2].split("\n")) {
+      const line = raw.trim().replace(/^\$\s+/, "");
+      if (line && !line.startsWith("#")) {
+        commands.push(line);
+      }
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Sentence-level summary of a paragraph (first one or two sentences)
+ */
+function summarize(text: string, sentences: number): string {
+  const parts = text.match(/[^.!?]+[.!?]+(\s|$)/g);
+  if (!parts) return text;
+  return parts.slice(0, sentences).join("").trim();
+}
+
+async function readManifest(repoPath: string): Promise<PackageManifest | null> {
+  try {
+    return JSON.parse(await readFile(join(repoPath, "package.json"), "utf-8")) as PackageManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Entry points from package.json main/bin/exports plus conventional file names
+ */
+export function detectEntrypoints(manifest: PackageManifest | null, filePaths: Set<string>): Entrypoint[] {
+  const conventional = CONVENTIONAL_ENTRYPOINTS.filter((e) => filePaths.has(e.path));
+  const goCommands = [...filePaths]
+    .filter((path) => /^cmd\/[^/]+\/main\.go$/.test(path))
+    .map((path): Entrypoint => ({ path, type: "binary", description: `\`${basename(dirname(path))}\` command` }));
+
+  return mergeEntrypoints(packageEntrypoints(manifest), conventional, goCommands);
+}
+
+/**
+ * Top-level directories described by naming convention
+ */
+export function describeDirectories(scanResult: ScanResult): DirectoryInfo[] {
+  const sourceFiles = scanResult.files.filter((f) => !f.isDirectory);
+  const topDirs = scanResult.files.filter((f) => f.isDirectory && !f.path.includes("/"));
+
+  const described = topDirs.map((dir) => {
+    const inDir = sourceFiles.filter((f) => f.path.startsWith(`${dir.path}/`));
+    const keyFiles = inDir
+      .filter((f) => scanResult.keySourceFiles.has(f.path))
+      .slice(0, MAX_KEY_FILES_PER_DIR)
+      .map((f) => f.path);
+    return {
+      path: `${dir.path}/`,
+      purpose: DIRECTORY_PURPOSES[dir.path] || `${inDir.length} file${inDir.length === 1 ? "" : "s"}`,
+      keyFiles: keyFiles.length > 0 ? keyFiles : undefined,
+      known: dir.path in DIRECTORY_PURPOSES,
+      size: inDir.length,
+    };
+  });
+
+  return described
+    .sort((a, b) => Number(b.known) - Number(a.known) || b.size - a.size)
+    .slice(0, MAX_KEY_DIRS)
+    .map(({ path, purpose, keyFiles }) => (keyFiles ? { path, purpose, keyFiles } : { path, purpose }));
+}
+
+function detectPrerequisites(facts: { stack: RepoFacts["stack"] }, manifest: PackageManifest | null): string[] {
+  const prerequisites: string[] = [];
+  const languages = facts.stack.languages;
+
+  if (languages.includes("TypeScript") || languages.includes("JavaScript") || manifest) {
+    prerequisites.push(manifest?.engines?.node ? `Node.js ${manifest.engines.node}` : "Node.js");
+  }
+  if (facts.stack.packageManager && !["npm", "pip"].includes(facts.stack.packageManager)) {
+    prerequisites.push(facts.stack.packageManager);
+  }
+  if (languages.includes("Python")) prerequisites.push("Python 3");
+  if (languages.includes("Go")) prerequisites.push("Go toolchain");
+  if (languages.includes("Rust")) prerequisites.push("Rust toolchain (cargo)");
+  if (languages.includes("Java") || languages.includes("Kotlin")) prerequisites.push("JDK");
+  if (languages.includes("Ruby")) prerequisites.push("Ruby and Bundler");
+  if (facts.stack.hasDocker) prerequisites.push("Docker");
+
+  return [...new Set(prerequisites)];
+}
+
+function installCommand(stack: RepoFacts["stack"], filePaths: Set<string>): string | null {
+  const key = stack.packageManager || stack.buildSystem;
+  if (key && INSTALL_COMMANDS[key]) return INSTALL_COMMANDS[key];
+  if (filePaths.has("requirements.txt")) return "pip install -r requirements.txt";
+  if (filePaths.has("pyproject.toml")) return "pip install -e .";
+  if (filePaths.has("go.mod")) return "go mod download";
+  if (filePaths.has("Gemfile")) return "bundle install";
+  return null;
+}
+
+/**
+ * Starter tasks derived from gaps in the repository and TODO comments
+ */
+function buildFirstTasks(
+  scanResult: ScanResult,
+  filePaths: Set<string>,
+  testDirs: string[],
+  sourceDirs: string[],
+  testConvention: string | null
+): FirstTask[] {
+  const tasks: FirstTask[] = [];
+
+  for (const [path, content] of scanResult.keySourceFiles) {
+    if (tasks.length >= MAX_TODO_TASKS) break;
+    const todo = content.split("\n").findIndex((line) => /\b(TODO|FIXME)\b/.test(line));
+    if (todo === -1) continue;
+    const note = content.split("\n")[todo].replace(/^.*?\b(TODO|FIXME)\b:?\s*/, "").trim();
+    tasks.push({
+      title: `Resolve TODO in ${basename(path)}`,
+      description: note ? `${path}:${todo + 1} — ${note}` : `Address the TODO at ${path}:${todo + 1}.`,
+      difficulty: "intermediate",
+      category: /FIXME/.test(content.split("\n")[todo]) ? "bug-fix" : "refactor",
+      files: [path],
+      why: "Leftover TODOs mark known gaps the maintainers already agree on.",
+    });
+  }
+
+  const sourceFiles = scanResult.files
+    .filter((f) => !f.isDirectory && sourceDirs.some((d) => f.path.startsWith(d)))
+    .filter((f) => /\.(ts|js|py|go|rs|rb|java)$/.test(f.path) && !TEST_FILE_CONVENTIONS.some((c) => c.pattern.test(f.path)));
+  const testedNames = new Set(
+    scanResult.files
+      .filter((f) => !f.isDirectory && TEST_FILE_CONVENTIONS.some((c) => c.pattern.test(f.path)))
+      .map((f) => basename(f.path).replace(/(\.test|\.spec|_test|_spec|Test)?\.\w+$/, "").replace(/^test_/, ""))
+  );
+  const untested = sourceFiles
+    .filter((f) => !testedNames.has(basename(f.path, extname(f.path))) && basename(f.path, extname(f.path)) !== "index")
+    .slice(0, MAX_UNTESTED_FILE_TASKS);
+  for (const file of untested) {
+    tasks.push({
+      title: `Add tests for ${basename(file.path)}`,
+      description: `No test file matching ${basename(file.path)} was found${testConvention ? `; follow the ${testConvention} convention` : ""}.`,
+      difficulty: "beginner",
+      category: "test",
+      files: [file.path, ...testDirs.slice(0, 1)],
+      why: "Writing tests is a low-risk way to learn how a module behaves.",
+    });
+  }
+
+  if (!scanResult.contributing) {
+    tasks.push({
+      title: "Add a CONTRIBUTING guide",
+      description: "Document how to set up the project, run checks and open a pull request.",
+      difficulty: "beginner",
+      category: "docs",
+      files: ["CONTRIBUTING.md"],
+      why: "You will learn the workflow while writing it down for the next contributor.",
+    });
+  }
+  if (!scanResult.readme) {
+    tasks.push({
+      title: "Write a README",
+      description: "Describe what the project does and how to run it.",
+      difficulty: "beginner",
+      category: "docs",
+      files: ["README.md"],
+      why: "A README is the first thing every newcomer reads.",
+    });
+  }
+  if (testDirs.length === 0 && !scanResult.files.some((f) => TEST_FILE_CONVENTIONS.some((c) => c.pattern.test(f.path)))) {
+    tasks.push({
+      title: "Set up a test suite",
+      description: "Add a test runner and a first smoke test.",
+      difficulty: "intermediate",
+      category: "test",
+      files: [],
+      why: "Tests make future changes safer for everyone.",
+    });
+  }
+  if (!scanResult.stack.hasCi) {
+    tasks.push({
+      title: "Add a CI workflow",
+      description: "Run the build and tests automatically on every pull request.",
+      difficulty: "intermediate",
+      category: "feature",
+      files: [".github/workflows/ci.yml"],
+      why: "CI catches regressions before they are merged.",
+    });
+  }
+  if (!STYLE_CONFIGS.some((s) => [...filePaths].some((p) => s.pattern.test(p)))) {
+    tasks.push({
+      title: "Add a formatter or linter configuration",
+      description: "Pick the standard formatter for the main language and commit its config.",
+      difficulty: "beginner",
+      category: "refactor",
+      files: [],
+      why: "Consistent formatting reduces review noise.",
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Build RepoFacts from heuristics only. Fields that are guessed rather than read
+ * from a manifest or document are marked low confidence in `fieldConfidence`.
+ */
+export async function buildOfflineFacts(
+  repoPath: string,
+  repoInfo: RepoInfo,
+  scanResult: ScanResult
+): Promise<RepoFacts> {
+  const manifest = await readManifest(repoPath);
+  const deps = await extractDependencies(repoPath);
+  const filePaths = new Set(scanResult.files.filter((f) => !f.isDirectory).map((f) => f.path));
+  const topLevelDirs = scanResult.files.filter((f) => f.isDirectory && !f.path.includes("/")).map((f) => f.path);
+
+  const stack = mergeFrameworksFromDeps(
+    { ...scanResult.stack, frameworks: [...scanResult.stack.frameworks] },
+    deps ? [...deps.runtime, ...deps.dev].map((d) => d.name) : []
+  );
+
+  // README-derived prose
+  const sections = scanResult.readme ? parseReadmeSections(scanResult.readme) : [];
+  // The intro usually sits before the first heading or right under the title
+  const readmeParagraph = sections.slice(0, 2).map((s) => firstParagraph(s.body)).find(Boolean) ?? null;
+  const installSection = sections.find((s) => /install|getting started|quick ?start|setup/i.test(s.heading));
+  const prereqSection = sections.find((s) => /prerequisite|requirement/i.test(s.heading));
+
+  const purpose = manifest?.description || (readmeParagraph ? summarize(readmeParagraph, 1) : null);
+  const description = readmeParagraph ? summarize(readmeParagraph, 2) : purpose;
+
+  // Commands and quickstart
+  const commands: Command[] = [...scanResult.commands];
+  const install = installCommand(stack, filePaths);
+  if (install && !commands.some((c) => c.command === install)) {
+    commands.unshift({ name: "install", command: install, source: "heuristic" });
+  }
+  const readmeCommands = installSection
+    ? extractShellCommands(installSection.body).slice(0, MAX_README_COMMANDS)
+    : [];
+
+  const steps = readmeCommands.length > 0
+    ? readmeCommands.map((cmd) => `Run \`${cmd}\``)
+    : [
+        "Clone the repository",
+        ...(install ? [`Install dependencies with \`${install}\``] : []),
+        ...commands
+          .filter((c) => ["build", "dev", "start", "test"].includes(c.name))
+          .map((c) => `Run \`${c.command}\` (${c.name})`),
+      ];
+
+  const listedPrereqs = prereqSection
+    ? prereqSection.body.split("\n").filter((l) => /^\s*[-*+]\s+/.test(l)).map((l) => l.replace(/^\s*[-*+]\s+/, "").trim())
+    : [];
+  const prerequisites = listedPrereqs.length > 0 ? listedPrereqs : detectPrerequisites({ stack }, manifest);
+
+  // Structure
+  const keyDirs = describeDirectories(scanResult);
+  const entrypoints = mergeEntrypoints(detectEntrypoints(manifest, filePaths), scanResult.entrypoints ?? []);
+  const testDirs = topLevelDirs.filter((d) => TEST_DIR_NAMES.has(d)).map((d) => `${d}/`);
+  const docsDirs = topLevelDirs.filter((d) => DOCS_DIR_NAMES.has(d)).map((d) => `${d}/`);
+  const sourceDirs = topLevelDirs
+    .filter((d) => ["src", "lib", "app", "cmd", "pkg", "internal", "server", "client"].includes(d))
+    .map((d) => `${d}/`);
+
+  // CI
+  const mainChecks = [
+    ...new Set(commands.filter((c) => CHECK_COMMAND_NAMES.test(c.name)).map((c) => c.command)),
+  ];
+
+  // Contributing
+  const testConvention = TEST_FILE_CONVENTIONS.find((c) => [...filePaths].some((p) => c.pattern.test(p)))?.example ?? null;
+  const styleTools = STYLE_CONFIGS.filter((s) => [...filePaths].some((p) => s.pattern.test(basename(p)))).map((s) => s.tool);
+  const testCommand = commands.find((c) => c.name === "test")?.command;
+  const sourceHome = sourceDirs[0] || "the relevant module";
+
+  // Architecture
+  const components = (sourceDirs.length > 0
+    ? scanResult.files
+        .filter((f) => f.isDirectory && sourceDirs.some((d) => f.path.startsWith(d)) && f.path.split("/").length === 2)
+        .map((f) => f.path)
+    : []
+  ).map((dir) => ({
+    name: basename(dir),
+    description: DIRECTORY_PURPOSES[basename(dir)] || `Code under ${dir}/`,
+    directory: `${dir}/`,
+  }));
+  if (components.length === 0) {
+    for (const dir of keyDirs.filter((d) => !TEST_DIR_NAMES.has(d.path.slice(0, -1)) && !DOCS_DIR_NAMES.has(d.path.slice(0, -1)))) {
+      components.push({ name: dir.path.slice(0, -1), description: dir.purpose, directory: dir.path });
+    }
+  }
+
+  const languageList = stack.languages.slice(0, 3).join(", ") || "an unknown language";
+  const frameworkText = stack.frameworks.length > 0 ? ` using ${stack.frameworks.slice(0, 3).join(", ")}` : "";
+  const overview = `${repoInfo.fullName} is a ${languageList} project${frameworkText}. ` +
+    (entrypoints.length > 0
+      ? `Execution starts at ${entrypoints.slice(0, 2).map((e) => `\`${e.path}\``).join(" and ")}. `
+      : "") +
+    (sourceDirs.length > 0 ? `Source code lives in ${sourceDirs.map((d) => `\`${d}\``).join(", ")}.` : "");
+
+  // Runbook
+  const deploySteps: string[] = [];
+  if (filePaths.has("Dockerfile")) deploySteps.push(`Build the image: \`docker build -t ${repoInfo.repo} .\``);
+  if (filePaths.has("docker-compose.yml") || filePaths.has("docker-compose.yaml")) {
+    deploySteps.push("Start the stack locally: `docker compose up`");
+  }
+  const runsAsService = entrypoints.some((e) => e.type === "server" || e.type === "web") || stack.hasDocker;
+
+  const readmeSource = scanResult.readme ? ["README.md"] : [];
+  const manifestSource = manifest ? ["package.json"] : [];
+
+  const facts: RepoFacts = {
+    repoName: repoInfo.fullName,
+    purpose: purpose || `${repoInfo.repo} repository`,
+    description: description || `${repoInfo.fullName} (no README or package description found).`,
+    confidence: "low",
+    sources: [...readmeSource, ...manifestSource],
+    stack,
+    quickstart: {
+      prerequisites,
+      steps,
+      commands,
+      sources: [...(installSection ? readmeSource : []), ...new Set(scanResult.commands.map((c) => c.source))],
+    },
+    structure: {
+      keyDirs,
+      entrypoints,
+      testDirs,
+      docsDirs,
+      sources: manifestSource,
+    },
+    ci: {
+      workflows: scanResult.ciWorkflows,
+      mainChecks,
+      sources: scanResult.ciWorkflows.map((w) => w.file),
+    },
+    contrib: {
+      howToAddFeature: [
+        `Add code under ${sourceHome}`,
+        ...(testCommand ? [`Run \`${testCommand}\` before opening a pull request`] : []),
+        ...(mainChecks.length > 0 ? [`Make sure CI checks pass: ${mainChecks.join(", ")}`] : []),
+      ],
+      howToAddTest: [
+        testDirs.length > 0 ? `Add tests under ${testDirs[0]}` : "Add tests next to the code they cover",
+        ...(testConvention ? [`Name test files ${testConvention}`] : []),
+        ...(testCommand ? [`Run them with \`${testCommand}\``] : []),
+      ],
+      codeStyle: styleTools.length > 0 ? `Enforced by ${styleTools.join(", ")}` : undefined,
+      sources: scanResult.contributing ? ["CONTRIBUTING.md"] : [],
+    },
+    architecture: {
+      overview: overview.trim(),
+      components,
+      sources: [],
+    },
+    firstTasks: buildFirstTasks(scanResult, filePaths, testDirs, sourceDirs, testConvention),
+    runbook: {
+      applicable: runsAsService,
+      deploySteps,
+      observability: [],
+      incidents: [],
+      sources: deploySteps.length > 0 ? ["Dockerfile"] : [],
+    },
+    fieldConfidence: {
+      purpose: confidenceFor(!!manifest?.description || !!readmeParagraph),
+      stack: "high",
+      quickstart: confidenceFor(readmeCommands.length > 0 || scanResult.commands.length > 0),
+      structure: confidenceFor(entrypoints.length > 0 && !!manifest),
+      ci: scanResult.ciWorkflows.length > 0 ? "high" : "low",
+      contrib: confidenceFor(!!testConvention || styleTools.length > 0),
+      architecture: "low",
+      firstTasks: "low",
+      runbook: "low",
+    },
+  };
+
+  const { success, data, errors } = validateRepoFacts(facts);
+  if (!success || !data) {
+    throw new Error(`Offline analysis produced invalid facts: ${errors?.join(", ")}`);
+  }
+
+  return facts;
+}
+
+/**
+ * Medium confidence when a field was read from docs or manifests, low when guessed
+ */
+function confidenceFor(fromDocs: boolean): Confidence {
+  return fromDocs ? "medium" : "low";
+}
+
+/**
+ * Analyze a repository without an LLM, matching analyzeRepo's return shape
+ */
+export async function analyzeRepoOffline(
+  repoPath: string,
+  repoInfo: RepoInfo,
+  scanResult: ScanResult,
+  options: BootcampOptions,
+  onProgress?: (message: string) => void
+): Promise<{ facts: RepoFacts; stats: AnalysisStats }> {
+  const startTime = Date.now();
+  onProgress?.("Building facts from heuristics...");
+  const facts = await buildOfflineFacts(repoPath, repoInfo, scanResult);
+
+  if (options.verbose) {
+    console.log(`[Offline] ${facts.firstTasks.length} tasks, ${facts.structure.entrypoints.length} entrypoints`);
+  }
+
+  return {
+    facts,
+    stats: {
+      model: "offline",
+      toolCalls: [],
+      totalEvents: 0,
+      responseLength: 0,
+      startTime,
+      endTime: Date.now(),
+    },
+  };
+}
@@ -5,7 +5,8 @@
 
 import { readFile } from "fs/promises";
 import { join } from "path";
-import type { StylePack, RepoFacts, ScanResult, BootcampOptions } from "./types.js";
+import type { StylePack, RepoFacts, ScanResult, BootcampOptions, PromptOverrides, ProviderSettings, RunCommandSettings, RepoHost, HostSettings } from "./types.js";
+import type { CustomDocDefinition } from "./templates.js";
 
 /**
  * Style pack configuration
@@ -135,13 +136,17 @@ export interface BootcampConfig {
   style?: StylePack;
   customStyle?: Partial<StyleConfig>;
   plugins?: string[];
-  prompts?: {
-    system?: string;
-    analysis?: string;
-  };
+  prompts?: PromptOverrides;
+  provider?: ProviderSettings;
+  runCommand?: RunCommandSettings;
+  /**
+   * Self-hosted servers: the hosting service, e.g. { "git.acme.com": "gitlab" }, or
+   * { "type": "gitlab", "tokenEnv": "ACME_GITLAB_TOKEN" } to also send an access token
+   */
+  hosts?: Record<string, RepoHost | HostSettings>;
   output?: {
     excludeDocs?: string[];
-    customDocs?: { name: string; template: string }[];
+    customDocs?: CustomDocDefinition[];
   };
 }
 
@@ -274,11 +279,22 @@ export function generateExampleConfig(): string {
       firstTasksCount: 10,
     },
     plugins: [],
+    provider: {
+      name: "copilot",
+    },
     prompts: {
+      mode: "append",
       system: "You are a helpful assistant for onboarding developers.",
+      analysis: "Mention internal tooling and team conventions where relevant.",
     },
     output: {
       excludeDocs: [],
+      customDocs: [
+        {
+          name: "TEAM.md",
+          template: "# {{repoName}}\n\n{{#each firstTasks}}- {{title}}\n{{/each}}",
+        },
+      ],
     },
   }, null, 2);
 }
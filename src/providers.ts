@@ -0,0 +1,453 @@
+/**
+ * LLM Provider Layer
+ *
+ * Abstracts session creation, streaming deltas and tool calling so analysis and
+ * interactive mode can run on the GitHub Copilot SDK or any OpenAI-compatible
+ * chat-completions server (OpenAI, Ollama, llama.cpp, vLLM, ...).
+ *
+ * Sessions emit Copilot SDK-shaped events (`assistant.message_delta`,
+ * `assistant.message`, `tool.execution_start`) regardless of backend, and tools
+ * use the SDK `Tool` shape produced by `getRepoTools`.
+ */
+
+import { CopilotClient } from "@github/copilot-sdk";
+import type { SessionEvent, Tool, ToolResultObject } from "@github/copilot-sdk";
+import type { ProviderSettings } from "./types.js";
+
+/** Supported provider names */
+export type ProviderName = ProviderSettings["name"];
+
+export const PROVIDER_NAMES: ProviderName[] = ["copilot", "openai"];
+
+/**
+ * Configuration for a provider session
+ */
+export interface ProviderSessionConfig {
+  model: string;
+  systemMessage: { content: string };
+  tools?: Tool<unknown>[];
+  streaming?: boolean;
+  /** Called for each recorded tool call on --replay, where tool handlers are not run */
+  onReplayedTool?: (call: ReplayedToolCall) => void;
+}
+
+/**
+ * A tool call served from a recording: what the model asked for and what it got back
+ */
+export interface ReplayedToolCall {
+  name: string;
+  args: unknown;
+  result: string;
+  durationMs: number;
+}
+
+/**
+ * A conversation with a model
+ */
+export interface ProviderSession {
+  on(handler: (event: SessionEvent) => void): void;
+  sendAndWait(message: { prompt: string }, timeout?: number): Promise<unknown>;
+  /** Stop the in-flight request, e.g. when an analysis budget runs out */
+  abort?(): Promise<void>;
+}
+
+/**
+ * A model backend
+ */
+export interface LLMProvider {
+  name: ProviderName;
+  /** Models to try in order for analysis when --model is not given */
+  preferredModels: string[];
+  /** Model used for interactive chat */
+  chatModel: string;
+  createSession(config: ProviderSessionConfig): Promise<ProviderSession>;
+  stop(): Promise<void>;
+  /** Clock for analysis budgets; replay serves the recorded timeline instead of the wall clock */
+  now?(): number;
+}
+
+/**
+ * Copilot SDK models to try in order of preference
+ */
+export const COPILOT_PREFERRED_MODELS = [
+  "claude-opus-4-5",
+  "claude-sonnet-4-5",
+  "claude-sonnet-4-20250514",
+];
+
+const COPILOT_CHAT_MODEL = "claude-sonnet-4-20250514";
+const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o";
+/** Maximum model/tool round trips per prompt before giving up */
+const MAX_TOOL_ROUNDS = 30;
+const DEFAULT_TIMEOUT_MS = 600_000;
+
+/**
+ * GitHub Copilot SDK provider
+ */
+export class CopilotProvider implements LLMProvider {
+  readonly name = "copilot" as const;
+  readonly preferredModels: string[];
+  readonly chatModel: string;
+  private client = new CopilotClient();
+
+  constructor(settings: Partial<ProviderSettings> = {}) {
+    this.preferredModels = settings.models?.length ? settings.models : COPILOT_PREFERRED_MODELS;
+    this.chatModel = settings.models?.[0] ?? COPILOT_CHAT_MODEL;
+  }
+
+  async createSession(config: ProviderSessionConfig): Promise<ProviderSession> {
+    return this.client.createSession(config);
+  }
+
+  async stop(): Promise<void> {
+    await this.client.stop();
+  }
+}
+
+/** Chat-completions message */
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** Streaming chunk from /chat/completions */
+interface ChatCompletionChunk {
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+  }[];
+}
+
+/**
+ * Convert an SDK tool definition to an OpenAI function tool
+ */
+export function toOpenAITool(tool: Tool<unknown>): { type: "function"; function: Record<string, unknown> } {
+  const params = tool.parameters as Record<string, unknown> | undefined;
+  const schema =
+    params && typeof (params as { toJSONSchema?: unknown }).toJSONSchema === "function"
+      ? (params as { toJSONSchema(): Record<string, unknown> }).toJSONSchema()
+      : params ?? { type: "object", properties: {} };
+
+  return {
+    type: "function",
+    function: { name: tool.name, description: tool.description ?? "", parameters: schema },
+  };
+}
+
+/**
+ * Normalize a tool handler result to the text sent back to the model
+ */
+export function toolResultText(result: unknown): string {
+  if (typeof result === "string") return result;
+  if (result && typeof result === "object" && "textResultForLlm" in result) {
+    return (result as ToolResultObject).textResultForLlm;
+  }
+  return JSON.stringify(result ?? "");
+}
+
+/**
+ * Parse one SSE line: a chunk, "done" for the [DONE] sentinel, or null for comments,
+ * keep-alives and payloads that aren't valid JSON
+ */
+function parseEventLine(line: string): ChatCompletionChunk | "done" | null {
+  if (!line.startsWith("data:")) return null;
+  const data = line.slice(5).trim();
+  if (data === "[DONE]") return "done";
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as ChatCompletionChunk;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a server-sent-events body into JSON chunks, including a last line without a trailing newline
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatCompletionChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop()!;
+    for (const line of lines) {
+      const chunk = parseEventLine(line.trim());
+      if (chunk === "done") return;
+      if (chunk) yield chunk;
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Session against an OpenAI-compatible /chat/completions endpoint.
+ * Runs the tool-calling loop locally: tool calls requested by the model are
+ * executed with the SDK tool handlers and their results sent back.
+ */
+export class OpenAICompatibleSession implements ProviderSession {
+  private handlers: ((event: SessionEvent) => void)[] = [];
+  private messages: ChatMessage[];
+  private eventCounter = 0;
+  private controller: AbortController | null = null;
+  private abortRequested = false;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly config: ProviderSessionConfig,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    this.messages = [{ role: "system", content: config.systemMessage.content }];
+  }
+
+  on(handler: (event: SessionEvent) => void): void {
+    this.handlers.push(handler);
+  }
+
+  async sendAndWait(message: { prompt: string }, timeout: number = DEFAULT_TIMEOUT_MS): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    this.controller = controller;
+    this.abortRequested = false;
+    this.messages.push({ role: "user", content: message.prompt });
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const reply = await this.complete(controller.signal);
+        this.messages.push(reply);
+
+        if (!reply.tool_calls?.length) {
+          this.emit({ type: "assistant.message", data: { messageId: this.nextId(), content: reply.content ?? "" } });
+          return reply;
+        }
+
+        for (const call of reply.tool_calls) {
+          this.messages.push({ role: "tool", tool_call_id: call.id, content: await this.runTool(call) });
+        }
+      }
+      throw new Error(`Exceeded ${MAX_TOOL_ROUNDS} tool-calling rounds`);
+    } catch (error: unknown) {
+      if (this.abortRequested) {
+        throw new Error("Request aborted");
+      }
+      if (controller.signal.aborted) {
+        throw new Error(`Timeout after ${timeout}ms waiting for model response`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.controller = null;
+    }
+  }
+
+  async abort(): Promise<void> {
+    if (!this.controller) return;
+    this.abortRequested = true;
+    this.controller.abort();
+  }
+
+  /**
+   * Request one assistant turn, streaming content deltas to handlers
+   */
+  private async complete(signal: AbortSignal): Promise<ChatMessage> {
+    const streaming = this.config.streaming !== false;
+    const tools = this.config.tools?.length ? this.config.tools.map(toOpenAITool) : undefined;
+
+    const response = await this.fetchImpl(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: this.messages,
+        tools,
+        stream: streaming,
+        ...(streaming ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Provider request failed (${response.status}): ${detail.substring(0, 200)}`);
+    }
+
+    if (!streaming || !response.body) {
+      const json = (await response.json()) as ChatCompletionChunk;
+      this.emitUsage(json.usage);
+      const msg = json.choices?.[0]?.message;
+      if (msg?.content) {
+        this.emit({ type: "assistant.message_delta", ephemeral: true, data: { messageId: this.nextId(), deltaContent: msg.content } });
+      }
+      return { role: "assistant", content: msg?.content ?? null, tool_calls: msg?.tool_calls };
+    }
+
+    const messageId = this.nextId();
+    let content = "";
+    const toolCalls: ChatToolCall[] = [];
+
+    for await (const chunk of readEventStream(response.body)) {
+      this.emitUsage(chunk.usage);
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        this.emit({ type: "assistant.message_delta", ephemeral: true, data: { messageId, deltaContent: delta.content } });
+      }
+      for (const part of delta.tool_calls ?? []) {
+        const call = (toolCalls[part.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+    }
+
+    return {
+      role: "assistant",
+      content: content || null,
+      tool_calls: toolCalls.length > 0 ? toolCalls.filter(Boolean) : undefined,
+    };
+  }
+
+  private async runTool(call: ChatToolCall): Promise<string> {
+    const tool = this.config.tools?.find((t) => t.name === call.function.name);
+    if (!tool) {
+      return `Unknown tool: ${call.function.name}`;
+    }
+
+    let args: unknown;
+    try {
+      args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      return `Invalid JSON arguments for ${call.function.name}: ${call.function.arguments}`;
+    }
+
+    this.emit({ type: "tool.execution_start", data: { toolCallId: call.id, toolName: tool.name, arguments: args } });
+
+    try {
+      const result = await tool.handler(args, {
+        sessionId: "openai",
+        toolCallId: call.id,
+        toolName: tool.name,
+        arguments: args,
+      });
+      return toolResultText(result);
+    } catch (error: unknown) {
+      return `Error running ${tool.name}: ${(error as Error).message}`;
+    }
+  }
+
+  private emitUsage(usage: ChatCompletionChunk["usage"]): void {
+    if (!usage) return;
+    this.emit({
+      type: "assistant.usage",
+      ephemeral: true,
+      data: { model: this.config.model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens },
+    });
+  }
+
+  private nextId(): string {
+    return `openai-${++this.eventCounter}`;
+  }
+
+  private emit(event: { type: string; data: unknown; ephemeral?: boolean }): void {
+    const full = {
+      id: this.nextId(),
+      timestamp: new Date().toISOString(),
+      parentId: null,
+      ...event,
+    } as SessionEvent;
+    for (const handler of this.handlers) {
+      handler(full);
+    }
+  }
+}
+
+/**
+ * OpenAI-compatible chat-completions provider
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  readonly preferredModels: string[];
+  readonly chatModel: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(settings: Partial<ProviderSettings> = {}, private readonly fetchImpl: typeof fetch = fetch) {
+    this.baseUrl = (settings.baseUrl || process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, "");
+    // OPENAI_API_KEY only goes to OpenAI itself; other servers need a key named in config
+    const envKey = settings.apiKeyEnv || (this.baseUrl === OPENAI_DEFAULT_BASE_URL ? "OPENAI_API_KEY" : undefined);
+    this.apiKey = settings.apiKey || (envKey ? process.env[envKey] : undefined);
+    this.preferredModels = settings.models?.length ? settings.models : [OPENAI_DEFAULT_MODEL];
+    this.chatModel = this.preferredModels[0];
+  }
+
+  async createSession(config: ProviderSessionConfig): Promise<ProviderSession> {
+    return new OpenAICompatibleSession(this.baseUrl, this.apiKey, config, this.fetchImpl);
+  }
+
+  async stop(): Promise<void> {
+    // Stateless HTTP; nothing to tear down
+  }
+}
+
+/**
+ * Merge CLI provider flags over the config file's provider block.
+ * A --base-url without an explicit provider implies an OpenAI-compatible server.
+ */
+export function resolveProviderSettings(
+  cli: { name?: string; baseUrl?: string } = {},
+  config?: ProviderSettings
+): ProviderSettings | undefined {
+  if (!cli.name && !cli.baseUrl) {
+    return config;
+  }
+
+  const name = cli.name ?? (cli.baseUrl ? "openai" : config?.name) ?? "copilot";
+  if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+    throw new Error(`Unknown provider: ${name}. Use: ${PROVIDER_NAMES.join(", ")}`);
+  }
+
+  // Config details only carry over when it describes the same backend
+  const base = config?.name === name ? config : undefined;
+  return {
+    ...base,
+    name: name as ProviderName,
+    ...(cli.baseUrl ? { baseUrl: cli.baseUrl } : {}),
+  };
+}
+
+/**
+ * Create a provider from settings (defaults to Copilot)
+ */
+export function createProvider(settings?: Partial<ProviderSettings>): LLMProvider {
+  switch (settings?.name ?? "copilot") {
+    case "copilot":
+      return new CopilotProvider(settings);
+    case "openai":
+      return new OpenAICompatibleProvider(settings);
+    default:
+      throw new Error(`Unknown provider: ${settings?.name}. Use: ${PROVIDER_NAMES.join(", ")}`);
+  }
+}
@@ -63,6 +63,16 @@ function analyzeDepSignals(deps: DependencyAnalysis | null): {
     }
   }
 
+  // Risky and legacy packages still ship when only a dependency pulls them in
+  for (const [name, path] of Object.entries(deps.lockfile?.paths ?? {})) {
+    const via = `transitive via ${path.slice(0, -1).join(" → ")}`;
+    if (RISKY_SIGNALS[name]) {
+      result.risky.push({ name, category: "risky", reason: `${RISKY_SIGNALS[name]} (${via})` });
+    } else if (LEGACY_SIGNALS[name]) {
+      result.legacy.push({ name, category: "legacy", reason: `${LEGACY_SIGNALS[name]} (${via})` });
+    }
+  }
+
   return result;
 }
 
@@ -121,6 +131,14 @@ function calculateOnboardingRisk(
       risk += 10;
       factors.push(`Multiple legacy dependencies (${legacyCount})`);
     }
+    if (deps.lockfile && deps.lockfile.transitiveCount > 1000) {
+      risk += 5;
+      factors.push(`Large transitive dependency tree (${deps.lockfile.transitiveCount} packages)`);
+    }
+    if (deps.lockfile && deps.lockfile.duplicates.length > 20) {
+      risk += 5;
+      factors.push(`Many packages installed at multiple versions (${deps.lockfile.duplicates.length})`);
+    }
   }
 
   // Security
@@ -0,0 +1,366 @@
+/**
+ * Session Recording and Replay
+ *
+ * `--record <file>` wraps the LLM provider and captures every session: system
+ * message, prompts, streamed events and tool calls with their results.
+ * `--replay <file>` serves a recording back in place of a model, so a past run
+ * can be regenerated exactly and generator/formatter changes can be
+ * regression-tested against real sessions.
+ *
+ * Analysis and interactive sessions in one run share a single recording file;
+ * sessions are replayed in the order they were created. Tools are never run on
+ * replay: recorded tool calls are reported to the session's `onReplayedTool`
+ * callback so stats and budgets count them, and budgets run on the recorded
+ * timeline rather than the wall clock.
+ */
+
+import * as fs from "fs";
+import type { SessionEvent, Tool } from "@github/copilot-sdk";
+import {
+  createProvider,
+  toolResultText,
+  type LLMProvider,
+  type ProviderName,
+  type ProviderSession,
+  type ProviderSessionConfig,
+} from "./providers.js";
+import type { ProviderSettings } from "./types.js";
+
+const RECORDING_VERSION = 1;
+
+/** One item in a turn, in the order it happened */
+export type RecordedEntry =
+  | { type: "event"; event: SessionEvent }
+  | { type: "tool"; name: string; toolCallId: string; args: unknown; result: string; durationMs: number };
+
+/**
+ * A prompt sent to the model and everything that came back
+ */
+export interface RecordedTurn {
+  prompt: string;
+  /** When the prompt was sent, in ms since the recording started */
+  offsetMs?: number;
+  /** How long the turn took */
+  durationMs?: number;
+  entries: RecordedEntry[];
+  /** Error thrown by sendAndWait, replayed as a rejection */
+  error?: string;
+}
+
+/**
+ * A recorded session
+ */
+export interface RecordedSession {
+  model: string;
+  systemMessage: string;
+  tools: string[];
+  turns: RecordedTurn[];
+}
+
+/**
+ * Recording file format
+ */
+export interface SessionRecording {
+  version: number;
+  recordedAt: string;
+  provider: ProviderName;
+  sessions: RecordedSession[];
+}
+
+/**
+ * Collects sessions for one recording file
+ */
+export class SessionRecorder {
+  readonly recording: SessionRecording;
+  readonly startTime = Date.now();
+
+  constructor(readonly filePath: string, provider: ProviderName) {
+    this.recording = {
+      version: RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      provider,
+      sessions: [],
+    };
+  }
+
+  /**
+   * Write the recording so far (called after every turn so interrupted runs keep their data)
+   */
+  save(): void {
+    fs.writeFileSync(this.filePath, JSON.stringify(this.recording, null, 2) + "\n", "utf-8");
+  }
+}
+
+/**
+ * Load and check a recording file
+ */
+export function loadRecording(filePath: string): SessionRecording {
+  let recording: SessionRecording;
+  try {
+    recording = JSON.parse(fs.readFileSync(filePath, "utf-8")) as SessionRecording;
+  } catch (error: unknown) {
+    throw new Error(`Cannot read recording ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (recording.version !== RECORDING_VERSION || !Array.isArray(recording.sessions)) {
+    throw new Error(`Unsupported recording format in ${filePath} (expected version ${RECORDING_VERSION})`);
+  }
+  return recording;
+}
+
+/**
+ * Replay position in a recording: the next session to serve and the recorded time reached so far
+ */
+interface ReplayCursor {
+  recording: SessionRecording;
+  next: number;
+  clock: number;
+}
+
+// One recorder / replay cursor per file, shared by every provider in the process
+const recorders = new Map<string, SessionRecorder>();
+const replayCursors = new Map<string, ReplayCursor>();
+
+/**
+ * Session that records its traffic into a RecordedSession
+ */
+class RecordingSession implements ProviderSession {
+  private handlers: ((event: SessionEvent) => void)[] = [];
+  private currentTurn: RecordedTurn | null = null;
+
+  constructor(
+    private readonly inner: ProviderSession,
+    private readonly record: RecordedSession,
+    private readonly recorder: SessionRecorder
+  ) {
+    inner.on((event) => {
+      this.currentTurn?.entries.push({ type: "event", event });
+      for (const handler of this.handlers) {
+        handler(event);
+      }
+    });
+  }
+
+  on(handler: (event: SessionEvent) => void): void {
+    this.handlers.push(handler);
+  }
+
+  /** Record a tool call made during the current turn */
+  recordTool(entry: Extract<RecordedEntry, { type: "tool" }>): void {
+    this.currentTurn?.entries.push(entry);
+  }
+
+  async sendAndWait(message: { prompt: string }, timeout?: number): Promise<unknown> {
+    const start = Date.now();
+    const turn: RecordedTurn = { prompt: message.prompt, offsetMs: start - this.recorder.startTime, entries: [] };
+    this.record.turns.push(turn);
+    this.currentTurn = turn;
+
+    try {
+      return await this.inner.sendAndWait(message, timeout);
+    } catch (error: unknown) {
+      turn.error = (error as Error).message;
+      throw error;
+    } finally {
+      turn.durationMs = Date.now() - start;
+      this.currentTurn = null;
+      this.recorder.save();
+    }
+  }
+
+  async abort(): Promise<void> {
+    await this.inner.abort?.();
+  }
+}
+
+/**
+ * Provider wrapper that records every session to a file
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly preferredModels: string[];
+  readonly chatModel: string;
+
+  constructor(private readonly inner: LLMProvider, private readonly recorder: SessionRecorder) {
+    this.name = inner.name;
+    this.preferredModels = inner.preferredModels;
+    this.chatModel = inner.chatModel;
+  }
+
+  async createSession(config: ProviderSessionConfig): Promise<ProviderSession> {
+    const record: RecordedSession = {
+      model: config.model,
+      systemMessage: config.systemMessage.content,
+      tools: config.tools?.map((t) => t.name) ?? [],
+      turns: [],
+    };
+
+    // Tool handlers run inside the wrapped session, so they report back through this reference
+    let session: RecordingSession | null = null;
+    const tools = config.tools?.map((tool): Tool<unknown> => ({
+      ...tool,
+      handler: async (args, invocation) => {
+        const start = Date.now();
+        const result = await tool.handler(args, invocation);
+        session?.recordTool({
+          type: "tool",
+          name: tool.name,
+          toolCallId: invocation.toolCallId,
+          args,
+          result: toolResultText(result),
+          durationMs: Date.now() - start,
+        });
+        return result;
+      },
+    }));
+
+    const inner = await this.inner.createSession({ ...config, ...(tools ? { tools } : {}) });
+    this.recorder.recording.sessions.push(record);
+    session = new RecordingSession(inner, record, this.recorder);
+    return session;
+  }
+
+  async stop(): Promise<void> {
+    try {
+      await this.inner.stop();
+    } finally {
+      this.recorder.save();
+    }
+  }
+}
+
+/**
+ * Session that plays back a RecordedSession's turns in order
+ */
+class ReplaySession implements ProviderSession {
+  private handlers: ((event: SessionEvent) => void)[] = [];
+  private nextTurn = 0;
+  private aborted = false;
+
+  constructor(
+    private readonly record: RecordedSession,
+    private readonly label: string,
+    private readonly cursor: ReplayCursor,
+    private readonly onReplayedTool?: ProviderSessionConfig["onReplayedTool"]
+  ) {}
+
+  on(handler: (event: SessionEvent) => void): void {
+    this.handlers.push(handler);
+  }
+
+  async sendAndWait(message: { prompt: string }): Promise<unknown> {
+    const turn = this.record.turns[this.nextTurn++];
+    if (!turn) {
+      throw new Error(`Replay ${this.label} has no recorded turn ${this.nextTurn}`);
+    }
+    if (turn.prompt !== message.prompt) {
+      console.warn(`Replay ${this.label} turn ${this.nextTurn}: prompt differs from the recording; replaying recorded response`);
+    }
+
+    this.aborted = false;
+    this.advanceClock(turn.offsetMs ?? 0);
+    for (const entry of turn.entries) {
+      if (entry.type === "tool") {
+        this.onReplayedTool?.({ name: entry.name, args: entry.args, result: entry.result, durationMs: entry.durationMs });
+      } else {
+        for (const handler of this.handlers) {
+          handler(entry.event);
+        }
+      }
+      if (this.aborted) break;
+    }
+    this.advanceClock((turn.offsetMs ?? this.cursor.clock) + (turn.durationMs ?? 0));
+
+    if (turn.error) {
+      throw new Error(turn.error);
+    }
+    return undefined;
+  }
+
+  async abort(): Promise<void> {
+    this.aborted = true;
+  }
+
+  private advanceClock(to: number): void {
+    this.cursor.clock = Math.max(this.cursor.clock, to);
+  }
+}
+
+/**
+ * Provider that serves sessions from a recording instead of a model
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly preferredModels: string[];
+  readonly chatModel: string;
+
+  constructor(private readonly cursor: ReplayCursor, private readonly filePath: string) {
+    const { recording } = cursor;
+    this.name = recording.provider;
+    this.preferredModels = [...new Set(recording.sessions.map((s) => s.model))];
+    this.chatModel = recording.sessions[cursor.next]?.model ?? this.preferredModels[0] ?? "replay";
+  }
+
+  async createSession(config?: ProviderSessionConfig): Promise<ProviderSession> {
+    const index = this.cursor.next;
+    const record = this.cursor.recording.sessions[index];
+    if (!record) {
+      throw new Error(`Replay ${this.filePath} has no more recorded sessions (recorded ${index})`);
+    }
+    this.cursor.next++;
+    return new ReplaySession(record, `${this.filePath} session ${index + 1}`, this.cursor, config?.onReplayedTool);
+  }
+
+  /** Recorded time reached so far, so budgets replay against the original run's timeline */
+  now(): number {
+    return this.cursor.clock;
+  }
+
+  async stop(): Promise<void> {
+    // Nothing to tear down
+  }
+}
+
+/**
+ * Record/replay file paths from --record / --replay
+ */
+export interface RecordReplayOptions {
+  record?: string;
+  replay?: string;
+}
+
+/**
+ * Wrap a provider so its sessions are recorded to filePath
+ */
+function recordProvider(inner: LLMProvider, filePath: string): LLMProvider {
+  let recorder = recorders.get(filePath);
+  if (!recorder) {
+    recorder = new SessionRecorder(filePath, inner.name);
+    recorders.set(filePath, recorder);
+  }
+  return new RecordingProvider(inner, recorder);
+}
+
+/**
+ * Create a provider that replays the sessions recorded in filePath
+ */
+function replayProvider(filePath: string): LLMProvider {
+  let cursor = replayCursors.get(filePath);
+  if (!cursor) {
+    cursor = { recording: loadRecording(filePath), next: 0, clock: 0 };
+    replayCursors.set(filePath, cursor);
+  }
+  return new ReplayProvider(cursor, filePath);
+}
+
+/**
+ * Create the provider for a run: replay a recording, or the configured backend,
+ * optionally recording its sessions
+ */
+export function createSessionProvider(settings: ProviderSettings | undefined, io: RecordReplayOptions = {}): LLMProvider {
+  if (io.replay) {
+    return replayProvider(io.replay);
+  }
+  const provider = createProvider(settings);
+  return io.record ? recordProvider(provider, io.record) : provider;
+}
@@ -1,13 +1,14 @@
 /**
  * Repo Resolver Module
- * Handles resolving repository sources - both local paths and GitHub URLs
+ * Handles resolving repository sources - both local paths and repository URLs
  */
 
 import { resolve, basename } from "path";
 import { stat, rm, access } from "fs/promises";
 import { homedir } from "os";
-import { parseGitHubUrl, cloneRepo } from "./ingest.js";
-import type { RepoInfo } from "./types.js";
+import { cloneRepo } from "./ingest.js";
+import { parseRepoUrl } from "./hosts.js";
+import type { HostSettings, RepoHost, RepoInfo } from "./types.js";
 
 /**
  * Represents a resolved repository source
@@ -45,7 +46,7 @@ export function isLocalPath(input: string): boolean {
   // Not a URL pattern (no protocol)
   if (trimmed.includes("://")) return false;
   if (trimmed.includes("github.com")) return false;
-  if (trimmed.includes("@")) return false; // git@github.com style
+  if (trimmed.includes("@")) return false; // git@host:owner/repo style
   
   return false;
 }
@@ -104,15 +105,17 @@ function createLocalRepoInfo(localPath: string, repoName: string): RepoInfo {
 }
 
 /**
- * Resolve a repository source from either a local path or GitHub URL
+ * Resolve a repository source from either a local path or repository URL
  * 
- * @param input - Either a local filesystem path or a GitHub URL
- * @param outputDir - Output directory (used for cloning GitHub repos)
+ * @param input - Either a local filesystem path or a repository URL on any supported host
+ * @param outputDir - Output directory (used for cloning remote repos)
+ * @param hosts - Hostname to host type overrides for self-hosted servers
  * @returns A RepoSource with path, metadata, and cleanup function
  */
 export async function resolveRepo(
   input: string,
-  outputDir: string = process.cwd()
+  outputDir: string = process.cwd(),
+  hosts?: Record<string, RepoHost | HostSettings>
 ): Promise<RepoSource> {
   if (isLocalPath(input)) {
     // Handle local path
@@ -150,8 +153,8 @@ export async function resolveRepo(
       },
     };
   } else {
-    // Handle GitHub URL
-    const repoInfo = parseGitHubUrl(input);
+    // Handle repository URL
+    const repoInfo = parseRepoUrl(input, hosts);
     const clonePath = await cloneRepo(repoInfo, outputDir);
     
     return {
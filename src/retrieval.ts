@@ -0,0 +1,246 @@
+/**
+ * Lexical Retrieval
+ * A local BM25 index over overlapping line chunks of source and docs, so the
+ * agent can find code by topic in repositories too large for the file list in
+ * its prompt. No embeddings or external services: terms are identifiers and
+ * words, with camelCase and snake_case split so "rate limit" finds `rateLimiter`.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { basename, extname, join } from "path";
+import { cacheName, readIndexCache, writeIndexCache } from "./cache.js";
+import { loadIgnoreRules, walkRepo, type IgnoreRules } from "./ignore.js";
+import type { RepoInfo, RetrievalChunk, RetrievalIndex } from "./types.js";
+
+/** Lines per chunk */
+const CHUNK_LINES = 40;
+/** Lines shared by consecutive chunks, so a definition split at a boundary stays whole in one */
+const CHUNK_OVERLAP = 10;
+/** Files larger than this (usually generated or vendored) are not indexed */
+const MAX_INDEXED_FILE_BYTES = 256 * 1024;
+/** Stop walking after this many files */
+const MAX_INDEXED_FILES = 10_000;
+/** Longest line shown in a retrieved chunk */
+const MAX_SNIPPET_LINE_LENGTH = 200;
+
+/** BM25 term-frequency saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const INDEXED_EXTENSIONS = new Set([
+  ".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte",
+  ".py", ".go", ".rs", ".java", ".kt", ".scala", ".rb", ".php", ".cs", ".swift",
+  ".c", ".h", ".cc", ".cpp", ".hpp", ".sh", ".sql", ".proto", ".graphql",
+  ".md", ".mdx", ".rst", ".txt", ".adoc",
+  ".json", ".yaml", ".yml", ".toml",
+]);
+
+const INDEXED_FILENAMES = new Set(["Dockerfile", "Makefile", "Rakefile", "Gemfile"]);
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "the", "this", "that", "to", "what", "when", "where", "which", "who", "why", "with",
+]);
+
+/**
+ * A chunk ranked against a query
+ */
+export interface RetrievalResult {
+  chunk: RetrievalChunk;
+  score: number;
+}
+
+/**
+ * Split text into lowercase search terms. Compound identifiers yield the whole
+ * identifier plus each part.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    // Long runs are hashes, base64 or minified code
+    if (word.length > 40) continue;
+
+    const whole = word.toLowerCase();
+    if (whole.length >= 2 && !STOP_WORDS.has(whole)) terms.push(whole);
+
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lower = part.toLowerCase();
+        if (lower.length >= 2 && !STOP_WORDS.has(lower)) terms.push(lower);
+      }
+    }
+  }
+  return terms;
+}
+
+function countTerms(terms: string[], counts: Record<string, number> = {}): Record<string, number> {
+  for (const term of terms) {
+    counts[term] = (counts[term] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Split a file into overlapping line chunks. Path terms are added to every
+ * chunk so queries naming a module match its files.
+ */
+export function chunkFile(path: string, content: string): RetrievalChunk[] {
+  const lines = content.split("\n");
+  const pathTerms = tokenize(path);
+  const chunks: RetrievalChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const terms = [...pathTerms, ...tokenize(lines.slice(start, end).join("\n"))];
+    if (terms.length > pathTerms.length) {
+      chunks.push({ path, startLine: start + 1, endLine: end, terms: countTerms(terms), length: terms.length });
+    }
+    if (end === lines.length) break;
+  }
+
+  return chunks;
+}
+
+function isIndexedFile(path: string): boolean {
+  return INDEXED_EXTENSIONS.has(extname(path).toLowerCase()) || INDEXED_FILENAMES.has(basename(path));
+}
+
+/**
+ * List indexable files, independent of the scan's maxFiles limit
+ */
+async function collectFiles(repoPath: string, rules: IgnoreRules): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of walkRepo(repoPath, rules)) {
+    if (files.length >= MAX_INDEXED_FILES) break;
+    if (!entry.isDirectory && isIndexedFile(entry.path)) {
+      files.push(entry.path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Compute corpus statistics for a set of chunks
+ */
+export function createRetrievalIndex(files: number, chunks: RetrievalChunk[]): RetrievalIndex {
+  const docFreq: Record<string, number> = {};
+  let totalLength = 0;
+  for (const chunk of chunks) {
+    totalLength += chunk.length;
+    for (const term of Object.keys(chunk.terms)) {
+      docFreq[term] = (docFreq[term] ?? 0) + 1;
+    }
+  }
+
+  return { files, chunks, docFreq, avgLength: chunks.length > 0 ? totalLength / chunks.length : 0 };
+}
+
+/**
+ * Walk the repository and index its source and docs
+ *
+ * @param rules - Ignore rules from the scan, loaded when not given
+ */
+export async function buildRetrievalIndex(repoPath: string, rules?: IgnoreRules): Promise<RetrievalIndex> {
+  const paths = await collectFiles(repoPath, rules ?? (await loadIgnoreRules(repoPath)));
+  const chunks: RetrievalChunk[] = [];
+  let files = 0;
+
+  for (const path of paths) {
+    try {
+      const fullPath = join(repoPath, path);
+      if ((await stat(fullPath)).size > MAX_INDEXED_FILE_BYTES) continue;
+
+      const content = await readFile(fullPath, "utf-8");
+      if (content.includes("\0")) continue;
+
+      chunks.push(...chunkFile(path, content));
+      files++;
+    } catch {
+      // Unreadable file - skip
+    }
+  }
+
+  return createRetrievalIndex(files, chunks);
+}
+
+/**
+ * Load the index for this commit from cache, or build and cache it
+ */
+export async function loadRetrievalIndex(
+  repoPath: string,
+  repoInfo: RepoInfo,
+  useCache: boolean,
+  rules?: IgnoreRules
+): Promise<RetrievalIndex> {
+  const cacheable = useCache && !!repoInfo.commitSha;
+  if (cacheable) {
+    const cached = await readIndexCache(cacheName(repoInfo), repoInfo.commitSha!);
+    if (cached) return cached;
+  }
+
+  const index = await buildRetrievalIndex(repoPath, rules);
+
+  if (cacheable) {
+    try {
+      await writeIndexCache(cacheName(repoInfo), repoInfo.commitSha!, index);
+    } catch {
+      // Cache write failure is non-fatal
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Rank chunks against a natural-language query with BM25
+ */
+export function searchRetrievalIndex(index: RetrievalIndex, query: string, limit: number): RetrievalResult[] {
+  const queryTerms = [...new Set(tokenize(query))].filter((term) => index.docFreq[term]);
+  if (queryTerms.length === 0) return [];
+
+  const total = index.chunks.length;
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const df = index.docFreq[term];
+      return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  const results: RetrievalResult[] = [];
+  for (const chunk of index.chunks) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = chunk.terms[term];
+      if (!tf) continue;
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / index.avgLength);
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / (tf + norm));
+    }
+    if (score > 0) results.push({ chunk, score });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Render retrieved chunks with their current text, as citable path:start-end blocks
+ */
+export async function formatRetrievalResults(repoPath: string, results: RetrievalResult[]): Promise<string> {
+  const blocks = await Promise.all(
+    results.map(async ({ chunk, score }) => {
+      const heading = `### ${chunk.path}:${chunk.startLine}-${chunk.endLine} (score ${score.toFixed(2)})`;
+      try {
+        const content = await readFile(join(repoPath, chunk.path), "utf-8");
+        const text = content
+          .split("\n")
+          .slice(chunk.startLine - 1, chunk.endLine)
+          .map((line) => (line.length > MAX_SNIPPET_LINE_LENGTH ? `${line.slice(0, MAX_SNIPPET_LINE_LENGTH)}...` : line))
+          .join("\n");
+        return `${heading}\n\`\`\`\n${text}\n\`\`\``;
+      } catch {
+        return `${heading}\n(file no longer readable)`;
+      }
+    })
+  );
+  return blocks.join("\n\n");
+}
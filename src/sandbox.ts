@@ -0,0 +1,229 @@
+/**
+ * Command Sandbox
+ * Runs allowlisted, read-only commands (`npm run`, `npm ls`, `go env`)
+ * for the opt-in run_command tool, so the agent can check quickstart commands
+ * without arbitrary execution. Commands that hand control to files the
+ * repository commits are left off the built-in list: Makefile and Rakefile
+ * targets (commands.ts lists them without running anything), Yarn 1 (`yarnPath`
+ * in .yarnrc), cargo subcommands that start rustc (`build.rustc` and
+ * `rustc-wrapper` in .cargo/config.toml) and `go list` (`-toolexec`).
+ *
+ * Commands run without a shell, inside the repository, in their own process
+ * group with a timeout, capped output, a scrubbed environment and an empty
+ * HOME. Toolchains are pointed at offline settings and an unreachable proxy,
+ * which code that ignores them bypasses; this is not a kernel sandbox, which
+ * is why only allowlisted commands run at all.
+ */
+
+import { spawn } from "child_process";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { RunCommandSettings } from "./types.js";
+
+/** Default per-command timeout */
+const DEFAULT_TIMEOUT_SECONDS = 20;
+/** Output returned to the model, stdout and stderr combined */
+const MAX_OUTPUT_CHARS = 8000;
+/** Output read from the process before it is killed */
+const MAX_BUFFER_BYTES = 1024 * 1024;
+
+/**
+ * Built-in allowlist. An entry matches a command exactly; a trailing "..."
+ * accepts any further arguments.
+ */
+export const DEFAULT_ALLOWED_COMMANDS = [
+  "npm run",
+  "npm ls ...",
+  "pnpm run",
+  "pnpm ls ...",
+  "go env ...",
+  "go version",
+  "pip list ...",
+  "pip show ...",
+  "poetry show ...",
+  "just --list",
+  "node --version",
+  "python --version",
+  "python3 --version",
+];
+
+/** Programs whose subcommands can be asked for --help without running anything */
+const SUBCOMMAND_HELP_PROGRAMS = new Set(["make", "npm", "cargo", "go", "pip", "poetry", "git"]);
+/** Programs where a word before --help may be a script to run, so only `<program> --help` is allowed */
+const TOP_LEVEL_HELP_PROGRAMS = new Set(["pnpm", "bun", "node", "python", "python3", "deno", "just", "rake"]);
+
+/** Arguments that turn an allowlisted read-only command into a write, e.g. `go env -w` */
+const WRITE_ARGUMENTS: { command: string[]; pattern: RegExp }[] = [{ command: ["go", "env"], pattern: /^--?[wu](=|$)/ }];
+
+/** Environment variables passed through to commands; everything else (tokens, keys, HOME) is dropped */
+const PASSTHROUGH_ENV = ["PATH", "USER", "LANG", "LC_ALL", "TMPDIR", "GOPATH", "GOROOT", "CARGO_HOME", "RUSTUP_HOME"];
+
+/** Offline switches for the allowlisted toolchains, plus a proxy nothing listens on */
+const OFFLINE_ENV: Record<string, string> = {
+  HTTP_PROXY: "http://127.0.0.1:9",
+  HTTPS_PROXY: "http://127.0.0.1:9",
+  http_proxy: "http://127.0.0.1:9",
+  https_proxy: "http://127.0.0.1:9",
+  NO_PROXY: "",
+  npm_config_offline: "true",
+  YARN_ENABLE_NETWORK: "0",
+  CARGO_NET_OFFLINE: "true",
+  GOPROXY: "off",
+  GOTOOLCHAIN: "local",
+  GOFLAGS: "-mod=readonly",
+  PIP_NO_INDEX: "1",
+  CI: "true",
+  NO_COLOR: "1",
+  TERM: "dumb",
+};
+
+/**
+ * Outcome of a sandboxed command
+ */
+export interface CommandRun {
+  exitCode: number | null;
+  output: string;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Split a command line into arguments. Quotes group words; shell syntax is
+ * rejected because commands never run through a shell.
+ */
+export function parseCommandLine(command: string): string[] {
+  if (/[|;&<>$`\n\\]/.test(command.replace(/'[^']*'/g, "''"))) {
+    throw new Error("Shell syntax (pipes, redirects, variables, chaining) is not supported; run a single command");
+  }
+
+  const argv: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command)) !== null) {
+    argv.push(match[1] ?? match[2] ?? match[3]);
+  }
+  if (argv.length === 0) {
+    throw new Error("Empty command");
+  }
+  return argv;
+}
+
+function matchesEntry(argv: string[], entry: string): boolean {
+  const tokens = entry.trim().split(/\s+/);
+  const open = tokens[tokens.length - 1] === "...";
+  const prefix = open ? tokens.slice(0, -1) : tokens;
+  if (open ? argv.length < prefix.length : argv.length !== prefix.length) return false;
+  return prefix.every((token, i) => token === argv[i]);
+}
+
+function isHelpRequest(argv: string[]): boolean {
+  const [program, ...rest] = argv;
+  const flag = rest[rest.length - 1];
+  if (flag !== "--help" && flag !== "-h") return false;
+  if (rest.length === 1) return SUBCOMMAND_HELP_PROGRAMS.has(program) || TOP_LEVEL_HELP_PROGRAMS.has(program);
+  return rest.length === 2 && SUBCOMMAND_HELP_PROGRAMS.has(program) && /^[a-z][\w-]*$/.test(rest[0]);
+}
+
+/**
+ * Why a command may not run, or null when it is allowlisted
+ */
+export function commandRejection(argv: string[], settings: RunCommandSettings = {}): string | null {
+  const allowed = [...DEFAULT_ALLOWED_COMMANDS, ...(settings.allow ?? [])];
+  const write = WRITE_ARGUMENTS.find(
+    ({ command, pattern }) => command.every((token, i) => argv[i] === token) && argv.some((arg) => pattern.test(arg))
+  );
+  if (write) {
+    return `Command not allowed: ${argv.join(" ")} changes configuration; only read-only use of \`${write.command.join(" ")}\` is allowed`;
+  }
+  if (isHelpRequest(argv) || allowed.some((entry) => matchesEntry(argv, entry))) {
+    return null;
+  }
+  return `Command not allowed: ${argv.join(" ")}. Allowed: ${allowed.join(", ")}, and --help for common tools`;
+}
+
+/**
+ * Environment for sandboxed commands: no credentials, no network, and HOME
+ * pointed at an empty directory so dotfiles (~/.ssh, ~/.npmrc, gh tokens) are out of reach
+ */
+export function sandboxEnv(home: string, source: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of PASSTHROUGH_ENV) {
+    if (source[name] !== undefined) env[name] = source[name];
+  }
+  return { ...env, HOME: home, ...OFFLINE_ENV };
+}
+
+/**
+ * Run an already-allowlisted command in the repository
+ */
+export async function runSandboxedCommand(
+  argv: string[],
+  cwd: string,
+  settings: RunCommandSettings = {}
+): Promise<CommandRun> {
+  const timeoutMs = (settings.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const home = await mkdtemp(join(tmpdir(), "bootcamp-home-"));
+  try {
+    return await runInProcessGroup(argv, cwd, sandboxEnv(home), timeoutMs);
+  } finally {
+    await rm(home, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Spawn a command as the leader of a new process group and kill the whole
+ * group on timeout, output overflow or exit, so nothing it started outlives it
+ */
+function runInProcessGroup(argv: string[], cwd: string, env: NodeJS.ProcessEnv, timeoutMs: number): Promise<CommandRun> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(argv[0], argv.slice(1), { cwd, env, detached: true, shell: false, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let bytes = 0;
+    let timedOut = false;
+    let overflowed = false;
+
+    const killGroup = (): void => {
+      if (child.pid === undefined) return;
+      try {
+        process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // The group has already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, timeoutMs);
+
+    const collect = (append: (text: string) => void) => (text: string) => {
+      bytes += Buffer.byteLength(text);
+      if (bytes > MAX_BUFFER_BYTES) {
+        overflowed = true;
+        killGroup();
+        return;
+      }
+      append(text);
+    };
+    child.stdout.setEncoding("utf-8").on("data", collect((text) => (stdout += text)));
+    child.stderr.setEncoding("utf-8").on("data", collect((text) => (stderr += text)));
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === "ENOENT" ? new Error(`${argv[0]} is not installed`) : error);
+    });
+    child.on("exit", killGroup);
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      const combined = [stdout.trimEnd(), stderr.trimEnd()].filter(Boolean).join("\n");
+      const truncated = overflowed || combined.length > MAX_OUTPUT_CHARS;
+      resolve({
+        exitCode: timedOut || overflowed ? null : code,
+        output: truncated ? combined.slice(0, MAX_OUTPUT_CHARS) : combined,
+        timedOut,
+        truncated,
+      });
+    });
+  });
+}
@@ -155,6 +155,7 @@ export const RepoFactsSchema = z.object({
   architecture: ArchitectureSchema,
   firstTasks: z.array(FirstTaskSchema).default([]),
   runbook: RunbookSchema.optional(),
+  fieldConfidence: z.record(z.string(), z.enum(["high", "medium", "low"])).optional(),
 });
 
 /** Inferred TypeScript type from the Zod schema */
@@ -212,6 +213,53 @@ export function validateRepoFacts(data: unknown): ValidationResult {
   };
 }
 
+/**
+ * Independently requested parts of RepoFacts for sectioned analysis.
+ * Each schema covers the top-level keys one section request must return.
+ */
+export const SECTION_SCHEMAS = {
+  overview: z.object({
+    purpose: z.string(),
+    description: z.string(),
+    confidence: z.enum(["high", "medium", "low"]).optional(),
+    sources: z.array(z.string()).optional(),
+  }),
+  quickstart: z.object({ quickstart: QuickstartSchema }),
+  structure: z.object({ structure: StructureSchema }),
+  architecture: z.object({ architecture: ArchitectureSchema }),
+  firstTasks: z.object({ firstTasks: z.array(FirstTaskSchema).min(1) }),
+  runbook: z.object({ runbook: RunbookSchema }),
+  ciContrib: z.object({ ci: CISchema, contrib: ContribSchema }),
+};
+
+/** Name of an analysis section */
+export type SectionName = keyof typeof SECTION_SCHEMAS;
+
+/**
+ * Section validation result
+ */
+export interface SectionValidationResult {
+  success: boolean;
+  data?: Record<string, unknown>;
+  errors?: string[];
+}
+
+/**
+ * Validate one section response against its sub-schema
+ */
+export function validateSection(name: SectionName, data: unknown): SectionValidationResult {
+  const result = SECTION_SCHEMAS[name].safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+  };
+}
+
 /**
  * Get a summary of what's missing for retry prompts
  */
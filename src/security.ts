@@ -6,6 +6,7 @@
 import { readFile } from "fs/promises";
 import { join, basename } from "path";
 import type { FileInfo } from "./types.js";
+import type { LockfileAnalysis } from "./lockfiles.js";
 
 /**
  * Security finding severity levels
@@ -109,7 +110,8 @@ const AUTH_PATTERNS: Array<{
 export async function analyzeSecurityPatterns(
   repoPath: string,
   files: FileInfo[],
-  packageJson?: Record<string, unknown>
+  packageJson?: Record<string, unknown>,
+  lockfile?: LockfileAnalysis | null
 ): Promise<SecurityAnalysis> {
   const analysis: SecurityAnalysis = {
     score: 100,
@@ -277,6 +279,17 @@ export async function analyzeSecurityPatterns(
 
   analysis.authPatterns = Array.from(authPatternMap.values());
 
+  // null means the package manager expects a lockfile but none is committed
+  if (lockfile === null) {
+    analysis.findings.push({
+      category: "Dependencies",
+      title: "No lockfile committed",
+      description: "Dependency versions are resolved at install time, so builds are not reproducible and a compromised release can be installed without any change to the repository",
+      severity: "low",
+      recommendation: "Commit the package manager's lockfile (package-lock.json, pnpm-lock.yaml, Cargo.lock, poetry.lock, go.sum...)",
+    });
+  }
+
   // Calculate security score
   analysis.score = calculateSecurityScore(analysis);
 
@@ -353,10 +366,23 @@ export function getSecurityGrade(score: number): string {
   return "F";
 }
 
+/**
+ * Options for SECURITY.md generation
+ */
+export interface SecurityDocsOptions {
+  /** Include auth patterns, security dependencies and per-finding details (default: true) */
+  showDetails?: boolean;
+}
+
 /**
  * Generate security documentation
  */
-export function generateSecurityDocs(analysis: SecurityAnalysis, projectName: string): string {
+export function generateSecurityDocs(
+  analysis: SecurityAnalysis,
+  projectName: string,
+  options: SecurityDocsOptions = {}
+): string {
+  const { showDetails = true } = options;
   const lines: string[] = [];
   const grade = getSecurityGrade(analysis.score);
 
@@ -396,7 +422,7 @@ export function generateSecurityDocs(analysis: SecurityAnalysis, projectName: st
   lines.push("");
 
   // Auth patterns
-  if (analysis.authPatterns.length > 0) {
+  if (showDetails && analysis.authPatterns.length > 0) {
     lines.push("## Authentication");
     lines.push("");
     for (const auth of analysis.authPatterns) {
@@ -412,7 +438,7 @@ export function generateSecurityDocs(analysis: SecurityAnalysis, projectName: st
   }
 
   // Security dependencies
-  if (analysis.securityDeps.length > 0) {
+  if (showDetails && analysis.securityDeps.length > 0) {
     lines.push("## Security Dependencies");
     lines.push("");
     lines.push("| Package | Purpose | Type |");
@@ -429,7 +455,17 @@ export function generateSecurityDocs(analysis: SecurityAnalysis, projectName: st
   const mediumFindings = analysis.findings.filter(f => f.severity === "medium");
   const otherFindings = analysis.findings.filter(f => f.severity === "low" || f.severity === "info");
 
-  if (analysis.findings.length > 0) {
+  if (analysis.findings.length > 0 && !showDetails) {
+    lines.push("## Findings");
+    lines.push("");
+    lines.push("| Severity | Count |");
+    lines.push("|----------|-------|");
+    lines.push(`| Critical | ${criticalFindings.length} |`);
+    lines.push(`| High | ${highFindings.length} |`);
+    lines.push(`| Medium | ${mediumFindings.length} |`);
+    lines.push(`| Low / Info | ${otherFindings.length} |`);
+    lines.push("");
+  } else if (analysis.findings.length > 0) {
     lines.push("## Findings");
     lines.push("");
 
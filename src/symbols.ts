@@ -0,0 +1,287 @@
+/**
+ * Symbol Index
+ * Finds definitions (functions, classes, interfaces, types, exported constants)
+ * in TS/JS, Python, Go, Rust and Java sources so the agent can jump straight to
+ * `path:line` instead of grepping and reading whole files.
+ *
+ * Extraction is line-based pattern matching, not parsing: it is fast, needs no
+ * toolchain, and is right for the conventional one-definition-per-line layout.
+ */
+
+import { readFile } from "fs/promises";
+import { extname, join } from "path";
+import type { CodeSymbol, FileInfo, SymbolIndex } from "./types.js";
+import { escapeRegex } from "./utils.js";
+
+/** Files larger than this (usually generated or vendored) are not indexed */
+const MAX_INDEXED_FILE_BYTES = 512 * 1024;
+/** Longest source line shown in a reference */
+const MAX_REFERENCE_LINE_LENGTH = 160;
+
+type SymbolKind = CodeSymbol["kind"];
+
+/**
+ * A definition pattern. Named groups: `name` (required), `exp` (export marker),
+ * `container` (method receiver).
+ */
+interface SymbolRule {
+  pattern: RegExp;
+  /** Omitted for lines that only open a container, e.g. Rust `impl Foo` */
+  kind?: SymbolKind;
+  /** Applies to indented lines inside a class/impl body */
+  member?: boolean;
+  /** Following member definitions belong to this symbol */
+  opensContainer?: boolean;
+}
+
+interface LanguageRules {
+  extensions: string[];
+  rules: SymbolRule[];
+  isExported: (name: string, exportMarker: string | undefined) => boolean;
+}
+
+const JS_NAME = "[A-Za-z_$][\\w$]*";
+
+const LANGUAGES: LanguageRules[] = [
+  {
+    extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+    isExported: (_name, exp) => !!exp,
+    rules: [
+      { kind: "function", pattern: new RegExp(`^(?<exp>export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*(?<name>${JS_NAME})`) },
+      { kind: "class", pattern: new RegExp(`^(?<exp>export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:abstract\\s+)?class\\s+(?<name>${JS_NAME})`) },
+      { kind: "interface", pattern: new RegExp(`^(?<exp>export\\s+)?(?:declare\\s+)?interface\\s+(?<name>${JS_NAME})`) },
+      { kind: "type", pattern: new RegExp(`^(?<exp>export\\s+)?(?:declare\\s+)?type\\s+(?<name>${JS_NAME})\\s*(?:<[^=]*>)?\\s*=`) },
+      { kind: "enum", pattern: new RegExp(`^(?<exp>export\\s+)?(?:declare\\s+)?(?:const\\s+)?enum\\s+(?<name>${JS_NAME})`) },
+      {
+        kind: "function",
+        pattern: new RegExp(`^(?<exp>export\\s+)?(?:const|let)\\s+(?<name>${JS_NAME})\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|${JS_NAME}\\s*=>)`),
+      },
+      { kind: "constant", pattern: new RegExp(`^(?<exp>export\\s+)(?:declare\\s+)?(?:const|let|var)\\s+(?<name>${JS_NAME})`) },
+    ],
+  },
+  {
+    extensions: [".py"],
+    isExported: (name) => !name.startsWith("_"),
+    rules: [
+      { kind: "function", pattern: /^(?:async\s+)?def\s+(?<name>\w+)/ },
+      { kind: "class", pattern: /^class\s+(?<name>\w+)/, opensContainer: true },
+      { kind: "constant", pattern: /^(?<name>[A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=/ },
+      { kind: "method", pattern: /^\s+(?:async\s+)?def\s+(?<name>\w+)/, member: true },
+    ],
+  },
+  {
+    extensions: [".go"],
+    isExported: (name) => /^[A-Z]/.test(name),
+    rules: [
+      { kind: "method", pattern: /^func\s+\(\s*\w*\s*\*?(?<container>\w+)(?:\[[^\]]*\])?\s*\)\s*(?<name>\w+)/ },
+      { kind: "function", pattern: /^func\s+(?<name>\w+)/ },
+      { kind: "struct", pattern: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+struct\b/ },
+      { kind: "interface", pattern: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+interface\b/ },
+      { kind: "type", pattern: /^type\s+(?<name>\w+)/ },
+      { kind: "constant", pattern: /^(?:const|var)\s+(?<name>\w+)/ },
+    ],
+  },
+  {
+    extensions: [".rs"],
+    isExported: (_name, exp) => exp?.trim() === "pub",
+    rules: [
+      { kind: "function", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+(?<name>\w+)/ },
+      { kind: "struct", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?struct\s+(?<name>\w+)/ },
+      { kind: "enum", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?enum\s+(?<name>\w+)/ },
+      { kind: "trait", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+(?<name>\w+)/, opensContainer: true },
+      { kind: "type", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?type\s+(?<name>\w+)/ },
+      { kind: "constant", pattern: /^(?<exp>pub(?:\([^)]*\))?\s+)?(?:const|static)\s+(?:mut\s+)?(?<name>[A-Z_][A-Z0-9_]*)\s*:/ },
+      { pattern: /^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?(?<name>\w+)/, opensContainer: true },
+      {
+        kind: "method",
+        pattern: /^\s+(?<exp>pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(?<name>\w+)/,
+        member: true,
+      },
+    ],
+  },
+  {
+    extensions: [".java"],
+    isExported: (_name, exp) => !!exp,
+    rules: [
+      { kind: "class", pattern: /^(?<exp>public\s+)?(?:(?:abstract|final|sealed|non-sealed|static)\s+)*(?:class|record)\s+(?<name>\w+)/, opensContainer: true },
+      { kind: "interface", pattern: /^(?<exp>public\s+)?(?:(?:abstract|sealed|non-sealed)\s+)*@?interface\s+(?<name>\w+)/, opensContainer: true },
+      { kind: "enum", pattern: /^(?<exp>public\s+)?enum\s+(?<name>\w+)/, opensContainer: true },
+      {
+        kind: "method",
+        pattern: /^\s+(?!return\b|new\b|else\b|throw\b|case\b)(?<exp>public\s+)?(?:(?:protected|private|static|final|abstract|synchronized|native|default)\s+)*(?:<[^>]+>\s+)?[\w.<>[\], ?]+\s+(?<name>(?!if\b|for\b|while\b|switch\b|catch\b)\w+)\s*\(/,
+        member: true,
+      },
+    ],
+  },
+];
+
+const LANGUAGE_BY_EXTENSION = new Map(LANGUAGES.flatMap((lang) => lang.extensions.map((ext) => [ext, lang] as const)));
+
+/** Non-indented lines that don't end a class/impl body */
+const BODY_CONTINUATION = /^(?:[}\])]|#|\/\/|\/\*|\*|@)/;
+
+/**
+ * Whether a file is in a language the symbol index understands
+ */
+export function isIndexedSource(path: string): boolean {
+  return LANGUAGE_BY_EXTENSION.has(extname(path));
+}
+
+/**
+ * Extract definitions from one source file
+ */
+export function extractSymbols(path: string, content: string): CodeSymbol[] {
+  const language = LANGUAGE_BY_EXTENSION.get(extname(path));
+  if (!language) return [];
+
+  const symbols: CodeSymbol[] = [];
+  let container: string | undefined;
+  // Members sit at the indentation of the container's first member; deeper ones are nested code
+  let memberIndent: number | undefined;
+
+  content.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    const indent = line.length - line.trimStart().length;
+    const indented = indent > 0;
+    if (!indented && !BODY_CONTINUATION.test(line)) {
+      container = undefined;
+      memberIndent = undefined;
+    }
+
+    for (const rule of language.rules) {
+      if (rule.member ? !indented || !container || (memberIndent !== undefined && indent !== memberIndent) : indented) continue;
+      const groups = line.match(rule.pattern)?.groups;
+      if (!groups?.name) continue;
+      if (rule.member) memberIndent = indent;
+
+      if (rule.kind) {
+        symbols.push({
+          name: groups.name,
+          kind: rule.kind,
+          path,
+          line: index + 1,
+          exported: language.isExported(groups.name, groups.exp),
+          ...(rule.member && container ? { container } : groups.container ? { container: groups.container } : {}),
+        });
+      }
+      if (rule.opensContainer) {
+        container = groups.name;
+        memberIndent = undefined;
+      }
+      break;
+    }
+  });
+
+  return symbols;
+}
+
+/**
+ * Build the symbol index for scanned files
+ */
+export async function buildSymbolIndex(repoPath: string, files: FileInfo[]): Promise<SymbolIndex> {
+  const sources = files.filter((f) => !f.isDirectory && f.size <= MAX_INDEXED_FILE_BYTES && isIndexedSource(f.path));
+  const index: SymbolIndex = { files: [], symbols: [] };
+
+  for (const file of sources) {
+    try {
+      const content = await readFile(join(repoPath, file.path), "utf-8");
+      index.files.push(file.path);
+      index.symbols.push(...extractSymbols(file.path, content));
+    } catch {
+      // Unreadable file
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Definitions matching a name; "Container.name" narrows methods to their type
+ */
+export function findDefinitions(index: SymbolIndex, query: string, kind?: SymbolKind): CodeSymbol[] {
+  const dot = query.lastIndexOf(".");
+  const container = dot > 0 ? query.slice(0, dot) : undefined;
+  const name = dot > 0 ? query.slice(dot + 1) : query;
+
+  return index.symbols.filter(
+    (s) => s.name === name && (!container || s.container === container) && (!kind || s.kind === kind)
+  );
+}
+
+/**
+ * Last line a definition can span: the line before the next definition in the
+ * same file that is not one of its members (undefined when it runs to the end)
+ */
+export function symbolEndLine(index: SymbolIndex, symbol: CodeSymbol): number | undefined {
+  const following = index.symbols
+    .filter((s) => s.path === symbol.path && s.line > symbol.line && s.container !== symbol.name)
+    .map((s) => s.line);
+  return following.length > 0 ? Math.min(...following) - 1 : undefined;
+}
+
+/**
+ * Names close to a query, for "did you mean" hints
+ */
+export function suggestSymbols(index: SymbolIndex, query: string, limit = 10): string[] {
+  const needle = query.toLowerCase();
+  const names = index.symbols.map((s) => s.name).filter((name) => name.toLowerCase().includes(needle));
+  return [...new Set(names)].slice(0, limit);
+}
+
+/**
+ * Exported symbols in a file, or in every file under a directory
+ */
+export function listExports(index: SymbolIndex, path: string): CodeSymbol[] {
+  const target = path.replace(/^\.\//, "").replace(/\/+$/, "");
+  return index.symbols.filter(
+    (s) => s.exported && (!target || s.path === target || s.path.startsWith(`${target}/`))
+  );
+}
+
+/**
+ * A line that mentions a symbol
+ */
+export interface SymbolReference {
+  path: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * Whole-word mentions of a symbol in indexed files of the same languages as its
+ * definitions, excluding the definition lines themselves
+ */
+export async function findReferences(
+  repoPath: string,
+  index: SymbolIndex,
+  definitions: CodeSymbol[],
+  maxResults: number
+): Promise<SymbolReference[]> {
+  if (definitions.length === 0) return [];
+
+  const name = definitions[0].name;
+  const pattern = new RegExp(`(?<![\\w$])${escapeRegex(name)}(?![\\w$])`);
+  const languages = new Set(definitions.map((d) => LANGUAGE_BY_EXTENSION.get(extname(d.path))));
+  const definitionLines = new Set(definitions.map((d) => `${d.path}:${d.line}`));
+  const references: SymbolReference[] = [];
+
+  for (const file of index.files) {
+    if (!languages.has(LANGUAGE_BY_EXTENSION.get(extname(file)))) continue;
+
+    let content: string;
+    try {
+      content = await readFile(join(repoPath, file), "utf-8");
+    } catch {
+      continue;
+    }
+
+    const lines = content.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (!pattern.test(lines[i]) || definitionLines.has(`${file}:${i + 1}`)) continue;
+      references.push({ path: file, line: i + 1, text: lines[i].trim().slice(0, MAX_REFERENCE_LINE_LENGTH) });
+      if (references.length >= maxResults) return references;
+    }
+  }
+
+  return references;
+}
@@ -0,0 +1,248 @@
+/**
+ * Custom Document Templates
+ *
+ * Renders user-defined documents from `bootcamp.config.json` (`output.customDocs`).
+ * Templates use a small Handlebars-style syntax bound to the analysis results:
+ *
+ *   {{repoName}}                      - value lookup (dot paths allowed: {{stack.languages}})
+ *   {{#each firstTasks}}...{{/each}}  - loop; inside use {{title}}, {{this}} or {{@index}}
+ *   {{#if stack.hasDocker}}...{{else}}...{{/if}}
+ *   {{#unless deps}}...{{/unless}}
+ */
+
+import { readFile } from "fs/promises";
+import { isAbsolute, join } from "path";
+import type { RepoFacts, TechRadar } from "./types.js";
+import type { SecurityAnalysis } from "./security.js";
+import type { DependencyAnalysis } from "./deps.js";
+
+/**
+ * Data available to custom doc templates.
+ * RepoFacts fields are exposed at the top level ({{purpose}}, {{firstTasks}}),
+ * the other analyses under their own keys ({{security.score}}, {{radar.riskScore}}).
+ */
+export interface TemplateData {
+  facts: RepoFacts;
+  security?: SecurityAnalysis | null;
+  radar?: TechRadar | null;
+  deps?: DependencyAnalysis | null;
+}
+
+/**
+ * A custom document definition from config
+ */
+export interface CustomDocDefinition {
+  name: string;
+  /** Inline template text, or a path (relative to cwd) to a template file */
+  template: string;
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string }
+  | { type: "each"; path: string; body: TemplateNode[] }
+  | { type: "if"; path: string; negate: boolean; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+interface Frame {
+  value: unknown;
+  index?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([\w@.]+|else)(?:\s+([\w@.]+))?\s*\}\}/g;
+
+/**
+ * Parse a template into a node tree, validating block nesting
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: "each" | "if" }>; block: string; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.node.type === "if" && top.inElse ? top.node.elseBody : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [raw, sigil, name, arg] = match;
+    let start = match.index ?? 0;
+    let end = start + raw.length;
+
+    // Block tags on a line of their own don't leave blank lines behind
+    if (sigil || name === "else") {
+      const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+      const trailing = /^[ \t]*(\r?\n|$)/.exec(template.slice(end));
+      if (lineStart >= lastIndex && template.slice(lineStart, start).trim() === "" && trailing) {
+        start = lineStart;
+        end += trailing[0].length;
+      }
+    }
+
+    if (start > lastIndex) {
+      current().push({ type: "text", value: template.slice(lastIndex, start) });
+    }
+    lastIndex = end;
+
+    if (sigil === "#") {
+      if (!arg || !["each", "if", "unless"].includes(name)) {
+        throw new Error(`Unknown block "${raw}"`);
+      }
+      const node: Extract<TemplateNode, { type: "each" | "if" }> =
+        name === "each"
+          ? { type: "each", path: arg, body: [] }
+          : { type: "if", path: arg, negate: name === "unless", body: [], elseBody: [] };
+      current().push(node);
+      stack.push({ node, block: name, inElse: false });
+    } else if (sigil === "/") {
+      const top = stack.pop();
+      if (!top || top.block !== name) {
+        throw new Error(`Unexpected closing tag "${raw}"`);
+      }
+    } else if (name === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== "if" || top.inElse) {
+        throw new Error(`Unexpected {{else}}`);
+      }
+      top.inElse = true;
+    } else {
+      current().push({ type: "var", path: name });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed block "{{#${stack[stack.length - 1].block}}}"`);
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: "text", value: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Resolve a dot path against the frame stack, innermost scope first
+ */
+function lookup(path: string, frames: Frame[]): unknown {
+  const inner = frames[frames.length - 1];
+  if (path === "@index") return inner.index;
+  if (path === "this") return inner.value;
+
+  const [head, ...rest] = path.split(".");
+  const walk = (value: unknown, keys: string[]): unknown =>
+    keys.reduce<unknown>(
+      (acc, key) => (acc !== null && typeof acc === "object" ? (acc as Record<string, unknown>)[key] : undefined),
+      value
+    );
+
+  if (head === "this") return walk(inner.value, rest);
+
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const scope = frames[i].value;
+    if (scope !== null && typeof scope === "object" && head in scope) {
+      return walk((scope as Record<string, unknown>)[head], rest);
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value !== null && typeof value === "object") return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[]): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "var":
+        out += stringify(lookup(node.path, frames));
+        break;
+      case "each": {
+        const value = lookup(node.path, frames);
+        const items = Array.isArray(value)
+          ? value
+          : value !== null && typeof value === "object"
+            ? Object.values(value)
+            : [];
+        items.forEach((item, index) => {
+          out += renderNodes(node.body, [...frames, { value: item, index }]);
+        });
+        break;
+      }
+      case "if": {
+        const truthy = isTruthy(lookup(node.path, frames));
+        out += renderNodes(truthy !== node.negate ? node.body : node.elseBody, frames);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template string against a data object
+ * @throws Error if the template has malformed or unbalanced blocks
+ */
+export function renderTemplate(template: string, data: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), [{ value: data }]);
+}
+
+/**
+ * Build the data object exposed to custom doc templates
+ */
+export function buildTemplateData({ facts, security, radar, deps }: TemplateData): Record<string, unknown> {
+  return {
+    ...facts,
+    facts,
+    security: security ?? null,
+    radar: radar ?? null,
+    deps: deps ?? null,
+  };
+}
+
+/**
+ * Load template source: a file path if one exists, otherwise the inline template text
+ */
+async function loadTemplateSource(template: string): Promise<string> {
+  if (template.includes("{{") || template.includes("\n")) {
+    return template;
+  }
+  try {
+    return await readFile(isAbsolute(template) ? template : join(process.cwd(), template), "utf-8");
+  } catch {
+    return template;
+  }
+}
+
+/**
+ * Render all custom docs from config. Docs whose template fails to render are
+ * skipped with a warning so one bad template doesn't abort generation.
+ */
+export async function renderCustomDocs(
+  customDocs: CustomDocDefinition[],
+  data: TemplateData
+): Promise<{ name: string; content: string }[]> {
+  const context = buildTemplateData(data);
+  const docs: { name: string; content: string }[] = [];
+
+  for (const doc of customDocs) {
+    try {
+      const source = await loadTemplateSource(doc.template);
+      docs.push({ name: doc.name, content: renderTemplate(source, context) });
+    } catch (error: unknown) {
+      console.warn(`Custom doc ${doc.name} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return docs;
+}
@@ -6,11 +6,17 @@
 
 import { defineTool } from "@github/copilot-sdk";
 import type { Tool } from "@github/copilot-sdk";
-import { readFile, readdir, stat } from "fs/promises";
-import { isAbsolute, join, relative, resolve } from "path";
+import { existsSync } from "fs";
+import { readFile, stat } from "fs/promises";
+import { basename, isAbsolute, join, relative, resolve } from "path";
 import { exec, execFile } from "child_process";
 import { promisify } from "util";
-import { SKIP_DIRS } from "./utils.js";
+import { loadIgnoreRules, walkRepo, type IgnoreRules } from "./ignore.js";
+import { getBlameSummary, getCoChanges, getFileHistory, isShallowClone } from "./git-history.js";
+import { findDefinitions, findReferences, listExports, suggestSymbols, symbolEndLine } from "./symbols.js";
+import { formatRetrievalResults, searchRetrievalIndex } from "./retrieval.js";
+import { commandRejection, parseCommandLine, runSandboxedCommand } from "./sandbox.js";
+import type { CodeSymbol, RetrievalIndex, RunCommandSettings, SymbolIndex } from "./types.js";
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -21,10 +27,45 @@ const execFileAsync = promisify(execFile);
 export interface ToolContext {
   repoPath: string;
   verbose: boolean;
+  /** Symbol index from scanRepo; the symbol tools report it missing when absent */
+  symbols?: SymbolIndex;
+  /** Retrieval index for search_relevant; the tool reports it missing when absent */
+  retrieval?: RetrievalIndex;
+  /** Cap on bytes read_file returns over the session (default: DEFAULT_MAX_READ_BYTES) */
+  maxReadBytes?: number;
+  /** Bytes read_file has returned so far; updated by the tool */
+  readBytes?: number;
+  /** Registers run_command when enabled */
+  runCommand?: RunCommandSettings;
+  /** Ignore rules for list_files, search and get_repo_metadata; loaded on first use when absent */
+  ignore?: IgnoreRules;
   onToolCall?: (name: string, args: unknown) => void;
   onToolResult?: (name: string, result: string) => void;
 }
 
+/**
+ * Ignore rules for the tools: the scan's, or loaded on first use
+ */
+async function ignoreRules(context: ToolContext): Promise<IgnoreRules> {
+  context.ignore ??= await loadIgnoreRules(context.repoPath);
+  return context.ignore;
+}
+
+/**
+ * ripgrep flags that apply .bootcampignore and skip linguist-generated/vendored files
+ */
+function ripgrepIgnoreArgs(repoPath: string, rules: IgnoreRules): string[] {
+  const args: string[] = [];
+  const bootcampignore = join(repoPath, ".bootcampignore");
+  if (existsSync(bootcampignore)) {
+    args.push("--ignore-file", bootcampignore);
+  }
+  for (const pattern of rules.generated) {
+    if (!pattern.negated) args.push("--glob", `!${pattern.glob}`);
+  }
+  return args;
+}
+
 /**
  * Validates that a target path stays within the repository root to prevent path traversal.
  */
@@ -40,12 +81,58 @@ export function safePath(repoPath: string, targetPath: string): string {
   return resolvedPath;
 }
 
+/** Bytes read_file may return over one session unless ToolContext.maxReadBytes says otherwise */
+export const DEFAULT_MAX_READ_BYTES = 2 * 1024 * 1024;
+/** Files averaging longer lines than this are minified or generated */
+const MINIFIED_AVG_LINE_LENGTH = 300;
+/** Files shorter than this are never treated as minified */
+const MINIFIED_MIN_SIZE = 5000;
+/** Longer lines are clipped in read_file output */
+const MAX_LINE_LENGTH = 2000;
+
+/**
+ * Why a file should not be shown to the model, if it is binary or minified
+ */
+function unreadableReason(path: string, content: string, lineCount: number): string | null {
+  if (content.slice(0, 8000).includes("\0")) {
+    return `${path} appears to be a binary file; not reading it.`;
+  }
+  const avgLineLength = Math.round(content.length / lineCount);
+  if (/\.min\.(js|css)$/.test(path) || (content.length > MINIFIED_MIN_SIZE && avgLineLength > MINIFIED_AVG_LINE_LENGTH)) {
+    return `${path} appears to be minified or generated (average line length ${avgLineLength}); not reading it. Read its source instead.`;
+  }
+  return null;
+}
+
 /**
- * Read a file from the repository
+ * Resolve the line range of a symbol defined in a file
+ */
+function resolveSymbolRange(
+  context: ToolContext,
+  path: string,
+  symbol: string
+): { start: number; end?: number } | { error: string } {
+  if (!context.symbols) {
+    return { error: "Symbol index not available for this repository; use startLine/endLine instead." };
+  }
+
+  const target = path.replace(/^\.\//, "");
+  const definitions = findDefinitions(context.symbols, symbol);
+  const definition = definitions.find((d) => d.path === target);
+  if (!definition) {
+    const elsewhere = definitions.map((d) => `${d.path}:${d.line}`).join(", ");
+    return { error: `No definition of ${symbol} in ${target}.${elsewhere ? ` Defined at: ${elsewhere}` : ""}` };
+  }
+
+  return { start: definition.line, end: symbolEndLine(context.symbols, definition) };
+}
+
+/**
+ * Read a file, a line range or one symbol, with line numbers
  */
 function createReadFileTool(context: ToolContext): Tool<any> {
   return defineTool("read_file", {
-    description: "Read the contents of a file from the repository. Use this to examine source code, configuration files, and documentation.",
+    description: "Read a file from the repository with line numbers. Use startLine/endLine to read part of a large file, or symbol to read one function or class. Use this to examine source code, configuration files, and documentation.",
     parameters: {
       type: "object",
     properties: {
@@ -53,6 +140,18 @@ function createReadFileTool(context: ToolContext): Tool<any> {
         type: "string",
         description: "Path to the file relative to repository root (e.g., 'src/index.ts', 'package.json')",
       },
+      startLine: {
+        type: "number",
+        description: "First line to read, 1-based (default: 1)",
+      },
+      endLine: {
+        type: "number",
+        description: "Last line to read, inclusive (default: end of file)",
+      },
+      symbol: {
+        type: "string",
+        description: "Read only this function, class or type, e.g. 'analyzeRepo' or 'Server.start' (overrides startLine/endLine)",
+      },
       maxLines: {
         type: "number",
         description: "Maximum number of lines to return (default: 500)",
@@ -60,27 +159,83 @@ function createReadFileTool(context: ToolContext): Tool<any> {
     },
     required: ["path"],
   },
-  handler: async (args: { path: string; maxLines?: number }) => {
-    const { path, maxLines = 500 } = args;
+  handler: async (args: { path: string; startLine?: number; endLine?: number; symbol?: string; maxLines?: number }) => {
+    const { path, symbol, maxLines = 500 } = args;
     const fullPath = safePath(context.repoPath, path);
 
-    context.onToolCall?.("read_file", { path });
+    context.onToolCall?.("read_file", { path, startLine: args.startLine, endLine: args.endLine, symbol });
+
+    const fail = (message: string) => {
+      context.onToolResult?.("read_file", message);
+      return { textResultForLlm: message, resultType: "failure" as const };
+    };
+
+    const maxReadBytes = context.maxReadBytes ?? DEFAULT_MAX_READ_BYTES;
+    const remainingBytes = maxReadBytes - (context.readBytes ?? 0);
+    if (remainingBytes <= 0) {
+      return fail(`Read budget exhausted (${maxReadBytes} bytes this session). Work from what you have read, or use search, search_relevant or find_definition for targeted lookups.`);
+    }
 
+    let content: string;
     try {
-      const content = await readFile(fullPath, "utf-8");
-      const lines = content.split("\n");
-      const truncated = lines.slice(0, maxLines).join("\n");
-      const result = lines.length > maxLines
-        ? `${truncated}\n\n... (truncated, showing ${maxLines} of ${lines.length} lines)`
-        : truncated;
-
-      context.onToolResult?.("read_file", `Read ${lines.length} lines from ${path}`);
-      return { textResultForLlm: result, resultType: "success" as const };
+      content = await readFile(fullPath, "utf-8");
     } catch (error: unknown) {
-      const errorMsg = `Error reading file ${path}: ${(error as Error).message}`;
-      context.onToolResult?.("read_file", errorMsg);
-      return { textResultForLlm: errorMsg, resultType: "failure" as const };
+      return fail(`Error reading file ${path}: ${(error as Error).message}`);
+    }
+    if (content === "") {
+      context.onToolResult?.("read_file", `Read 0 lines from ${path}`);
+      return { textResultForLlm: "", resultType: "success" as const };
+    }
+
+    const lines = content.split("\n");
+    const unreadable = unreadableReason(path, content, lines.length);
+    if (unreadable) return fail(unreadable);
+
+    let start = Math.max(1, Math.floor(args.startLine ?? 1));
+    let end = Math.floor(args.endLine ?? lines.length);
+    if (symbol) {
+      const range = resolveSymbolRange(context, path, symbol);
+      if ("error" in range) return fail(range.error);
+      start = range.start;
+      end = range.end ?? lines.length;
+      // Drop blank lines between the symbol and the next definition
+      while (end > start && !lines[end - 1].trim()) end--;
+    }
+    if (start > lines.length) {
+      return fail(`startLine ${start} is past the end of ${path} (${lines.length} lines)`);
+    }
+    end = Math.min(end, lines.length, start + maxLines - 1);
+    if (end < start) {
+      return fail(`endLine ${end} is before startLine ${start}`);
+    }
+
+    // Number lines so citations are exact; stop early if the read budget runs out
+    const width = String(end).length;
+    const numbered: string[] = [];
+    let bytes = 0;
+    for (let n = start; n <= end; n++) {
+      const text = lines[n - 1].length > MAX_LINE_LENGTH
+        ? `${lines[n - 1].slice(0, MAX_LINE_LENGTH)} ... (${lines[n - 1].length - MAX_LINE_LENGTH} more characters)`
+        : lines[n - 1];
+      const line = `${String(n).padStart(width)} | ${text}`;
+      const lineBytes = Buffer.byteLength(line) + 1;
+      if (bytes + lineBytes > remainingBytes && numbered.length > 0) break;
+      numbered.push(line);
+      bytes += lineBytes;
     }
+    const shownEnd = start + numbered.length - 1;
+    context.readBytes = (context.readBytes ?? 0) + bytes;
+
+    let result = numbered.join("\n");
+    if (shownEnd < end) {
+      result += `\n\n... (read budget reached: showing lines ${start}-${shownEnd} of ${lines.length}; ${maxReadBytes} bytes used this session)`;
+    } else if (start > 1 || end < lines.length) {
+      const more = end < lines.length && !symbol ? `; continue with startLine=${end + 1}` : "";
+      result += `\n\n... (showing lines ${start}-${end} of ${lines.length}${more})`;
+    }
+
+    context.onToolResult?.("read_file", `Read ${numbered.length} lines from ${path}`);
+    return { textResultForLlm: result, resultType: "success" as const };
   },
   });
 }
@@ -120,45 +275,20 @@ function createListFilesTool(context: ToolContext): Tool<any> {
 
     try {
       const results: string[] = [];
-
-      async function scanDir(dir: string, depth: number = 0): Promise<void> {
-        if (results.length >= maxResults) return;
-
-        const entries = await readdir(dir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          if (results.length >= maxResults) break;
-
-          // Skip common unimportant directories
-          if (entry.isDirectory() && SKIP_DIRS.has(entry.name)) {
-            continue;
-          }
-
-          const entryPath = join(dir, entry.name);
-          const relativePath = relative(context.repoPath, entryPath);
-
-          // Apply pattern filter if specified
-          if (pattern) {
-            const regex = new RegExp(pattern.replace(/\*/g, ".*").replace(/\?/g, "."));
-            if (!regex.test(entry.name)) {
-              if (entry.isDirectory() && recursive) {
-                await scanDir(entryPath, depth + 1);
-              }
-              continue;
-            }
-          }
-
-          const prefix = entry.isDirectory() ? "[dir]  " : "[file] ";
-          results.push(`${prefix}${relativePath}`);
-
-          if (entry.isDirectory() && recursive) {
-            await scanDir(entryPath, depth + 1);
-          }
-        }
+      const regex = pattern ? new RegExp(pattern.replace(/\*/g, ".*").replace(/\?/g, ".")) : null;
+
+      // Ignored paths (.gitignore, .bootcampignore, generated/vendored) are never listed
+      const rules = await ignoreRules(context);
+      for await (const entry of walkRepo(context.repoPath, rules, relative(context.repoPath, fullPath), recursive)) {
+        // Apply pattern filter if specified
+        if (regex && !regex.test(basename(entry.path))) continue;
+
+        const prefix = entry.isDirectory ? "[dir]  " : "[file] ";
+        results.push(`${prefix}${entry.path}`);
+        // Stop before the walk descends any further
+        if (results.length >= maxResults) break;
       }
 
-      await scanDir(fullPath);
-
       const result = results.length > 0
         ? results.join("\n")
         : "No files found matching criteria";
@@ -213,9 +343,11 @@ function createSearchTool(context: ToolContext): Tool<any> {
       if (filePattern) {
         rgArgs.push("--glob", filePattern);
       }
-      rgArgs.push(pattern, searchPath);
+      // ripgrep honors .gitignore itself; add .bootcampignore and generated/vendored files
+      rgArgs.push(...ripgrepIgnoreArgs(context.repoPath, await ignoreRules(context)));
+      rgArgs.push("--", pattern, searchPath);
 
-      const { stdout } = await execFileAsync("rg", rgArgs, { timeout: 30000 });
+      const { stdout } = await execFileAsync("rg", rgArgs, { timeout: 30000, cwd: context.repoPath });
 
       // Make paths relative
       const lines = stdout.split("\n").filter(Boolean).map(line => {
@@ -262,29 +394,20 @@ function createRepoMetadataTool(context: ToolContext): Tool<any> {
       let totalFiles = 0;
       let totalSize = 0;
 
-      async function countFiles(dir: string): Promise<void> {
-        const entries = await readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          if (entry.isDirectory()) {
-            if (!["node_modules", ".git", "dist", "build", "vendor"].includes(entry.name)) {
-              await countFiles(join(dir, entry.name));
-            }
-          } else {
-            totalFiles++;
-            const ext = entry.name.includes(".") ? entry.name.split(".").pop()! : "no-ext";
-            extCounts[ext] = (extCounts[ext] || 0) + 1;
-            try {
-              const stats = await stat(join(dir, entry.name));
-              totalSize += stats.size;
-            } catch {
-              // Ignore unreadable files
-            }
-          }
+      for await (const entry of walkRepo(context.repoPath, await ignoreRules(context))) {
+        if (entry.isDirectory) continue;
+        totalFiles++;
+        const name = basename(entry.path);
+        const ext = name.includes(".") ? name.split(".").pop()! : "no-ext";
+        extCounts[ext] = (extCounts[ext] || 0) + 1;
+        try {
+          const stats = await stat(join(context.repoPath, entry.path));
+          totalSize += stats.size;
+        } catch {
+          // Ignore unreadable files
         }
       }
 
-      await countFiles(context.repoPath);
-
       // Get git info
       let gitInfo = "";
       try {
@@ -323,6 +446,419 @@ ${gitInfo}`;
   });
 }
 
+/** Appended to git tool results when the clone has truncated history */
+const SHALLOW_CLONE_NOTE =
+  "Note: this is a shallow clone, so older history is missing and the oldest commit shown also owns every older line. Rerun bootcamp with --full-clone for complete history.";
+
+/**
+ * Append the shallow-clone note when history is truncated
+ */
+async function withHistoryNote(context: ToolContext, text: string): Promise<string> {
+  return (await isShallowClone(context.repoPath)) ? `${text}\n\n${SHALLOW_CLONE_NOTE}` : text;
+}
+
+/**
+ * Show recent commits for a path
+ */
+function createGitLogTool(context: ToolContext): Tool<any> {
+  return defineTool("git_log", {
+  description: "Show recent commits (hash, date, author, subject) that touched a file or directory. Use this to learn why code was added and how actively it changes.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File or directory relative to repository root (default: entire repository)",
+      },
+      maxCount: {
+        type: "number",
+        description: "Maximum number of commits (default: 20)",
+      },
+    },
+  },
+  handler: async (args: { path?: string; maxCount?: number }) => {
+    const { path = "", maxCount = 20 } = args;
+    safePath(context.repoPath, path);
+
+    context.onToolCall?.("git_log", { path, maxCount });
+
+    try {
+      const commits = await getFileHistory(context.repoPath, path, maxCount);
+      const result = commits.length > 0
+        ? commits.map((c) => `${c.sha} ${c.date} ${c.author}: ${c.subject}`).join("\n")
+        : `No commits found for ${path || "repository"}`;
+
+      context.onToolResult?.("git_log", `Found ${commits.length} commits`);
+      return { textResultForLlm: await withHistoryNote(context, result), resultType: "success" as const };
+    } catch (error: unknown) {
+      const errorMsg = `Error reading git history for ${path || "repository"}: ${(error as Error).message}`;
+      context.onToolResult?.("git_log", errorMsg);
+      return { textResultForLlm: errorMsg, resultType: "failure" as const };
+    }
+  },
+  });
+}
+
+/**
+ * Summarize git blame for a file or line range
+ */
+function createGitBlameTool(context: ToolContext): Tool<any> {
+  return defineTool("git_blame", {
+  description: "Summarize who last changed each line of a file (or a line range): lines per author and the commits responsible. Use this to find who knows a module and which change introduced code.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File path relative to repository root",
+      },
+      startLine: {
+        type: "number",
+        description: "First line to blame (default: 1)",
+      },
+      endLine: {
+        type: "number",
+        description: "Last line to blame (default: end of file)",
+      },
+    },
+    required: ["path"],
+  },
+  handler: async (args: { path: string; startLine?: number; endLine?: number }) => {
+    const { path, startLine, endLine } = args;
+    safePath(context.repoPath, path);
+
+    context.onToolCall?.("git_blame", { path, startLine, endLine });
+
+    try {
+      const blame = await getBlameSummary(context.repoPath, path, startLine, endLine);
+      const range = startLine !== undefined || endLine !== undefined ? ` lines ${startLine ?? 1}-${endLine ?? "end"}` : "";
+      const authors = blame.authors
+        .map((a) => `  ${a.name}: ${a.lines} lines (${Math.round((a.lines / blame.totalLines) * 100)}%)`)
+        .join("\n");
+      const commits = blame.commits
+        .map((c) => `  ${c.sha} ${c.date} ${c.author}: ${c.summary} (lines ${c.ranges.join(", ")})${c.boundary ? " [oldest available commit]" : ""}`)
+        .join("\n");
+      const result = `Blame for ${path}${range} (${blame.totalLines} lines)\n\nAuthors:\n${authors}\n\nCommits:\n${commits}`;
+
+      context.onToolResult?.("git_blame", `Blamed ${blame.totalLines} lines of ${path}`);
+      return { textResultForLlm: await withHistoryNote(context, result), resultType: "success" as const };
+    } catch (error: unknown) {
+      const errorMsg = `Error running git blame on ${path}: ${(error as Error).message}`;
+      context.onToolResult?.("git_blame", errorMsg);
+      return { textResultForLlm: errorMsg, resultType: "failure" as const };
+    }
+  },
+  });
+}
+
+/**
+ * Find files that usually change together with a path
+ */
+function createGitCoChangeTool(context: ToolContext): Tool<any> {
+  return defineTool("git_co_changes", {
+  description: "List files that were most often changed in the same commits as a file or directory. Use this to find hidden coupling and what else to update when changing it.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File or directory relative to repository root",
+      },
+      maxCommits: {
+        type: "number",
+        description: "How many recent commits touching the path to examine (default: 200)",
+      },
+      maxResults: {
+        type: "number",
+        description: "Maximum number of files to return (default: 15)",
+      },
+    },
+    required: ["path"],
+  },
+  handler: async (args: { path: string; maxCommits?: number; maxResults?: number }) => {
+    const { path, maxCommits = 200, maxResults = 15 } = args;
+    safePath(context.repoPath, path);
+
+    context.onToolCall?.("git_co_changes", { path, maxCommits });
+
+    try {
+      const { commits, files } = await getCoChanges(context.repoPath, path, maxCommits, maxResults);
+      const result = files.length > 0
+        ? `Files changed together with ${path} (across ${commits} commits):\n` +
+          files.map((f) => `  ${f.path}: ${f.count} of ${commits} commits`).join("\n")
+        : `No co-changed files found for ${path} (${commits} commits examined)`;
+
+      context.onToolResult?.("git_co_changes", `Found ${files.length} co-changed files`);
+      return { textResultForLlm: await withHistoryNote(context, result), resultType: "success" as const };
+    } catch (error: unknown) {
+      const errorMsg = `Error reading co-changes for ${path}: ${(error as Error).message}`;
+      context.onToolResult?.("git_co_changes", errorMsg);
+      return { textResultForLlm: errorMsg, resultType: "failure" as const };
+    }
+  },
+  });
+}
+
+const SYMBOL_KINDS: CodeSymbol["kind"][] = ["function", "method", "class", "interface", "type", "enum", "struct", "trait", "constant"];
+
+const NO_SYMBOL_INDEX = "Symbol index not available for this repository; use the search tool instead.";
+
+/**
+ * Format a symbol as a citable location, e.g. "src/a.ts:12 function parse (exported)"
+ */
+function formatSymbol(symbol: CodeSymbol): string {
+  const name = symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+  return `${symbol.path}:${symbol.line} ${symbol.kind} ${name}${symbol.exported ? " (exported)" : ""}`;
+}
+
+/**
+ * Explain a failed symbol lookup, with close names if any
+ */
+function noDefinitionMessage(index: SymbolIndex, name: string): string {
+  const similar = suggestSymbols(index, name.split(".").pop() ?? name);
+  return `No definition found for ${name}.${similar.length > 0 ? ` Similar symbols: ${similar.join(", ")}` : ""}`;
+}
+
+/**
+ * Look up where a symbol is defined
+ */
+function createFindDefinitionTool(context: ToolContext): Tool<any> {
+  return defineTool("find_definition", {
+  description: "Find where a function, class, interface, type or exported constant is defined, as path:line. Faster and more precise than search for known names. Use 'Type.method' to narrow methods.",
+  parameters: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Symbol name, e.g. 'analyzeRepo' or 'Server.start'",
+      },
+      kind: {
+        type: "string",
+        enum: SYMBOL_KINDS,
+        description: "Only return definitions of this kind",
+      },
+    },
+    required: ["name"],
+  },
+  handler: async (args: { name: string; kind?: CodeSymbol["kind"] }) => {
+    const { name, kind } = args;
+
+    context.onToolCall?.("find_definition", { name, kind });
+
+    if (!context.symbols) {
+      context.onToolResult?.("find_definition", NO_SYMBOL_INDEX);
+      return { textResultForLlm: NO_SYMBOL_INDEX, resultType: "failure" as const };
+    }
+
+    const definitions = findDefinitions(context.symbols, name, kind);
+    const result = definitions.length > 0
+      ? definitions.map(formatSymbol).join("\n")
+      : noDefinitionMessage(context.symbols, name);
+
+    context.onToolResult?.("find_definition", `Found ${definitions.length} definitions`);
+    return { textResultForLlm: result, resultType: "success" as const };
+  },
+  });
+}
+
+/**
+ * Find lines that mention a symbol
+ */
+function createFindReferencesTool(context: ToolContext): Tool<any> {
+  return defineTool("find_references", {
+  description: "Find where an indexed symbol is used: whole-word matches as path:line with the line text, excluding its definition. Use this to see callers and importers.",
+  parameters: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Symbol name, e.g. 'analyzeRepo' or 'Server.start'",
+      },
+      maxResults: {
+        type: "number",
+        description: "Maximum number of references (default: 50)",
+      },
+    },
+    required: ["name"],
+  },
+  handler: async (args: { name: string; maxResults?: number }) => {
+    const { name, maxResults = 50 } = args;
+
+    context.onToolCall?.("find_references", { name });
+
+    if (!context.symbols) {
+      context.onToolResult?.("find_references", NO_SYMBOL_INDEX);
+      return { textResultForLlm: NO_SYMBOL_INDEX, resultType: "failure" as const };
+    }
+
+    try {
+      const definitions = findDefinitions(context.symbols, name);
+      if (definitions.length === 0) {
+        context.onToolResult?.("find_references", "Symbol not found");
+        return { textResultForLlm: noDefinitionMessage(context.symbols, name), resultType: "success" as const };
+      }
+
+      const references = await findReferences(context.repoPath, context.symbols, definitions, maxResults);
+      const defined = `Defined at: ${definitions.map((d) => `${d.path}:${d.line}`).join(", ")}`;
+      const result = references.length > 0
+        ? `${defined}\n\nReferences (${references.length}${references.length >= maxResults ? "+" : ""}):\n` +
+          references.map((r) => `${r.path}:${r.line}: ${r.text}`).join("\n")
+        : `${defined}\n\nNo references found outside the definition.`;
+
+      context.onToolResult?.("find_references", `Found ${references.length} references`);
+      return { textResultForLlm: result, resultType: "success" as const };
+    } catch (error: unknown) {
+      const errorMsg = `Error finding references to ${name}: ${(error as Error).message}`;
+      context.onToolResult?.("find_references", errorMsg);
+      return { textResultForLlm: errorMsg, resultType: "failure" as const };
+    }
+  },
+  });
+}
+
+/**
+ * List the public surface of a file or directory
+ */
+function createListExportsTool(context: ToolContext): Tool<any> {
+  return defineTool("list_exports", {
+  description: "List the exported (public) symbols of a file or of every file under a directory, as path:line. Use this to learn a module's API without reading it.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File or directory relative to repository root (default: entire repository)",
+      },
+      maxResults: {
+        type: "number",
+        description: "Maximum number of symbols (default: 200)",
+      },
+    },
+  },
+  handler: async (args: { path?: string; maxResults?: number }) => {
+    const { path = "", maxResults = 200 } = args;
+    safePath(context.repoPath, path);
+
+    context.onToolCall?.("list_exports", { path });
+
+    if (!context.symbols) {
+      context.onToolResult?.("list_exports", NO_SYMBOL_INDEX);
+      return { textResultForLlm: NO_SYMBOL_INDEX, resultType: "failure" as const };
+    }
+
+    const exports = listExports(context.symbols, path);
+    const shown = exports.slice(0, maxResults).map(formatSymbol).join("\n");
+    const result = exports.length === 0
+      ? `No exported symbols found in ${path || "repository"}`
+      : exports.length > maxResults
+        ? `${shown}\n\n... (showing ${maxResults} of ${exports.length} exports)`
+        : shown;
+
+    context.onToolResult?.("list_exports", `Found ${exports.length} exports`);
+    return { textResultForLlm: result, resultType: "success" as const };
+  },
+  });
+}
+
+const NO_RETRIEVAL_INDEX = "Retrieval index not available for this repository; use the search tool instead.";
+
+/**
+ * Rank code and docs by relevance to a natural-language query
+ */
+function createSearchRelevantTool(context: ToolContext): Tool<any> {
+  return defineTool("search_relevant", {
+  description: "Find the code and documentation most relevant to a natural-language question (e.g. 'where are retries configured'), ranked across the whole repository. Returns line ranges with their text. Use this when you don't know which file to open.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "What you are looking for, in words or identifiers",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of chunks to return (default: 5, max: 20)",
+      },
+    },
+    required: ["query"],
+  },
+  handler: async (args: { query: string; limit?: number }) => {
+    const { query } = args;
+    const limit = Math.min(Math.max(args.limit ?? 5, 1), 20);
+
+    context.onToolCall?.("search_relevant", { query, limit });
+
+    if (!context.retrieval) {
+      context.onToolResult?.("search_relevant", NO_RETRIEVAL_INDEX);
+      return { textResultForLlm: NO_RETRIEVAL_INDEX, resultType: "failure" as const };
+    }
+
+    const results = searchRetrievalIndex(context.retrieval, query, limit);
+    const result = results.length > 0
+      ? await formatRetrievalResults(context.repoPath, results)
+      : `No indexed code or docs match: ${query}`;
+
+    context.onToolResult?.("search_relevant", `Found ${results.length} chunks`);
+    return { textResultForLlm: result, resultType: "success" as const };
+  },
+  });
+}
+
+/**
+ * Run an allowlisted read-only command, e.g. to check `npm run` or `npm ls` output
+ */
+function createRunCommandTool(context: ToolContext): Tool<any> {
+  return defineTool("run_command", {
+  description: "Run an allowlisted read-only command in the repository (e.g. 'npm run', 'npm ls --depth 0', 'go env GOPATH', '<tool> --help') to verify quickstart commands. No shell, no network, output is capped.",
+  parameters: {
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        description: "Command line, e.g. 'npm run' (no pipes, redirects or chaining)",
+      },
+      cwd: {
+        type: "string",
+        description: "Directory relative to repository root to run in (default: repository root)",
+      },
+    },
+    required: ["command"],
+  },
+  handler: async (args: { command: string; cwd?: string }) => {
+    const { command, cwd = "" } = args;
+    const fullPath = safePath(context.repoPath, cwd);
+
+    context.onToolCall?.("run_command", { command, cwd });
+
+    const fail = (message: string) => {
+      context.onToolResult?.("run_command", message);
+      return { textResultForLlm: message, resultType: "failure" as const };
+    };
+
+    let argv: string[];
+    try {
+      argv = parseCommandLine(command);
+    } catch (error: unknown) {
+      return fail((error as Error).message);
+    }
+    const rejection = commandRejection(argv, context.runCommand);
+    if (rejection) return fail(rejection);
+
+    try {
+      const run = await runSandboxedCommand(argv, fullPath, context.runCommand);
+      const status = run.timedOut ? "timed out" : `exit ${run.exitCode ?? "unknown"}`;
+      const result = `$ ${argv.join(" ")}\n(${status})\n${run.output || "(no output)"}` +
+        (run.truncated ? "\n\n... (output truncated)" : "");
+
+      context.onToolResult?.("run_command", `${argv[0]}: ${status}`);
+      return { textResultForLlm: result, resultType: "success" as const };
+    } catch (error: unknown) {
+      return fail(`Error running ${argv.join(" ")}: ${(error as Error).message}`);
+    }
+  },
+  });
+}
+
 /**
  * Get all tools for session creation
  */
@@ -332,5 +868,13 @@ export function getRepoTools(context: ToolContext): Tool<any>[] {
     createListFilesTool(context),
     createSearchTool(context),
     createRepoMetadataTool(context),
+    createGitLogTool(context),
+    createGitBlameTool(context),
+    createGitCoChangeTool(context),
+    createFindDefinitionTool(context),
+    createFindReferencesTool(context),
+    createListExportsTool(context),
+    createSearchRelevantTool(context),
+    ...(context.runCommand?.enabled ? [createRunCommandTool(context)] : []),
   ];
 }
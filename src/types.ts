@@ -3,6 +3,7 @@
  */
 
 import type { OutputFormat } from "./formatter.js";
+import type { IgnoreRules } from "./ignore.js";
 
 // CLI Options
 export interface BootcampOptions {
@@ -18,6 +19,7 @@ export interface BootcampOptions {
   jsonOnly?: boolean;
   stats?: boolean;
   fast?: boolean;
+  sectioned?: boolean;
   // New features
   interactive?: boolean;
   transcript?: boolean;
@@ -34,6 +36,62 @@ export interface BootcampOptions {
   watchInterval?: number;
   noCache?: boolean;
   repoPrompts?: string;
+  prompts?: PromptOverrides;
+  offline?: boolean;
+  provider?: ProviderSettings;
+  /** Write every LLM session of this run to a recording file */
+  record?: string;
+  /** Serve LLM sessions from a recording file instead of a model */
+  replay?: string;
+  maxToolCalls?: number;
+  maxTokens?: number;
+  /** Analysis time budget in seconds */
+  timeout?: number;
+  runCommand?: RunCommandSettings;
+  /** Workspace package (name or path) the bootcamp is scoped to */
+  package?: string;
+  /** Subdirectory the bootcamp is scoped to, checked out sparsely */
+  path?: string;
+  /** Branch, tag, commit SHA or pr/N to analyze */
+  ref?: string;
+}
+
+// LLM backend selection (--provider / bootcamp.config.json "provider")
+export interface ProviderSettings {
+  name: "copilot" | "openai";
+  /** OpenAI-compatible server URL, e.g. http://localhost:11434/v1 (defaults to OPENAI_BASE_URL) */
+  baseUrl?: string;
+  /** API key (defaults to OPENAI_API_KEY, sent only to api.openai.com) */
+  apiKey?: string;
+  /** Environment variable holding the API key, for servers other than api.openai.com */
+  apiKeyEnv?: string;
+  /** Models to try in order, overriding the provider defaults */
+  models?: string[];
+}
+
+// Opt-in run_command agent tool (--allow-commands / bootcamp.config.json "runCommand")
+export interface RunCommandSettings {
+  enabled?: boolean;
+  /** Extra allowlist entries: an exact command, or a prefix ending in "..." that accepts more arguments */
+  allow?: string[];
+  /** Per-command timeout in seconds (default: 20) */
+  timeoutSeconds?: number;
+}
+
+// Prompt overrides from bootcamp.config.json
+export interface PromptOverrides {
+  system?: string;
+  analysis?: string;
+  /** "append" (default) adds to the built-in prompts, "replace" swaps them out */
+  mode?: "append" | "replace";
+}
+
+// Prompts actually sent to the model, recorded in repo_facts.json
+export interface EffectivePrompts {
+  system: string;
+  analysis: string;
+  /** Layers that contributed, e.g. "built-in", "bootcamp.config.json (append)", ".bootcamp-prompts.md" */
+  sources: string[];
 }
 
 // Template style pack
@@ -104,6 +162,16 @@ export interface Transcript {
   messages: ChatMessage[];
 }
 
+// Hosting service behind a remote; "git" is a plain git server or a file:// remote
+export type RepoHost = "github" | "gitlab" | "bitbucket" | "gitea" | "git";
+
+// A self-hosted server from the config's `hosts` map
+export interface HostSettings {
+  type: RepoHost;
+  /** Environment variable holding this server's access token; without it no token is sent */
+  tokenEnv?: string;
+}
+
 // Parsed repo URL
 export interface RepoInfo {
   owner: string;
@@ -112,6 +180,33 @@ export interface RepoInfo {
   branch: string;
   fullName: string;
   commitSha?: string;
+  /** Hosting service, detected from the hostname; GitHub when absent */
+  host?: RepoHost;
+  /** URL passed to git clone, when it is not `${url}.git` (ssh, file:// and plain git remotes) */
+  cloneUrl?: string;
+  /** Directory the analysis is scoped to, relative to the clone root (a workspace package or --path) */
+  subdir?: string;
+  /** Ref checked out with --ref (branch, tag, commit SHA or pr/N) instead of the default branch */
+  ref?: string;
+  /**
+   * Environment variable whose token may be sent to this host. Only set for the
+   * exact public hostnames and configured self-hosted servers, and never over http.
+   */
+  tokenEnv?: string;
+}
+
+// Where the analyzed repository lives, for clone commands and file links in generated docs
+export interface RepoLocation {
+  host: RepoHost;
+  cloneUrl: string;
+  /** Repository home page; absent for plain git and file:// remotes */
+  webUrl?: string;
+  branch: string;
+  commitSha?: string;
+  /** Ref passed with --ref, if any */
+  ref?: string;
+  /** Directory the docs cover; their file paths are relative to it */
+  subdir?: string;
 }
 
 // Stack detection results
@@ -145,6 +240,38 @@ export interface CIWorkflow {
   file: string;
   triggers: string[];
   mainSteps: string[];
+  /** CI system the pipeline runs on (set when parsed from the repo) */
+  system?: CISystem;
+  /** Stages in run order (GitLab CI, Azure Pipelines, Jenkins) */
+  stages?: string[];
+  jobs?: CIJob[];
+}
+
+export type CISystem = "github-actions" | "gitlab-ci" | "circleci" | "azure-pipelines" | "jenkins";
+
+// A job in a CI pipeline
+export interface CIJob {
+  /** Key the job is declared under */
+  id: string;
+  name: string;
+  /** Stage the job runs in, for systems with stages */
+  stage?: string;
+  /** Runner label, VM image or container image */
+  runsOn?: string;
+  /** Ids of jobs that must finish first */
+  needs: string[];
+  steps: CIStep[];
+  /** Matrix axes and their values */
+  matrix: Record<string, string[]>;
+  /** Service containers started alongside the job (databases, caches) */
+  services: string[];
+}
+
+// A step of a CI job: a shell command, or an action/orb/task/template it uses
+export interface CIStep {
+  name?: string;
+  run?: string;
+  uses?: string;
 }
 
 // Directory info
@@ -213,6 +340,57 @@ export interface RepoFacts {
     incidents?: { name: string; check: string }[];
     sources?: string[];
   };
+  effectivePrompts?: EffectivePrompts;
+  /** Per-section confidence, set by offline analysis, failed sectioned-analysis sections and citation verification */
+  fieldConfidence?: Record<string, "high" | "medium" | "low">;
+  /** Token, tool-call and read accounting for the run that produced these facts */
+  usage?: UsageReport;
+  /** Cited paths, commands and code examples checked against the repo */
+  verification?: VerificationReport;
+  /** Remote the docs were generated from; set at generation time so cached facts follow the current remote */
+  location?: RepoLocation;
+  /** Lines-of-code statistics from the scan; set at generation time like location */
+  codeStats?: CodeStats;
+}
+
+// A claim the citation verifier could not confirm in the repo
+export interface VerificationIssue {
+  /** fieldConfidence key of the section the claim belongs to */
+  section: string;
+  /** Where the claim was, e.g. "structure.keyDirs" */
+  field: string;
+  value: string;
+  action: "dropped" | "flagged";
+  reason: string;
+}
+
+// Result of checking RepoFacts claims against the repo
+export interface VerificationReport {
+  checked: number;
+  issues: VerificationIssue[];
+}
+
+// Budget limits for an analysis run (--max-tool-calls, --max-tokens, --timeout)
+export interface BudgetLimits {
+  maxToolCalls?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+// Per-run usage report, shown by --stats and stored in repo_facts.json
+export interface UsageReport {
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost reported by the provider, when available */
+  cost?: number;
+  toolCalls: number;
+  toolCallsByName: Record<string, number>;
+  /** Bytes of tool output returned to the model */
+  bytesRead: number;
+  durationMs: number;
+  limits: BudgetLimits;
+  /** Which budget ran out, if any; the model was told to wrap up */
+  exhausted?: "toolCalls" | "tokens" | "timeout";
 }
 
 // File info collected during scanning
@@ -231,4 +409,119 @@ export interface ScanResult {
   readme: string | null;
   contributing: string | null;
   keySourceFiles: Map<string, string>;
+  /** Definitions found in source files, for the find_definition/find_references/list_exports tools */
+  symbols?: SymbolIndex;
+  /** Lexical index over the whole repository (not capped by maxFiles), for search_relevant */
+  retrieval?: RetrievalIndex;
+  /** Monorepo packages, when the repo declares a workspace */
+  workspaces?: WorkspaceInfo;
+  /** Repo-root files read as context when the scan is scoped to a subdirectory */
+  rootContext?: RootContext;
+  /** Ignore rules the scan applied; the agent tools and retrieval index reuse them */
+  ignore?: IgnoreRules;
+  /** Entrypoints read from manifests, Dockerfiles, Procfiles and source conventions; trusted over the model's */
+  entrypoints?: Entrypoint[];
+  /** Lines of code by language and top-level directory, over the whole repository (not capped by maxFiles) */
+  codeStats?: CodeStats;
+}
+
+// Lines-of-code counts (cloc-style: blank, comment-only and code lines)
+export interface LineCounts {
+  files: number;
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+export interface LanguageStats extends LineCounts {
+  language: string;
+}
+
+export interface DirectoryStats extends LineCounts {
+  /** Top-level directory with a trailing slash, or "." for files at the root */
+  path: string;
+  /** Languages in the directory, most code first */
+  languages: string[];
+}
+
+export interface CodeStats {
+  total: LineCounts;
+  /** Most code first */
+  languages: LanguageStats[];
+  /** Most code first */
+  directories: DirectoryStats[];
+}
+
+// Repo-root context for a scan scoped to a subdirectory
+export interface RootContext {
+  /** Scanned subdirectory, relative to the repo root */
+  subdir: string;
+  readme: string | null;
+  /** CODEOWNERS file and the rules in it that can apply to the subdirectory */
+  codeowners: { path: string; rules: string[] } | null;
+  /** CI configuration files at the repo root */
+  ciFiles: string[];
+}
+
+// A member package of a monorepo workspace
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the repo root */
+  path: string;
+  /** Manifest the package was read from, e.g. packages/api/package.json */
+  manifest: string;
+  version?: string;
+  stack: StackInfo;
+  /** Commands run from the repo root, scoped to this package */
+  commands: Command[];
+  /** External dependencies (runtime, dev and peer) */
+  dependencies: string[];
+  /** Names of the workspace members this package depends on */
+  internalDeps: string[];
+}
+
+// Workspace layout of a monorepo
+export interface WorkspaceInfo {
+  /** Tools that declare the workspace, e.g. ["pnpm", "turborepo"] */
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+// A definition found by the symbol index
+export interface CodeSymbol {
+  name: string;
+  kind: "function" | "method" | "class" | "interface" | "type" | "enum" | "struct" | "trait" | "constant";
+  path: string;
+  line: number;
+  exported: boolean;
+  /** Enclosing class, impl or receiver type for methods */
+  container?: string;
+}
+
+// Symbol index built by scanRepo
+export interface SymbolIndex {
+  /** Every source file that was indexed, with or without symbols */
+  files: string[];
+  symbols: CodeSymbol[];
+}
+
+// A run of lines in one file, ranked as a unit by the retrieval index
+export interface RetrievalChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  /** Term frequencies, including terms from the file path */
+  terms: Record<string, number>;
+  /** Total number of terms */
+  length: number;
+}
+
+// BM25 index over source and docs, cached per commit next to the analysis cache
+export interface RetrievalIndex {
+  /** Number of files indexed */
+  files: number;
+  chunks: RetrievalChunk[];
+  /** Number of chunks containing each term */
+  docFreq: Record<string, number>;
+  avgLength: number;
 }
@@ -0,0 +1,277 @@
+/**
+ * Citation Verification
+ * Checks the paths, commands and code examples cited in RepoFacts against the repo.
+ *
+ * Cited files and directories must exist, commands that run package.json scripts
+ * or Makefile targets must name ones that scanRepo found, and code examples must
+ * appear in the file they reference. Claims that fail are dropped (or flagged when
+ * the surrounding item is still useful), the confidence of the affected sections is
+ * downgraded, and everything that was corrected is recorded in `facts.verification`.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { resolve, sep } from "path";
+import type { RepoFacts, ScanResult, VerificationIssue, VerificationReport } from "./types.js";
+
+type Confidence = "high" | "medium" | "low";
+
+/** Share of a code example's lines that must appear in the cited file */
+const CODE_MATCH_THRESHOLD = 0.8;
+
+const DOWNGRADED: Record<Confidence, Confidence> = { high: "medium", medium: "low", low: "low" };
+
+/** Package manager subcommands that are not script names */
+const PACKAGE_MANAGER_BUILTINS = new Set([
+  "add", "audit", "bin", "cache", "config", "create", "dlx", "exec", "fetch", "global", "help", "i", "import",
+  "info", "init", "install", "licenses", "link", "list", "login", "logout", "ls", "outdated", "pack", "patch",
+  "plugin", "prune", "publish", "rebuild", "remove", "rm", "set", "store", "unlink", "up", "update", "upgrade",
+  "version", "why", "workspace", "workspaces",
+]);
+
+/** Lines that stand for elided code, e.g. "...", "// ..." */
+const ELISION_PATTERN = /^(?:\/\/|#|\/\*|--)?\s*(?:\.\.\.|…)/;
+
+interface VerifyContext {
+  root: string;
+  existing: Map<string, boolean>;
+  checked: Record<string, number>;
+  issues: VerificationIssue[];
+}
+
+/**
+ * Reduce a cited path to a repo-relative path, or null if it can't be checked
+ * (URLs, globs). "src/a.ts:10", "src/a.ts#L3" and "README.md (Setup)" cite the file.
+ */
+function citedPath(value: string): string | null {
+  const first = value.trim().replace(/`/g, "").split(/\s+/)[0] ?? "";
+  if (!first || /^[a-z]+:\/\//i.test(first) || /[*?{}]/.test(first)) return null;
+  return first
+    .replace(/#L\d+(?:-L?\d+)?$/, "")
+    .replace(/:\d+(?:-\d+)?$/, "")
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "") || ".";
+}
+
+async function pathExists(ctx: VerifyContext, relPath: string): Promise<boolean> {
+  const cached = ctx.existing.get(relPath);
+  if (cached !== undefined) return cached;
+
+  const full = resolve(ctx.root, relPath);
+  let exists = false;
+  if (full === ctx.root || full.startsWith(ctx.root + sep)) {
+    try {
+      await stat(full);
+      exists = true;
+    } catch {
+      // Missing
+    }
+  }
+  ctx.existing.set(relPath, exists);
+  return exists;
+}
+
+/**
+ * Check a claim; returns false (and records the issue) if it failed
+ */
+async function checkPath(ctx: VerifyContext, section: string, field: string, value: string): Promise<boolean> {
+  const relPath = citedPath(value);
+  if (relPath === null) return true;
+  ctx.checked[section] = (ctx.checked[section] ?? 0) + 1;
+  if (await pathExists(ctx, relPath)) return true;
+  ctx.issues.push({ section, field, value, action: "dropped", reason: "path does not exist" });
+  return false;
+}
+
+async function keepExistingPaths(
+  ctx: VerifyContext,
+  section: string,
+  field: string,
+  values: string[] | undefined
+): Promise<string[] | undefined> {
+  if (!values) return values;
+  const kept: string[] = [];
+  for (const value of values) {
+    if (await checkPath(ctx, section, field, value)) kept.push(value);
+  }
+  return kept;
+}
+
+/**
+ * Why a shell command can't be run as written, or null if it checks out (or can't be checked)
+ */
+function commandProblem(command: string, scripts: Set<string>, targets: Set<string>, hasMakefile: boolean): string | null {
+  for (const segment of command.split(/&&|\|\||;/)) {
+    const words = segment.trim().split(/\s+/).filter((w) => !/^[A-Z_][A-Z0-9_]*=/.test(w));
+    const [tool, sub, name] = words;
+    if (!tool) continue;
+    // Later segments run somewhere else
+    if (tool === "cd") return null;
+
+    let script: string | undefined;
+    if (tool === "npm") {
+      script = sub === "run" || sub === "run-script" ? name : sub === "test" || sub === "t" ? "test" : undefined;
+    } else if (tool === "yarn" || tool === "pnpm") {
+      script = sub === "run" ? name : sub && !sub.startsWith("-") && !PACKAGE_MANAGER_BUILTINS.has(sub) ? sub : undefined;
+    } else if (tool === "bun") {
+      script = sub === "run" ? name : undefined;
+    } else if (tool === "make" && sub && !sub.startsWith("-")) {
+      if (!hasMakefile) return "no Makefile in the repository";
+      if (!targets.has(sub)) return `no Makefile target "${sub}"`;
+    }
+
+    if (script && !script.startsWith("-") && !scripts.has(script)) {
+      return `no package.json script "${script}"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collapse whitespace so indentation and spacing differences don't matter
+ */
+function normalizeLines(code: string): string[] {
+  return code
+    .split("\n")
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Why a code example doesn't match its file, or null if it does
+ */
+async function codeExampleProblem(ctx: VerifyContext, file: string, code: string): Promise<string | null> {
+  const relPath = citedPath(file);
+  if (relPath === null) return null;
+  if (!(await pathExists(ctx, relPath))) return "file does not exist";
+
+  let content: string;
+  try {
+    content = await readFile(resolve(ctx.root, relPath), "utf-8");
+  } catch {
+    return "file could not be read";
+  }
+
+  const lines = normalizeLines(code).filter((line) => !ELISION_PATTERN.test(line));
+  if (lines.length === 0) return null;
+  const fileText = normalizeLines(content).join("\n");
+  const matched = lines.filter((line) => fileText.includes(line)).length;
+  return matched / lines.length >= CODE_MATCH_THRESHOLD ? null : "code does not appear in the file";
+}
+
+/**
+ * Verify the claims in facts against the repo; returns corrected facts with a verification report
+ */
+export async function verifyRepoFacts(repoPath: string, facts: RepoFacts, scanResult: ScanResult): Promise<RepoFacts> {
+  const ctx: VerifyContext = { root: resolve(repoPath), existing: new Map(), checked: {}, issues: [] };
+  const verified: RepoFacts = structuredClone(facts);
+
+  verified.sources = await keepExistingPaths(ctx, "purpose", "sources", verified.sources);
+  for (const section of ["quickstart", "structure", "ci", "contrib", "architecture"] as const) {
+    verified[section].sources = await keepExistingPaths(ctx, section, `${section}.sources`, verified[section].sources);
+  }
+  if (verified.runbook) {
+    verified.runbook.sources = await keepExistingPaths(ctx, "runbook", "runbook.sources", verified.runbook.sources);
+  }
+
+  // Structure
+  const keyDirs = [];
+  for (const dir of verified.structure.keyDirs) {
+    if (!(await checkPath(ctx, "structure", "structure.keyDirs", dir.path))) continue;
+    if (dir.keyFiles) {
+      const keyFiles: string[] = [];
+      for (const file of dir.keyFiles) {
+        // Key files may be listed relative to their directory or to the repo root
+        const inDir = citedPath(`${dir.path}/${file}`);
+        if (inDir !== null && (await pathExists(ctx, inDir))) {
+          ctx.checked.structure = (ctx.checked.structure ?? 0) + 1;
+          keyFiles.push(file);
+        } else if (await checkPath(ctx, "structure", `structure.keyDirs[${dir.path}].keyFiles`, file)) {
+          keyFiles.push(file);
+        }
+      }
+      dir.keyFiles = keyFiles;
+    }
+    keyDirs.push(dir);
+  }
+  verified.structure.keyDirs = keyDirs;
+
+  const entrypoints = [];
+  for (const entry of verified.structure.entrypoints) {
+    if (await checkPath(ctx, "structure", "structure.entrypoints", entry.path)) entrypoints.push(entry);
+  }
+  verified.structure.entrypoints = entrypoints;
+  verified.structure.testDirs = (await keepExistingPaths(ctx, "structure", "structure.testDirs", verified.structure.testDirs)) ?? [];
+  verified.structure.docsDirs = (await keepExistingPaths(ctx, "structure", "structure.docsDirs", verified.structure.docsDirs)) ?? [];
+
+  // Quickstart commands must name real scripts and targets
+  const scripts = new Set(scanResult.commands.filter((c) => c.source === "package.json").map((c) => c.name));
+  const targets = new Set(scanResult.commands.filter((c) => c.source === "Makefile").map((c) => c.name));
+  const hasMakefile = targets.size > 0 || scanResult.files.some((f) => f.path === "Makefile");
+  verified.quickstart.commands = verified.quickstart.commands.filter((cmd) => {
+    ctx.checked.quickstart = (ctx.checked.quickstart ?? 0) + 1;
+    const problem = commandProblem(cmd.command, scripts, targets, hasMakefile);
+    if (problem) {
+      ctx.issues.push({ section: "quickstart", field: "quickstart.commands", value: cmd.command, action: "dropped", reason: problem });
+    }
+    return !problem;
+  });
+
+  // Code examples must come from the file they cite
+  if (verified.architecture.codeExamples) {
+    const examples = [];
+    for (const example of verified.architecture.codeExamples) {
+      ctx.checked.architecture = (ctx.checked.architecture ?? 0) + 1;
+      const problem = await codeExampleProblem(ctx, example.file, example.code);
+      if (problem) {
+        ctx.issues.push({
+          section: "architecture",
+          field: "architecture.codeExamples",
+          value: `${example.title} (${example.file})`,
+          action: "dropped",
+          reason: problem,
+        });
+        continue;
+      }
+      examples.push(example);
+    }
+    verified.architecture.codeExamples = examples;
+  }
+
+  // First tasks stay useful without their file list, so they are flagged rather than dropped
+  for (const task of verified.firstTasks) {
+    if (task.files.length === 0) continue;
+    const files = (await keepExistingPaths(ctx, "firstTasks", `firstTasks[${task.title}].files`, task.files)) ?? [];
+    if (files.length === 0) {
+      ctx.issues.push({
+        section: "firstTasks",
+        field: "firstTasks",
+        value: task.title,
+        action: "flagged",
+        reason: "none of the task's files exist",
+      });
+    }
+    task.files = files;
+  }
+
+  const report: VerificationReport = {
+    checked: Object.values(ctx.checked).reduce((sum, n) => sum + n, 0),
+    issues: ctx.issues,
+  };
+  verified.verification = report;
+
+  // Downgrade sections with failed claims; mostly-wrong sections drop to low
+  const failedBySection = new Map<string, number>();
+  for (const issue of ctx.issues) {
+    failedBySection.set(issue.section, (failedBySection.get(issue.section) ?? 0) + 1);
+  }
+  if (failedBySection.size > 0) {
+    const fieldConfidence = { ...verified.fieldConfidence };
+    for (const [section, failed] of failedBySection) {
+      const current = fieldConfidence[section] ?? verified.confidence ?? "high";
+      fieldConfidence[section] = failed * 2 > (ctx.checked[section] ?? failed) ? "low" : DOWNGRADED[current];
+    }
+    verified.fieldConfidence = fieldConfidence;
+  }
+
+  return verified;
+}
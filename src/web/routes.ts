@@ -3,9 +3,11 @@ import { EventEmitter } from "events";
 import { mkdir, writeFile, rm, readFile } from "fs/promises";
 import { join, resolve } from "path";
 
-import { parseGitHubUrl, cloneRepo, scanRepo } from "../ingest.js";
-import { analyzeRepo, type AnalysisStats } from "../agent.js";
-import { readCache, writeCache } from "../cache.js";
+import { cloneRepo, scanRepo } from "../ingest.js";
+import { parseRepoUrl, repoLocation } from "../hosts.js";
+import { loadRetrievalIndex } from "../retrieval.js";
+import { analyzeRepo, readCustomPrompt, type AnalysisStats } from "../agent.js";
+import { readCache, writeCache, cacheName, analysisVariant } from "../cache.js";
 import { generateDependencyDocs } from "../deps.js";
 import { generateSecurityDocs, getSecurityGrade } from "../security.js";
 import { generateRadarDocs } from "../radar.js";
@@ -20,7 +22,13 @@ import {
   generateFirstTasks,
   generateRunbook,
   generateDiagrams,
+  generateWorkspaces,
+  generateCi,
+  isDocIncludedForFocus,
+  isDocIncludedForStyle,
+  applyStyleToDocument,
 } from "../generator.js";
+import { getStyleConfig } from "../plugins.js";
 import type { BootcampOptions, RepoFacts } from "../types.js";
 
 /**
@@ -92,7 +100,7 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
 
     // Parse URL
     emit({ type: "phase", phase: "parse", message: "Parsing repository URL..." });
-    const repoInfo = parseGitHubUrl(job.repoUrl);
+    const repoInfo = parseRepoUrl(job.repoUrl);
     emit({ type: "progress", message: `Repository: ${repoInfo.fullName}` });
 
     // Clone
@@ -103,6 +111,9 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
     // Scan
     emit({ type: "phase", phase: "scan", message: "Scanning files..." });
     const scanResult = await scanRepo(repoPath, options.maxFiles || 200);
+    if (!options.offline) {
+      scanResult.retrieval = await loadRetrievalIndex(repoPath, repoInfo, !options.noCache, scanResult.ignore);
+    }
     emit({ type: "progress", message: `Scanned ${scanResult.files.length} files` });
     emit({ type: "progress", message: `Stack: ${scanResult.stack.languages.join(", ")}` });
 
@@ -123,11 +134,12 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
     const analysisStart = Date.now();
     const useCache = !fullOptions.noCache && !!repoInfo.commitSha;
     let cacheHit = false;
+    const variant = useCache ? analysisVariant(fullOptions, readCustomPrompt(repoPath, fullOptions.repoPrompts)) : "";
     let facts!: RepoFacts;
     let analysisStats!: AnalysisStats;
 
     if (useCache) {
-      const cached = await readCache(repoInfo.fullName, repoInfo.commitSha!);
+      const cached = await readCache(cacheName(repoInfo), repoInfo.commitSha!, variant);
       if (cached) {
         facts = cached;
         cacheHit = true;
@@ -163,7 +175,7 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
 
       if (useCache) {
         try {
-          await writeCache(repoInfo.fullName, repoInfo.commitSha!, facts);
+          await writeCache(cacheName(repoInfo), repoInfo.commitSha!, facts, variant);
         } catch {
           // Cache write failure is non-fatal
         }
@@ -172,6 +184,8 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
 
     // Generate docs
     emit({ type: "phase", phase: "generate", message: "Generating documentation..." });
+    facts.location = repoLocation(repoInfo);
+    facts.codeStats = scanResult.codeStats;
     
     const outputDir = join(process.cwd(), `.bootcamp-output`, repoInfo.repo);
     await mkdir(outputDir, { recursive: true });
@@ -181,27 +195,42 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
       scanResult,
     );
 
+    const styleConfig = getStyleConfig(fullOptions.style);
+
     // Generate all docs
-    const documents = [
-      { name: "BOOTCAMP.md", content: generateBootcamp(facts, fullOptions) },
-      { name: "ONBOARDING.md", content: generateOnboarding(facts) },
-      { name: "ARCHITECTURE.md", content: generateArchitecture(facts) },
+    let documents = [
+      { name: "ARCHITECTURE.md", content: generateArchitecture(facts, fullOptions) },
       { name: "CODEMAP.md", content: generateCodemap(facts) },
-      { name: "FIRST_TASKS.md", content: generateFirstTasks(facts) },
+      { name: "FIRST_TASKS.md", content: generateFirstTasks(facts, fullOptions, styleConfig) },
       { name: "RUNBOOK.md", content: generateRunbook(facts) },
-      { name: "diagrams.mmd", content: generateDiagrams(facts) },
+      { name: "diagrams.mmd", content: generateDiagrams(facts, scanResult.ciWorkflows) },
       { name: "repo_facts.json", content: JSON.stringify(facts, null, 2) },
-      { name: "SECURITY.md", content: generateSecurityDocs(security, repoInfo.repo) },
+      {
+        name: "SECURITY.md",
+        content: generateSecurityDocs(security, repoInfo.repo, {
+          showDetails: styleConfig.sections.showSecurityDetails,
+        }),
+      },
       { name: "RADAR.md", content: generateRadarDocs(radar, repoInfo.repo) },
     ];
 
     if (deps) {
       documents.push({
         name: "DEPENDENCIES.md",
-        content: generateDependencyDocs(deps, repoInfo.repo),
+        content: generateDependencyDocs(deps, repoInfo.repo, {
+          showGraph: styleConfig.sections.showDependencyGraph,
+        }),
       });
     }
 
+    if (scanResult.workspaces) {
+      documents.push({ name: "WORKSPACES.md", content: generateWorkspaces(facts, scanResult.workspaces) });
+    }
+
+    if (scanResult.ciWorkflows.length > 0) {
+      documents.push({ name: "CI.md", content: generateCi(facts, scanResult.ciWorkflows) });
+    }
+
     if (impacts.length > 0) {
       documents.push({
         name: "IMPACT.md",
@@ -209,6 +238,23 @@ async function runAnalysis(job: AnalysisJob, options: Partial<BootcampOptions>):
       });
     }
 
+    documents = documents.filter(
+      (doc) => isDocIncludedForFocus(doc.name, fullOptions.focus) && isDocIncludedForStyle(doc.name, styleConfig)
+    );
+
+    // The entry documents link to the others, so they are generated once the written set is known
+    const written = new Set([
+      ...["BOOTCAMP.md", "ONBOARDING.md"].filter((name) => isDocIncludedForFocus(name, fullOptions.focus)),
+      ...documents.map((doc) => doc.name),
+    ]);
+    documents = [
+      { name: "BOOTCAMP.md", content: generateBootcamp(facts, fullOptions, styleConfig, written) },
+      { name: "ONBOARDING.md", content: generateOnboarding(facts, fullOptions, written) },
+      ...documents,
+    ]
+      .filter((doc) => isDocIncludedForFocus(doc.name, fullOptions.focus))
+      .map((doc) => (doc.name.endsWith(".md") ? { ...doc, content: applyStyleToDocument(doc.content, styleConfig) } : doc));
+
     const formattedDocuments = applyOutputFormat(documents, outputFormat);
 
     await Promise.all(formattedDocuments.map(doc =>
@@ -269,7 +315,10 @@ export function registerRoutes(app: Application): void {
     }
 
     try {
-      parseGitHubUrl(repoUrl); // Validate URL
+      // Validate URL; the server only clones remote repositories, never paths on its own disk
+      if (parseRepoUrl(repoUrl).url.startsWith("file:")) {
+        throw new Error("file:// repositories cannot be analyzed through the web server");
+      }
     } catch (error: unknown) {
       res.status(400).json({ error: (error as Error).message });
       return;
@@ -0,0 +1,401 @@
+/**
+ * Workspace Discovery
+ * Finds the member packages of a monorepo: npm, yarn and pnpm workspaces,
+ * Lerna, Nx projects, Cargo workspaces and go.work modules (Turborepo builds on
+ * the package manager's workspaces). Each package gets its dependencies,
+ * commands run from the repo root, and edges to the members it depends on.
+ */
+
+import { readdir, readFile, realpath, stat } from "fs/promises";
+import { isAbsolute, join, relative, sep } from "path";
+import { detectScriptRunner } from "./commands.js";
+import { extractDependencies } from "./deps.js";
+import { SKIP_DIRS } from "./utils.js";
+import type { Command, StackInfo, WorkspaceInfo, WorkspacePackage } from "./types.js";
+
+/** Deepest directory a `**` workspace pattern descends to */
+const MAX_GLOB_DEPTH = 4;
+/** Deepest directory searched for Nx project.json files */
+const MAX_NX_PROJECT_DEPTH = 3;
+/** Packages listed per workspace */
+const MAX_WORKSPACE_PACKAGES = 200;
+
+/** How packages of each kind are run from the repo root */
+type PackageRunner = "npm" | "yarn" | "pnpm" | "bun" | "nx" | "cargo" | "go";
+
+/**
+ * A member found in a workspace declaration, before it is described
+ */
+interface WorkspaceMember {
+  name: string;
+  path: string;
+  manifest: string;
+  version?: string;
+  runner: PackageRunner;
+  /** Scripts or Nx targets */
+  targets: string[];
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(path: string): Promise<Record<string, unknown> | null> {
+  const content = await readText(path);
+  if (content === null) return null;
+  try {
+    return JSON.parse(content) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a declared member path is relative and has no `..` segments
+ */
+function isRepoRelative(path: string): boolean {
+  return !isAbsolute(path) && !/^[A-Za-z]:/.test(path) && !path.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Whether a member directory still lies inside the repo once symlinks are followed
+ */
+async function resolvesInsideRepo(repoPath: string, dir: string): Promise<boolean> {
+  try {
+    const [root, target] = await Promise.all([realpath(repoPath), realpath(join(repoPath, dir))]);
+    const rel = relative(root, target);
+    return !isAbsolute(rel) && rel.split(sep)[0] !== "..";
+  } catch {
+    return false;
+  }
+}
+
+async function childDirectories(repoPath: string, dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(join(repoPath, dir), { withFileTypes: true });
+    return entries
+      .filter((e) => e.isDirectory() && !e.name.startsWith(".") && !SKIP_DIRS.has(e.name))
+      .map((e) => (dir ? `${dir}/${e.name}` : e.name))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+async function descendantDirectories(repoPath: string, dir: string, depth: number): Promise<string[]> {
+  if (depth === 0) return [];
+  const children = await childDirectories(repoPath, dir);
+  const nested = await Promise.all(children.map((child) => descendantDirectories(repoPath, child, depth - 1)));
+  return [...children, ...nested.flat()];
+}
+
+/**
+ * Expand a workspace glob (`packages/*`, `apps/**`, `tools/cli`) to directories.
+ * Absolute patterns and patterns with `..` segments match nothing.
+ */
+export async function expandWorkspacePattern(repoPath: string, pattern: string): Promise<string[]> {
+  if (!isRepoRelative(pattern)) return [];
+  const segments = pattern.replace(/^\.\//, "").split("/").filter((s) => s && s !== ".");
+  let dirs = [""];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (segment === "**") {
+        next.push(dir, ...(await descendantDirectories(repoPath, dir, MAX_GLOB_DEPTH)));
+      } else if (segment.includes("*")) {
+        const regex = new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")}$`);
+        for (const child of await childDirectories(repoPath, dir)) {
+          if (regex.test(child.slice(child.lastIndexOf("/") + 1))) next.push(child);
+        }
+      } else {
+        next.push(dir ? `${dir}/${segment}` : segment);
+      }
+    }
+    dirs = next;
+  }
+
+  return [...new Set(dirs)].filter(Boolean);
+}
+
+/**
+ * Directories matching include patterns, minus `!` exclusions, that contain a manifest
+ */
+async function matchMembers(repoPath: string, patterns: string[], manifest: string): Promise<string[]> {
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    for (const dir of await expandWorkspacePattern(repoPath, negated ? pattern.slice(1) : pattern)) {
+      (negated ? excluded : included).add(dir);
+    }
+  }
+
+  const members: string[] = [];
+  for (const dir of included) {
+    if (
+      !excluded.has(dir) &&
+      (await resolvesInsideRepo(repoPath, dir)) &&
+      (await isFile(join(repoPath, dir, manifest)))
+    ) {
+      members.push(dir);
+    }
+  }
+  return members;
+}
+
+/**
+ * Quoted strings of a TOML array assignment, e.g. members = ["a", "crates/*"]
+ */
+function tomlStringArray(section: string, key: string): string[] {
+  const match = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, "m"));
+  return match ? [...match[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1]) : [];
+}
+
+/**
+ * Body of a TOML table, up to the next table header
+ */
+function tomlTable(content: string, name: string): string | null {
+  const escaped = name.replace(/\./g, "\\.");
+  const match = content.match(new RegExp(`^\\[${escaped}\\]\\s*$([\\s\\S]*?)(?=^\\[|(?![\\s\\S]))`, "m"));
+  return match ? match[1] : null;
+}
+
+/**
+ * List items under a top-level YAML key (enough for pnpm-workspace.yaml)
+ */
+export function yamlList(content: string, key: string): string[] {
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) => new RegExp(`^${key}:\\s*$`).test(line));
+  if (start === -1) return [];
+
+  const items: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break;
+    const item = line.match(/^\s+-\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/);
+    if (item) items.push(item[1]);
+  }
+  return items;
+}
+
+/**
+ * Package-manager workspaces declared in package.json, pnpm-workspace.yaml or lerna.json
+ */
+async function findJsMembers(repoPath: string, tools: string[]): Promise<WorkspaceMember[]> {
+  const rootPkg = await readJson(join(repoPath, "package.json"));
+  const pnpmWorkspace = await readText(join(repoPath, "pnpm-workspace.yaml"));
+  const lerna = await readJson(join(repoPath, "lerna.json"));
+
+  const declared = rootPkg?.workspaces as string[] | { packages?: string[] } | undefined;
+  const patterns = new Set<string>(Array.isArray(declared) ? declared : (declared?.packages ?? []));
+  if (pnpmWorkspace !== null) {
+    yamlList(pnpmWorkspace, "packages").forEach((p) => patterns.add(p));
+  }
+  if (lerna) {
+    tools.push("lerna");
+    ((lerna.packages as string[] | undefined) ?? ["packages/*"]).forEach((p) => patterns.add(p));
+  }
+  if (patterns.size === 0) return [];
+
+  const runner: PackageRunner = pnpmWorkspace !== null ? "pnpm" : await detectScriptRunner(repoPath);
+  tools.unshift(runner);
+
+  const members: WorkspaceMember[] = [];
+  for (const path of await matchMembers(repoPath, [...patterns], "package.json")) {
+    const pkg = await readJson(join(repoPath, path, "package.json"));
+    if (!pkg) continue;
+    members.push({
+      name: (pkg.name as string | undefined) ?? path,
+      path,
+      manifest: `${path}/package.json`,
+      version: pkg.version as string | undefined,
+      runner,
+      targets: Object.keys((pkg.scripts as Record<string, string> | undefined) ?? {}),
+    });
+  }
+  return members;
+}
+
+/**
+ * Nx projects defined by project.json files
+ */
+async function findNxMembers(repoPath: string): Promise<WorkspaceMember[]> {
+  const members: WorkspaceMember[] = [];
+  for (const dir of await descendantDirectories(repoPath, "", MAX_NX_PROJECT_DEPTH)) {
+    const project = await readJson(join(repoPath, dir, "project.json"));
+    if (!project) continue;
+    members.push({
+      name: (project.name as string | undefined) ?? dir.slice(dir.lastIndexOf("/") + 1),
+      path: dir,
+      manifest: `${dir}/project.json`,
+      runner: "nx",
+      targets: Object.keys((project.targets as Record<string, unknown> | undefined) ?? {}),
+    });
+  }
+  return members;
+}
+
+/**
+ * Crates listed in the [workspace] table of the root Cargo.toml
+ */
+async function findCargoMembers(repoPath: string): Promise<WorkspaceMember[]> {
+  const content = await readText(join(repoPath, "Cargo.toml"));
+  const workspace = content === null ? null : tomlTable(content, "workspace");
+  if (workspace === null) return [];
+
+  const patterns = [
+    ...tomlStringArray(workspace, "members"),
+    ...tomlStringArray(workspace, "exclude").map((p) => `!${p}`),
+  ];
+  const members: WorkspaceMember[] = [];
+  for (const path of await matchMembers(repoPath, patterns, "Cargo.toml")) {
+    const manifest = (await readText(join(repoPath, path, "Cargo.toml"))) ?? "";
+    const pkg = tomlTable(manifest, "package") ?? "";
+    members.push({
+      name: pkg.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1] ?? path,
+      path,
+      manifest: `${path}/Cargo.toml`,
+      version: pkg.match(/^\s*version\s*=\s*["']([^"']+)["']/m)?.[1],
+      runner: "cargo",
+      targets: (await isFile(join(repoPath, path, "src", "main.rs"))) ? ["build", "test", "run"] : ["build", "test"],
+    });
+  }
+  return members;
+}
+
+/**
+ * Modules listed by `use` directives in go.work
+ */
+async function findGoMembers(repoPath: string): Promise<WorkspaceMember[]> {
+  const content = await readText(join(repoPath, "go.work"));
+  if (content === null) return [];
+
+  const paths: string[] = [];
+  for (const block of content.matchAll(/^use\s*\(([\s\S]*?)\)/gm)) {
+    paths.push(...block[1].split("\n").map((l) => l.replace(/\/\/.*/, "").trim()).filter(Boolean));
+  }
+  for (const single of content.matchAll(/^use\s+([^\s(]+)/gm)) {
+    paths.push(single[1]);
+  }
+
+  const members: WorkspaceMember[] = [];
+  for (const raw of paths) {
+    if (!isRepoRelative(raw)) continue;
+    const path = raw.replace(/^\.\/?/, "").replace(/\/+$/, "");
+    if (!(await resolvesInsideRepo(repoPath, path))) continue;
+    const goMod = await readText(join(repoPath, path, "go.mod"));
+    if (goMod === null) continue;
+    members.push({
+      name: goMod.match(/^module\s+(\S+)/m)?.[1] ?? (path || "."),
+      path: path || ".",
+      manifest: path ? `${path}/go.mod` : "go.mod",
+      runner: "go",
+      targets: ["build", "test"],
+    });
+  }
+  return members;
+}
+
+/**
+ * Root-level command that runs a script or target for one package
+ */
+function packageCommand(member: WorkspaceMember, target: string): string {
+  switch (member.runner) {
+    case "npm":
+      return `npm run ${target} --workspace ${member.path}`;
+    case "yarn":
+      return `yarn workspace ${member.name} ${target}`;
+    case "pnpm":
+      return `pnpm --filter ${member.name} ${target}`;
+    case "bun":
+      return `bun run --filter ${member.name} ${target}`;
+    case "nx":
+      return `npx nx run ${member.name}:${target}`;
+    case "cargo":
+      return `cargo ${target} -p ${member.name}`;
+    case "go":
+      return `go ${target} ./${member.path === "." ? "" : `${member.path}/`}...`;
+  }
+}
+
+/**
+ * Discover the repo's workspace packages, or null when it declares no workspace.
+ *
+ * @param repoPath - Repository root
+ * @param describeStack - Detects the stack of a package directory (relative path)
+ */
+export async function discoverWorkspaces(
+  repoPath: string,
+  describeStack: (path: string) => Promise<StackInfo>
+): Promise<WorkspaceInfo | null> {
+  const tools: string[] = [];
+  const byPath = new Map<string, WorkspaceMember>();
+  const add = (members: WorkspaceMember[]) => {
+    for (const member of members) {
+      if (!byPath.has(member.path)) byPath.set(member.path, member);
+    }
+  };
+
+  add(await findJsMembers(repoPath, tools));
+  if (await isFile(join(repoPath, "nx.json"))) {
+    tools.push("nx");
+    add(await findNxMembers(repoPath));
+  }
+  if (await isFile(join(repoPath, "turbo.json"))) {
+    tools.push("turborepo");
+  }
+  const cargo = await findCargoMembers(repoPath);
+  if (cargo.length > 0) tools.push("cargo");
+  add(cargo);
+  const go = await findGoMembers(repoPath);
+  if (go.length > 0) tools.push("go");
+  add(go);
+
+  const members = [...byPath.values()].slice(0, MAX_WORKSPACE_PACKAGES);
+  if (members.length === 0) return null;
+
+  const memberNames = new Set(members.map((m) => m.name));
+  const packages: WorkspacePackage[] = [];
+  for (const member of members) {
+    const deps = await extractDependencies(join(repoPath, member.path));
+    const depNames = [...new Set([...(deps?.runtime ?? []), ...(deps?.dev ?? []), ...(deps?.peer ?? [])].map((d) => d.name))];
+    const commands: Command[] = member.targets.map((target) => ({
+      name: target,
+      command: packageCommand(member, target),
+      source: member.manifest,
+    }));
+
+    packages.push({
+      name: member.name,
+      path: member.path,
+      manifest: member.manifest,
+      ...(member.version ? { version: member.version } : {}),
+      stack: await describeStack(member.path),
+      commands,
+      dependencies: depNames.filter((name) => !memberNames.has(name)),
+      internalDeps: depNames.filter((name) => memberNames.has(name) && name !== member.name),
+    });
+  }
+
+  return { tools: [...new Set(tools)], packages };
+}
+
+/**
+ * Find a workspace package by name or path
+ */
+export function findWorkspacePackage(workspaces: WorkspaceInfo | null, query: string): WorkspacePackage | undefined {
+  const path = query.replace(/^\.\//, "").replace(/\/+$/, "");
+  return workspaces?.packages.find((p) => p.name === query || p.path === path);
+}
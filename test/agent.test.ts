@@ -48,8 +48,25 @@ vi.mock("fs", async () => {
   };
 });
 
+// Verification reads the repo on disk; agent tests use a fake repo path
+vi.mock("../src/verify.js", () => ({
+  verifyRepoFacts: vi.fn(async (_repoPath: string, facts: object) => ({
+    ...facts,
+    verification: { checked: 0, issues: [] },
+  })),
+}));
+
 import type { RepoInfo, ScanResult, BootcampOptions } from "../src/types.js";
-import { analyzeRepo, readCustomPrompt, formatCustomPromptSection, type AnalysisStats } from "../src/agent.js";
+import { verifyRepoFacts } from "../src/verify.js";
+import {
+  analyzeRepo,
+  readCustomPrompt,
+  formatCustomPromptSection,
+  formatAudienceFocusSection,
+  resolveSystemPrompt,
+  resolveAnalysisPrompt,
+  type AnalysisStats,
+} from "../src/agent.js";
 import * as fs from "fs";
 
 // ─── Test fixtures ───────────────────────────────────────────────────────────
@@ -426,15 +443,31 @@ describe("standard mode (with tools)", () => {
 
     const sessionConfig = sharedMockClient.createSession.mock.calls[0][0];
     expect(sessionConfig.tools).toBeDefined();
-    expect(sessionConfig.tools.length).toBe(4);
+    expect(sessionConfig.tools.length).toBe(11);
     expect(sessionConfig.tools.map((t: any) => t.name)).toEqual([
       "read_file",
       "list_files",
       "search",
       "get_repo_metadata",
+      "git_log",
+      "git_blame",
+      "git_co_changes",
+      "find_definition",
+      "find_references",
+      "list_exports",
+      "search_relevant",
     ]);
   });
 
+  it("registers run_command only when enabled", async () => {
+    configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    await analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions({ runCommand: { enabled: true } }));
+
+    const sessionConfig = sharedMockClient.createSession.mock.calls[0][0];
+    expect(sessionConfig.tools.map((t: any) => t.name)).toContain("run_command");
+  });
+
   it("sets system message in session config", async () => {
     
     configureSessionResponse(VALID_REPO_FACTS_JSON);
@@ -697,6 +730,75 @@ describe("retry logic", () => {
   });
 });
 
+describe("budget enforcement", () => {
+  function configureOverspendingSession(responseText: string) {
+    const mockSession = {
+      on: vi.fn().mockImplementation(() => vi.fn()),
+      sendAndWait: vi.fn(),
+      abort: vi.fn().mockResolvedValue(undefined),
+      destroy: vi.fn().mockResolvedValue(undefined),
+    };
+    sharedMockClient.createSession.mockResolvedValue(mockSession);
+
+    mockSession.sendAndWait.mockImplementation(async () => {
+      const handler = mockSession.on.mock.calls[0]?.[0];
+      handler({
+        id: "usage",
+        timestamp: new Date().toISOString(),
+        parentId: null,
+        ephemeral: true,
+        type: "assistant.usage",
+        data: { model: "m", inputTokens: 900, outputTokens: 200 },
+      });
+      handler({
+        id: "delta",
+        timestamp: new Date().toISOString(),
+        parentId: null,
+        type: "assistant.message_delta",
+        data: { messageId: "msg-1", deltaContent: responseText },
+      });
+      throw new Error("Request aborted");
+    });
+
+    return mockSession;
+  }
+
+  it("aborts the session and skips retries once the token budget is spent", async () => {
+    const mockSession = configureOverspendingSession('{"invalid": true}');
+
+    await expect(
+      analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions({ maxTokens: 1000 }))
+    ).rejects.toThrow("the token budget is exhausted");
+
+    expect(mockSession.abort).toHaveBeenCalledTimes(1);
+    expect(mockSession.sendAndWait).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the response streamed before the abort", async () => {
+    configureOverspendingSession(VALID_REPO_FACTS_JSON);
+
+    const { facts } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ maxTokens: 1000 })
+    );
+
+    expect(facts.repoName).toBe("test-owner/test-repo");
+    expect(facts.usage).toMatchObject({ exhausted: "tokens" });
+  });
+
+  it("enforces the token budget in fast mode", async () => {
+    const mockSession = configureOverspendingSession("not json");
+
+    await expect(
+      analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions({ fast: true, maxTokens: 1000 }))
+    ).rejects.toThrow("the token budget is exhausted");
+
+    expect(mockSession.abort).toHaveBeenCalledTimes(1);
+  });
+});
+
 // ─── JSON parsing (parseAndValidateRepoFacts) ───────────────────────────────
 
 describe("response parsing", () => {
@@ -970,7 +1072,7 @@ describe("tool dispatching", () => {
     const { stats } = await analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions());
 
     // Tools should have been passed to the session
-    expect(capturedTools.length).toBe(4);
+    expect(capturedTools.length).toBe(11);
   });
 
   it("updates stats and progress when tool handlers run", async () => {
@@ -1027,7 +1129,7 @@ describe("tool dispatching", () => {
     await analyzeRepo("/my/custom/path", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions());
 
     // The tools are created with getRepoTools which uses the repoPath
-    expect(capturedTools.length).toBe(4);
+    expect(capturedTools.length).toBe(11);
   });
 });
 
@@ -1164,6 +1266,36 @@ describe("prompt construction", () => {
     expect(prompt).toContain("new-hire");
   });
 
+  it("includes audience-specific guidance in prompt", async () => {
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ audience: "internal-dev" })
+    );
+
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toContain("## Target audience: internal-dev");
+    expect(prompt).toContain("on-call");
+  });
+
+  it("includes focus-specific guidance in fast mode prompt", async () => {
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ fast: true, focus: "contributing" })
+    );
+
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toContain("## Focus: contributing");
+    expect(prompt).toContain("howToAddFeature");
+  });
+
   it("excludes directories from file list", async () => {
     const files = [
       { path: "src", size: 0, isDirectory: true },
@@ -1188,6 +1320,16 @@ describe("prompt construction", () => {
     expect(srcOnlyLine).toBeUndefined();
   });
 
+  it("points to search_relevant when the file list is truncated", async () => {
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+    const retrieval = { files: 900, chunks: [], docFreq: {}, avgLength: 0 };
+
+    await analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult({ retrieval }), makeMockOptions());
+
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toContain("(900 source and doc files in total; use search_relevant to find the ones about a topic)");
+  });
+
   it("includes commands in the prompt", async () => {
     const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
 
@@ -1265,6 +1407,112 @@ describe("prompt construction", () => {
   });
 });
 
+// ─── Config prompt overrides ────────────────────────────────────────────────
+
+describe("config prompt overrides", () => {
+  it("appends config prompts to the built-in system and analysis prompts", async () => {
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    const { facts } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ prompts: { system: "Prefer British spelling.", analysis: "Mention the RFC process." } })
+    );
+
+    const systemMessage = sharedMockClient.createSession.mock.calls[0][0].systemMessage.content;
+    expect(systemMessage).toContain("expert software architect");
+    expect(systemMessage).toContain("Prefer British spelling.");
+
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toContain("## Your Task");
+    expect(prompt).toContain("## Team Guidance (bootcamp.config.json)\nMention the RFC process.");
+
+    expect(facts.effectivePrompts?.system).toBe(systemMessage);
+    expect(facts.effectivePrompts?.analysis).toBe(prompt);
+    expect(facts.effectivePrompts?.sources).toEqual(["built-in", "bootcamp.config.json (append)"]);
+  });
+
+  it("replaces prompts in replace mode while keeping .bootcamp-prompts.md guidance", async () => {
+    (fs.existsSync as Mock).mockImplementation((p: string) => p.endsWith(".bootcamp-prompts.md"));
+    (fs.readFileSync as Mock).mockReturnValue("Repo-level guidance");
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    const { facts } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({
+        fast: true,
+        prompts: { mode: "replace", system: "Custom system.", analysis: "Custom analysis." },
+      })
+    );
+
+    expect(sharedMockClient.createSession.mock.calls[0][0].systemMessage.content).toBe("Custom system.");
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toMatch(/^Custom analysis\./);
+    expect(prompt).not.toContain("## Pre-detected Information");
+    expect(prompt).toContain("Repo-level guidance");
+    expect(facts.effectivePrompts?.sources).toEqual([
+      "bootcamp.config.json (replace)",
+      "/tmp/repo/.bootcamp-prompts.md",
+    ]);
+  });
+
+  it("records built-in prompts when no overrides are configured", async () => {
+    (fs.existsSync as Mock).mockImplementation(() => false);
+    configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    const { facts } = await analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions());
+
+    expect(facts.effectivePrompts?.sources).toEqual(["built-in"]);
+    expect(facts.effectivePrompts?.analysis).toContain("Analyze this repository");
+    expect(facts.effectivePrompts?.analysis).not.toContain("GitHub");
+  });
+});
+
+describe("resolveSystemPrompt", () => {
+  it("returns the base prompt without overrides", () => {
+    expect(resolveSystemPrompt("Base", undefined)).toBe("Base");
+    expect(resolveSystemPrompt("Base", { analysis: "x" })).toBe("Base");
+  });
+
+  it("appends by default and replaces in replace mode", () => {
+    expect(resolveSystemPrompt("Base", { system: "Extra" })).toBe("Base\n\nExtra");
+    expect(resolveSystemPrompt("Base", { system: "Extra", mode: "replace" })).toBe("Extra");
+  });
+});
+
+describe("resolveAnalysisPrompt", () => {
+  it("returns the built prompt without an analysis override", () => {
+    expect(resolveAnalysisPrompt("Built", { system: "x" }, "guidance")).toBe("Built");
+  });
+
+  it("re-attaches repo guidance when replacing", () => {
+    const result = resolveAnalysisPrompt("Built", { analysis: "Mine", mode: "replace" }, "Repo tips");
+    expect(result).not.toContain("Built");
+    expect(result).toContain("Mine");
+    expect(result).toContain("## Repository Guidance (.bootcamp-prompts.md)\nRepo tips");
+  });
+});
+
+// ─── formatAudienceFocusSection ─────────────────────────────────────────────
+
+describe("formatAudienceFocusSection", () => {
+  it("adds CLA and PR etiquette guidance for oss contributors", () => {
+    const section = formatAudienceFocusSection({ focus: "all", audience: "oss-contributor" });
+    expect(section).toContain("CLA");
+    expect(section).toContain("PR size");
+  });
+
+  it("emphasizes architecture sections for architecture focus", () => {
+    const section = formatAudienceFocusSection({ focus: "architecture", audience: "new-hire" });
+    expect(section).toContain("## Focus: architecture");
+    expect(section).toContain("keyAbstractions");
+    expect(section).toContain("## Target audience: new-hire");
+  });
+});
+
 // ─── readCustomPrompt ───────────────────────────────────────────────────────
 
 describe("readCustomPrompt", () => {
@@ -1640,6 +1888,23 @@ describe("stack merge", () => {
     expect(facts.stack.hasCi).toBe(false);
     expect(facts.stack.languages).toEqual(["Python"]);
   });
+
+  it("seeds the prompt with detected entrypoints and puts them ahead of the model's", async () => {
+    const mockSession = configureSessionResponse(VALID_REPO_FACTS_JSON);
+
+    const scanResult = makeMockScanResult({
+      entrypoints: [
+        { path: "src/server.ts", type: "server", description: "Container start: `node dist/server.js` (Dockerfile CMD)" },
+        { path: "src/index.ts", type: "main", description: "Package main module (package.json main)" },
+      ],
+    });
+
+    const { facts } = await analyzeRepo("/tmp/repo", makeMockRepoInfo(), scanResult, makeMockOptions());
+
+    const prompt = mockSession.sendAndWait.mock.calls[0][0].prompt;
+    expect(prompt).toContain("## Detected Entrypoints\n- src/server.ts (server) — Container start");
+    expect(facts.structure.entrypoints.map((e) => `${e.type}:${e.path}`)).toEqual(["server:src/server.ts", "main:src/index.ts"]);
+  });
 });
 
 // ─── Retry prompt content ───────────────────────────────────────────────────
@@ -1810,3 +2075,167 @@ describe("onProgress with tool dispatch", () => {
     expect(onProgress).not.toHaveBeenCalledWith(expect.stringContaining("Tool: read_file"));
   });
 });
+
+// ─── Sectioned analysis ─────────────────────────────────────────────────────
+
+const VALID_FACTS = JSON.parse(VALID_REPO_FACTS_JSON);
+
+/** Valid response per section, keyed by the section title used in the prompt */
+const SECTION_RESPONSES: Record<string, string> = {
+  overview: JSON.stringify({ purpose: VALID_FACTS.purpose, description: VALID_FACTS.description, confidence: "high" }),
+  quickstart: JSON.stringify({ quickstart: VALID_FACTS.quickstart }),
+  structure: JSON.stringify({ structure: VALID_FACTS.structure }),
+  architecture: JSON.stringify({ architecture: VALID_FACTS.architecture }),
+  "first tasks": JSON.stringify({ firstTasks: VALID_FACTS.firstTasks }),
+  runbook: JSON.stringify({ runbook: { applicable: false } }),
+  "CI and contributing": JSON.stringify({ ci: VALID_FACTS.ci, contrib: VALID_FACTS.contrib }),
+};
+
+/**
+ * Give every createSession call its own session that answers by section.
+ * `overrides` lists successive responses for a section; the last one repeats.
+ */
+function configureSectionSessions(overrides: Record<string, string[]> = {}) {
+  const sessions: { title: string; session: { on: Mock; sendAndWait: Mock } }[] = [];
+
+  sharedMockClient.createSession.mockImplementation(async () => {
+    const entry = { title: "", session: { on: vi.fn(), sendAndWait: vi.fn() } };
+    let calls = 0;
+    entry.session.sendAndWait.mockImplementation(async ({ prompt }: { prompt: string }) => {
+      entry.title ||= prompt.match(/produce the (.+?) section/)?.[1] ?? "";
+      const queue = overrides[entry.title] ?? [SECTION_RESPONSES[entry.title]];
+      const text = queue[Math.min(calls++, queue.length - 1)];
+      const handler = entry.session.on.mock.calls[0]?.[0];
+      handler?.({
+        id: `evt-${calls}`,
+        timestamp: new Date().toISOString(),
+        parentId: null,
+        type: "assistant.message_delta",
+        data: { messageId: `msg-${calls}`, deltaContent: text },
+      });
+    });
+    sessions.push(entry);
+    return entry.session;
+  });
+
+  const bySection = (title: string) => sessions.find((s) => s.title === title)!.session;
+  return { sessions, bySection };
+}
+
+describe("sectioned analysis", () => {
+  it("requests each section in its own session and merges the results", async () => {
+    const { sessions } = configureSectionSessions();
+
+    const { facts, stats } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ sectioned: true })
+    );
+
+    expect(sessions).toHaveLength(7);
+    expect(sessions.map((s) => s.title).sort()).toEqual(Object.keys(SECTION_RESPONSES).sort());
+    expect(facts.repoName).toBe("test-owner/test-repo");
+    expect(facts.purpose).toBe("A test repository");
+    expect(facts.stack).toEqual(makeMockScanResult().stack);
+    expect(facts.structure.entrypoints[0].path).toBe("src/index.ts");
+    expect(facts.contrib.howToAddTest).toEqual(["Add test"]);
+    expect(facts.runbook?.applicable).toBe(false);
+    expect(facts.fieldConfidence).toBeUndefined();
+
+    expect(verifyRepoFacts).toHaveBeenCalledWith("/tmp/repo", expect.objectContaining({ purpose: "A test repository" }), expect.anything());
+    expect(facts.verification).toEqual({ checked: 0, issues: [] });
+
+    expect(stats.sections).toHaveLength(7);
+    expect(stats.sections!.every((s) => s.success && s.attempts === 1)).toBe(true);
+    expect(stats.sections!.every((s) => s.durationMs >= 0)).toBe(true);
+  });
+
+  it("only retries the section that failed validation", async () => {
+    const badTasks = JSON.stringify({ firstTasks: [{ ...VALID_FACTS.firstTasks[0], difficulty: "easy" }] });
+    const { sessions, bySection } = configureSectionSessions({
+      "first tasks": [badTasks, SECTION_RESPONSES["first tasks"]],
+    });
+
+    const { facts, stats } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ sectioned: true })
+    );
+
+    const tasksSession = bySection("first tasks");
+    expect(tasksSession.sendAndWait).toHaveBeenCalledTimes(2);
+    const retry = tasksSession.sendAndWait.mock.calls[1];
+    expect(retry[0].prompt).toContain("first tasks response had validation issues");
+    expect(retry[0].prompt).toContain("firstTasks.0.difficulty");
+    expect(retry[1]).toBe(300000);
+
+    for (const { title, session } of sessions) {
+      if (title !== "first tasks") expect(session.sendAndWait).toHaveBeenCalledTimes(1);
+    }
+    expect(facts.firstTasks[0].difficulty).toBe("beginner");
+    expect(stats.sections!.find((s) => s.name === "firstTasks")).toMatchObject({ attempts: 2, success: true });
+  });
+
+  it("keeps good sections when one section keeps failing", async () => {
+    const { bySection } = configureSectionSessions({ architecture: ['{"architecture": {"components": "none"}}'] });
+
+    const { facts, stats } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ sectioned: true })
+    );
+
+    expect(bySection("architecture").sendAndWait).toHaveBeenCalledTimes(3);
+    expect(facts.architecture).toEqual({ overview: "", components: [] });
+    expect(facts.fieldConfidence).toEqual({ architecture: "low" });
+    expect(facts.quickstart.prerequisites).toEqual(["Node.js 18+"]);
+
+    const archStats = stats.sections!.find((s) => s.name === "architecture");
+    expect(archStats).toMatchObject({ attempts: 3, success: false });
+    expect(archStats!.errors![0]).toContain("architecture.components");
+  });
+
+  it("omits the runbook when that optional section fails", async () => {
+    configureSectionSessions({ runbook: ["no json here"] });
+
+    const { facts } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ sectioned: true })
+    );
+
+    expect(facts.runbook).toBeUndefined();
+    expect(facts.fieldConfidence).toBeUndefined();
+  });
+
+  it("throws when every section fails", async () => {
+    configureSectionSessions(Object.fromEntries(Object.keys(SECTION_RESPONSES).map((title) => [title, ["{}"]])));
+
+    await expect(
+      analyzeRepo("/tmp/repo", makeMockRepoInfo(), makeMockScanResult(), makeMockOptions({ sectioned: true }))
+    ).rejects.toThrow("All analysis sections failed");
+    expect(sharedMockClient.stop).toHaveBeenCalled();
+  });
+
+  it("appends config analysis guidance to every section, even in replace mode", async () => {
+    const { sessions } = configureSectionSessions();
+
+    const { facts } = await analyzeRepo(
+      "/tmp/repo",
+      makeMockRepoInfo(),
+      makeMockScanResult(),
+      makeMockOptions({ sectioned: true, prompts: { mode: "replace", analysis: "Mention the RFC process." } })
+    );
+
+    for (const { session } of sessions) {
+      const prompt = session.sendAndWait.mock.calls[0][0].prompt;
+      expect(prompt).toContain("## Pre-detected Information");
+      expect(prompt).toContain("## Team Guidance (bootcamp.config.json)\nMention the RFC process.");
+    }
+    expect(facts.effectivePrompts?.analysis).toContain("## Section: ciContrib");
+  });
+});
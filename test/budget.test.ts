@@ -0,0 +1,156 @@
+/**
+ * Tests for analysis budgets
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { SessionEvent, Tool } from "@github/copilot-sdk";
+import { AnalysisBudget, formatBudgetLimits, getBudgetLimits } from "../src/budget.js";
+
+function usageEvent(inputTokens: number, outputTokens: number, cost?: number): SessionEvent {
+  return {
+    id: "u",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    parentId: null,
+    ephemeral: true,
+    type: "assistant.usage",
+    data: { model: "m", inputTokens, outputTokens, ...(cost !== undefined ? { cost } : {}) },
+  } as SessionEvent;
+}
+
+function fakeTool(name: string, text: string): Tool<any> {
+  return {
+    name,
+    description: name,
+    handler: vi.fn().mockResolvedValue({ textResultForLlm: text, resultType: "success" }),
+  };
+}
+
+async function call(tool: Tool<any>): Promise<string> {
+  const result = await tool.handler({}, { sessionId: "s", toolCallId: "t", toolName: tool.name, arguments: {} });
+  return typeof result === "string" ? result : (result as { textResultForLlm: string }).textResultForLlm;
+}
+
+describe("getBudgetLimits", () => {
+  it("converts CLI options, skipping unset limits", () => {
+    expect(getBudgetLimits({ maxToolCalls: 20, timeout: 90 })).toEqual({ maxToolCalls: 20, timeoutMs: 90_000 });
+    expect(getBudgetLimits({})).toEqual({});
+  });
+
+  it("formats limits for display", () => {
+    expect(formatBudgetLimits({ maxToolCalls: 20, maxTokens: 50000, timeoutMs: 90_000 })).toBe(
+      "20 tool calls, 50000 tokens, 90s"
+    );
+    expect(formatBudgetLimits({})).toBe("");
+  });
+});
+
+describe("AnalysisBudget", () => {
+  it("counts tool calls by name and bytes read", async () => {
+    const budget = new AnalysisBudget();
+    const [read, list] = budget.wrapTools([fakeTool("read_file", "abcd"), fakeTool("list_files", "xy")]);
+
+    await call(read);
+    await call(read);
+    await call(list);
+
+    expect(budget.report()).toMatchObject({
+      toolCalls: 3,
+      toolCallsByName: { read_file: 2, list_files: 1 },
+      bytesRead: 10,
+      limits: {},
+    });
+    expect(budget.describe()).toBe("");
+  });
+
+  it("tells the model to wrap up near the limit and refuses calls once spent", async () => {
+    const budget = new AnalysisBudget({ maxToolCalls: 5 });
+    const tool = fakeTool("read_file", "data");
+    const [wrapped] = budget.wrapTools([tool]);
+
+    for (let i = 0; i < 3; i++) {
+      expect(await call(wrapped)).toBe("data");
+    }
+    expect(await call(wrapped)).toContain("[Budget] The tool-call budget is nearly spent");
+    await call(wrapped);
+
+    const refused = await call(wrapped);
+    expect(refused).toContain("The tool-call budget is exhausted");
+    expect(tool.handler).toHaveBeenCalledTimes(5);
+    expect(budget.report()).toMatchObject({ toolCalls: 5, exhausted: "toolCalls" });
+    expect(budget.describe()).toContain("At most 5 tool calls");
+  });
+
+  it("counts recorded tool calls like live ones, without the wrap-up note", async () => {
+    const now = () => 0;
+    const live = new AnalysisBudget({ maxToolCalls: 5 }, now);
+    const [wrapped] = live.wrapTools([fakeTool("read_file", "data")]);
+    const replayed = new AnalysisBudget({ maxToolCalls: 5 }, now);
+
+    const counted: boolean[] = [];
+    for (let i = 0; i < 6; i++) {
+      counted.push(replayed.recordToolCall("read_file", await call(wrapped)));
+    }
+
+    expect(counted).toEqual([true, true, true, true, true, false]);
+    expect(replayed.report()).toEqual(live.report());
+    expect(replayed.report()).toMatchObject({ toolCalls: 5, bytesRead: 20, exhausted: "toolCalls" });
+  });
+
+  it("sums token usage and cost from usage events", () => {
+    const budget = new AnalysisBudget({ maxTokens: 1000 });
+    budget.recordEvent(usageEvent(400, 100, 0.5));
+    budget.recordEvent(usageEvent(300, 50));
+    budget.recordEvent({ type: "assistant.message_delta", data: { messageId: "m", deltaContent: "x" } } as SessionEvent);
+
+    expect(budget.report()).toMatchObject({ inputTokens: 700, outputTokens: 150, cost: 0.5 });
+    expect(budget.nearlySpent()).toBe("tokens");
+    expect(budget.exhausted()).toBeUndefined();
+
+    budget.recordEvent(usageEvent(200, 0));
+    expect(budget.exhausted()).toBe("tokens");
+  });
+
+  it("caps session timeouts by the time left and fails once it is spent", () => {
+    let clock = 1_000;
+    const budget = new AnalysisBudget({ timeoutMs: 60_000 }, () => clock);
+
+    expect(budget.timeoutFor(600_000)).toBe(60_000);
+    clock += 45_000;
+    expect(budget.timeoutFor(10_000)).toBe(10_000);
+    expect(budget.timeoutFor(600_000)).toBe(15_000);
+
+    clock += 15_000;
+    expect(() => budget.timeoutFor(600_000)).toThrow("Analysis exceeded the --timeout budget of 60s");
+    expect(budget.report()).toMatchObject({ durationMs: 60_000, exhausted: "timeout" });
+  });
+
+  it("leaves timeouts alone without a time budget", () => {
+    expect(new AnalysisBudget().timeoutFor(600_000)).toBe(600_000);
+  });
+
+  it("aborts a session once it runs past the token budget, only once", () => {
+    const budget = new AnalysisBudget({ maxTokens: 1000 });
+    const session = { on: vi.fn(), sendAndWait: vi.fn(), abort: vi.fn().mockResolvedValue(undefined) };
+
+    budget.track(usageEvent(600, 100), session);
+    expect(session.abort).not.toHaveBeenCalled();
+
+    budget.track(usageEvent(300, 100), session);
+    budget.track(usageEvent(10, 10), session);
+    expect(session.abort).toHaveBeenCalledTimes(1);
+    expect(budget.overrun()).toBe("tokens");
+    expect(budget.stopReason()).toBe("the token budget is exhausted");
+  });
+
+  it("lets the model answer after the tool-call budget is spent until it calls another tool", async () => {
+    const budget = new AnalysisBudget({ maxToolCalls: 1 });
+    const [wrapped] = budget.wrapTools([fakeTool("read_file", "data")]);
+
+    await call(wrapped);
+    expect(budget.exhausted()).toBe("toolCalls");
+    expect(budget.overrun()).toBeUndefined();
+
+    await call(wrapped);
+    expect(budget.overrun()).toBe("toolCalls");
+  });
+});
@@ -3,11 +3,21 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { readCache, writeCache, clearCache, getCacheDir, pruneCache } from "../src/cache.js";
+import {
+  readCache,
+  writeCache,
+  readIndexCache,
+  writeIndexCache,
+  clearCache,
+  getCacheDir,
+  pruneCache,
+  cacheName,
+  analysisVariant,
+} from "../src/cache.js";
 import { mkdir, rm, readdir, utimes, readFile, writeFile } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
-import type { RepoFacts } from "../src/types.js";
+import type { BootcampOptions, RepoFacts, RetrievalIndex } from "../src/types.js";
 
 // Minimal valid RepoFacts for testing
 function makeFacts(overrides: Partial<RepoFacts> = {}): RepoFacts {
@@ -152,6 +162,69 @@ describe("cache", () => {
       expect(cached).not.toBeNull();
       expect(cached!.purpose).toBe("version 2");
     });
+
+    it("keeps analyses from different prompt options apart", async () => {
+      await writeCache(testRepo, testSha, makeFacts({ purpose: "onboarding" }), "variant-a");
+
+      expect((await readCache(testRepo, testSha, "variant-a"))!.purpose).toBe("onboarding");
+      expect(await readCache(testRepo, testSha, "variant-b")).toBeNull();
+      expect(await readCache(testRepo, testSha)).toBeNull();
+    });
+  });
+
+  describe("analysisVariant", () => {
+    const options = {
+      focus: "all",
+      audience: "new-hire",
+      model: "claude-opus-4-5",
+    } as BootcampOptions;
+
+    it("is stable for the same options", () => {
+      expect(analysisVariant(options)).toBe(analysisVariant({ ...options }));
+    });
+
+    it("changes with every option that shapes the prompt", () => {
+      const base = analysisVariant(options);
+      expect(analysisVariant({ ...options, focus: "architecture" })).not.toBe(base);
+      expect(analysisVariant({ ...options, audience: "internal-dev" })).not.toBe(base);
+      expect(analysisVariant({ ...options, prompts: { system: "Be terse" } })).not.toBe(base);
+      expect(analysisVariant({ ...options, provider: { name: "openai", models: ["llama3"] } })).not.toBe(base);
+      expect(analysisVariant({ ...options, model: "gpt-4o" })).not.toBe(base);
+      expect(analysisVariant({ ...options, sectioned: true })).not.toBe(base);
+      expect(analysisVariant({ ...options, fast: true })).not.toBe(base);
+      expect(analysisVariant(options, "Focus on the CLI")).not.toBe(base);
+    });
+
+    it("ignores provider API keys", () => {
+      const provider = { name: "openai" as const, baseUrl: "http://localhost:11434/v1" };
+      expect(analysisVariant({ ...options, provider: { ...provider, apiKey: "a" } })).toBe(
+        analysisVariant({ ...options, provider: { ...provider, apiKey: "b" } })
+      );
+    });
+  });
+
+  describe("writeIndexCache + readIndexCache round-trip", () => {
+    const testRepo = "test-owner/test-repo";
+    const testSha = "a1b2c3d4e5f6789012345678901234567890abcd";
+    const index: RetrievalIndex = {
+      files: 1,
+      chunks: [{ path: "src/a.ts", startLine: 1, endLine: 3, terms: { parse: 2 }, length: 2 }],
+      docFreq: { parse: 1 },
+      avgLength: 2,
+    };
+
+    afterEach(async () => {
+      await clearCache();
+    });
+
+    it("stores the index separately from the analysis facts", async () => {
+      await writeCache(testRepo, testSha, makeFacts());
+      await writeIndexCache(testRepo, testSha, index);
+
+      expect(await readIndexCache(testRepo, testSha)).toEqual(index);
+      expect((await readCache(testRepo, testSha))!.purpose).toBe("A test repo");
+      expect(await readIndexCache(testRepo, "different-sha")).toBeNull();
+    });
   });
 
   describe("clearCache", () => {
@@ -171,6 +244,14 @@ describe("cache", () => {
     });
   });
 
+  describe("cacheName", () => {
+    it("keys package-scoped analyses separately", () => {
+      const repoInfo = { owner: "o", repo: "r", url: "https://github.com/o/r", branch: "main", fullName: "o/r" };
+      expect(cacheName(repoInfo)).toBe("o/r");
+      expect(cacheName({ ...repoInfo, subdir: "packages/core" })).toBe("o/r/packages/core");
+    });
+  });
+
   describe("getCacheDir", () => {
     it("returns a path under home directory", () => {
       const dir = getCacheDir();
@@ -0,0 +1,313 @@
+/**
+ * Tests for CI pipeline parsing
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ciSystemFor,
+  parseAzurePipelines,
+  parseCircleCi,
+  parseGitHubActions,
+  parseGitLabCi,
+  parseJenkinsfile,
+} from "../src/ci.js";
+
+describe("ciSystemFor", () => {
+  it("recognizes each system's config files", () => {
+    expect(ciSystemFor(".github/workflows/ci.yaml")).toBe("github-actions");
+    expect(ciSystemFor(".gitlab-ci.yml")).toBe("gitlab-ci");
+    expect(ciSystemFor(".circleci/config.yml")).toBe("circleci");
+    expect(ciSystemFor("azure-pipelines.yml")).toBe("azure-pipelines");
+    expect(ciSystemFor(".azure-pipelines/release.yml")).toBe("azure-pipelines");
+    expect(ciSystemFor("Jenkinsfile")).toBe("jenkins");
+    expect(ciSystemFor(".github/dependabot.yml")).toBeNull();
+    expect(ciSystemFor(".circleci/README.md")).toBeNull();
+  });
+});
+
+describe("parseGitHubActions", () => {
+  it("reads jobs, steps, matrix axes, services and triggers", () => {
+    const workflow = `
+name: CI
+on:
+  push:
+    branches: [main]
+  pull_request:
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - run: npm ci
+      - name: Lint
+        run: npm run lint
+  test:
+    needs: lint
+    runs-on: \${{ matrix.os }}
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest]
+        node: [18, 20]
+        include:
+          - os: ubuntu-latest
+            experimental: true
+    services:
+      postgres:
+        image: postgres:16
+    steps:
+      - uses: actions/setup-node@v4
+      - run: |
+          npm ci
+          npm test
+  release:
+    needs: [lint, test]
+    uses: ./.github/workflows/release.yml
+`;
+    const [ci] = parseGitHubActions(workflow, ".github/workflows/ci.yml");
+
+    expect(ci).toMatchObject({ name: "CI", system: "github-actions", triggers: ["push", "pull_request"] });
+    expect(ci.mainSteps).toEqual(["npm ci", "npm run lint"]);
+    expect(ci.jobs).toEqual([
+      {
+        id: "lint",
+        name: "lint",
+        runsOn: "ubuntu-latest",
+        needs: [],
+        steps: [{ uses: "actions/checkout@v4" }, { run: "npm ci" }, { name: "Lint", run: "npm run lint" }],
+        matrix: {},
+        services: [],
+      },
+      {
+        id: "test",
+        name: "test",
+        runsOn: "${{ matrix.os }}",
+        needs: ["lint"],
+        steps: [{ uses: "actions/setup-node@v4" }, { run: "npm ci\nnpm test" }],
+        matrix: { os: ["ubuntu-latest", "windows-latest"], node: ["18", "20"] },
+        services: ["postgres:16"],
+      },
+      {
+        id: "release",
+        name: "release",
+        needs: ["lint", "test"],
+        steps: [{ uses: "./.github/workflows/release.yml" }],
+        matrix: {},
+        services: [],
+      },
+    ]);
+  });
+
+  it("accepts a single trigger and names the workflow after its file", () => {
+    const [wf] = parseGitHubActions("on: push\njobs: {}\n", ".github/workflows/nightly.yaml");
+    expect(wf).toMatchObject({ name: "nightly", triggers: ["push"], jobs: [] });
+  });
+});
+
+describe("parseGitLabCi", () => {
+  it("reads stages, templates, parallel matrices and services", () => {
+    const config = `
+stages: [build, test]
+image: node:20
+default:
+  before_script:
+    - npm ci
+.tests: &tests
+  stage: test
+  services:
+    - name: redis:7
+workflow:
+  rules:
+    - if: $CI_PIPELINE_SOURCE == "merge_request_event"
+    - if: $CI_PIPELINE_SOURCE == "push"
+build:
+  stage: build
+  script: npm run build
+unit:
+  extends: .tests
+  script:
+    - npm test
+  parallel:
+    matrix:
+      - NODE: ["18", "20"]
+lint:
+  <<: *tests
+  needs: [build]
+  script: [npm run lint]
+`;
+    const [gitlab] = parseGitLabCi(config, ".gitlab-ci.yml");
+
+    expect(gitlab).toMatchObject({ name: "GitLab CI", triggers: ["merge_request_event", "push"], stages: ["build", "test"] });
+    expect(gitlab.jobs?.map((j) => [j.id, j.stage, j.needs, j.services])).toEqual([
+      ["build", "build", [], []],
+      ["unit", "test", [], ["redis:7"]],
+      ["lint", "test", ["build"], ["redis:7"]],
+    ]);
+    expect(gitlab.jobs?.[1]).toMatchObject({ runsOn: "node:20", matrix: { NODE: ["18", "20"] }, steps: [{ run: "npm ci" }, { run: "npm test" }] });
+  });
+});
+
+describe("parseCircleCi", () => {
+  it("reads one pipeline per workflow with requires and matrix parameters", () => {
+    const config = `
+version: 2.1
+jobs:
+  build:
+    docker:
+      - image: cimg/node:20.11
+      - image: cimg/postgres:16.1
+    steps:
+      - checkout
+      - node/install-packages
+      - run: npm run build
+      - run:
+          name: Unit tests
+          command: npm test
+  deploy:
+    machine: true
+    steps:
+      - run: ./deploy.sh
+workflows:
+  version: 2
+  main:
+    jobs:
+      - build:
+          matrix:
+            parameters:
+              node: ["18", "20"]
+      - deploy:
+          requires: [build]
+  nightly:
+    triggers:
+      - schedule:
+          cron: "0 0 * * *"
+    jobs: [build]
+`;
+    const [main, nightly] = parseCircleCi(config, ".circleci/config.yml");
+
+    expect(main.name).toBe("main");
+    expect(main.jobs?.[0]).toEqual({
+      id: "build",
+      name: "build",
+      runsOn: "cimg/node:20.11",
+      needs: [],
+      steps: [{ uses: "checkout" }, { uses: "node/install-packages" }, { run: "npm run build" }, { name: "Unit tests", run: "npm test" }],
+      matrix: { node: ["18", "20"] },
+      services: ["cimg/postgres:16.1"],
+    });
+    expect(main.jobs?.[1]).toMatchObject({ id: "deploy", runsOn: "machine", needs: ["build"] });
+    expect(nightly).toMatchObject({ name: "nightly", triggers: ["schedule"] });
+  });
+});
+
+describe("parseAzurePipelines", () => {
+  it("reads stages of jobs with pools, matrices and tasks", () => {
+    const config = `
+trigger:
+  - main
+pr:
+  - main
+stages:
+  - stage: Build
+    jobs:
+      - job: compile
+        displayName: Compile
+        pool:
+          vmImage: ubuntu-latest
+        strategy:
+          matrix:
+            linux:
+              imageName: ubuntu-latest
+            mac:
+              imageName: macos-latest
+        steps:
+          - task: NodeTool@0
+          - script: npm ci && npm run build
+            displayName: Build
+  - stage: Deploy
+    jobs:
+      - deployment: ship
+        steps:
+          - bash: ./deploy.sh
+`;
+    const [azure] = parseAzurePipelines(config, "azure-pipelines.yml");
+
+    expect(azure).toMatchObject({ name: "Azure Pipelines", triggers: ["push", "pull_request"], stages: ["Build", "Deploy"] });
+    expect(azure.jobs?.[0]).toEqual({
+      id: "compile",
+      name: "Compile",
+      stage: "Build",
+      runsOn: "ubuntu-latest",
+      needs: [],
+      steps: [{ uses: "NodeTool@0" }, { name: "Build", run: "npm ci && npm run build" }],
+      matrix: { imageName: ["ubuntu-latest", "macos-latest"] },
+      services: [],
+    });
+    expect(azure.jobs?.[1]).toMatchObject({ id: "ship", stage: "Deploy", steps: [{ run: "./deploy.sh" }] });
+  });
+
+  it("treats top-level steps as one job", () => {
+    const [azure] = parseAzurePipelines("trigger: none\npool: default\nsteps:\n  - script: make test\n", "azure-pipelines.yml");
+    expect(azure.triggers).toEqual([]);
+    expect(azure.jobs).toMatchObject([{ id: "Job", runsOn: "default", steps: [{ run: "make test" }] }]);
+  });
+});
+
+describe("parseJenkinsfile", () => {
+  it("reads declarative stages, parallel branches, matrices and triggers", () => {
+    const jenkinsfile = `
+// Main pipeline
+pipeline {
+  agent { docker { image 'node:20' } }
+  triggers { cron('H 4 * * *') }
+  stages {
+    stage('Build') {
+      steps {
+        sh 'npm ci'
+        sh "npm run build" // compile
+      }
+    }
+    stage('Test') {
+      parallel {
+        stage('Unit') {
+          steps { sh 'npm test' }
+        }
+        stage('Lint') {
+          agent { label 'linux' }
+          steps {
+            sh '''
+              npm run lint
+              npm run format:check
+            '''
+          }
+        }
+      }
+    }
+    stage('Cross-platform') {
+      matrix {
+        axes {
+          axis {
+            name 'PLATFORM'
+            values 'linux', 'windows'
+          }
+        }
+        stages {
+          stage('Smoke') { steps { sh 'make smoke' } }
+        }
+      }
+    }
+  }
+  post { always { sh 'make clean' } }
+}
+`;
+    const [jenkins] = parseJenkinsfile(jenkinsfile, "Jenkinsfile");
+
+    expect(jenkins).toMatchObject({ triggers: ["schedule"], stages: ["Build", "Test", "Cross-platform"] });
+    expect(jenkins.jobs?.map((j) => [j.name, j.stage, j.runsOn, j.steps.map((s) => s.run)])).toEqual([
+      ["Build", "Build", "node:20", ["npm ci", "npm run build"]],
+      ["Unit", "Test", "node:20", ["npm test"]],
+      ["Lint", "Test", "linux", ["npm run lint\nnpm run format:check"]],
+      ["Cross-platform", "Cross-platform", "node:20", ["make smoke"]],
+    ]);
+    expect(jenkins.jobs?.[3].matrix).toEqual({ PLATFORM: ["linux", "windows"] });
+  });
+});
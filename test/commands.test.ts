@@ -0,0 +1,285 @@
+/**
+ * Tests for command discovery across task runners and package managers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import {
+  detectScriptRunner,
+  extractCommands,
+  parseCargoConfig,
+  parseComposerJson,
+  parseDenoJson,
+  parseJustfile,
+  parseMakefile,
+  parseNoxfile,
+  parsePyproject,
+  parseRakefile,
+  parseTaskfile,
+  parseToxIni,
+} from "../src/commands.js";
+
+function summary(commands: { command: string; description?: string }[]): [string, string | undefined][] {
+  return commands.map((c) => [c.command, c.description]);
+}
+
+describe("parseMakefile", () => {
+  it("reads targets with ## help and comments, skipping variables", () => {
+    const makefile = [
+      "CC := gcc",
+      "VERSION ?= 1.0",
+      "",
+      "# Build the binary",
+      ".PHONY: build",
+      "build: deps",
+      "\t$(CC) main.c",
+      "",
+      "test: build ## Run the tests",
+      "\t./run-tests",
+      "",
+      "lint: CFLAGS = -Wall",
+      "lint:",
+      "\tclang-tidy",
+    ].join("\n");
+
+    expect(summary(parseMakefile(makefile))).toEqual([
+      ["make build", "Build the binary"],
+      ["make test", "Run the tests"],
+      ["make lint", undefined],
+    ]);
+  });
+});
+
+describe("parseJustfile", () => {
+  it("reads public recipes with doc attributes and comments", () => {
+    const justfile = [
+      "set dotenv-load",
+      "alias b := build",
+      'version := "1.2"',
+      "",
+      "# Compile everything",
+      "build target='debug':",
+      "    cargo build",
+      "",
+      "[doc('Run the test suite')]",
+      "@test: build",
+      "    cargo test",
+      "",
+      "[private]",
+      "helper:",
+      "    echo hidden",
+      "",
+      "_setup:",
+      "    echo hidden",
+    ].join("\n");
+
+    expect(summary(parseJustfile(justfile))).toEqual([
+      ["just build", "Compile everything"],
+      ["just test", "Run the test suite"],
+    ]);
+  });
+});
+
+describe("parseTaskfile", () => {
+  it("reads tasks with desc, shorthand commands and internal tasks", () => {
+    const taskfile = [
+      "version: '3'",
+      "",
+      "tasks:",
+      "  build:",
+      "    desc: Build the server",
+      "    cmds:",
+      "      - go build ./...",
+      "  docs:serve: mkdocs serve",
+      "  setup:",
+      "    internal: true",
+      "    cmds:",
+      "      - task: build",
+      "vars:",
+      "  NAME: app",
+    ].join("\n");
+
+    expect(summary(parseTaskfile(taskfile))).toEqual([
+      ["task build", "Build the server"],
+      ["task docs:serve", "mkdocs serve"],
+    ]);
+  });
+});
+
+describe("parsePyproject", () => {
+  it("reads Poetry, Hatch and PDM scripts", () => {
+    const pyproject = `
+[tool.poetry.scripts]
+myapp = "myapp.cli:main"
+
+[tool.hatch.envs.default.scripts]
+test = "pytest {args}"
+cov = [
+  "coverage run -m pytest",
+  "coverage report",
+]
+
+[tool.hatch.envs.docs.scripts]
+serve = "mkdocs serve"
+
+[tool.pdm.scripts]
+_ = { env_file = ".env" }
+lint = { cmd = "ruff check .", help = "Lint the code" }
+start = "flask run"
+
+[tool.pdm.scripts.migrate]
+shell = "alembic upgrade head"
+help = "Apply database migrations"
+`;
+
+    expect(summary(parsePyproject(pyproject))).toEqual([
+      ["poetry run myapp", "myapp.cli:main"],
+      ["hatch run test", "pytest {args}"],
+      ["hatch run cov", "coverage run -m pytest && coverage report"],
+      ["hatch run docs:serve", "mkdocs serve"],
+      ["pdm run lint", "Lint the code"],
+      ["pdm run start", "flask run"],
+      ["pdm run migrate", "Apply database migrations"],
+    ]);
+  });
+});
+
+describe("parseToxIni and parseNoxfile", () => {
+  it("reads tox environments and the default env list", () => {
+    const tox = "[tox]\nenv_list =\n    py312\n    lint\n\n[testenv]\ncommands = pytest\n\n[testenv:lint]\ndescription = run linters\ncommands = ruff .\n\n[testenv:py{311,312}]\n";
+
+    expect(summary(parseToxIni(tox))).toEqual([
+      ["tox", "Run the default environments: py312, lint"],
+      ["tox -e lint", "run linters"],
+    ]);
+  });
+
+  it("reads nox sessions with names and docstrings", () => {
+    const noxfile = [
+      "import nox",
+      "",
+      "@nox.session(python=['3.11', '3.12'])",
+      "def tests(session):",
+      '    """Run the unit tests."""',
+      "    session.run('pytest')",
+      "",
+      '@nox.session(name="type-check")',
+      "def mypy(session: nox.Session) -> None:",
+      "    session.run('mypy')",
+    ].join("\n");
+
+    expect(summary(parseNoxfile(noxfile))).toEqual([
+      ["nox -s tests", "Run the unit tests."],
+      ["nox -s type-check", undefined],
+    ]);
+  });
+});
+
+describe("other ecosystems", () => {
+  it("reads Cargo aliases", () => {
+    const config = '[alias]\nxtask = "run --package xtask --"\nci = ["clippy", "--all-targets"]\n\n[build]\njobs = 4\n';
+    expect(summary(parseCargoConfig(config))).toEqual([
+      ["cargo xtask", "run --package xtask --"],
+      ["cargo ci", "clippy --all-targets"],
+    ]);
+  });
+
+  it("reads composer scripts and skips event hooks", () => {
+    const composer = JSON.stringify({
+      scripts: {
+        "post-install-cmd": "@php artisan key:generate",
+        test: "phpunit",
+        check: ["@lint", "@test"],
+      },
+      "scripts-descriptions": { check: "Lint and test" },
+    });
+    expect(summary(parseComposerJson(composer))).toEqual([
+      ["composer run test", "phpunit"],
+      ["composer run check", "Lint and test"],
+    ]);
+  });
+
+  it("reads deno tasks from JSONC", () => {
+    const deno = `{
+  // Development tasks
+  "tasks": {
+    "dev": "deno run --watch main.ts", /* hot reload */
+    "fmt": { "command": "deno fmt", "description": "Format the code" },
+  },
+  "imports": { "std/": "https://deno.land/std@0.224.0/" }
+}`;
+    expect(summary(parseDenoJson(deno))).toEqual([
+      ["deno task dev", "deno run --watch main.ts"],
+      ["deno task fmt", "Format the code"],
+    ]);
+  });
+
+  it("reads Rake tasks with namespaces and descriptions", () => {
+    const rakefile = [
+      'desc "Run the specs"',
+      "task :spec do",
+      "  sh 'rspec'",
+      "end",
+      "",
+      "namespace :db do",
+      '  desc "Migrate the database"',
+      "  task migrate: :environment do",
+      "  end",
+      "end",
+      "",
+      "task default: :spec",
+    ].join("\n");
+    expect(summary(parseRakefile(rakefile))).toEqual([
+      ["rake spec", "Run the specs"],
+      ["rake db:migrate", "Migrate the database"],
+      ["rake default", undefined],
+    ]);
+  });
+});
+
+describe("package manager detection", () => {
+  let root: string;
+
+  async function write(files: Record<string, string>): Promise<void> {
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-commands-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("picks the runner from the lockfile or packageManager field", async () => {
+    await write({ "package.json": JSON.stringify({ packageManager: "yarn@4.1.0" }) });
+    expect(await detectScriptRunner(root)).toBe("yarn");
+
+    await write({ "bun.lock": "" });
+    expect(await detectScriptRunner(root)).toBe("bun");
+
+    await write({ "pnpm-lock.yaml": "" });
+    expect(await detectScriptRunner(root)).toBe("pnpm");
+  });
+
+  it("runs scripts with the repo's package manager and collects every command file", async () => {
+    await write({
+      "pnpm-lock.yaml": "",
+      "services/api/package.json": JSON.stringify({ scripts: { dev: "tsx watch src" } }),
+      "services/api/justfile": "# Start the stack\nup:\n    docker compose up\n",
+    });
+
+    const commands = await extractCommands(join(root, "services/api"), root);
+    expect(commands).toEqual([
+      { name: "dev", command: "pnpm run dev", source: "package.json", description: "tsx watch src" },
+      { name: "up", command: "just up", source: "justfile", description: "Start the stack" },
+    ]);
+    expect((await extractCommands(join(root, "services/api")))[0].command).toBe("npm run dev");
+  });
+});
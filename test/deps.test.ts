@@ -90,6 +90,14 @@ describe("generateDependencyDocs", () => {
     expect(docs).toContain("```");
   });
 
+  it("should omit the Mermaid diagram when showGraph is false", () => {
+    const docs = generateDependencyDocs(mockDeps, "my-api", { showGraph: false });
+
+    expect(docs).not.toContain("## Dependency Graph");
+    expect(docs).not.toContain("```mermaid");
+    expect(docs).toContain("## Runtime Dependencies");
+  });
+
   it("should list runtime dependencies", () => {
     const docs = generateDependencyDocs(mockDeps, "my-api");
     
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { generateDiffDocs, parsePullRequestTarget } from "../src/diff.js";
+import { generateDiffDocs, parsePullRequestTarget, toPullRequestInfo } from "../src/diff.js";
 import type { DiffSummary } from "../src/types.js";
 
 describe("Diff/Compare Mode", () => {
@@ -35,6 +35,54 @@ describe("Diff/Compare Mode", () => {
     it("should throw on missing PR number", () => {
       expect(() => parsePullRequestTarget("owner/repo")).toThrow("Invalid PR reference");
     });
+
+    it("should parse GitLab, Bitbucket and Gitea pull request URLs", () => {
+      expect(parsePullRequestTarget("https://gitlab.com/group/sub/app/-/merge_requests/12/diffs")).toEqual({
+        repoUrl: "https://gitlab.com/group/sub/app",
+        prNumber: 12,
+      });
+      expect(parsePullRequestTarget("https://bitbucket.org/team/app/pull-requests/5")).toEqual({
+        repoUrl: "https://bitbucket.org/team/app",
+        prNumber: 5,
+      });
+      expect(parsePullRequestTarget("codeberg.org/forge/site/pulls/7")).toEqual({
+        repoUrl: "https://codeberg.org/forge/site",
+        prNumber: 7,
+      });
+      expect(parsePullRequestTarget("https://github.acme.com/org/svc/pull/3#discussion")).toEqual({
+        repoUrl: "https://github.acme.com/org/svc",
+        prNumber: 3,
+      });
+    });
+  });
+
+  describe("toPullRequestInfo", () => {
+    const sha = "a".repeat(40);
+
+    it("maps each host's API response to fetchable refs", () => {
+      expect(
+        toPullRequestInfo("github", 4, { base: { ref: "main", sha }, head: { ref: "feat" }, title: "T", html_url: "u" })
+      ).toEqual({ baseName: "main", headName: "feat", baseFetch: sha, headFetch: "pull/4/head", title: "T", url: "u" });
+      expect(toPullRequestInfo("gitea", 4, { base: { ref: "main", sha }, head: { ref: "feat" } })?.headFetch).toBe(
+        "refs/pull/4/head"
+      );
+      expect(
+        toPullRequestInfo("gitlab", 9, { target_branch: "main", source_branch: "fix", diff_refs: { base_sha: sha }, web_url: "u" })
+      ).toMatchObject({ baseName: "main", headName: "fix", baseFetch: sha, headFetch: "refs/merge-requests/9/head", url: "u" });
+      expect(
+        toPullRequestInfo("bitbucket", 2, {
+          destination: { branch: { name: "main" } },
+          source: { branch: { name: "fix" } },
+          links: { html: { href: "u" } },
+        })
+      ).toMatchObject({ baseFetch: "refs/heads/main", headFetch: "refs/heads/fix", url: "u" });
+    });
+
+    it("returns null when refs are missing", () => {
+      expect(toPullRequestInfo("github", 1, { title: "x" })).toBeNull();
+      expect(toPullRequestInfo("gitlab", 1, { target_branch: "main" })).toBeNull();
+      expect(toPullRequestInfo("git", 1, {})).toBeNull();
+    });
   });
 
   describe("generateDiffDocs", () => {
@@ -216,6 +216,9 @@ describe("E2E smoke test", () => {
     expect(scan.stack.hasCi).toBe(true);
     expect(scan.commands.length).toBeGreaterThan(0);
     expect(scan.readme).toContain("Fixture Repo");
+    expect(scan.symbols?.symbols).toContainEqual(
+      expect.objectContaining({ name: "add", kind: "function", path: "src/utils.ts", line: 1, exported: true })
+    );
   });
 
   it("extracts dependencies from the fixture repo", async () => {
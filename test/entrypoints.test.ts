@@ -0,0 +1,245 @@
+/**
+ * Tests for deterministic entrypoint detection
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import {
+  commandTarget,
+  findEntrypoints,
+  mergeEntrypoints,
+  packageEntrypoints,
+  parseCargoEntrypoints,
+  parseDockerfileEntrypoints,
+  parseProcfile,
+  parsePyprojectEntrypoints,
+  parseServerlessConfig,
+} from "../src/entrypoints.js";
+import type { Entrypoint } from "../src/types.js";
+
+function summary(entrypoints: Entrypoint[]): string[] {
+  return entrypoints.map((e) => `${e.type}:${e.path}`);
+}
+
+describe("packageEntrypoints", () => {
+  it("reads bin, main, module and the root export", () => {
+    const entrypoints = packageEntrypoints({
+      name: "tool",
+      bin: { tool: "./bin/tool.js" },
+      main: "./dist/index.cjs",
+      module: "./dist/index.mjs",
+      exports: { ".": { import: "./dist/index.mjs" }, "./utils": "./dist/utils.js" },
+    });
+    expect(summary(entrypoints)).toEqual(["cli:bin/tool.js", "main:dist/index.cjs", "library:dist/index.mjs"]);
+  });
+});
+
+describe("parseCargoEntrypoints", () => {
+  it("reads [[bin]] tables, the default binary, src/bin and the library root", () => {
+    const cargo = `
+[package]
+name = "ferris"
+
+[[bin]]
+name = "ferris-admin"
+path = "tools/admin.rs"
+
+[lib]
+path = "src/ferris.rs"
+
+[[bench]]
+name = "speed"
+`;
+    const files = new Set(["src/main.rs", "src/bin/migrate.rs", "src/bin/seed/main.rs", "src/ferris.rs", "tools/admin.rs"]);
+
+    const entrypoints = parseCargoEntrypoints(cargo, files);
+    expect(summary(entrypoints)).toEqual([
+      "binary:tools/admin.rs",
+      "binary:src/main.rs",
+      "binary:src/bin/migrate.rs",
+      "binary:src/bin/seed/main.rs",
+      "library:src/ferris.rs",
+    ]);
+    expect(entrypoints[1].description).toBe("`ferris` binary (Cargo default)");
+  });
+});
+
+describe("parsePyprojectEntrypoints", () => {
+  it("points console scripts at the module that defines them", () => {
+    const pyproject = `
+[project.scripts]
+acme = "acme.cli:main"
+acme-worker = "acme.worker:run"
+
+[tool.poetry.scripts]
+legacy = { callable = "missing.module:main" }
+`;
+    const entrypoints = parsePyprojectEntrypoints(pyproject, new Set(["src/acme/cli.py", "src/acme/worker/__init__.py"]));
+    expect(summary(entrypoints)).toEqual(["cli:src/acme/cli.py", "cli:src/acme/worker/__init__.py", "cli:pyproject.toml"]);
+    expect(entrypoints[0].description).toBe("`acme` command (acme.cli:main)");
+  });
+});
+
+describe("commandTarget", () => {
+  const files = new Set(["server.js", "api/app.py", "api/main.py", "worker/__main__.py", "web/wsgi.py"]);
+
+  it("finds script arguments, python -m modules and Python server apps", () => {
+    expect(commandTarget(["node", "./server.js"], "", files)).toBe("server.js");
+    expect(commandTarget(["python", "app.py"], "api", files)).toBe("api/app.py");
+    expect(commandTarget(["python", "-m", "worker"], "", files)).toBe("worker/__main__.py");
+    expect(commandTarget(["uvicorn", "main:app", "--port", "80"], "api", files)).toBe("api/main.py");
+    expect(commandTarget(["gunicorn", "--bind", "0.0.0.0:80", "web.wsgi"], "", files)).toBe("web/wsgi.py");
+    expect(commandTarget(["node", "dist/index.js"], "", files)).toBeNull();
+  });
+});
+
+describe("parseDockerfileEntrypoints", () => {
+  it("reads the final stage's ENTRYPOINT and CMD relative to WORKDIR", () => {
+    const dockerfile = [
+      "FROM node:20 AS build",
+      'CMD ["npm", "test"]',
+      "",
+      "FROM node:20-slim",
+      "WORKDIR /app",
+      "COPY . .",
+      'ENTRYPOINT ["node"]',
+      'CMD ["/app/src/server.js", \\',
+      '     "--port", "8080"]',
+    ].join("\n");
+
+    expect(parseDockerfileEntrypoints(dockerfile, "Dockerfile", new Set(["src/server.js"]))).toEqual([
+      {
+        path: "src/server.js",
+        type: "server",
+        description: "Container start: `node /app/src/server.js --port 8080` (Dockerfile ENTRYPOINT)",
+      },
+    ]);
+  });
+
+  it("falls back to the Dockerfile when the command runs a built or installed file", () => {
+    const [entry] = parseDockerfileEntrypoints("FROM alpine\nCMD ./bin/app serve\n", "deploy/Dockerfile", new Set());
+    expect(entry).toMatchObject({ path: "deploy/Dockerfile", description: "Container start: `./bin/app serve` (Dockerfile CMD)" });
+    expect(parseDockerfileEntrypoints("FROM alpine\n", "Dockerfile", new Set())).toEqual([]);
+  });
+});
+
+describe("parseProcfile", () => {
+  it("classifies the web process as a server and others as main", () => {
+    const procfile = "web: gunicorn shop.wsgi --log-file -\nworker: celery -A shop worker\nrelease: python manage.py migrate\n";
+    const entrypoints = parseProcfile(procfile, new Set(["shop/wsgi.py", "manage.py"]));
+    expect(summary(entrypoints)).toEqual(["server:shop/wsgi.py", "main:Procfile", "main:manage.py"]);
+  });
+});
+
+describe("parseServerlessConfig", () => {
+  it("reads Serverless Framework functions", () => {
+    const config = `
+service: orders
+functions:
+  createOrder:
+    handler: src/handlers/orders.create
+    events:
+      - httpApi: POST /orders
+  nightly:
+    handler: src/jobs/cleanup.run
+    events:
+      - schedule: rate(1 day)
+`;
+    const files = new Set(["src/handlers/orders.ts", "src/jobs/cleanup.py"]);
+    expect(summary(parseServerlessConfig(config, "serverless.yml", files))).toEqual([
+      "server:src/handlers/orders.ts",
+      "main:src/jobs/cleanup.py",
+    ]);
+  });
+
+  it("reads AWS SAM functions with CloudFormation tags and global CodeUri", () => {
+    const template = `
+Transform: AWS::Serverless-2016-10-31
+Globals:
+  Function:
+    CodeUri: functions/
+Resources:
+  HelloFunction:
+    Type: AWS::Serverless::Function
+    Properties:
+      Handler: hello.lambda_handler
+      Role: !GetAtt HelloRole.Arn
+      Events:
+        Hello:
+          Type: Api
+  Bucket:
+    Type: AWS::S3::Bucket
+`;
+    const [hello] = parseServerlessConfig(template, "template.yaml", new Set(["functions/hello.py"]));
+    expect(hello).toEqual({
+      path: "functions/hello.py",
+      type: "server",
+      description: "`HelloFunction` function handler hello.lambda_handler (template.yaml)",
+    });
+  });
+});
+
+describe("mergeEntrypoints", () => {
+  it("keeps the first entry for each normalized path", () => {
+    const merged = mergeEntrypoints(
+      [{ path: "./src/index.ts", type: "main" }],
+      [{ path: "src/index.ts", type: "library" }, { path: "src/cli.ts", type: "cli" }]
+    );
+    expect(summary(merged)).toEqual(["main:src/index.ts", "cli:src/cli.ts"]);
+  });
+});
+
+describe("findEntrypoints", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-entrypoints-"));
+    const files: Record<string, string> = {
+      "package.json": JSON.stringify({ name: "shop", main: "index.js" }),
+      "index.js": "module.exports = {};\n",
+      "cmd/shopctl/flags.go": "package main\n\nvar verbose bool\n",
+      "cmd/shopctl/main.go": "package main\n\nfunc main() {}\n",
+      "internal/store/store.go": "package store\n",
+      "main_test.go": "package main\n",
+      "tools/__main__.py": "print('hi')\n",
+      "services/api/Dockerfile": "FROM python:3.12\nCMD [\"python\", \"app.py\"]\n",
+      "services/api/app.py": "app = None\n",
+      Procfile: "web: node index.js\n",
+    };
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("collects entrypoints from every source, first source winning on the same path", async () => {
+    const files = [
+      "package.json",
+      "index.js",
+      "cmd/shopctl/flags.go",
+      "cmd/shopctl/main.go",
+      "internal/store/store.go",
+      "main_test.go",
+      "tools/__main__.py",
+      "services/api/Dockerfile",
+      "services/api/app.py",
+      "Procfile",
+    ].map((path) => ({ path, size: 1, isDirectory: false }));
+
+    const entrypoints = await findEntrypoints(root, files);
+    expect(summary(entrypoints)).toEqual([
+      "main:index.js",
+      "binary:cmd/shopctl/main.go",
+      "cli:tools/__main__.py",
+      "server:services/api/app.py",
+    ]);
+    expect(entrypoints[1].description).toBe("`shopctl` command (package main)");
+    expect(entrypoints[2].description).toBe("Run with `python -m tools`");
+  });
+});
@@ -10,8 +10,16 @@ import {
   generateCodemap,
   generateFirstTasks,
   generateRunbook,
+  generateWorkspaces,
+  generateCi,
+  generateDiagrams,
+  generatePipelineDiagram,
+  isDocIncludedForFocus,
+  isDocIncludedForStyle,
+  applyStyleToDocument,
 } from "../src/generator.js";
-import type { RepoFacts, BootcampOptions } from "../src/types.js";
+import { getStyleConfig } from "../src/plugins.js";
+import type { RepoFacts, BootcampOptions, StackInfo, WorkspaceInfo, CIWorkflow, CodeStats } from "../src/types.js";
 
 const mockFacts: RepoFacts = {
   repoName: "test/repo",
@@ -118,6 +126,18 @@ const mockOptions: BootcampOptions = {
   verbose: false,
 };
 
+const mockCodeStats: CodeStats = {
+  total: { files: 140, code: 12000, comment: 1500, blank: 2000 },
+  languages: [
+    { language: "TypeScript", files: 100, code: 9600, comment: 1200, blank: 1500 },
+    { language: "JSON", files: 40, code: 2400, comment: 300, blank: 500 },
+  ],
+  directories: [
+    { path: "src/", files: 90, code: 8000, comment: 1000, blank: 1200, languages: ["TypeScript", "JSON"] },
+    { path: "test/", files: 50, code: 4000, comment: 500, blank: 800, languages: ["TypeScript"] },
+  ],
+};
+
 describe("generateBootcamp", () => {
   it("includes repo name in title", () => {
     const result = generateBootcamp(mockFacts, mockOptions);
@@ -140,6 +160,34 @@ describe("generateBootcamp", () => {
     expect(result).toContain("Node.js 18+");
   });
 
+  it("shows language shares and code size when the scan counted lines", () => {
+    expect(generateBootcamp(mockFacts, mockOptions)).not.toContain("**Size**");
+
+    const result = generateBootcamp({ ...mockFacts, codeStats: mockCodeStats }, mockOptions);
+    expect(result).toContain("| **Languages** | TypeScript (80%), JavaScript |");
+    expect(result).toContain("| **Size** | 12,000 lines of code in 140 files |");
+  });
+
+  it("lists verification corrections only when there are some", () => {
+    expect(generateBootcamp(mockFacts, mockOptions)).not.toContain("## Verification");
+
+    const result = generateBootcamp(
+      {
+        ...mockFacts,
+        verification: {
+          checked: 12,
+          issues: [
+            { section: "quickstart", field: "quickstart.commands", value: "npm run e2e", action: "dropped", reason: 'no package.json script "e2e"' },
+          ],
+        },
+      },
+      mockOptions
+    );
+    expect(result).toContain("## Verification");
+    expect(result).toContain("1 of 12 cited paths, commands and code examples");
+    expect(result).toContain('| quickstart.commands | `npm run e2e` | dropped | no package.json script "e2e" |');
+  });
+
   it("includes confidence badge when present", () => {
     const result = generateBootcamp(mockFacts, mockOptions);
     expect(result).toContain("confidence-high");
@@ -159,6 +207,22 @@ describe("generateOnboarding", () => {
     expect(result).toContain("test/repo");
   });
 
+  it("clones from the remote the docs were generated from", () => {
+    const result = generateOnboarding({
+      ...mockFacts,
+      location: { host: "git", cloneUrl: "ssh://git@git.example.com/srv/repo.git", branch: "main" },
+    });
+    expect(result).toContain("git clone ssh://git@git.example.com/srv/repo.git\ncd repo");
+  });
+
+  it("checks out the ref the docs were generated for", () => {
+    const location = { host: "github" as const, cloneUrl: "https://github.com/o/repo.git", branch: "v2.0.0", ref: "v2.0.0" };
+    expect(generateOnboarding({ ...mockFacts, location })).toContain("cd repo\ngit checkout v2.0.0\n");
+    expect(generateOnboarding({ ...mockFacts, location: { ...location, branch: "pr/3", ref: "pr/3" } })).toContain(
+      "git fetch origin refs/pull/3/head && git checkout --detach FETCH_HEAD"
+    );
+  });
+
   it("includes commands", () => {
     const result = generateOnboarding(mockFacts);
     expect(result).toContain("npm install");
@@ -206,6 +270,14 @@ describe("generateCodemap", () => {
     expect(result).toContain("src/index.ts");
   });
 
+  it("links entrypoints to the file on the repository's host", () => {
+    const result = generateCodemap({
+      ...mockFacts,
+      location: { host: "gitlab", cloneUrl: "", webUrl: "https://gitlab.com/g/repo", branch: "main", commitSha: "abc123" },
+    });
+    expect(result).toContain("](https://gitlab.com/g/repo/-/blob/abc123/src/index.ts)");
+  });
+
   it("includes key directories", () => {
     const result = generateCodemap(mockFacts);
     expect(result).toContain("src/");
@@ -216,6 +288,15 @@ describe("generateCodemap", () => {
     const result = generateCodemap(mockFacts);
     expect(result).toContain("Reading Order");
   });
+
+  it("breaks lines of code down by language and directory", () => {
+    expect(generateCodemap(mockFacts)).not.toContain("## Code Size");
+
+    const result = generateCodemap({ ...mockFacts, codeStats: mockCodeStats });
+    expect(result).toContain("12,000 lines of code, 1,500 comment lines and 2,000 blank lines in 140 files.");
+    expect(result).toContain("| TypeScript | 100 | 9,600 | 1,200 | 1,500 |");
+    expect(result).toContain("| `src/` | 90 | 8,000 | TypeScript, JSON |");
+  });
 });
 
 describe("generateFirstTasks", () => {
@@ -400,3 +481,271 @@ describe("edge cases", () => {
     expect(result).toContain("database connections");
   });
 });
+
+describe("focus and audience", () => {
+  it("includes every document when focus is all", () => {
+    for (const name of ["ARCHITECTURE.md", "RUNBOOK.md", "SECURITY.md", "RADAR.md", "IMPACT.md"]) {
+      expect(isDocIncludedForFocus(name, "all")).toBe(true);
+    }
+  });
+
+  it("skips unrelated documents for architecture focus", () => {
+    expect(isDocIncludedForFocus("ARCHITECTURE.md", "architecture")).toBe(true);
+    expect(isDocIncludedForFocus("diagrams.mmd", "architecture")).toBe(true);
+    expect(isDocIncludedForFocus("FIRST_TASKS.md", "architecture")).toBe(false);
+    expect(isDocIncludedForFocus("RUNBOOK.md", "architecture")).toBe(false);
+  });
+
+  it("always includes documents outside the focus sets", () => {
+    expect(isDocIncludedForFocus("repo_facts.json", "onboarding")).toBe(true);
+    expect(isDocIncludedForFocus("DIFF.md", "contributing")).toBe(true);
+    expect(isDocIncludedForFocus("CUSTOM.md", "architecture")).toBe(true);
+  });
+
+  it("only links to generated documents in BOOTCAMP.md next steps", () => {
+    const result = generateBootcamp(mockFacts, { ...mockOptions, focus: "architecture" });
+    expect(result).toContain("[ARCHITECTURE.md]");
+    expect(result).not.toContain("[FIRST_TASKS.md]");
+    expect(result).not.toContain("[ONBOARDING.md]");
+  });
+
+  it("links only the documents that are written when the set is known", () => {
+    const result = generateBootcamp(mockFacts, mockOptions, undefined, new Set(["ONBOARDING.md", "CODEMAP.md"]));
+    expect(result).toContain("[ONBOARDING.md]");
+    expect(result).toContain("[CODEMAP.md]");
+    expect(result).not.toContain("[ARCHITECTURE.md]");
+    expect(result).not.toContain("[FIRST_TASKS.md]");
+  });
+
+  it("adds deploy and on-call guidance for internal developers", () => {
+    const result = generateBootcamp(mockFacts, { ...mockOptions, audience: "internal-dev" });
+    expect(result).toContain("## Deploy & On-Call");
+    expect(result).toContain("Push to registry");
+    expect(result).toContain("Prometheus metrics");
+  });
+
+  it("links RUNBOOK.md from the on-call section only when it is written", () => {
+    const options = { ...mockOptions, audience: "internal-dev" as const };
+    expect(generateBootcamp(mockFacts, options, undefined, new Set(["RUNBOOK.md"]))).toContain(
+      "[RUNBOOK.md](./RUNBOOK.md)"
+    );
+    expect(generateBootcamp(mockFacts, options, undefined, new Set(["CODEMAP.md"]))).not.toContain("RUNBOOK.md");
+    expect(generateOnboarding(mockFacts, options, new Set())).not.toContain("RUNBOOK.md");
+  });
+
+  it("adds contribution etiquette for oss contributors", () => {
+    const result = generateBootcamp(mockFacts, { ...mockOptions, audience: "oss-contributor" });
+    expect(result).toContain("## Contribution Etiquette");
+    expect(result).toContain("CLA");
+    expect(result).toContain("`lint`");
+  });
+
+  it("adds a first week checklist for new hires in ONBOARDING.md", () => {
+    const result = generateOnboarding(mockFacts, { ...mockOptions, audience: "new-hire" });
+    expect(result).toContain("## Your First Week");
+  });
+
+  it("omits audience sections from ONBOARDING.md without options", () => {
+    const result = generateOnboarding(mockFacts);
+    expect(result).not.toContain("## Contribution Etiquette");
+    expect(result).not.toContain("## Deploy & On-Call");
+  });
+
+  it("produces a deeper ARCHITECTURE.md for architecture focus", () => {
+    const standard = generateArchitecture(mockFacts, mockOptions);
+    const deep = generateArchitecture(mockFacts, { ...mockOptions, focus: "architecture" });
+    expect(standard).not.toContain("## Module Map");
+    expect(deep).toContain("## Module Map");
+    expect(deep).toContain("`src/index.ts`");
+    expect(deep).toContain("## Suggested Reading Path");
+    expect(deep).toContain("Read **API Layer** in `src/api/`");
+  });
+
+  it("adds the contribution workflow to FIRST_TASKS.md for contributing focus", () => {
+    const result = generateFirstTasks(mockFacts, { ...mockOptions, focus: "contributing" });
+    expect(result).toContain("## Contribution Workflow");
+    expect(result).toContain("Write tests");
+    expect(result).toContain("- [ ] lint");
+    expect(result).toContain("ESLint + Prettier");
+  });
+});
+
+describe("style packs", () => {
+  it("renders shields badges and intro text for the startup style", () => {
+    const style = getStyleConfig("startup");
+    const result = generateBootcamp(mockFacts, mockOptions, style);
+    expect(result).toContain("img.shields.io/badge/confidence-high");
+    expect(result).toContain(style.introText);
+    expect(result).toContain("## If You Only Have 30 Minutes");
+  });
+
+  it("renders simple badges and formal headings for the enterprise style", () => {
+    const result = generateBootcamp(mockFacts, mockOptions, getStyleConfig("enterprise"));
+    expect(result).not.toContain("img.shields.io");
+    expect(result).toContain("**Confidence:** High");
+    expect(result).toContain("## Recommended First Session");
+    expect(result).toContain("## Further Reading");
+  });
+
+  it("omits the confidence badge when badge style is none", () => {
+    const style = getStyleConfig("oss", { badges: { style: "none" } });
+    const result = generateBootcamp(mockFacts, mockOptions, style);
+    expect(result).not.toContain("Confidence");
+  });
+
+  it("limits FIRST_TASKS.md to firstTasksCount", () => {
+    const style = getStyleConfig("oss", { firstTasksCount: 1 });
+    const result = generateFirstTasks(mockFacts, mockOptions, style);
+    expect(result).toContain("Add README badge");
+    expect(result).not.toContain("Add unit test");
+  });
+
+  it("limits BOOTCAMP.md quick tasks to firstTasksCount", () => {
+    const facts: RepoFacts = {
+      ...mockFacts,
+      firstTasks: [
+        { title: "Task A", description: "a", difficulty: "beginner", category: "docs", files: [], why: "w" },
+        { title: "Task B", description: "b", difficulty: "beginner", category: "docs", files: [], why: "w" },
+      ],
+    };
+    const result = generateBootcamp(facts, mockOptions, getStyleConfig("oss", { firstTasksCount: 1 }));
+    expect(result).toContain("Task A");
+    expect(result).not.toContain("Task B");
+  });
+
+  it("drops documents disabled by section flags", () => {
+    const devops = getStyleConfig("devops");
+    expect(isDocIncludedForStyle("RADAR.md", devops)).toBe(false);
+    expect(isDocIncludedForStyle("RUNBOOK.md", devops)).toBe(true);
+    expect(isDocIncludedForStyle("RUNBOOK.md", getStyleConfig("oss"))).toBe(false);
+    expect(isDocIncludedForStyle("IMPACT.md", getStyleConfig("enterprise"))).toBe(true);
+    expect(isDocIncludedForStyle("BOOTCAMP.md", devops)).toBe(true);
+  });
+
+  it("strips emoji for styles with emoji disabled", () => {
+    const content = "- 📖 [ONBOARDING.md](./ONBOARDING.md)\n### 🔴 Critical\n✅ CORS configured";
+    expect(applyStyleToDocument(content, getStyleConfig("enterprise"))).toBe(
+      "- [ONBOARDING.md](./ONBOARDING.md)\n### Critical\nCORS configured"
+    );
+    expect(applyStyleToDocument(content, getStyleConfig("startup"))).toBe(content);
+  });
+});
+
+describe("scoped bootcamps", () => {
+  it("labels docs for a subdirectory with their scope", () => {
+    const facts: RepoFacts = {
+      ...mockFacts,
+      location: { host: "github", cloneUrl: "https://github.com/o/r.git", webUrl: "https://github.com/o/r", branch: "main", subdir: "services/api" },
+    };
+    const note = "> **Scoped bootcamp:** covers `services/api/` only.";
+    expect(generateBootcamp(facts, mockOptions)).toContain(note);
+    expect(generateCodemap(facts)).toContain(note);
+    expect(generateBootcamp(mockFacts, mockOptions)).not.toContain("Scoped bootcamp");
+  });
+});
+
+describe("generateWorkspaces", () => {
+  const stack: StackInfo = { languages: ["TypeScript"], frameworks: [], buildSystem: "npm", packageManager: "pnpm", hasDocker: false, hasCi: false };
+  const workspaces: WorkspaceInfo = {
+    tools: ["pnpm", "turborepo"],
+    packages: [
+      {
+        name: "@acme/core",
+        path: "packages/core",
+        manifest: "packages/core/package.json",
+        stack,
+        commands: [{ name: "build", command: "pnpm --filter @acme/core build", source: "packages/core/package.json" }],
+        dependencies: ["zod"],
+        internalDeps: [],
+      },
+      {
+        name: "@acme/web",
+        path: "apps/web",
+        manifest: "apps/web/package.json",
+        stack: { ...stack, frameworks: ["Next.js"] },
+        commands: [],
+        dependencies: ["next", "react"],
+        internalDeps: ["@acme/core"],
+      },
+    ],
+  };
+
+  it("lists packages with their stack, dependencies and dependents", () => {
+    const result = generateWorkspaces(mockFacts, workspaces);
+    expect(result).toContain("# Workspaces: test/repo");
+    expect(result).toContain("monorepo with 2 packages (pnpm, turborepo)");
+    expect(result).toContain("| [`@acme/core`](./packages/core/package.json) | `packages/core` | TypeScript | 1 | - | 1 |");
+    expect(result).toContain("| [`@acme/web`](./apps/web/package.json) | `apps/web` | TypeScript, Next.js | 2 | `@acme/core` | 0 |");
+    expect(result).toContain("Packages with no internal dependencies: `@acme/core`.");
+    expect(result).toContain("### @acme/core\n\n```bash\npnpm --filter @acme/core build\n```");
+  });
+
+  it("draws internal dependency edges", () => {
+    const result = generateWorkspaces(mockFacts, workspaces);
+    expect(result).toContain('graph LR\n    P0["@acme/core"]\n    P1["@acme/web"]\n    P1 --> P0');
+  });
+
+  it("links manifests on the repository host", () => {
+    const facts: RepoFacts = {
+      ...mockFacts,
+      location: { host: "github", cloneUrl: "https://github.com/o/r.git", webUrl: "https://github.com/o/r", branch: "main", commitSha: "abc" },
+    };
+    expect(generateWorkspaces(facts, workspaces)).toContain("(https://github.com/o/r/blob/abc/apps/web/package.json)");
+  });
+});
+
+describe("generateCi", () => {
+  const pipelines: CIWorkflow[] = [
+    {
+      name: "CI",
+      file: ".github/workflows/ci.yml",
+      triggers: ["push", "pull_request"],
+      mainSteps: ["npm ci", "npm test"],
+      system: "github-actions",
+      jobs: [
+        { id: "lint", name: "lint", runsOn: "ubuntu-latest", needs: [], steps: [{ uses: "actions/checkout@v4" }, { run: "npm ci" }], matrix: {}, services: [] },
+        {
+          id: "test",
+          name: "test",
+          needs: ["lint"],
+          steps: [{ name: "Unit tests", run: "npm test" }],
+          matrix: { node: ["18", "20"], os: ["ubuntu", "windows"] },
+          services: ["postgres:16"],
+        },
+      ],
+    },
+    {
+      name: "GitLab CI",
+      file: ".gitlab-ci.yml",
+      triggers: ["push"],
+      mainSteps: [],
+      system: "gitlab-ci",
+      stages: ["build", "test"],
+      jobs: [
+        { id: "build", name: "build", stage: "build", needs: [], steps: [{ run: "make" }], matrix: {}, services: [] },
+        { id: "unit", name: "unit", stage: "test", needs: [], steps: [{ run: "make test" }], matrix: {}, services: [] },
+      ],
+    },
+  ];
+
+  it("summarizes pipelines and lists each job's local commands", () => {
+    const result = generateCi(mockFacts, pipelines);
+    expect(result).toContain("2 pipelines on GitHub Actions, GitLab CI.");
+    expect(result).toContain("| CI | GitHub Actions | `.github/workflows/ci.yml` | push, pull_request | lint, test |");
+    expect(result).toContain("### CI: test\n\n- **Needs:** `lint`\n- **Matrix:** node = 18, 20; os = ubuntu, windows\n- **Services:** `postgres:16`\n\n```bash\n# Unit tests\nnpm test\n```");
+    expect(result).toContain("- **Runs on:** `ubuntu-latest`\n- **Uses:** `actions/checkout@v4`");
+  });
+
+  it("links jobs by needs and by stage order", () => {
+    const diagram = generatePipelineDiagram(pipelines);
+    expect(diagram).toContain('subgraph P0["CI<br/>on: push, pull_request"]');
+    expect(diagram).toContain('P0J1["test ×4"]');
+    expect(diagram).toContain("P0J0 --> P0J1");
+    expect(diagram).toContain("P1J0 --> P1J1");
+  });
+
+  it("replaces the generic CI flow in diagrams.mmd", () => {
+    expect(generateDiagrams(mockFacts, pipelines)).toContain("flowchart LR");
+    expect(generateDiagrams(mockFacts)).toContain("A[Push] --> B[CI]");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for git history queries (run against a real temporary repository)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getBlameSummary,
+  getCoChanges,
+  getFileHistory,
+  isShallowClone,
+  parseBlamePorcelain,
+} from "../src/git-history.js";
+
+let root: string;
+let repoPath: string;
+
+function git(cwd: string, args: string[], author = "Alice", date = "2025-01-01T12:00:00Z"): void {
+  execFileSync("git", args, {
+    cwd,
+    stdio: "ignore",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: author,
+      GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_COMMITTER_DATE: date,
+    },
+  });
+}
+
+async function commit(files: Record<string, string>, message: string, author: string, date: string): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await writeFile(join(repoPath, path), content);
+  }
+  git(repoPath, ["add", "-A"]);
+  git(repoPath, ["commit", "-q", "-m", message], author, date);
+}
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "bootcamp-git-"));
+  repoPath = join(root, "repo");
+  await mkdir(join(repoPath, "src"), { recursive: true });
+  git(repoPath, ["init", "-q"]);
+
+  await commit({ "src/parser.ts": "a\nb\nc\n", "README.md": "# r\n" }, "Add parser", "Alice", "2025-01-01T12:00:00Z");
+  await commit({ "src/parser.ts": "a\nB\nc\nd\n", "src/lexer.ts": "x\n" }, "Handle d tokens", "Bob", "2025-02-01T12:00:00Z");
+  await commit({ "src/parser.ts": "a\nB\nc\nd\ne\n", "src/lexer.ts": "x\ny\n", "README.md": "# r\ndocs\n" }, "Support e", "Bob", "2025-03-01T12:00:00Z");
+  await commit({ "README.md": "# r\nmore docs\n" }, "Docs only", "Carol", "2025-04-01T12:00:00Z");
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("getFileHistory", () => {
+  it("lists commits that touched a path, newest first", async () => {
+    const history = await getFileHistory(repoPath, "src/parser.ts", 10);
+    expect(history.map((c) => c.subject)).toEqual(["Support e", "Handle d tokens", "Add parser"]);
+    expect(history[0]).toMatchObject({ author: "Bob", date: "2025-03-01" });
+    expect(history[0].sha).toMatch(/^[0-9a-f]{7,}$/);
+  });
+
+  it("covers the whole repository without a path and honors maxCount", async () => {
+    const history = await getFileHistory(repoPath, "", 2);
+    expect(history.map((c) => c.subject)).toEqual(["Docs only", "Support e"]);
+  });
+});
+
+describe("getBlameSummary", () => {
+  it("attributes lines to authors and commits", async () => {
+    const blame = await getBlameSummary(repoPath, "src/parser.ts");
+
+    expect(blame.totalLines).toBe(5);
+    expect(blame.authors).toEqual([
+      { name: "Bob", lines: 3 },
+      { name: "Alice", lines: 2 },
+    ]);
+    const alice = blame.commits.find((c) => c.author === "Alice");
+    expect(alice).toMatchObject({ summary: "Add parser", lines: 2, ranges: ["1", "3"], date: "2025-01-01" });
+  });
+
+  it("limits blame to a line range", async () => {
+    const blame = await getBlameSummary(repoPath, "src/parser.ts", 4, 5);
+    expect(blame.totalLines).toBe(2);
+    expect(blame.commits.map((c) => [c.summary, c.ranges])).toEqual([
+      ["Handle d tokens", ["4"]],
+      ["Support e", ["5"]],
+    ]);
+  });
+});
+
+describe("getCoChanges", () => {
+  it("counts files changed in the same commits", async () => {
+    const result = await getCoChanges(repoPath, "src/parser.ts", 100, 10);
+    expect(result.commits).toBe(3);
+    expect(result.files).toEqual([
+      { path: "README.md", count: 2 },
+      { path: "src/lexer.ts", count: 2 },
+    ]);
+  });
+
+  it("excludes files inside a directory path", async () => {
+    const result = await getCoChanges(repoPath, "src/", 100, 10);
+    expect(result.files).toEqual([{ path: "README.md", count: 2 }]);
+  });
+});
+
+describe("shallow clones", () => {
+  it("detects truncated history and marks the boundary commit", async () => {
+    const shallowPath = join(root, "shallow");
+    git(root, ["clone", "-q", "--depth", "1", `file://${repoPath}`, shallowPath]);
+
+    expect(await isShallowClone(shallowPath)).toBe(true);
+    expect(await isShallowClone(repoPath)).toBe(false);
+
+    expect((await getFileHistory(shallowPath, "src/parser.ts", 10)).map((c) => c.subject)).toEqual(["Docs only"]);
+    const blame = await getBlameSummary(shallowPath, "src/parser.ts");
+    expect(blame.commits).toHaveLength(1);
+    expect(blame.commits[0]).toMatchObject({ boundary: true, lines: 5 });
+  });
+
+  it("is not shallow outside a git repository", async () => {
+    expect(await isShallowClone(tmpdir())).toBe(false);
+  });
+});
+
+describe("parseBlamePorcelain", () => {
+  it("reuses commit details for repeated headers", () => {
+    const sha = "a".repeat(40);
+    const output = [
+      `${sha} 1 1 2`,
+      "author Dana",
+      "author-time 1735732800",
+      "summary Initial",
+      "filename f.ts",
+      "\tline one",
+      `${sha} 2 2`,
+      "\tline two",
+      "",
+    ].join("\n");
+
+    expect(parseBlamePorcelain(output)).toEqual({
+      totalLines: 2,
+      authors: [{ name: "Dana", lines: 2 }],
+      commits: [{ sha: "aaaaaaa", author: "Dana", date: "2025-01-01", summary: "Initial", boundary: false, lines: 2, ranges: ["1-2"] }],
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for host-agnostic repository URLs (clones run against a bare repo served via file://)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "child_process";
+import { readFileSync } from "fs";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { detectHost, fetchRefFor, fileLink, parseRepoUrl, repoLocation } from "../src/hosts.js";
+import { resolveRepo } from "../src/repo-resolver.js";
+import { cloneRepo } from "../src/ingest.js";
+
+describe("parseRepoUrl", () => {
+  it("parses GitHub web, clone and ssh URLs", () => {
+    for (const url of [
+      "https://github.com/owner/repo",
+      "https://github.com/owner/repo.git",
+      "https://github.com/owner/repo/tree/main/src",
+      "github.com/owner/repo",
+    ]) {
+      expect(parseRepoUrl(url), url).toEqual({
+        owner: "owner",
+        repo: "repo",
+        url: "https://github.com/owner/repo",
+        cloneUrl: "https://github.com/owner/repo.git",
+        branch: "main",
+        fullName: "owner/repo",
+        host: "github",
+        tokenEnv: "GITHUB_TOKEN",
+      });
+    }
+
+    expect(parseRepoUrl("git@github.com:owner/repo.git")).toMatchObject({
+      url: "https://github.com/owner/repo",
+      cloneUrl: "git@github.com:owner/repo.git",
+      fullName: "owner/repo",
+    });
+  });
+
+  it("keeps GitLab subgroups and stops at the /-/ marker", () => {
+    expect(parseRepoUrl("https://gitlab.com/group/sub/project/-/tree/main")).toMatchObject({
+      owner: "group/sub",
+      repo: "project",
+      fullName: "group/sub/project",
+      url: "https://gitlab.com/group/sub/project",
+      host: "gitlab",
+    });
+    expect(parseRepoUrl("ssh://git@gitlab.example.com:2222/platform/tools/cli.git")).toMatchObject({
+      fullName: "platform/tools/cli",
+      url: "https://gitlab.example.com/platform/tools/cli",
+      cloneUrl: "ssh://git@gitlab.example.com:2222/platform/tools/cli.git",
+      host: "gitlab",
+    });
+  });
+
+  it("detects Bitbucket, Gitea and GitHub Enterprise hosts", () => {
+    expect(parseRepoUrl("https://bitbucket.org/team/app/src/main/")).toMatchObject({ fullName: "team/app", host: "bitbucket" });
+    expect(parseRepoUrl("https://codeberg.org/forge/site")).toMatchObject({ fullName: "forge/site", host: "gitea" });
+    expect(parseRepoUrl("http://gitea.lan:3000/me/notes")).toMatchObject({
+      url: "http://gitea.lan:3000/me/notes",
+      cloneUrl: "http://gitea.lan:3000/me/notes.git",
+      host: "gitea",
+    });
+    expect(parseRepoUrl("https://github.acme.com/org/service/pull/4")).toMatchObject({ fullName: "org/service", host: "github" });
+  });
+
+  it("treats unknown hosts as plain git servers unless configured", () => {
+    expect(parseRepoUrl("https://git.example.com/srv/git/project.git")).toMatchObject({
+      owner: "srv/git",
+      repo: "project",
+      url: "https://git.example.com/srv/git/project.git",
+      cloneUrl: "https://git.example.com/srv/git/project.git",
+      host: "git",
+    });
+    expect(detectHost("git.acme.com", { "git.acme.com": "gitlab" })).toBe("gitlab");
+    expect(parseRepoUrl("https://git.acme.com/a/b/c/-/issues", { "git.acme.com": "gitlab" })).toMatchObject({
+      fullName: "a/b/c",
+      host: "gitlab",
+    });
+  });
+
+  it("sends tokens only to exact public hosts and configured servers over https", () => {
+    expect(parseRepoUrl("git@gitlab.com:group/app.git").tokenEnv).toBe("GITLAB_TOKEN");
+    const lookalike = parseRepoUrl("https://github.attacker.example/owner/repo");
+    expect(lookalike.host).toBe("github");
+    expect(lookalike.tokenEnv).toBeUndefined();
+    expect(parseRepoUrl("https://gitlab.example.com/group/app").tokenEnv).toBeUndefined();
+    expect(parseRepoUrl("http://github.com/owner/repo").tokenEnv).toBeUndefined();
+    expect(parseRepoUrl("https://git.acme.com/a/b", { "git.acme.com": "gitlab" }).tokenEnv).toBeUndefined();
+    expect(
+      parseRepoUrl("https://git.acme.com/a/b", { "git.acme.com": { type: "gitlab", tokenEnv: "ACME_GITLAB_TOKEN" } })
+    ).toMatchObject({ host: "gitlab", tokenEnv: "ACME_GITLAB_TOKEN" });
+    expect(
+      parseRepoUrl("http://git.acme.com/a/b", { "git.acme.com": { type: "gitlab", tokenEnv: "ACME_GITLAB_TOKEN" } }).tokenEnv
+    ).toBeUndefined();
+  });
+
+  it("parses file:// remotes", () => {
+    expect(parseRepoUrl("file:///srv/repos/demo.git")).toEqual({
+      owner: "local",
+      repo: "demo",
+      url: "file:///srv/repos/demo.git",
+      cloneUrl: "file:///srv/repos/demo.git",
+      branch: "main",
+      fullName: "local/demo",
+      host: "git",
+    });
+  });
+
+  it("rejects input that is not a repository URL", () => {
+    for (const input of ["not-a-url", "owner/repo", "", "https://github.com/owner", "ftp://example.com/a/b", "-oProxyCommand=x@evil.com:a/b"]) {
+      expect(() => parseRepoUrl(input), input).toThrow("Invalid repository URL");
+    }
+  });
+});
+
+describe("fileLink", () => {
+  const at = (url: string) => repoLocation({ ...parseRepoUrl(url), branch: "main", commitSha: "abc123" });
+
+  it("links files in each host's URL layout", () => {
+    expect(fileLink(at("https://github.com/o/r"), "src/index.ts", 3)).toBe("https://github.com/o/r/blob/abc123/src/index.ts#L3");
+    expect(fileLink(at("https://gitlab.com/g/s/r"), "src/index.ts")).toBe("https://gitlab.com/g/s/r/-/blob/abc123/src/index.ts");
+    expect(fileLink(at("https://bitbucket.org/t/r"), "a b.ts", 7)).toBe("https://bitbucket.org/t/r/src/abc123/a%20b.ts#lines-7");
+    expect(fileLink(at("https://codeberg.org/o/r"), "main.go")).toBe("https://codeberg.org/o/r/src/commit/abc123/main.go");
+  });
+
+  it("has no links for plain git remotes", () => {
+    expect(fileLink(at("file:///srv/repos/demo.git"), "main.go")).toBeUndefined();
+    expect(fileLink(undefined, "main.go")).toBeUndefined();
+  });
+});
+
+describe("fetchRefFor", () => {
+  it("maps pr/N to each host's pull or merge request head", () => {
+    expect(fetchRefFor("github", "pr/12")).toBe("refs/pull/12/head");
+    expect(fetchRefFor("gitea", "pull/12")).toBe("refs/pull/12/head");
+    expect(fetchRefFor("gitlab", "mr/12")).toBe("refs/merge-requests/12/head");
+    expect(() => fetchRefFor("bitbucket", "pr/12")).toThrow("Pull request refs are not available on bitbucket remotes");
+  });
+
+  it("passes branches, tags and SHAs through and rejects option-like refs", () => {
+    for (const ref of ["main", "release/2.x", "v1.2.0", "refs/tags/v1.2.0", "0123456789abcdef0123456789abcdef01234567"]) {
+      expect(fetchRefFor("github", ref), ref).toBe(ref);
+    }
+    for (const ref of ["--upload-pack=evil", "-b", "a..b", "main.lock", "a b", ""]) {
+      expect(() => fetchRefFor("github", ref), ref).toThrow("Invalid ref");
+    }
+  });
+});
+
+describe("cloning a file:// remote", () => {
+  let root: string;
+  let barePath: string;
+  let firstSha: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-hosts-"));
+    const workPath = join(root, "work");
+    barePath = join(root, "demo.git");
+    const git = (cwd: string, args: string[]) =>
+      execFileSync("git", args, {
+        cwd,
+        stdio: "ignore",
+        env: { ...process.env, GIT_AUTHOR_NAME: "A", GIT_AUTHOR_EMAIL: "a@example.com", GIT_COMMITTER_NAME: "A", GIT_COMMITTER_EMAIL: "a@example.com" },
+      });
+
+    execFileSync("git", ["init", "-q", "-b", "trunk", workPath]);
+    await writeFile(join(workPath, "README.md"), "# Demo\n");
+    git(workPath, ["add", "-A"]);
+    git(workPath, ["commit", "-q", "-m", "Initial"]);
+    git(workPath, ["tag", "v1.0.0"]);
+    firstSha = execFileSync("git", ["rev-parse", "HEAD"], { cwd: workPath }).toString().trim();
+    await writeFile(join(workPath, "README.md"), "# Demo\n\nNow with more.\n");
+    git(workPath, ["commit", "-q", "-am", "Second"]);
+    git(root, ["clone", "-q", "--bare", workPath, barePath]);
+    git(barePath, ["update-ref", "refs/pull/7/head", firstSha]);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("clones the bare repo and records its branch and commit", async () => {
+    const source = await resolveRepo(`file://${barePath}`, root);
+    try {
+      expect(source.isLocal).toBe(false);
+      expect(source.repoName).toBe("demo");
+      expect(source.repoInfo).toMatchObject({ fullName: "local/demo", branch: "trunk", host: "git" });
+      expect(source.repoInfo.commitSha).toMatch(/^[0-9a-f]{40}$/);
+      expect(repoLocation(source.repoInfo)).toMatchObject({ cloneUrl: `file://${barePath}`, webUrl: undefined });
+    } finally {
+      await source.cleanup();
+    }
+  });
+
+  it("checks out tags, commit SHAs and pull request heads with --ref", async () => {
+    const remote = parseRepoUrl(`file://${barePath}`);
+    for (const [ref, repoInfo] of [
+      ["v1.0.0", { ...remote }],
+      [firstSha, { ...remote }],
+      ["pr/7", { ...remote, host: "github" as const }],
+    ] as const) {
+      const clonePath = await cloneRepo(repoInfo, join(root, "refs"), undefined, false, undefined, ref);
+      expect(repoInfo, ref).toMatchObject({ commitSha: firstSha, branch: ref, ref });
+      expect(readFileSync(join(clonePath, "README.md"), "utf-8"), ref).toBe("# Demo\n");
+    }
+  });
+
+  it("reports refs that do not exist", async () => {
+    await expect(
+      cloneRepo(parseRepoUrl(`file://${barePath}`), join(root, "refs"), undefined, false, undefined, "v9.9.9")
+    ).rejects.toThrow("Could not fetch ref v9.9.9");
+  });
+});
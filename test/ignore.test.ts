@@ -0,0 +1,155 @@
+/**
+ * Tests for .gitignore, .bootcampignore and .gitattributes handling
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import {
+  globToRegex,
+  isIgnored,
+  loadIgnoreRules,
+  parseGitAttributes,
+  parseIgnoreFile,
+  walkRepo,
+  type IgnoreRules,
+} from "../src/ignore.js";
+import { scanRepo } from "../src/ingest.js";
+
+function rules(excludes = "", attributes = ""): IgnoreRules {
+  return { gitFiles: null, excludes: parseIgnoreFile(excludes), generated: parseGitAttributes(attributes) };
+}
+
+describe("globToRegex", () => {
+  it("matches unanchored globs at any depth", () => {
+    expect(globToRegex("*.log").test("debug.log")).toBe(true);
+    expect(globToRegex("*.log").test("logs/app/debug.log")).toBe(true);
+    expect(globToRegex("*.log").test("debug.log.txt")).toBe(false);
+  });
+
+  it("anchors globs containing a slash and expands **", () => {
+    expect(globToRegex("/build").test("build")).toBe(true);
+    expect(globToRegex("/build").test("src/build")).toBe(false);
+    expect(globToRegex("docs/**/*.png").test("docs/a/b/c.png")).toBe(true);
+    expect(globToRegex("docs/**/*.png").test("docs/c.png")).toBe(true);
+    expect(globToRegex("file?.[ch]").test("src/file1.c")).toBe(true);
+  });
+});
+
+describe("parseIgnoreFile", () => {
+  it("skips comments and blank lines and reads negation and directory markers", () => {
+    const patterns = parseIgnoreFile("# comment\n\nfixtures/\n!fixtures/keep.json\n\\#literal\n");
+    expect(patterns.map((p) => [p.glob, p.negated, p.directoryOnly])).toEqual([
+      ["fixtures", false, true],
+      ["fixtures/keep.json", true, false],
+      ["#literal", false, false],
+    ]);
+  });
+});
+
+describe("parseGitAttributes", () => {
+  it("keeps only linguist-generated and linguist-vendored entries", () => {
+    const patterns = parseGitAttributes(
+      "*.pb.go linguist-generated=true\nthird_party/** linguist-vendored\n*.sh text eol=lf\nthird_party/ours/** -linguist-vendored\n"
+    );
+    expect(patterns.map((p) => [p.glob, p.negated])).toEqual([
+      ["*.pb.go", false],
+      ["third_party/**", false],
+      ["third_party/ours/**", true],
+    ]);
+  });
+});
+
+describe("isIgnored", () => {
+  it("skips dependency and build directories", () => {
+    expect(isIgnored(rules(), "node_modules/x/index.js", false)).toBe(true);
+    expect(isIgnored(rules(), "src/index.ts", false)).toBe(false);
+  });
+
+  it("excludes everything under an ignored directory, last match winning", () => {
+    const r = rules("fixtures/\n*.snap\n!keep.snap\n");
+    expect(isIgnored(r, "test/fixtures/big.json", false)).toBe(true);
+    expect(isIgnored(r, "test/fixtures", true)).toBe(true);
+    expect(isIgnored(r, "test/a.snap", false)).toBe(true);
+    expect(isIgnored(r, "test/keep.snap", false)).toBe(false);
+    // directory-only patterns don't match files of the same name
+    expect(isIgnored(r, "fixtures", false)).toBe(false);
+  });
+
+  it("skips generated and vendored files unless unset", () => {
+    const r = rules("", "api/*.pb.go linguist-generated\nthird_party/** linguist-vendored\nthird_party/ours/** -linguist-vendored\n");
+    expect(isIgnored(r, "api/user.pb.go", false)).toBe(true);
+    expect(isIgnored(r, "api/user.go", false)).toBe(false);
+    expect(isIgnored(r, "third_party", true)).toBe(true);
+    expect(isIgnored(r, "third_party/lib/a.c", false)).toBe(true);
+    expect(isIgnored(r, "third_party/ours/a.c", false)).toBe(false);
+  });
+});
+
+describe("repository walk", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-ignore-"));
+    const files: Record<string, string> = {
+      ".gitignore": "*.log\ncoverage/\n",
+      ".bootcampignore": "test/fixtures/\n",
+      ".gitattributes": "src/gen/** linguist-generated\n",
+      "package.json": JSON.stringify({ name: "demo", scripts: { test: "vitest" } }),
+      "src/index.ts": "export const a = 1;\n",
+      "src/gen/client.ts": "// generated\n",
+      "test/index.test.ts": "it('works', () => {});\n",
+      "test/fixtures/huge.json": "{}\n",
+      "debug.log": "noise\n",
+      "coverage/lcov.info": "TN:\n",
+    };
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const expected = [
+    ".bootcampignore",
+    ".gitattributes",
+    ".gitignore",
+    "package.json",
+    "src/index.ts",
+    "test/index.test.ts",
+  ];
+
+  it("applies .gitignore by hand outside a git checkout", async () => {
+    const r = await loadIgnoreRules(root);
+    expect(r.gitFiles).toBeNull();
+
+    const files: string[] = [];
+    for await (const entry of walkRepo(root, r)) {
+      if (!entry.isDirectory) files.push(entry.path);
+    }
+    expect(files.sort()).toEqual(expected);
+  });
+
+  it("uses git's file list in a checkout and filters the scan", async () => {
+    execFileSync("git", ["init", "-q", root]);
+    const r = await loadIgnoreRules(root);
+    expect(r.gitFiles).not.toContain("debug.log");
+
+    const scan = await scanRepo(root, 100);
+    expect(scan.files.filter((f) => !f.isDirectory).map((f) => f.path).sort()).toEqual(expected);
+    expect(scan.ignore?.gitFiles).toEqual(r.gitFiles);
+  });
+
+  it("lists a single directory level without descending", async () => {
+    const entries: string[] = [];
+    for await (const entry of walkRepo(root, await loadIgnoreRules(root), "test", false)) {
+      entries.push(entry.path);
+    }
+    expect(entries).toEqual(["test/index.test.ts"]);
+  });
+});
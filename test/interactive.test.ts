@@ -22,14 +22,17 @@ vi.mock("../src/tools.js", () => ({
 
 vi.mock("fs/promises", () => ({
   writeFile: vi.fn(),
+  readFile: vi.fn(),
 }));
 
 import { InteractiveSession, quickAsk } from "../src/interactive.js";
 import { getRepoTools } from "../src/tools.js";
-import { writeFile } from "fs/promises";
+import { chunkFile, createRetrievalIndex } from "../src/retrieval.js";
+import { readFile, writeFile } from "fs/promises";
 
 const mockGetRepoTools = vi.mocked(getRepoTools);
 const mockWriteFile = vi.mocked(writeFile);
+const mockReadFile = vi.mocked(readFile);
 
 const repoInfo: RepoInfo = {
   owner: "octo",
@@ -66,6 +69,7 @@ beforeEach(() => {
   mockStop.mockReset();
   mockGetRepoTools.mockReset();
   mockWriteFile.mockReset();
+  mockReadFile.mockReset();
 
   mockSession = {
     sendAndWait: vi.fn(),
@@ -106,6 +110,24 @@ describe("InteractiveSession", () => {
     );
   });
 
+  it("applies config system prompt overrides", async () => {
+    mockSession.sendAndWait.mockResolvedValue(undefined);
+
+    const appended = new InteractiveSession("/repo", repoInfo, scanResult, undefined, false, {
+      prompts: { system: "Answer in one paragraph." },
+    });
+    await appended.initialize();
+    const appendedPrompt = mockCreateSession.mock.calls[0][0].systemMessage.content;
+    expect(appendedPrompt).toContain("expert assistant");
+    expect(appendedPrompt).toContain("Answer in one paragraph.");
+
+    const replaced = new InteractiveSession("/repo", repoInfo, scanResult, undefined, false, {
+      prompts: { system: "You are a terse reviewer.", mode: "replace" },
+    });
+    await replaced.initialize();
+    expect(mockCreateSession.mock.calls[1][0].systemMessage.content).toBe("You are a terse reviewer.");
+  });
+
   it("captures responses and citations", async () => {
     let handler: ((event: Record<string, any>) => void) | undefined;
     mockSession.on.mockImplementation((cb) => {
@@ -262,6 +284,31 @@ describe("InteractiveSession", () => {
     expect(transcript.messages[0].timestamp).toBeInstanceOf(Date);
   });
 
+  it("adds retrieved chunks to the question but records it unchanged", async () => {
+    mockSession.sendAndWait.mockResolvedValue(undefined);
+    mockSession.on.mockImplementation(() => {});
+    const retrySource = "export function withRetry(fn) {\n  return backoff(fn);\n}";
+    mockReadFile.mockResolvedValue(retrySource as any);
+
+    const retrieval = createRetrievalIndex(2, [
+      ...chunkFile("src/retry.ts", retrySource),
+      ...chunkFile("src/server.ts", "export function listen(port) {}"),
+    ]);
+    const session = new InteractiveSession("/repo", repoInfo, { ...scanResult, retrieval });
+    await session.initialize();
+
+    const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+    await session.ask("How does retry backoff work?");
+    writeSpy.mockRestore();
+
+    const prompt = mockSession.sendAndWait.mock.calls[1][0].prompt as string;
+    expect(prompt).toMatch(/^How does retry backoff work\?\n\n## Possibly Relevant Code/);
+    expect(prompt).toContain("### src/retry.ts:1-3");
+    expect(prompt).not.toContain("src/server.ts");
+    expect(mockGetRepoTools).toHaveBeenCalledWith(expect.objectContaining({ retrieval }));
+    expect(session.getTranscript().messages[0].content).toBe("How does retry backoff work?");
+  });
+
   it("records assistant message without citations when none present", async () => {
     mockSession.sendAndWait.mockResolvedValue(undefined);
     mockSession.on.mockImplementation((cb) => {
@@ -1,5 +1,5 @@
-import { describe, it, expect } from "vitest";
-import { taskToIssuePayload, generateIssuePreview } from "../src/issues.js";
+import { describe, it, expect, vi } from "vitest";
+import { taskToIssuePayload, generateIssuePreview, createIssuesFromTasks } from "../src/issues.js";
 import type { FirstTask, RepoInfo } from "../src/types.js";
 
 describe("Auto-Issue Creator", () => {
@@ -108,6 +108,23 @@ describe("Auto-Issue Creator", () => {
       expect(payload.body).toContain("## Difficulty");
       expect(payload.body).toContain("**Beginner**");
     });
+
+    it("should link the footer to the repository on its own host", () => {
+      const gitlabRepo: RepoInfo = { ...mockRepoInfo, url: "https://gitlab.com/group/sub/testrepo", host: "gitlab" };
+      const payload = taskToIssuePayload(mockTasks[0], gitlabRepo);
+
+      expect(payload.body).toContain("(https://gitlab.com/group/sub/testrepo)");
+    });
+  });
+
+  describe("createIssuesFromTasks", () => {
+    it("should refuse hosts without an issue CLI", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const bareRepo: RepoInfo = { ...mockRepoInfo, url: "file:///srv/repos/testrepo.git", host: "git" };
+
+      await expect(createIssuesFromTasks(mockTasks, bareRepo)).rejects.toThrow("Issue creation not supported for git remotes");
+      vi.restoreAllMocks();
+    });
   });
 
   describe("generateIssuePreview", () => {
@@ -0,0 +1,94 @@
+/**
+ * Tests for lines-of-code statistics
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { computeCodeStats, countLines, languageFor, languageShare, orderLanguagesByShare } from "../src/loc.js";
+import { loadIgnoreRules } from "../src/ignore.js";
+import { scanRepo } from "../src/ingest.js";
+
+describe("languageFor", () => {
+  it("maps extensions and well-known file names", () => {
+    expect(languageFor("src/app.tsx")).toBe("TypeScript");
+    expect(languageFor("lib/Tool.PY")).toBe("Python");
+    expect(languageFor("deploy/Dockerfile")).toBe("Dockerfile");
+    expect(languageFor("LICENSE")).toBeNull();
+  });
+});
+
+describe("countLines", () => {
+  it("separates code, comment and blank lines in C-style sources", () => {
+    const source = [
+      "/**",
+      " * Entry point",
+      "",
+      " */",
+      "const glob = \"src/**/*.ts\"; // all sources",
+      "",
+      "// helper",
+      "function f() { /* inline */ return 1; }",
+      "/* a */ /* b */",
+    ].join("\n");
+    expect(countLines(source, "TypeScript")).toEqual({ files: 1, code: 2, comment: 5, blank: 2 });
+  });
+
+  it("counts Python docstrings and hash comments as comments", () => {
+    const source = ['"""Module docs.', "", 'More docs."""', "import os  # stdlib", "# note", "x = 'a # b'", ""].join("\n");
+    expect(countLines(source, "Python")).toEqual({ files: 1, code: 2, comment: 3, blank: 1 });
+  });
+});
+
+describe("computeCodeStats", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-loc-"));
+    const files: Record<string, string> = {
+      ".gitignore": "dist/\n",
+      "package.json": "{\n  \"name\": \"demo\"\n}\n",
+      "src/index.ts": "// entry\nexport const a = 1;\nexport const b = 2;\n\nexport const c = 3;\n",
+      "src/util.ts": "export const d = 4;\n",
+      "scripts/build.js": "console.log('build');\n",
+      "dist/index.js": "var a=1;\nvar b=2;\nvar c=3;\nvar d=4;\nvar e=5;\nvar f=6;\n",
+      "README.md": "# Demo\n\nA demo.\n",
+    };
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true });
+      await writeFile(join(root, path), content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("totals lines per language and top-level directory, skipping ignored files", async () => {
+    const stats = await computeCodeStats(root, await loadIgnoreRules(root));
+
+    expect(stats.total).toEqual({ files: 5, code: 10, comment: 1, blank: 2 });
+    expect(stats.languages.map((l) => [l.language, l.files, l.code])).toEqual([
+      ["TypeScript", 2, 4],
+      ["JSON", 1, 3],
+      ["Markdown", 1, 2],
+      ["JavaScript", 1, 1],
+    ]);
+    expect(stats.directories.map((d) => [d.path, d.code, d.languages])).toEqual([
+      [".", 5, ["JSON", "Markdown"]],
+      ["src/", 4, ["TypeScript"]],
+      ["scripts/", 1, ["JavaScript"]],
+    ]);
+    expect(languageShare(stats, "TypeScript")).toBe(40);
+  });
+
+  it("orders the scanned stack's languages by share of code", async () => {
+    const stats = await computeCodeStats(root, await loadIgnoreRules(root));
+    expect(orderLanguagesByShare(["JavaScript", "Go", "TypeScript"], stats)).toEqual(["TypeScript", "JavaScript", "Go"]);
+
+    const scan = await scanRepo(root, 100);
+    expect(scan.stack.languages).toEqual(["TypeScript", "JavaScript"]);
+    expect(scan.codeStats?.total.files).toBe(5);
+  });
+});
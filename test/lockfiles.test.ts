@@ -0,0 +1,406 @@
+/**
+ * Tests for lockfile parsing and transitive dependency analysis
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  analyzeLockGraph,
+  parseCargoLock,
+  parseGoSum,
+  parsePackageLock,
+  parsePnpmLock,
+  parsePoetryLock,
+  parseUvLock,
+  parseYarnLock,
+  type LockGraph,
+} from "../src/lockfiles.js";
+import { extractDependencies, generateDependencyDocs } from "../src/deps.js";
+
+function summary(graph: LockGraph): string[] {
+  return graph.packages.map((p) => `${p.name}@${p.version} -> ${p.dependencies.join(",")}`);
+}
+
+describe("parsePackageLock", () => {
+  it("reads v3 packages, nested versions and direct dependencies from the root entry", () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": { name: "app", dependencies: { express: "^4.18.0" }, devDependencies: { vitest: "^1.0.0" } },
+        "node_modules/express": { version: "4.18.2", dependencies: { debug: "2.6.9" } },
+        "node_modules/debug": { version: "2.6.9", dependencies: { ms: "2.0.0" } },
+        "node_modules/ms": { version: "2.0.0" },
+        "node_modules/vitest": { version: "1.6.0", dev: true, dependencies: { debug: "^4.3.4" } },
+        "node_modules/vitest/node_modules/debug": { version: "4.3.4" },
+        "packages/ui": { name: "ui", version: "0.0.0" },
+        "node_modules/ui": { resolved: "packages/ui", link: true },
+      },
+    });
+    const graph = parsePackageLock(lock);
+    expect(graph.direct).toEqual({ express: "4.18.2", vitest: "1.6.0" });
+    expect(summary(graph)).toEqual([
+      "express@4.18.2 -> debug",
+      "debug@2.6.9 -> ms",
+      "ms@2.0.0 -> ",
+      "vitest@1.6.0 -> debug",
+      "debug@4.3.4 -> ",
+    ]);
+  });
+
+  it("walks the nested v1 dependency tree", () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        chalk: { version: "2.4.2", requires: { "supports-color": "^5.3.0" } },
+        "supports-color": { version: "5.5.0", requires: { "has-flag": "^3.0.0" }, dependencies: { "has-flag": { version: "3.0.0" } } },
+      },
+    });
+    expect(summary(parsePackageLock(lock))).toEqual([
+      "chalk@2.4.2 -> supports-color",
+      "supports-color@5.5.0 -> has-flag",
+      "has-flag@3.0.0 -> ",
+    ]);
+  });
+});
+
+describe("parsePnpmLock", () => {
+  it("reads v9 importers and snapshots with peer suffixes", () => {
+    const lock = `
+lockfileVersion: '9.0'
+importers:
+  .:
+    dependencies:
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.2.0(react@18.2.0)
+      ui:
+        specifier: workspace:*
+        version: link:packages/ui
+packages:
+  react-dom@18.2.0:
+    resolution: {integrity: sha512-x}
+snapshots:
+  react-dom@18.2.0(react@18.2.0):
+    dependencies:
+      react: 18.2.0
+      scheduler: 0.23.0
+  react@18.2.0: {}
+  '@types/scheduler@0.16.8': {}
+  scheduler@0.23.0: {}
+`;
+    const graph = parsePnpmLock(lock);
+    expect(graph.direct).toEqual({ "react-dom": "18.2.0" });
+    expect(summary(graph)).toEqual([
+      "react-dom@18.2.0 -> react,scheduler",
+      "react@18.2.0 -> ",
+      "@types/scheduler@0.16.8 -> ",
+      "scheduler@0.23.0 -> ",
+    ]);
+  });
+
+  it("reads v5 slash-separated package keys", () => {
+    const lock = "lockfileVersion: 5.4\ndependencies:\n  '@babel/core': 7.23.0\npackages:\n  /@babel/core/7.23.0:\n    dependencies:\n      debug: 4.3.4\n  /debug/4.3.4_supports-color@8.1.1:\n    dev: false\n";
+    const graph = parsePnpmLock(lock);
+    expect(graph.direct).toEqual({ "@babel/core": "7.23.0" });
+    expect(summary(graph)).toEqual(["@babel/core@7.23.0 -> debug", "debug@4.3.4 -> "]);
+  });
+});
+
+describe("parseYarnLock", () => {
+  it("reads classic entries", () => {
+    const lock = `# THIS IS AN AUTOGENERATED FILE.
+# yarn lockfile v1
+
+
+"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.22.13":
+  version "7.22.13"
+  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.22.13.tgz"
+  dependencies:
+    "@babel/highlight" "^7.22.13"
+    chalk "^2.4.2"
+
+chalk@^2.4.2:
+  version "2.4.2"
+`;
+    expect(summary(parseYarnLock(lock))).toEqual(["@babel/code-frame@7.22.13 -> @babel/highlight,chalk", "chalk@2.4.2 -> "]);
+  });
+
+  it("reads Berry entries and takes direct dependencies from the workspace", () => {
+    const lock = `__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  dependencies:
+    lodash: "npm:^4.17.21"
+  languageName: unknown
+  linkType: soft
+
+"lodash@npm:^4.17.21":
+  version: 4.17.21
+  resolution: "lodash@npm:4.17.21"
+  languageName: node
+  linkType: hard
+`;
+    const graph = parseYarnLock(lock);
+    expect(graph.direct).toEqual({ lodash: "4.17.21" });
+    expect(summary(graph)).toEqual(["lodash@4.17.21 -> "]);
+  });
+});
+
+describe("parseCargoLock", () => {
+  it("treats crates without a source as the workspace", () => {
+    const lock = `
+version = 3
+
+[[package]]
+name = "app"
+version = "0.1.0"
+dependencies = [
+ "rand 0.8.5",
+ "serde",
+]
+
+[[package]]
+name = "rand"
+version = "0.8.5"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+dependencies = [
+ "rand_core 0.6.4",
+]
+
+[[package]]
+name = "rand_core"
+version = "0.6.4"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "rand"
+version = "0.7.3"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "serde"
+version = "1.0.195"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+`;
+    const graph = parseCargoLock(lock);
+    expect(graph.direct).toEqual({ rand: "0.8.5", serde: "1.0.195" });
+    expect(summary(graph)).toEqual(["rand@0.8.5 -> rand_core", "rand_core@0.6.4 -> ", "rand@0.7.3 -> ", "serde@1.0.195 -> "]);
+  });
+});
+
+describe("parsePoetryLock", () => {
+  it("reads packages and their dependency tables", () => {
+    const lock = `
+[[package]]
+name = "requests"
+version = "2.31.0"
+files = [
+    {file = "requests-2.31.0.tar.gz", hash = "sha256:abc"},
+]
+
+[package.dependencies]
+certifi = ">=2017.4.17"
+urllib3 = {version = ">=1.21.1,<3", markers = "python_version >= \\"3.7\\""}
+
+[package.extras]
+socks = ["PySocks (>=1.5.6,!=1.5.7)"]
+
+[[package]]
+name = "certifi"
+version = "2024.2.2"
+
+[metadata]
+python-versions = "^3.11"
+`;
+    expect(summary(parsePoetryLock(lock))).toEqual(["requests@2.31.0 -> certifi,urllib3", "certifi@2024.2.2 -> "]);
+  });
+});
+
+describe("parseUvLock", () => {
+  it("takes direct dependencies from the editable project package", () => {
+    const lock = `
+version = 1
+
+[[package]]
+name = "anyio"
+version = "4.3.0"
+source = { registry = "https://pypi.org/simple" }
+dependencies = [
+    { name = "idna" },
+    { name = "sniffio" },
+]
+
+[[package]]
+name = "demo"
+version = "0.1.0"
+source = { editable = "." }
+dependencies = [
+    { name = "anyio" },
+]
+
+[package.optional-dependencies]
+cli = [
+    { name = "click" },
+]
+
+[package.metadata]
+requires-dist = [{ name = "anyio", specifier = ">=4" }, { name = "ignored" }]
+
+[[package]]
+name = "idna"
+version = "3.6"
+source = { registry = "https://pypi.org/simple" }
+`;
+    const graph = parseUvLock(lock);
+    expect(graph.direct).toEqual({ anyio: "4.3.0" });
+    expect(summary(graph)).toEqual(["anyio@4.3.0 -> idna,sniffio", "idna@3.6 -> "]);
+  });
+});
+
+describe("parseGoSum", () => {
+  it("keeps downloaded modules and skips go.mod-only hashes", () => {
+    const sum = [
+      "github.com/google/uuid v1.6.0 h1:abc=",
+      "github.com/google/uuid v1.6.0/go.mod h1:def=",
+      "golang.org/x/text v0.3.0/go.mod h1:ghi=",
+      "golang.org/x/text v0.14.0 h1:jkl=",
+    ].join("\n");
+    expect(summary(parseGoSum(sum))).toEqual(["github.com/google/uuid@v1.6.0 -> ", "golang.org/x/text@v0.14.0 -> "]);
+  });
+});
+
+describe("analyzeLockGraph", () => {
+  const graph: LockGraph = {
+    packages: [
+      { name: "express", version: "4.18.2", dependencies: ["body-parser", "debug"] },
+      { name: "body-parser", version: "1.20.1", dependencies: ["debug", "raw-body"] },
+      { name: "raw-body", version: "2.5.1", dependencies: [] },
+      { name: "debug", version: "2.6.9", dependencies: ["ms"] },
+      { name: "debug", version: "4.3.4", dependencies: ["ms"] },
+      { name: "ms", version: "2.0.0", dependencies: [] },
+      { name: "vitest", version: "1.6.0", dependencies: ["debug"] },
+    ],
+    direct: { express: "4.18.2" },
+  };
+
+  it("counts packages, finds duplicates and the shortest path to each transitive package", () => {
+    const analysis = analyzeLockGraph("package-lock.json", graph, ["express", "vitest", "missing"]);
+
+    expect(analysis.resolved).toEqual({ express: "4.18.2", vitest: "1.6.0" });
+    expect(analysis.totalPackages).toBe(7);
+    expect(analysis.transitiveCount).toBe(4);
+    expect(analysis.duplicates).toEqual([{ name: "debug", versions: ["2.6.9", "4.3.4"] }]);
+    expect(analysis.paths).toEqual({
+      "body-parser": ["express", "body-parser"],
+      debug: ["express", "debug"],
+      "raw-body": ["express", "body-parser", "raw-body"],
+      ms: ["express", "debug", "ms"],
+    });
+  });
+
+  it("matches names with the lockfile's normalization and reports the declared spelling", () => {
+    const analysis = analyzeLockGraph(
+      "poetry.lock",
+      { packages: [{ name: "django", version: "5.0.2", dependencies: ["asgiref"] }, { name: "asgiref", version: "3.7.2", dependencies: [] }], direct: {} },
+      ["Django"],
+      (name) => name.toLowerCase()
+    );
+    expect(analysis.resolved).toEqual({ Django: "5.0.2" });
+    expect(analysis.paths).toEqual({ asgiref: ["Django", "asgiref"] });
+  });
+});
+
+describe("extractDependencies with a lockfile", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-lockfiles-"));
+    await writeFile(join(root, "package.json"), JSON.stringify({ dependencies: { express: "^4.18.0" } }));
+    await writeFile(
+      join(root, "pnpm-lock.yaml"),
+      "lockfileVersion: '9.0'\nimporters:\n  .:\n    dependencies:\n      express:\n        specifier: ^4.18.0\n        version: 4.18.2\nsnapshots:\n  express@4.18.2:\n    dependencies:\n      debug: 2.6.9\n  debug@2.6.9: {}\n"
+    );
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("adds resolved versions, the package manager and lockfile sections to DEPENDENCIES.md", async () => {
+    const deps = await extractDependencies(root);
+    expect(deps?.packageManager).toBe("pnpm");
+    expect(deps?.runtime[0]).toMatchObject({ name: "express", version: "^4.18.0", resolved: "4.18.2" });
+    expect(deps?.lockfile).toMatchObject({ file: "pnpm-lock.yaml", totalPackages: 2, transitiveCount: 1 });
+
+    const docs = generateDependencyDocs(deps!, "app");
+    expect(docs).toContain("| Transitive (pnpm-lock.yaml) | 1 |");
+    expect(docs).toContain("| express | ^4.18.0 | 4.18.2 |");
+    expect(docs).toContain("## Transitive Dependencies");
+    expect(docs).toContain("| debug | `express` |");
+  });
+
+  it("tells an empty or unreadable lockfile apart from a missing one", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "bootcamp-lockfiles-"));
+    try {
+      await writeFile(join(repo, "package.json"), JSON.stringify({ name: "empty", devDependencies: { vitest: "^1.0.0" } }));
+      await writeFile(join(repo, "package-lock.json"), JSON.stringify({ lockfileVersion: 3, packages: { "": { name: "empty" } } }));
+      expect((await extractDependencies(repo))?.lockfile).toMatchObject({ file: "package-lock.json", totalPackages: 0 });
+
+      await writeFile(join(repo, "package-lock.json"), "{ not json");
+      const deps = await extractDependencies(repo);
+      expect(deps?.lockfile).toBeUndefined();
+      expect(deps?.unreadableLockfile).toBe("package-lock.json");
+      expect(generateDependencyDocs(deps!, "empty")).toContain("`package-lock.json` is committed but could not be parsed");
+    } finally {
+      await rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it("reads a workspace package's dependencies from the root lockfile", async () => {
+    const repo = await mkdtemp(join(tmpdir(), "bootcamp-lockfiles-"));
+    try {
+      await mkdir(join(repo, "packages/a"), { recursive: true });
+      await writeFile(join(repo, "packages/a/package.json"), JSON.stringify({ name: "a", dependencies: { debug: "^4.0.0" } }));
+      await writeFile(
+        join(repo, "package-lock.json"),
+        JSON.stringify({
+          lockfileVersion: 3,
+          packages: {
+            "": { name: "root", workspaces: ["packages/*"], dependencies: { express: "^4.18.0" } },
+            "packages/a": { name: "a", dependencies: { debug: "^4.0.0" } },
+            "node_modules/a": { resolved: "packages/a", link: true },
+            "node_modules/express": { version: "4.18.2", dependencies: { debug: "2.6.9" } },
+            "node_modules/debug": { version: "2.6.9", dependencies: { ms: "2.0.0" } },
+            "node_modules/ms": { version: "2.0.0" },
+            "packages/a/node_modules/debug": { version: "4.3.4", dependencies: { ms: "2.1.2" } },
+            "packages/a/node_modules/ms": { version: "2.1.2" },
+          },
+        })
+      );
+
+      const deps = await extractDependencies(join(repo, "packages/a"), repo);
+      expect(deps?.runtime[0]).toMatchObject({ name: "debug", resolved: "4.3.4" });
+      expect(deps?.lockfile?.resolved).toEqual({ debug: "4.3.4" });
+      expect(deps?.lockfile?.paths).toEqual({ ms: ["debug", "ms"] });
+      expect((await extractDependencies(join(repo, "packages/a")))?.lockfile).toBeNull();
+    } finally {
+      await rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it("marks a missing lockfile as null", async () => {
+    const bare = await mkdtemp(join(tmpdir(), "bootcamp-lockfiles-"));
+    try {
+      await writeFile(join(bare, "package.json"), JSON.stringify({ dependencies: { express: "^4.18.0" } }));
+      expect((await extractDependencies(bare))?.lockfile).toBeNull();
+    } finally {
+      await rm(bare, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for offline heuristic analysis
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+import { scanRepo } from "../src/ingest.js";
+import {
+  buildOfflineFacts,
+  analyzeRepoOffline,
+  parseReadmeSections,
+  firstParagraph,
+  detectEntrypoints,
+} from "../src/offline.js";
+import { validateRepoFacts } from "../src/schema.js";
+import type { RepoFacts, RepoInfo, ScanResult, BootcampOptions } from "../src/types.js";
+
+const repoInfo: RepoInfo = {
+  owner: "acme",
+  repo: "widgets",
+  url: "https://github.com/acme/widgets",
+  branch: "main",
+  fullName: "acme/widgets",
+};
+
+const README = `# Widgets
+
+[![CI](https://example.com/badge.svg)](https://example.com)
+
+Widgets is a **small HTTP service** that serves widgets. It is used by the storefront.
+
+## Prerequisites
+
+- Node.js 20
+- Redis
+
+## Getting Started
+
+\`\`\`bash
+$ npm install
+$ npm run dev
+\`\`\`
+`;
+
+async function createFixture(baseDir: string): Promise<string> {
+  const repoDir = join(baseDir, "widgets");
+  await mkdir(join(repoDir, "src", "routes"), { recursive: true });
+  await mkdir(join(repoDir, "test"), { recursive: true });
+  await mkdir(join(repoDir, ".github", "workflows"), { recursive: true });
+
+  await writeFile(
+    join(repoDir, "package.json"),
+    JSON.stringify({
+      name: "widgets",
+      description: "Widget HTTP service",
+      main: "./dist/index.js",
+      bin: { widgets: "./bin/widgets.js" },
+      scripts: { test: "vitest run", lint: "eslint .", dev: "tsx src/server.ts" },
+      dependencies: { express: "^4.18.0" },
+    })
+  );
+  await writeFile(join(repoDir, "README.md"), README);
+  await writeFile(join(repoDir, "Dockerfile"), "FROM node:20\n");
+  await writeFile(join(repoDir, ".prettierrc"), "{}\n");
+  await writeFile(join(repoDir, "src", "server.ts"), "// TODO: add graceful shutdown\nexport {};\n");
+  await writeFile(join(repoDir, "src", "routes", "widgets.ts"), "export const widgets = [];\n");
+  await writeFile(join(repoDir, "src", "cache.ts"), "export const cache = new Map();\n");
+  await writeFile(join(repoDir, "test", "cache.test.ts"), "import '../src/cache';\n");
+  await writeFile(
+    join(repoDir, ".github", "workflows", "ci.yml"),
+    "name: CI\non: [push]\njobs:\n  test:\n    runs-on: ubuntu-latest\n"
+  );
+  return repoDir;
+}
+
+describe("buildOfflineFacts", () => {
+  let tempDir: string;
+  let repoDir: string;
+  let scanResult: ScanResult;
+  let facts: RepoFacts;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "bootcamp-offline-"));
+    repoDir = await createFixture(tempDir);
+    scanResult = await scanRepo(repoDir, 200);
+    facts = await buildOfflineFacts(repoDir, repoInfo, scanResult);
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("produces schema-valid facts marked low confidence", () => {
+    expect(validateRepoFacts(facts).success).toBe(true);
+    expect(facts.confidence).toBe("low");
+    expect(facts.fieldConfidence?.architecture).toBe("low");
+    expect(facts.fieldConfidence?.purpose).toBe("medium");
+  });
+
+  it("takes purpose from package.json and description from the README intro", () => {
+    expect(facts.repoName).toBe("acme/widgets");
+    expect(facts.purpose).toBe("Widget HTTP service");
+    expect(facts.description).toBe("Widgets is a small HTTP service that serves widgets. It is used by the storefront.");
+  });
+
+  it("uses README prerequisites and getting-started commands", () => {
+    expect(facts.quickstart.prerequisites).toEqual(["Node.js 20", "Redis"]);
+    expect(facts.quickstart.steps).toEqual(["Run `npm install`", "Run `npm run dev`"]);
+    expect(facts.quickstart.commands[0]).toMatchObject({ name: "install", command: "npm install" });
+  });
+
+  it("detects entrypoints from package.json and conventions", () => {
+    const paths = facts.structure.entrypoints.map((e) => `${e.type}:${e.path}`);
+    expect(paths).toEqual(["cli:bin/widgets.js", "main:dist/index.js", "server:src/server.ts"]);
+  });
+
+  it("describes directories by naming convention", () => {
+    expect(facts.structure.keyDirs).toContainEqual(expect.objectContaining({ path: "src/", purpose: "Main source code" }));
+    expect(facts.structure.testDirs).toEqual(["test/"]);
+    expect(facts.architecture.components).toContainEqual({
+      name: "routes",
+      description: "Route handlers",
+      directory: "src/routes/",
+    });
+  });
+
+  it("derives CI checks, contribution steps and runbook hints", () => {
+    expect(facts.ci.workflows.map((w) => w.name)).toEqual(["CI"]);
+    expect(facts.ci.mainChecks).toEqual(["npm run test", "npm run lint"]);
+    expect(facts.contrib.howToAddTest).toContain("Name test files *.test.ts / *.test.js");
+    expect(facts.contrib.codeStyle).toBe("Enforced by Prettier");
+    expect(facts.runbook?.applicable).toBe(true);
+    expect(facts.runbook?.deploySteps).toEqual(["Build the image: `docker build -t widgets .`"]);
+  });
+
+  it("suggests tasks from TODOs, untested files and missing docs", () => {
+    const titles = facts.firstTasks.map((t) => t.title);
+    expect(titles).toContain("Resolve TODO in server.ts");
+    expect(titles).toContain("Add tests for widgets.ts");
+    expect(titles).not.toContain("Add tests for cache.ts");
+    expect(titles).toContain("Add a CONTRIBUTING guide");
+    expect(titles).not.toContain("Add a CI workflow");
+  });
+
+  it("is deterministic", async () => {
+    const again = await buildOfflineFacts(repoDir, repoInfo, scanResult);
+    expect(again).toEqual(facts);
+  });
+
+  it("returns analyzeRepo-compatible stats", async () => {
+    const { facts: result, stats } = await analyzeRepoOffline(repoDir, repoInfo, scanResult, {
+      verbose: false,
+    } as BootcampOptions);
+    expect(result).toEqual(facts);
+    expect(stats.model).toBe("offline");
+    expect(stats.toolCalls).toEqual([]);
+  });
+});
+
+describe("README helpers", () => {
+  it("splits sections without treating fenced comments as headings", () => {
+    const sections = parseReadmeSections("Intro\n# Title\n```sh\n# not a heading\n```\n## Usage\nRun it\n");
+    expect(sections.map((s) => s.heading)).toEqual(["", "Title", "Usage"]);
+  });
+
+  it("skips badges, images and HTML when finding the first paragraph", () => {
+    expect(firstParagraph('<p align="center">\n![logo](x.png)\n\nA [fast](https://x) tool.\nSecond line.\n\nMore')).toBe(
+      "A fast tool. Second line."
+    );
+    expect(firstParagraph("- list only\n")).toBeNull();
+  });
+});
+
+describe("detectEntrypoints", () => {
+  it("reads string bin and conditional exports", () => {
+    const entrypoints = detectEntrypoints(
+      { name: "tool", bin: "cli.js", exports: { ".": { import: "./esm/index.js", require: "./cjs/index.js" } } },
+      new Set(["cmd/server/main.go"])
+    );
+    expect(entrypoints).toEqual([
+      { path: "cli.js", type: "cli", description: "`tool` command (package.json bin)" },
+      { path: "esm/index.js", type: "library", description: "Package export (package.json exports)" },
+      { path: "cmd/server/main.go", type: "binary", description: "`server` command" },
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for the LLM provider layer
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { defineTool, type SessionEvent } from "@github/copilot-sdk";
+
+vi.mock("@github/copilot-sdk", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@github/copilot-sdk")>();
+  return {
+    ...actual,
+    CopilotClient: class {
+      createSession = vi.fn().mockResolvedValue({ on: vi.fn(), sendAndWait: vi.fn() });
+      stop = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+import {
+  createProvider,
+  resolveProviderSettings,
+  toOpenAITool,
+  CopilotProvider,
+  OpenAICompatibleProvider,
+  COPILOT_PREFERRED_MODELS,
+} from "../src/providers.js";
+
+/**
+ * Build a streaming chat-completions response from chunk payloads
+ */
+function sseResponse(chunks: unknown[]): Response {
+  const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+const readFileTool = defineTool("read_file", {
+  description: "Read a file",
+  parameters: z.object({ path: z.string() }),
+  handler: async ({ path }: { path: string }) => ({
+    textResultForLlm: `contents of ${path}`,
+    resultType: "success" as const,
+  }),
+});
+
+describe("createProvider", () => {
+  it("defaults to Copilot with the preferred model list", () => {
+    const provider = createProvider();
+    expect(provider).toBeInstanceOf(CopilotProvider);
+    expect(provider.preferredModels).toEqual(COPILOT_PREFERRED_MODELS);
+    expect(provider.chatModel).toBe("claude-sonnet-4-20250514");
+  });
+
+  it("creates an OpenAI-compatible provider with configured models", () => {
+    const provider = createProvider({ name: "openai", baseUrl: "http://localhost:11434/v1", models: ["llama3.1"] });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.preferredModels).toEqual(["llama3.1"]);
+    expect(provider.chatModel).toBe("llama3.1");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createProvider({ name: "bogus" as "openai" })).toThrow("Unknown provider: bogus");
+  });
+});
+
+describe("resolveProviderSettings", () => {
+  const config = { name: "openai" as const, baseUrl: "http://gpu:8000/v1", models: ["qwen"] };
+
+  it("returns the config block when no flags are given", () => {
+    expect(resolveProviderSettings({}, config)).toBe(config);
+    expect(resolveProviderSettings({}, undefined)).toBeUndefined();
+  });
+
+  it("lets --base-url override config and imply openai", () => {
+    expect(resolveProviderSettings({ baseUrl: "http://localhost:11434/v1" }, undefined)).toEqual({
+      name: "openai",
+      baseUrl: "http://localhost:11434/v1",
+    });
+    expect(resolveProviderSettings({ baseUrl: "http://other/v1" }, config)).toEqual({
+      ...config,
+      baseUrl: "http://other/v1",
+    });
+  });
+
+  it("drops config details when switching backends", () => {
+    expect(resolveProviderSettings({ name: "copilot" }, config)).toEqual({ name: "copilot" });
+  });
+
+  it("rejects unknown provider names", () => {
+    expect(() => resolveProviderSettings({ name: "anthropic" })).toThrow("Use: copilot, openai");
+  });
+});
+
+describe("toOpenAITool", () => {
+  it("converts zod parameters to a JSON schema function tool", () => {
+    const tool = toOpenAITool(readFileTool);
+    expect(tool.type).toBe("function");
+    expect(tool.function).toMatchObject({
+      name: "read_file",
+      description: "Read a file",
+      parameters: { type: "object", properties: { path: { type: "string" } }, required: ["path"] },
+    });
+  });
+});
+
+describe("OpenAICompatibleSession", () => {
+  it("streams content deltas and emits a final assistant message", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([{ choices: [{ delta: { content: "Hel" } }] }, { choices: [{ delta: { content: "lo" } }] }])
+    );
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1/", apiKey: "k" }, fetchMock);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "sys" }, streaming: true });
+
+    const events: SessionEvent[] = [];
+    session.on((event) => events.push(event));
+    await session.sendAndWait({ prompt: "hi" });
+
+    const deltas = events.filter((e) => e.type === "assistant.message_delta").map((e) => e.data.deltaContent);
+    expect(deltas).toEqual(["Hel", "lo"]);
+    const final = events.find((e) => e.type === "assistant.message");
+    expect(final?.type === "assistant.message" && final.data.content).toBe("Hello");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://llm/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer k");
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({ model: "m", stream: true });
+    expect(body.messages).toEqual([
+      { role: "system", content: "sys" },
+      { role: "user", content: "hi" },
+    ]);
+  });
+
+  it("sends OPENAI_API_KEY only to api.openai.com unless config names a key", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-openai");
+    vi.stubEnv("LOCAL_LLM_KEY", "sk-local");
+    try {
+      const authFor = async (settings: ConstructorParameters<typeof OpenAICompatibleProvider>[0]) => {
+        const fetchMock = vi.fn().mockResolvedValue(sseResponse([{ choices: [{ delta: { content: "ok" } }] }]));
+        const session = await new OpenAICompatibleProvider(settings, fetchMock).createSession({
+          model: "m",
+          systemMessage: { content: "" },
+        });
+        await session.sendAndWait({ prompt: "hi" });
+        return fetchMock.mock.calls[0][1].headers.Authorization;
+      };
+
+      expect(await authFor({ name: "openai", baseUrl: "https://api.openai.com/v1/" })).toBe("Bearer sk-openai");
+      expect(await authFor({ name: "openai", baseUrl: "http://evil.example/v1" })).toBeUndefined();
+      expect(await authFor({ name: "openai", baseUrl: "http://llm/v1", apiKeyEnv: "LOCAL_LLM_KEY" })).toBe("Bearer sk-local");
+      expect(await authFor({ name: "openai", baseUrl: "http://llm/v1", apiKey: "k" })).toBe("Bearer k");
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("skips keep-alives and malformed chunks and reads a final line without a newline", async () => {
+    const body = [
+      ": keep-alive",
+      "data: ",
+      `data: ${JSON.stringify({ choices: [{ delta: { content: "Hel" } }] })}`,
+      "data: {not json",
+      `data: ${JSON.stringify({ choices: [{ delta: { content: "lo" } }] })}`,
+    ].join("\n");
+    const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "" } });
+
+    const events: SessionEvent[] = [];
+    session.on((event) => events.push(event));
+    await session.sendAndWait({ prompt: "hi" });
+
+    const final = events.find((e) => e.type === "assistant.message");
+    expect(final?.type === "assistant.message" && final.data.content).toBe("Hello");
+  });
+
+  it("executes tool calls locally and sends results back", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        sseResponse([
+          { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "read_file", arguments: '{"pa' } }] } }] },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"README.md"}' } }] } }] },
+        ])
+      )
+      .mockResolvedValueOnce(sseResponse([{ choices: [{ delta: { content: "Done" } }] }]));
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock);
+    const session = await provider.createSession({
+      model: "m",
+      systemMessage: { content: "sys" },
+      tools: [readFileTool],
+    });
+
+    const events: SessionEvent[] = [];
+    session.on((event) => events.push(event));
+    await session.sendAndWait({ prompt: "read it" });
+
+    const start = events.find((e) => e.type === "tool.execution_start");
+    expect(start?.type === "tool.execution_start" && start.data).toMatchObject({
+      toolName: "read_file",
+      arguments: { path: "README.md" },
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const secondBody = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(secondBody.tools[0].function.name).toBe("read_file");
+    expect(secondBody.messages.slice(2)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "read_file", arguments: '{"path":"README.md"}' } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "contents of README.md" },
+    ]);
+  });
+
+  it("reads non-streaming responses", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: "whole" } }] }), { status: 200 })
+    );
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "" }, streaming: false });
+
+    let content = "";
+    session.on((event) => {
+      if (event.type === "assistant.message_delta") content += event.data.deltaContent;
+    });
+    await session.sendAndWait({ prompt: "x" });
+    expect(content).toBe("whole");
+  });
+
+  it("requests and emits token usage", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([
+        { choices: [{ delta: { content: "ok" } }] },
+        { choices: [], usage: { prompt_tokens: 120, completion_tokens: 8 } },
+      ])
+    );
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "" }, streaming: true });
+
+    const events: SessionEvent[] = [];
+    session.on((event) => events.push(event));
+    await session.sendAndWait({ prompt: "x" });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream_options).toEqual({ include_usage: true });
+    const usage = events.find((e) => e.type === "assistant.usage");
+    expect(usage?.data).toMatchObject({ model: "m", inputTokens: 120, outputTokens: 8 });
+  });
+
+  it("surfaces HTTP errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("model not found", { status: 404 }));
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "" } });
+
+    await expect(session.sendAndWait({ prompt: "x" })).rejects.toThrow("Provider request failed (404): model not found");
+  });
+
+  it("aborts the in-flight request", async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+    );
+    const provider = new OpenAICompatibleProvider({ name: "openai", baseUrl: "http://llm/v1" }, fetchMock as typeof fetch);
+    const session = await provider.createSession({ model: "m", systemMessage: { content: "" } });
+
+    const pending = session.sendAndWait({ prompt: "x" });
+    await session.abort!();
+    await expect(pending).rejects.toThrow("Request aborted");
+  });
+});
@@ -119,6 +119,36 @@ describe("Tech Radar", () => {
       expect(radar.risky.some(s => s.name === "tslint")).toBe(true);
     });
 
+    it("should flag risky and legacy packages pulled in through the lockfile", () => {
+      const depsWithLockfile: DependencyAnalysis = {
+        ...mockDeps,
+        lockfile: {
+          file: "package-lock.json",
+          resolved: { react: "18.2.0" },
+          totalPackages: 3,
+          transitiveCount: 2,
+          duplicates: [],
+          paths: {
+            "node-sass": ["eslint", "sass-loader", "node-sass"],
+            request: ["express", "request"],
+          },
+        },
+      };
+
+      const radar = generateTechRadar(
+        mockStack,
+        mockFiles,
+        depsWithLockfile,
+        mockSecurity,
+        true,
+        true
+      );
+
+      const nodeSass = radar.risky.find(s => s.name === "node-sass");
+      expect(nodeSass?.reason).toContain("(transitive via eslint → sass-loader)");
+      expect(radar.legacy.find(s => s.name === "request")?.reason).toContain("(transitive via express)");
+    });
+
     it("should calculate onboarding risk", () => {
       const radar = generateTechRadar(
         mockStack,
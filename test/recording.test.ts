@@ -0,0 +1,288 @@
+/**
+ * Tests for session recording and replay
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readFile, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { SessionEvent } from "@github/copilot-sdk";
+
+const { mockCreateSession } = vi.hoisted(() => ({ mockCreateSession: vi.fn() }));
+
+vi.mock("@github/copilot-sdk", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@github/copilot-sdk")>();
+  return {
+    ...actual,
+    CopilotClient: class {
+      createSession = mockCreateSession;
+      stop = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+import { createSessionProvider, loadRecording, type SessionRecording } from "../src/recording.js";
+import { analyzeRepo } from "../src/agent.js";
+import type { BootcampOptions, RepoInfo, ScanResult } from "../src/types.js";
+
+const FACTS_JSON = JSON.stringify({
+  repoName: "acme/widgets",
+  purpose: "Widget service",
+  description: "Serves widgets.",
+  stack: { languages: ["TypeScript"], frameworks: [], buildSystem: "npm", packageManager: "npm", hasDocker: false, hasCi: false },
+  quickstart: { prerequisites: [], steps: [], commands: [] },
+  structure: { keyDirs: [], entrypoints: [], testDirs: [], docsDirs: [] },
+  ci: { workflows: [], mainChecks: [] },
+  contrib: { howToAddFeature: [], howToAddTest: [] },
+  architecture: { overview: "Small", components: [] },
+  firstTasks: [],
+});
+
+function event(type: string, data: Record<string, unknown>): SessionEvent {
+  return { id: `evt-${type}`, timestamp: "2026-01-01T00:00:00.000Z", parentId: null, type, data } as SessionEvent;
+}
+
+/**
+ * A fake model session that calls the first tool, then streams `reply`
+ */
+function fakeSession(config: { tools?: { name: string; handler: (args: unknown, inv: unknown) => unknown }[] }, reply: string) {
+  const handlers: ((e: SessionEvent) => void)[] = [];
+  return {
+    on: (handler: (e: SessionEvent) => void) => {
+      handlers.push(handler);
+    },
+    sendAndWait: vi.fn(async () => {
+      const tool = config.tools?.[0];
+      if (tool) {
+        handlers.forEach((h) => h(event("tool.execution_start", { toolCallId: "t1", toolName: tool.name, arguments: { path: "." } })));
+        await tool.handler({ path: "." }, { sessionId: "s", toolCallId: "t1", toolName: tool.name, arguments: { path: "." } });
+      }
+      for (const chunk of [reply.slice(0, 10), reply.slice(10)]) {
+        handlers.forEach((h) => h(event("assistant.message_delta", { messageId: "m1", deltaContent: chunk })));
+      }
+    }),
+  };
+}
+
+const repoInfo: RepoInfo = {
+  owner: "acme",
+  repo: "widgets",
+  url: "https://github.com/acme/widgets",
+  branch: "main",
+  fullName: "acme/widgets",
+};
+
+const scanResult: ScanResult = {
+  files: [{ path: "README.md", size: 10, isDirectory: false }],
+  stack: { languages: ["TypeScript"], frameworks: [], buildSystem: "npm", packageManager: "npm", hasDocker: false, hasCi: false },
+  commands: [],
+  ciWorkflows: [],
+  readme: "# Widgets",
+  contributing: null,
+  keySourceFiles: new Map(),
+};
+
+const options: BootcampOptions = {
+  branch: "main",
+  focus: "all",
+  audience: "oss-contributor",
+  output: "./out",
+  maxFiles: 200,
+  noClone: false,
+  verbose: false,
+};
+
+describe("recording and replay", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "bootcamp-recording-"));
+    mockCreateSession.mockReset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("records prompts, streamed events and tool calls in order", async () => {
+    const file = join(tempDir, "session.json");
+    const toolHandler = vi.fn().mockResolvedValue({ textResultForLlm: "README.md", resultType: "success" });
+    mockCreateSession.mockImplementation(async (config) => fakeSession(config, "Hello there, reader"));
+
+    const provider = createSessionProvider(undefined, { record: file });
+    const session = await provider.createSession({
+      model: "claude-sonnet-4-5",
+      systemMessage: { content: "sys" },
+      tools: [{ name: "list_files", handler: toolHandler }],
+    });
+    const received: string[] = [];
+    session.on((e) => received.push(e.type));
+    await session.sendAndWait({ prompt: "What is this?" });
+    await provider.stop();
+
+    expect(toolHandler).toHaveBeenCalledOnce();
+    expect(received).toEqual(["tool.execution_start", "assistant.message_delta", "assistant.message_delta"]);
+
+    const recording: SessionRecording = JSON.parse(await readFile(file, "utf-8"));
+    expect(recording).toMatchObject({ version: 1, provider: "copilot" });
+    expect(recording.sessions).toHaveLength(1);
+    expect(recording.sessions[0]).toMatchObject({ model: "claude-sonnet-4-5", systemMessage: "sys", tools: ["list_files"] });
+
+    const turn = recording.sessions[0].turns[0];
+    expect(turn.prompt).toBe("What is this?");
+    expect(turn.entries.map((e) => (e.type === "event" ? e.event.type : `tool:${e.name}`))).toEqual([
+      "tool.execution_start",
+      "tool:list_files",
+      "assistant.message_delta",
+      "assistant.message_delta",
+    ]);
+    expect(turn.entries[1]).toMatchObject({ type: "tool", toolCallId: "t1", args: { path: "." }, result: "README.md" });
+  });
+
+  it("records failed turns and replays them as errors", async () => {
+    const file = join(tempDir, "failed.json");
+    mockCreateSession.mockResolvedValue({
+      on: vi.fn(),
+      sendAndWait: vi.fn().mockRejectedValue(new Error("Timeout after 600000ms")),
+    });
+
+    const recorder = createSessionProvider(undefined, { record: file });
+    const recorded = await recorder.createSession({ model: "m", systemMessage: { content: "" } });
+    await expect(recorded.sendAndWait({ prompt: "x" })).rejects.toThrow("Timeout");
+
+    const replay = createSessionProvider(undefined, { replay: file });
+    const replayed = await replay.createSession({ model: "m", systemMessage: { content: "" } });
+    await expect(replayed.sendAndWait({ prompt: "x" })).rejects.toThrow("Timeout after 600000ms");
+  });
+
+  it("replays events without a model, warning on prompt drift and failing when exhausted", async () => {
+    const file = join(tempDir, "replay.json");
+    const recording: SessionRecording = {
+      version: 1,
+      recordedAt: "2026-01-01T00:00:00.000Z",
+      provider: "openai",
+      sessions: [
+        {
+          model: "gpt-4o",
+          systemMessage: "sys",
+          tools: [],
+          turns: [
+            {
+              prompt: "hi",
+              entries: [
+                { type: "event", event: event("assistant.message_delta", { messageId: "m", deltaContent: "Hel" }) },
+                { type: "tool", name: "read_file", toolCallId: "t", args: {}, result: "x", durationMs: 1 },
+                { type: "event", event: event("assistant.message_delta", { messageId: "m", deltaContent: "lo" }) },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    await writeFile(file, JSON.stringify(recording), "utf-8");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const provider = createSessionProvider({ name: "copilot" }, { replay: file });
+    expect(provider.name).toBe("openai");
+    expect(provider.preferredModels).toEqual(["gpt-4o"]);
+
+    const session = await provider.createSession({ model: "gpt-4o", systemMessage: { content: "sys" } });
+    let text = "";
+    session.on((e) => {
+      if (e.type === "assistant.message_delta") text += e.data.deltaContent;
+    });
+    await session.sendAndWait({ prompt: "hello" });
+
+    expect(text).toBe("Hello");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("prompt differs from the recording"));
+    expect(mockCreateSession).not.toHaveBeenCalled();
+    await expect(session.sendAndWait({ prompt: "again" })).rejects.toThrow("has no recorded turn 2");
+    await expect(provider.createSession({ model: "gpt-4o", systemMessage: { content: "" } })).rejects.toThrow(
+      "has no more recorded sessions"
+    );
+  });
+
+  it("regenerates identical facts from a recorded analysis", async () => {
+    const file = join(tempDir, "analysis.json");
+    mockCreateSession.mockImplementation(async (config) => fakeSession(config, FACTS_JSON));
+
+    const recorded = await analyzeRepo(tempDir, repoInfo, scanResult, { ...options, record: file });
+    expect(recorded.stats.toolCalls.map((c) => c.name)).toEqual(["read_file"]);
+
+    mockCreateSession.mockReset();
+    mockCreateSession.mockRejectedValue(new Error("no model access"));
+    const replayed = await analyzeRepo(tempDir, repoInfo, scanResult, { ...options, replay: file });
+
+    expect(mockCreateSession).not.toHaveBeenCalled();
+    // Only the run's duration differs: replay reports the recorded session time
+    const { durationMs: recordedDuration, ...recordedUsage } = recorded.facts.usage!;
+    const { durationMs: replayedDuration, ...replayedUsage } = replayed.facts.usage!;
+    expect(JSON.stringify({ ...replayed.facts, usage: replayedUsage })).toBe(JSON.stringify({ ...recorded.facts, usage: recordedUsage }));
+    expect(replayedUsage).toMatchObject({ toolCalls: 1, toolCallsByName: { read_file: 1 } });
+    const turn = loadRecording(file).sessions[0].turns[0];
+    expect(replayedDuration).toBe(turn.offsetMs! + turn.durationMs!);
+    expect(replayedDuration).toBeLessThanOrEqual(recordedDuration);
+    expect(replayed.stats.toolCalls).toEqual(recorded.stats.toolCalls);
+    expect(replayed.stats.model).toBe(recorded.stats.model);
+  });
+
+  it("reports recorded tool calls without running tools and times budgets on the recording", async () => {
+    const file = join(tempDir, "timed.json");
+    const recording: SessionRecording = {
+      version: 1,
+      recordedAt: "2026-01-01T00:00:00.000Z",
+      provider: "copilot",
+      sessions: [
+        {
+          model: "m",
+          systemMessage: "",
+          tools: ["read_file"],
+          turns: [
+            {
+              prompt: "x",
+              offsetMs: 500,
+              durationMs: 90_000,
+              entries: [
+                { type: "tool", name: "read_file", toolCallId: "t1", args: { path: "a.ts" }, result: "a", durationMs: 3 },
+                { type: "tool", name: "run_command", toolCallId: "t2", args: { command: "npm run build" }, result: "ok", durationMs: 1 },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    await writeFile(file, JSON.stringify(recording), "utf-8");
+    const handler = vi.fn().mockResolvedValue("a");
+    const onReplayedTool = vi.fn();
+
+    const provider = createSessionProvider(undefined, { replay: file });
+    expect(provider.now!()).toBe(0);
+    const session = await provider.createSession({
+      model: "m",
+      systemMessage: { content: "" },
+      tools: [
+        { name: "read_file", description: "", handler },
+        { name: "run_command", description: "", handler },
+      ],
+      onReplayedTool,
+    });
+    await session.sendAndWait({ prompt: "x" });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(onReplayedTool.mock.calls).toEqual([
+      [{ name: "read_file", args: { path: "a.ts" }, result: "a", durationMs: 3 }],
+      [{ name: "run_command", args: { command: "npm run build" }, result: "ok", durationMs: 1 }],
+    ]);
+    expect(provider.now!()).toBe(90_500);
+  });
+
+  it("rejects unsupported recording files", async () => {
+    const file = join(tempDir, "old.json");
+    await writeFile(file, JSON.stringify({ version: 99, sessions: [] }), "utf-8");
+
+    expect(() => loadRecording(file)).toThrow("Unsupported recording format");
+    expect(() => loadRecording(join(tempDir, "missing.json"))).toThrow("Cannot read recording");
+  });
+});
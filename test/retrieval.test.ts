@@ -0,0 +1,112 @@
+/**
+ * Tests for the lexical retrieval index
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildRetrievalIndex,
+  chunkFile,
+  formatRetrievalResults,
+  searchRetrievalIndex,
+  tokenize,
+} from "../src/retrieval.js";
+import { getRepoTools } from "../src/tools.js";
+import type { RetrievalIndex } from "../src/types.js";
+
+describe("tokenize", () => {
+  it("splits identifiers and drops stop words", () => {
+    expect(tokenize("Where is the rateLimiter of HTTPServer in retry_policy.ts?")).toEqual([
+      "ratelimiter",
+      "rate",
+      "limiter",
+      "httpserver",
+      "http",
+      "server",
+      "retry_policy",
+      "retry",
+      "policy",
+      "ts",
+    ]);
+  });
+});
+
+describe("chunkFile", () => {
+  it("makes overlapping 40-line chunks that carry path terms", () => {
+    const content = Array.from({ length: 75 }, (_, i) => `line${i + 1} value`).join("\n");
+    const chunks = chunkFile("src/worker.ts", content);
+
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [1, 40],
+      [31, 70],
+      [61, 75],
+    ]);
+    expect(chunks[0].terms).toMatchObject({ src: 1, worker: 1, value: 40 });
+    expect(chunks[2].length).toBe(3 + 15 * 2);
+  });
+
+  it("skips chunks with no content terms", () => {
+    expect(chunkFile("src/empty.ts", "\n\n{}\n")).toEqual([]);
+  });
+});
+
+describe("retrieval index on disk", () => {
+  let repoPath: string;
+  let index: RetrievalIndex;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "bootcamp-retrieval-"));
+    await mkdir(join(repoPath, "src", "net"), { recursive: true });
+    await mkdir(join(repoPath, "node_modules", "dep"), { recursive: true });
+    await mkdir(join(repoPath, "docs"));
+    await writeFile(
+      join(repoPath, "src", "net", "retry.ts"),
+      "export function withRetry(fn, maxRetries = 3) {\n  // exponential backoff between retries\n  return backoff(fn, maxRetries);\n}\n"
+    );
+    await writeFile(join(repoPath, "src", "server.ts"), "export function startServer(port) {\n  listen(port);\n}\n");
+    await writeFile(join(repoPath, "docs", "config.md"), "# Configuration\n\nSet PORT to change the server port.\n");
+    await writeFile(join(repoPath, "node_modules", "dep", "index.js"), "retry retry retry backoff\n");
+    await writeFile(join(repoPath, "logo.png"), "retry\0binary");
+    await writeFile(join(repoPath, "src", "blob.ts"), "retry\0binary");
+    index = await buildRetrievalIndex(repoPath);
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("indexes text sources and docs, skipping dependencies and binaries", () => {
+    expect(index.files).toBe(3);
+    expect(new Set(index.chunks.map((c) => c.path))).toEqual(
+      new Set(["src/net/retry.ts", "src/server.ts", "docs/config.md"])
+    );
+    expect(index.docFreq.port).toBe(2);
+  });
+
+  it("ranks the chunks that match a question", () => {
+    const results = searchRetrievalIndex(index, "How are retries backed off?", 5);
+    expect(results.map((r) => r.chunk.path)).toEqual(["src/net/retry.ts"]);
+
+    const port = searchRetrievalIndex(index, "which port does the server listen on", 5);
+    expect(port.map((r) => r.chunk.path)).toEqual(["src/server.ts", "docs/config.md"]);
+    expect(port[0].score).toBeGreaterThan(port[1].score);
+
+    expect(searchRetrievalIndex(index, "kubernetes", 5)).toEqual([]);
+  });
+
+  it("formats results with the current file text", async () => {
+    const text = await formatRetrievalResults(repoPath, searchRetrievalIndex(index, "startServer", 1));
+    expect(text).toMatch(/^### src\/server\.ts:1-4 \(score \d+\.\d{2}\)\n```\nexport function startServer/);
+  });
+
+  it("backs the search_relevant tool", async () => {
+    const tool = getRepoTools({ repoPath, verbose: false, retrieval: index }).find((t) => t.name === "search_relevant")!;
+    const result = (await tool.handler({ query: "retry backoff" }, {} as any)) as { textResultForLlm: string };
+    expect(result.textResultForLlm).toContain("### src/net/retry.ts:1-5");
+
+    const missing = getRepoTools({ repoPath, verbose: false }).find((t) => t.name === "search_relevant")!;
+    expect(await missing.handler({ query: "retry" }, {} as any)).toMatchObject({ resultType: "failure" });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for the run_command sandbox
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { access, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { commandRejection, parseCommandLine, runSandboxedCommand, sandboxEnv } from "../src/sandbox.js";
+import { getRepoTools } from "../src/tools.js";
+
+describe("parseCommandLine", () => {
+  it("splits arguments and honors quotes", () => {
+    expect(parseCommandLine(`cargo metadata --format-version 1 --filter "a b" 'c|d'`)).toEqual([
+      "cargo",
+      "metadata",
+      "--format-version",
+      "1",
+      "--filter",
+      "a b",
+      "c|d",
+    ]);
+  });
+
+  it("rejects shell syntax and empty commands", () => {
+    for (const command of ["make help | head", "npm run; rm -rf /", "echo $HOME", "make help > out", "a && b", "`id`"]) {
+      expect(() => parseCommandLine(command), command).toThrow(/Shell syntax/);
+    }
+    expect(() => parseCommandLine("   ")).toThrow("Empty command");
+  });
+});
+
+describe("commandRejection", () => {
+  it("allows built-in read-only commands", () => {
+    for (const command of ["npm run", "npm ls --depth 0", "pnpm run", "go env GOPATH", "go version"]) {
+      expect(commandRejection(command.split(" ")), command).toBeNull();
+    }
+  });
+
+  it("rejects commands outside the allowlist", () => {
+    for (const command of ["npm run build", "make", "make install", "rm -rf .", "node script.js", "curl example.com"]) {
+      expect(commandRejection(command.split(" ")), command).toMatch(/^Command not allowed/);
+    }
+  });
+
+  it("rejects commands that run repository code or write configuration", () => {
+    for (const command of ["make help", "rake -T", "go env -w GOFLAGS=-x", "go env -u GOPROXY", "go env --w=true GOBIN=/tmp"]) {
+      expect(commandRejection(command.split(" ")), command).toMatch(/^Command not allowed/);
+    }
+  });
+
+  it("rejects commands that hand control to committed toolchain configuration", () => {
+    for (const command of [
+      "yarn run", // Yarn 1 runs the yarnPath script from .yarnrc
+      "yarn --help",
+      "cargo metadata --no-deps", // build.rustc / rustc-wrapper in .cargo/config.toml
+      "cargo tree",
+      "cargo --list",
+      "go list ./...",
+      "go list -export -toolexec=./tools/x ./...",
+    ]) {
+      expect(commandRejection(command.split(" ")), command).toMatch(/^Command not allowed/);
+    }
+  });
+
+  it("allows --help only where it cannot run project scripts", () => {
+    expect(commandRejection(["cargo", "build", "--help"])).toBeNull();
+    expect(commandRejection(["pnpm", "--help"])).toBeNull();
+    expect(commandRejection(["yarn", "build", "--help"])).not.toBeNull();
+    expect(commandRejection(["node", "script.js", "--help"])).not.toBeNull();
+    expect(commandRejection(["./configure", "--help"])).not.toBeNull();
+  });
+
+  it("adds configured entries to the allowlist", () => {
+    const settings = { allow: ["just --summary", "./gradlew tasks ..."] };
+    expect(commandRejection(["just", "--summary"], settings)).toBeNull();
+    expect(commandRejection(["./gradlew", "tasks", "--all"], settings)).toBeNull();
+    expect(commandRejection(["./gradlew", "build"], settings)).not.toBeNull();
+  });
+});
+
+describe("sandboxEnv", () => {
+  it("drops credentials and forces offline settings", () => {
+    const env = sandboxEnv("/tmp/empty-home", { PATH: "/usr/bin", HOME: "/home/dev", GITHUB_TOKEN: "secret", OPENAI_API_KEY: "sk-x" });
+
+    expect(env.PATH).toBe("/usr/bin");
+    expect(env.HOME).toBe("/tmp/empty-home");
+    expect(env.GITHUB_TOKEN).toBeUndefined();
+    expect(env.OPENAI_API_KEY).toBeUndefined();
+    expect(env).toMatchObject({ npm_config_offline: "true", CARGO_NET_OFFLINE: "true", GOPROXY: "off", GOTOOLCHAIN: "local" });
+  });
+});
+
+describe("runSandboxedCommand", () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "bootcamp-sandbox-"));
+    await writeFile(
+      join(repoPath, "package.json"),
+      JSON.stringify({ name: "demo", scripts: { build: "tsc", test: "vitest run" } })
+    );
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("runs a command in the repository and captures its output", async () => {
+    const run = await runSandboxedCommand(["node", "--version"], repoPath);
+    expect(run).toMatchObject({ exitCode: 0, timedOut: false, truncated: false });
+    expect(run.output).toMatch(/^v\d+\./);
+  });
+
+  it("runs with an empty temporary HOME that is removed afterwards", async () => {
+    const run = await runSandboxedCommand(["node", "-e", "console.log(process.env.HOME)"], repoPath);
+    expect(run.output).toContain("bootcamp-home-");
+    expect(run.output).not.toBe(process.env.HOME);
+    await expect(access(run.output)).rejects.toThrow();
+  });
+
+  it("kills commands that exceed the timeout", async () => {
+    const run = await runSandboxedCommand(["node", "-e", "setTimeout(() => {}, 30000)"], repoPath, { timeoutSeconds: 0.5 });
+    expect(run).toMatchObject({ exitCode: null, timedOut: true });
+  });
+
+  it("reports missing programs", async () => {
+    await expect(runSandboxedCommand(["no-such-tool-xyz"], repoPath)).rejects.toThrow("no-such-tool-xyz is not installed");
+  });
+
+  it("backs the run_command tool, which is only registered when enabled", async () => {
+    expect(getRepoTools({ repoPath, verbose: false }).map((t) => t.name)).not.toContain("run_command");
+
+    const tool = getRepoTools({ repoPath, verbose: false, runCommand: { enabled: true } }).find((t) => t.name === "run_command")!;
+    const listed = (await tool.handler({ command: "npm run" }, {} as any)) as { textResultForLlm: string };
+    expect(listed.textResultForLlm).toMatch(/^\$ npm run\n\(exit 0\)\n/);
+    expect(listed.textResultForLlm).toContain("vitest run");
+
+    expect(await tool.handler({ command: "npm run build" }, {} as any)).toMatchObject({ resultType: "failure" });
+    await expect(tool.handler({ command: "node --version", cwd: "../.." }, {} as any)).rejects.toThrow(
+      "Path escapes repository root"
+    );
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { validateRepoFacts, getMissingFieldsSummary } from "../src/schema.js";
+import { validateRepoFacts, validateSection, getMissingFieldsSummary } from "../src/schema.js";
 
 describe("validateRepoFacts", () => {
   const minimalValidFacts = {
@@ -165,3 +165,26 @@ describe("getMissingFieldsSummary", () => {
     expect(summary.split(";").length).toBeLessThanOrEqual(3);
   });
 });
+
+describe("validateSection", () => {
+  it("applies sub-schema defaults to a valid section", () => {
+    const result = validateSection("ciContrib", { ci: {}, contrib: { howToAddTest: ["Add a spec"] } });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      ci: { workflows: [], mainChecks: [] },
+      contrib: { howToAddFeature: [], howToAddTest: ["Add a spec"] },
+    });
+  });
+
+  it("reports errors with paths relative to the section", () => {
+    const result = validateSection("structure", {
+      structure: { entrypoints: [{ path: "main.py", type: "script" }] },
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toMatch(/^structure\.entrypoints\.0\.type:/);
+  });
+
+  it("requires at least one first task", () => {
+    expect(validateSection("firstTasks", { firstTasks: [] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for subdirectory-scoped bootcamps (sparse checkout plus repo-root context)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "child_process";
+import { existsSync } from "fs";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { cloneRepo, codeownersFor, normalizeSubdir, scanRepo } from "../src/ingest.js";
+import { parseRepoUrl } from "../src/hosts.js";
+
+describe("normalizeSubdir", () => {
+  it("strips ./ and trailing slashes", () => {
+    expect(normalizeSubdir("./services/api/")).toBe("services/api");
+    expect(normalizeSubdir("apps\\web")).toBe("apps/web");
+  });
+
+  it("rejects paths outside the repository", () => {
+    for (const input of ["", ".", "/etc", "../other", "a/../../b"]) {
+      expect(() => normalizeSubdir(input), input).toThrow("Invalid repository path");
+    }
+  });
+});
+
+describe("codeownersFor", () => {
+  it("keeps rules that can match files under the subdirectory", () => {
+    const content = [
+      "# Default owners",
+      "*       @org/everyone",
+      "*.md    @org/docs",
+      "/services/          @org/backend",
+      "/services/api/**    @org/api",
+      "/services/billing/  @org/billing",
+      "/web/               @org/frontend",
+      "[Section]",
+    ].join("\n");
+
+    expect(codeownersFor(content, "services/api")).toEqual([
+      "*       @org/everyone",
+      "*.md    @org/docs",
+      "/services/          @org/backend",
+      "/services/api/**    @org/api",
+    ]);
+  });
+});
+
+describe("scoped clone and scan", () => {
+  let root: string;
+  let barePath: string;
+  let clonePath: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "bootcamp-scoped-"));
+    const workPath = join(root, "work");
+    barePath = join(root, "mono.git");
+    const files: Record<string, string> = {
+      "README.md": "# Mono\n\nEverything lives here.\n",
+      "CONTRIBUTING.md": "# Contributing\n\nOpen a PR.\n",
+      ".github/CODEOWNERS": "/services/api/ @org/api\n/web/ @org/frontend\n",
+      ".github/workflows/ci.yml": "name: CI\non: [push, pull_request]\n",
+      "services/api/package.json": JSON.stringify({ name: "api", scripts: { start: "node index.js" } }),
+      "services/api/index.js": "console.log('api');\n",
+      "web/package.json": JSON.stringify({ name: "web" }),
+    };
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(workPath, path)), { recursive: true });
+      await writeFile(join(workPath, path), content);
+    }
+
+    const env = { ...process.env, GIT_AUTHOR_NAME: "A", GIT_AUTHOR_EMAIL: "a@example.com", GIT_COMMITTER_NAME: "A", GIT_COMMITTER_EMAIL: "a@example.com" };
+    execFileSync("git", ["init", "-q", "-b", "main", workPath]);
+    execFileSync("git", ["add", "-A"], { cwd: workPath });
+    execFileSync("git", ["commit", "-q", "-m", "Initial"], { cwd: workPath, env });
+    execFileSync("git", ["clone", "-q", "--bare", workPath, barePath]);
+
+    clonePath = await cloneRepo(parseRepoUrl(`file://${barePath}`), root, undefined, false, "services/api");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("checks out only the subdirectory, root files and CI config", () => {
+    expect(existsSync(join(clonePath, "services/api/index.js"))).toBe(true);
+    expect(existsSync(join(clonePath, "README.md"))).toBe(true);
+    expect(existsSync(join(clonePath, ".github/workflows/ci.yml"))).toBe(true);
+    expect(existsSync(join(clonePath, "web"))).toBe(false);
+  });
+
+  it("scans the subdirectory with repo-root context", async () => {
+    const scan = await scanRepo(join(clonePath, "services/api"), 100, clonePath);
+
+    expect(scan.files.map((f) => f.path).sort()).toEqual(["index.js", "package.json"]);
+    expect(scan.commands.map((c) => c.name)).toContain("start");
+    expect(scan.readme).toBeNull();
+    expect(scan.contributing).toContain("Open a PR");
+    expect(scan.stack.hasCi).toBe(true);
+    expect(scan.ciWorkflows).toMatchObject([{ name: "CI", file: ".github/workflows/ci.yml" }]);
+    expect(scan.rootContext).toEqual({
+      subdir: "services/api",
+      readme: "# Mono\n\nEverything lives here.\n",
+      codeowners: { path: ".github/CODEOWNERS", rules: ["/services/api/ @org/api"] },
+      ciFiles: [".github/workflows/ci.yml"],
+    });
+  });
+
+  it("fails when the directory does not exist", async () => {
+    await expect(
+      cloneRepo(parseRepoUrl(`file://${barePath}`), join(root, "missing"), undefined, false, "services/nope")
+    ).rejects.toThrow("Directory not found in repository: services/nope");
+  });
+});
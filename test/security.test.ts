@@ -207,6 +207,14 @@ describe("SecurityAnalysis with critical findings", () => {
     expect(docs).toContain("Priority");
     expect(docs).toContain("critical security findings");
   });
+
+  it("should summarize findings by severity when details are hidden", () => {
+    const docs = generateSecurityDocs(criticalAnalysis, "insecure-app", { showDetails: false });
+
+    expect(docs).toContain("| Critical | 2 |");
+    expect(docs).not.toContain("Hardcoded password");
+    expect(docs).not.toContain("src/config.ts:10");
+  });
 });
 
 describe("SecurityAnalysis with no findings", () => {
@@ -561,4 +569,14 @@ describe("analyzeSecurityPatterns", () => {
 
     expect(result.findings.length).toBe(0);
   });
+
+  it("reports a missing lockfile only when one is expected", async () => {
+    const files = await setupTestRepo({ "src/app.ts": "const app = express();" });
+
+    const missing = await analyzeSecurityPatterns(testDir, files, undefined, null);
+    expect(missing.findings).toMatchObject([{ category: "Dependencies", title: "No lockfile committed", severity: "low" }]);
+
+    const unknown = await analyzeSecurityPatterns(testDir, files);
+    expect(unknown.findings.some(f => f.title === "No lockfile committed")).toBe(false);
+  });
 });
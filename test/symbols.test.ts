@@ -0,0 +1,251 @@
+/**
+ * Tests for the symbol index
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildSymbolIndex,
+  extractSymbols,
+  findDefinitions,
+  findReferences,
+  isIndexedSource,
+  listExports,
+  suggestSymbols,
+} from "../src/symbols.js";
+import { getRepoTools } from "../src/tools.js";
+import type { FileInfo, SymbolIndex } from "../src/types.js";
+
+/** [name, kind, line, exported, container?] for compact assertions */
+function summarize(path: string, content: string) {
+  return extractSymbols(path, content).map((s) => [s.name, s.kind, s.line, s.exported, ...(s.container ? [s.container] : [])]);
+}
+
+describe("extractSymbols", () => {
+  it("finds TypeScript and JavaScript definitions", () => {
+    const source = [
+      'import { x } from "./x";',
+      "export async function analyzeRepo() {}",
+      "function helper() {}",
+      "export default class Session {",
+      "  method() {}",
+      "}",
+      "export interface Options {}",
+      "export type Mode = 'a' | 'b';",
+      "export const enum Color { Red }",
+      "export const handler = async (req: Request): Promise<void> => {};",
+      "const local = (a) => a;",
+      "export const MAX_FILES = 100;",
+      "const notExported = 1;",
+      "export type { Other } from './other';",
+    ].join("\n");
+
+    expect(summarize("src/a.ts", source)).toEqual([
+      ["analyzeRepo", "function", 2, true],
+      ["helper", "function", 3, false],
+      ["Session", "class", 4, true],
+      ["Options", "interface", 7, true],
+      ["Mode", "type", 8, true],
+      ["Color", "enum", 9, true],
+      ["handler", "function", 10, true],
+      ["local", "function", 11, false],
+      ["MAX_FILES", "constant", 12, true],
+    ]);
+  });
+
+  it("finds Python functions, classes, methods and constants", () => {
+    const source = [
+      "import os",
+      "DEFAULT_PORT = 8080",
+      "",
+      "class Server:",
+      "    def start(self):",
+      "        def inner(): pass",
+      "    async def _stop(self):",
+      "        pass",
+      "",
+      "@app.route('/')",
+      "def index():",
+      "    pass",
+      "def _private(): pass",
+    ].join("\n");
+
+    expect(summarize("app/server.py", source)).toEqual([
+      ["DEFAULT_PORT", "constant", 2, true],
+      ["Server", "class", 4, true],
+      ["start", "method", 5, true, "Server"],
+      ["_stop", "method", 7, false, "Server"],
+      ["index", "function", 11, true],
+      ["_private", "function", 13, false],
+    ]);
+  });
+
+  it("finds Go functions, methods and types", () => {
+    const source = [
+      "package server",
+      "type Server struct {",
+      "  port int",
+      "}",
+      "type Handler interface {}",
+      "type ID = string",
+      "const MaxConns = 10",
+      "func New() *Server { return nil }",
+      "func (s *Server) Start() error { return nil }",
+      "func helper() {}",
+    ].join("\n");
+
+    expect(summarize("server/server.go", source)).toEqual([
+      ["Server", "struct", 2, true],
+      ["Handler", "interface", 5, true],
+      ["ID", "type", 6, true],
+      ["MaxConns", "constant", 7, true],
+      ["New", "function", 8, true],
+      ["Start", "method", 9, true, "Server"],
+      ["helper", "function", 10, false],
+    ]);
+  });
+
+  it("finds Rust items and impl methods", () => {
+    const source = [
+      "pub struct Config {}",
+      "enum State { A }",
+      "pub trait Render {",
+      "    fn render(&self);",
+      "}",
+      "impl<T> Display for Wrapper<T> {",
+      "    pub fn fmt(&self) {}",
+      "}",
+      "pub(crate) fn parse() {}",
+      "pub const LIMIT: usize = 3;",
+      "#[cfg(test)]",
+      "mod tests {",
+      "    fn it_works() {}",
+      "}",
+    ].join("\n");
+
+    expect(summarize("src/lib.rs", source)).toEqual([
+      ["Config", "struct", 1, true],
+      ["State", "enum", 2, false],
+      ["Render", "trait", 3, true],
+      ["render", "method", 4, false, "Render"],
+      ["fmt", "method", 7, true, "Wrapper"],
+      ["parse", "function", 9, false],
+      ["LIMIT", "constant", 10, true],
+    ]);
+  });
+
+  it("finds Java classes and methods without matching statements", () => {
+    const source = [
+      "package com.acme;",
+      "public class UserService {",
+      "    private final Repo repo;",
+      "    public User find(String id) {",
+      "        if (id == null) return null;",
+      "        return repo.load(id);",
+      "    }",
+      "    private static List<User> all() throws IOException {",
+      "        String s = format(x);",
+      "        return List.of();",
+      "    }",
+      "}",
+      "interface Repo {}",
+    ].join("\n");
+
+    expect(summarize("src/UserService.java", source)).toEqual([
+      ["UserService", "class", 2, true],
+      ["find", "method", 4, true, "UserService"],
+      ["all", "method", 8, false, "UserService"],
+      ["Repo", "interface", 13, false],
+    ]);
+  });
+
+  it("ignores unsupported files", () => {
+    expect(isIndexedSource("README.md")).toBe(false);
+    expect(extractSymbols("README.md", "function x() {}")).toEqual([]);
+  });
+});
+
+describe("symbol lookups", () => {
+  const index: SymbolIndex = {
+    files: ["src/server.ts", "src/client.ts", "lib/server.go"],
+    symbols: [
+      { name: "start", kind: "method", path: "src/server.ts", line: 10, exported: true, container: "Server" },
+      { name: "start", kind: "function", path: "src/client.ts", line: 3, exported: false },
+      { name: "Server", kind: "class", path: "src/server.ts", line: 5, exported: true },
+      { name: "Start", kind: "method", path: "lib/server.go", line: 7, exported: true, container: "Server" },
+    ],
+  };
+
+  it("finds definitions by name, container and kind", () => {
+    expect(findDefinitions(index, "start").map((s) => s.path)).toEqual(["src/server.ts", "src/client.ts"]);
+    expect(findDefinitions(index, "Server.start").map((s) => s.line)).toEqual([10]);
+    expect(findDefinitions(index, "start", "function").map((s) => s.line)).toEqual([3]);
+    expect(findDefinitions(index, "stop")).toEqual([]);
+  });
+
+  it("suggests similar names and lists exports by file or directory", () => {
+    expect(suggestSymbols(index, "STAR")).toEqual(["start", "Start"]);
+    expect(listExports(index, "src/").map((s) => s.name)).toEqual(["start", "Server"]);
+    expect(listExports(index, "src/client.ts")).toEqual([]);
+  });
+});
+
+describe("index and references on disk", () => {
+  let repoPath: string;
+  let index: SymbolIndex;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "bootcamp-symbols-"));
+    await mkdir(join(repoPath, "src"));
+    await writeFile(join(repoPath, "src", "math.ts"), "export function add(a: number, b: number) {\n  return a + b;\n}\n");
+    await writeFile(join(repoPath, "src", "main.ts"), 'import { add } from "./math";\nconsole.log(add(1, 2), added);\n');
+    await writeFile(join(repoPath, "src", "tool.py"), "def add(a, b):\n    return a + b\n");
+    await writeFile(join(repoPath, "README.md"), "add things\n");
+
+    const files: FileInfo[] = ["src/math.ts", "src/main.ts", "src/tool.py", "README.md"].map((path) => ({
+      path,
+      size: 10,
+      isDirectory: false,
+    }));
+    index = await buildSymbolIndex(repoPath, files);
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("indexes supported source files", () => {
+    expect(index.files).toEqual(["src/math.ts", "src/main.ts", "src/tool.py"]);
+    expect(index.symbols.map((s) => `${s.path}:${s.line} ${s.name}`)).toEqual(["src/math.ts:1 add", "src/tool.py:1 add"]);
+  });
+
+  it("finds whole-word references in the definition's language", async () => {
+    const definitions = findDefinitions(index, "add").filter((d) => d.path.endsWith(".ts"));
+    const references = await findReferences(repoPath, index, definitions, 10);
+
+    expect(references).toEqual([
+      { path: "src/main.ts", line: 1, text: 'import { add } from "./math";' },
+      { path: "src/main.ts", line: 2, text: "console.log(add(1, 2), added);" },
+    ]);
+  });
+
+  it("backs the find_definition, find_references and list_exports tools", async () => {
+    const tools = getRepoTools({ repoPath, verbose: false, symbols: index });
+    const run = async (name: string, args: object) => {
+      const result = await tools.find((t) => t.name === name)!.handler(args, {} as any);
+      return (result as { textResultForLlm: string }).textResultForLlm;
+    };
+
+    expect(await run("find_definition", { name: "add" })).toBe(
+      "src/math.ts:1 function add (exported)\nsrc/tool.py:1 function add (exported)"
+    );
+    expect(await run("find_definition", { name: "ad" })).toBe("No definition found for ad. Similar symbols: add");
+    expect(await run("find_references", { name: "add" })).toContain("src/main.ts:2: console.log(add(1, 2), added);");
+    expect(await run("list_exports", { path: "src/math.ts" })).toBe("src/math.ts:1 function add (exported)");
+
+    const withoutIndex = getRepoTools({ repoPath, verbose: false }).find((t) => t.name === "find_definition")!;
+    expect(await withoutIndex.handler({ name: "add" }, {} as any)).toMatchObject({ resultType: "failure" });
+  });
+});
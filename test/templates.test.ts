@@ -0,0 +1,144 @@
+/**
+ * Tests for custom document templates
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { renderTemplate, buildTemplateData, renderCustomDocs } from "../src/templates.js";
+import type { RepoFacts, TechRadar } from "../src/types.js";
+import type { SecurityAnalysis } from "../src/security.js";
+
+const mockFacts = {
+  repoName: "acme/widgets",
+  purpose: "Widget service",
+  description: "Serves widgets",
+  stack: {
+    languages: ["TypeScript", "Go"],
+    frameworks: [],
+    buildSystem: "npm",
+    packageManager: "npm",
+    hasDocker: true,
+    hasCi: false,
+  },
+  quickstart: { prerequisites: [], steps: [], commands: [] },
+  structure: { keyDirs: [], entrypoints: [], testDirs: [], docsDirs: [] },
+  ci: { workflows: [], mainChecks: [] },
+  contrib: { howToAddFeature: [], howToAddTest: [] },
+  architecture: { overview: "", components: [] },
+  firstTasks: [
+    { title: "Fix typo", description: "d1", difficulty: "beginner", category: "docs", files: [], why: "w" },
+    { title: "Add test", description: "d2", difficulty: "intermediate", category: "test", files: [], why: "w" },
+  ],
+} as RepoFacts;
+
+const mockRadar: TechRadar = {
+  modern: [],
+  stable: [],
+  legacy: [],
+  risky: [],
+  onboardingRisk: { score: 20, grade: "B", factors: [] },
+};
+
+describe("renderTemplate", () => {
+  it("substitutes dot-path placeholders", () => {
+    expect(renderTemplate("{{ repo.name }} uses {{repo.langs}}", { repo: { name: "x", langs: ["a", "b"] } })).toBe(
+      "x uses a, b"
+    );
+  });
+
+  it("renders missing values as empty strings", () => {
+    expect(renderTemplate("[{{missing.value}}]", {})).toBe("[]");
+  });
+
+  it("loops over arrays with item fields, this and @index", () => {
+    const template = "{{#each items}}{{@index}}:{{name}}/{{this.name}} {{/each}}";
+    expect(renderTemplate(template, { items: [{ name: "a" }, { name: "b" }] })).toBe("0:a/a 1:b/b ");
+    expect(renderTemplate("{{#each tags}}<{{this}}>{{/each}}", { tags: ["x", "y"] })).toBe("<x><y>");
+  });
+
+  it("falls back to outer scope inside loops", () => {
+    expect(renderTemplate("{{#each items}}{{repo}}-{{this}};{{/each}}", { repo: "r", items: [1, 2] })).toBe(
+      "r-1;r-2;"
+    );
+  });
+
+  it("supports if/else and unless, treating empty arrays as false", () => {
+    const template = "{{#if list}}has{{else}}none{{/if}}|{{#unless flag}}off{{/unless}}";
+    expect(renderTemplate(template, { list: [], flag: false })).toBe("none|off");
+    expect(renderTemplate(template, { list: [1], flag: true })).toBe("has|");
+  });
+
+  it("supports nested blocks", () => {
+    const template = "{{#each groups}}{{#if items}}{{#each items}}{{this}}{{/each}}{{else}}-{{/if}},{{/each}}";
+    expect(renderTemplate(template, { groups: [{ items: [1, 2] }, { items: [] }] })).toBe("12,-,");
+  });
+
+  it("drops lines that only hold block tags", () => {
+    const template = "Tasks:\n{{#each tasks}}\n- {{this}}\n{{/each}}\nDone";
+    expect(renderTemplate(template, { tasks: ["a", "b"] })).toBe("Tasks:\n- a\n- b\nDone");
+  });
+
+  it("throws on unbalanced blocks", () => {
+    expect(() => renderTemplate("{{#if x}}open", {})).toThrow("Unclosed block");
+    expect(() => renderTemplate("{{/each}}", {})).toThrow("Unexpected closing tag");
+    expect(() => renderTemplate("{{#each x}}{{/if}}", {})).toThrow("Unexpected closing tag");
+    expect(() => renderTemplate("{{else}}", {})).toThrow("Unexpected {{else}}");
+  });
+});
+
+describe("buildTemplateData", () => {
+  it("exposes facts at the top level and analyses under their own keys", () => {
+    const data = buildTemplateData({
+      facts: mockFacts,
+      security: { score: 85 } as SecurityAnalysis,
+      radar: mockRadar,
+    });
+    const template = "{{repoName}} {{#if stack.hasDocker}}docker{{/if}} {{security.score}} {{radar.onboardingRisk.grade}} {{#unless deps}}no-deps{{/unless}}";
+    expect(renderTemplate(template, data)).toBe("acme/widgets docker 85 B no-deps");
+    expect(renderTemplate("{{facts.purpose}}", data)).toBe("Widget service");
+  });
+});
+
+describe("renderCustomDocs", () => {
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+      tempDir = null;
+    }
+  });
+
+  it("renders inline templates", async () => {
+    const docs = await renderCustomDocs(
+      [{ name: "TEAM.md", template: "# {{repoName}}\n{{#each firstTasks}}\n- {{title}}\n{{/each}}" }],
+      { facts: mockFacts }
+    );
+    expect(docs).toEqual([{ name: "TEAM.md", content: "# acme/widgets\n- Fix typo\n- Add test\n" }]);
+  });
+
+  it("loads templates from files", async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "bootcamp-templates-"));
+    const templatePath = join(tempDir, "team.md");
+    await writeFile(templatePath, "Purpose: {{purpose}}", "utf-8");
+
+    const docs = await renderCustomDocs([{ name: "TEAM.md", template: templatePath }], { facts: mockFacts });
+    expect(docs[0].content).toBe("Purpose: Widget service");
+  });
+
+  it("skips docs whose template fails to render", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const docs = await renderCustomDocs(
+      [
+        { name: "BROKEN.md", template: "{{#if stack.hasDocker}}" },
+        { name: "OK.md", template: "{{repoName}}" },
+      ],
+      { facts: mockFacts }
+    );
+    expect(docs.map((d) => d.name)).toEqual(["OK.md"]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("BROKEN.md"));
+  });
+});
@@ -66,6 +66,8 @@ function makeContext(overrides?: Partial<ToolContext>): ToolContext {
     verbose: false,
     onToolCall: vi.fn(),
     onToolResult: vi.fn(),
+    // Preloaded so tools never shell out to git ls-files against the mocks
+    ignore: { gitFiles: null, excludes: [], generated: [] },
     ...overrides,
   };
 }
@@ -79,14 +81,21 @@ function getTool(context: ToolContext, name: string) {
 }
 
 describe("getRepoTools", () => {
-  it("returns all four tools", () => {
+  it("returns all eleven tools", () => {
     const tools = getRepoTools(makeContext());
-    expect(tools).toHaveLength(4);
+    expect(tools).toHaveLength(11);
     const names = tools.map((t) => t.name);
     expect(names).toContain("read_file");
     expect(names).toContain("list_files");
     expect(names).toContain("search");
     expect(names).toContain("get_repo_metadata");
+    expect(names).toContain("git_log");
+    expect(names).toContain("git_blame");
+    expect(names).toContain("git_co_changes");
+    expect(names).toContain("find_definition");
+    expect(names).toContain("find_references");
+    expect(names).toContain("list_exports");
+    expect(names).toContain("search_relevant");
   });
 
   it("all tools have descriptions and handlers", () => {
@@ -115,7 +124,7 @@ describe("read_file tool", () => {
       "utf-8",
     );
     expect(result).toEqual({
-      textResultForLlm: "line1\nline2\nline3",
+      textResultForLlm: "1 | line1\n2 | line2\n3 | line3",
       resultType: "success",
     });
     expect(ctx.onToolCall).toHaveBeenCalledWith("read_file", {
@@ -135,9 +144,9 @@ describe("read_file tool", () => {
 
     const result = await tool.handler({ path: "big.ts" }, {} as any);
 
-    const expected = lines.slice(0, 500).join("\n");
+    const expected = lines.slice(0, 500).map((l, i) => `${String(i + 1).padStart(3)} | ${l}`).join("\n");
     expect((result as any).textResultForLlm).toBe(
-      `${expected}\n\n... (truncated, showing 500 of 600 lines)`,
+      `${expected}\n\n... (showing lines 1-500 of 600; continue with startLine=501)`,
     );
     expect((result as any).resultType).toBe("success");
   });
@@ -153,9 +162,9 @@ describe("read_file tool", () => {
       {} as any,
     );
 
-    const expected = lines.slice(0, 5).join("\n");
+    const expected = lines.slice(0, 5).map((l, i) => `${i + 1} | ${l}`).join("\n");
     expect((result as any).textResultForLlm).toBe(
-      `${expected}\n\n... (truncated, showing 5 of 20 lines)`,
+      `${expected}\n\n... (showing lines 1-5 of 20; continue with startLine=6)`,
     );
   });
 
@@ -169,7 +178,7 @@ describe("read_file tool", () => {
       {} as any,
     );
 
-    expect((result as any).textResultForLlm).toBe("a\nb\nc");
+    expect((result as any).textResultForLlm).toBe("1 | a\n2 | b\n3 | c");
     expect((result as any).resultType).toBe("success");
   });
 
@@ -220,6 +229,92 @@ describe("read_file tool", () => {
     ).rejects.toThrow("Path escapes repository root");
   });
 
+  it("reads a line range with numbered lines", async () => {
+    const ctx = makeContext();
+    const tool = getTool(ctx, "read_file");
+    mockReadFile.mockResolvedValue(Array.from({ length: 1200 }, (_, i) => `line ${i + 1}`).join("\n"));
+
+    const result = await tool.handler({ path: "big.ts", startLine: 899, endLine: 901 }, {} as any);
+
+    expect((result as any).textResultForLlm).toBe(
+      "899 | line 899\n900 | line 900\n901 | line 901\n\n... (showing lines 899-901 of 1200; continue with startLine=902)",
+    );
+    expect(ctx.onToolCall).toHaveBeenCalledWith("read_file", { path: "big.ts", startLine: 899, endLine: 901 });
+  });
+
+  it("fails when startLine is past the end of the file", async () => {
+    const tool = getTool(makeContext(), "read_file");
+    mockReadFile.mockResolvedValue("a\nb");
+
+    const result = await tool.handler({ path: "short.ts", startLine: 10 }, {} as any);
+
+    expect(result).toEqual({
+      textResultForLlm: "startLine 10 is past the end of short.ts (2 lines)",
+      resultType: "failure",
+    });
+  });
+
+  it("reads a symbol up to the next definition", async () => {
+    const symbols = {
+      files: ["src/server.ts"],
+      symbols: [
+        { name: "Server", kind: "class" as const, path: "src/server.ts", line: 2, exported: true },
+        { name: "start", kind: "method" as const, path: "src/server.ts", line: 3, exported: true, container: "Server" },
+        { name: "helper", kind: "function" as const, path: "src/server.ts", line: 6, exported: false },
+        { name: "helper", kind: "function" as const, path: "src/other.ts", line: 1, exported: false },
+      ],
+    };
+    const tool = getTool(makeContext({ symbols }), "read_file");
+    mockReadFile.mockResolvedValue('import x from "x";\nclass Server {\n  start() {}\n}\n\nfunction helper() {}\nfunction helper() {}\n');
+
+    const server = await tool.handler({ path: "src/server.ts", symbol: "Server" }, {} as any);
+    expect((server as any).textResultForLlm).toBe(
+      "2 | class Server {\n3 |   start() {}\n4 | }\n\n... (showing lines 2-4 of 8)",
+    );
+
+    const missing = await tool.handler({ path: "src/server.ts", symbol: "parse" }, {} as any);
+    expect(missing).toEqual({ textResultForLlm: "No definition of parse in src/server.ts.", resultType: "failure" });
+
+    const other = await tool.handler({ path: "src/lib.ts", symbol: "helper" }, {} as any);
+    expect((other as any).textResultForLlm).toBe(
+      "No definition of helper in src/lib.ts. Defined at: src/server.ts:6, src/other.ts:1",
+    );
+  });
+
+  it("refuses binary and minified files", async () => {
+    const tool = getTool(makeContext(), "read_file");
+
+    mockReadFile.mockResolvedValue("PNG\0\0binary");
+    expect(await tool.handler({ path: "logo.png" }, {} as any)).toEqual({
+      textResultForLlm: "logo.png appears to be a binary file; not reading it.",
+      resultType: "failure",
+    });
+
+    mockReadFile.mockResolvedValue(`${"a".repeat(7999)}\n${"b".repeat(8000)}`);
+    const minified = await tool.handler({ path: "dist/app.js" }, {} as any);
+    expect(minified).toMatchObject({ resultType: "failure" });
+    expect((minified as any).textResultForLlm).toContain("appears to be minified or generated (average line length 8000)");
+  });
+
+  it("tracks read bytes in the context and stops at the budget", async () => {
+    const ctx = makeContext({ maxReadBytes: 20 });
+    const tool = getTool(ctx, "read_file");
+    mockReadFile.mockResolvedValue("aaaa\nbbbb\ncccc\ndddd");
+
+    const first = await tool.handler({ path: "a.ts" }, {} as any);
+    expect((first as any).textResultForLlm).toBe(
+      "1 | aaaa\n2 | bbbb\n\n... (read budget reached: showing lines 1-2 of 4; 20 bytes used this session)",
+    );
+    expect(ctx.readBytes).toBe(18);
+
+    const second = await tool.handler({ path: "a.ts", startLine: 3 }, {} as any);
+    expect((second as any).textResultForLlm).toBe("3 | cccc\n\n... (read budget reached: showing lines 3-3 of 4; 20 bytes used this session)");
+
+    const third = await tool.handler({ path: "a.ts", startLine: 4 }, {} as any);
+    expect(third).toMatchObject({ resultType: "failure" });
+    expect((third as any).textResultForLlm).toMatch(/^Read budget exhausted \(20 bytes this session\)/);
+  });
+
   it("works without callbacks", async () => {
     const ctx = makeContext({ onToolCall: undefined, onToolResult: undefined });
     const tool = getTool(ctx, "read_file");
@@ -827,3 +922,91 @@ describe("get_repo_metadata tool", () => {
     expect((result as any).resultType).toBe("success");
   });
 });
+
+describe("git tools", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  /** Answer git calls by their first argument */
+  function mockGit(responses: Record<string, string | Error>) {
+    mockExecFile.mockImplementation((_cmd: any, args: any, _opts: any, cb?: any) => {
+      const callback = cb || _opts;
+      const response = responses[args[0] === "rev-parse" ? args[1] : args[0]];
+      if (typeof callback === "function") {
+        if (response instanceof Error) callback(response);
+        else callback(null, { stdout: response ?? "", stderr: "" });
+      }
+      return {} as any;
+    });
+  }
+
+  it("git_log lists commits for a path", async () => {
+    const ctx = makeContext();
+    mockGit({
+      log: "abc1234\t2025-03-01\tBob\tSupport e\ndef5678\t2025-01-01\tAlice\tAdd parser\n",
+      "--is-shallow-repository": "false\n",
+    });
+
+    const result = await getTool(ctx, "git_log").handler({ path: "src/parser.ts" }, {} as any);
+
+    expect((result as any).resultType).toBe("success");
+    expect((result as any).textResultForLlm).toBe(
+      "abc1234 2025-03-01 Bob: Support e\ndef5678 2025-01-01 Alice: Add parser"
+    );
+    expect(mockExecFile.mock.calls[0][1]).toEqual(expect.arrayContaining(["--", "src/parser.ts"]));
+    expect(ctx.onToolCall).toHaveBeenCalledWith("git_log", { path: "src/parser.ts", maxCount: 20 });
+  });
+
+  it("git_blame summarizes authors and notes shallow clones", async () => {
+    const ctx = makeContext();
+    const sha = "b".repeat(40);
+    mockGit({
+      blame: `${sha} 1 1 2\nauthor Bob\nauthor-time 1735732800\nsummary Initial\nboundary\n\tx\n${sha} 2 2\n\ty\n`,
+      "--is-shallow-repository": "true\n",
+    });
+
+    const result = await getTool(ctx, "git_blame").handler({ path: "src/a.ts", startLine: 1, endLine: 2 }, {} as any);
+    const text = (result as any).textResultForLlm;
+
+    expect(text).toContain("Blame for src/a.ts lines 1-2 (2 lines)");
+    expect(text).toContain("Bob: 2 lines (100%)");
+    expect(text).toContain("bbbbbbb 2025-01-01 Bob: Initial (lines 1-2) [oldest available commit]");
+    expect(text).toContain("--full-clone");
+    expect(mockExecFile.mock.calls[0][1]).toEqual(["blame", "--porcelain", "-L", "1,2", "--", "src/a.ts"]);
+  });
+
+  it("git_co_changes ranks files changed together", async () => {
+    const ctx = makeContext();
+    mockGit({
+      log: "\0abc\n\nsrc/a.ts\nsrc/b.ts\n\0def\n\nsrc/a.ts\nsrc/b.ts\nREADME.md\n",
+      "--is-shallow-repository": "false\n",
+    });
+
+    const result = await getTool(ctx, "git_co_changes").handler({ path: "src/a.ts" }, {} as any);
+
+    expect((result as any).textResultForLlm).toBe(
+      "Files changed together with src/a.ts (across 2 commits):\n  src/b.ts: 2 of 2 commits\n  README.md: 1 of 2 commits"
+    );
+  });
+
+  it("reports git failures without throwing", async () => {
+    const ctx = makeContext();
+    mockGit({ log: new Error("not a git repository") });
+
+    const result = await getTool(ctx, "git_log").handler({}, {} as any);
+
+    expect((result as any).resultType).toBe("failure");
+    expect((result as any).textResultForLlm).toContain("not a git repository");
+  });
+
+  it("rejects paths outside the repository", async () => {
+    const ctx = makeContext();
+    for (const name of ["git_log", "git_blame", "git_co_changes"]) {
+      await expect(getTool(ctx, name).handler({ path: "../other" }, {} as any)).rejects.toThrow(
+        "Path escapes repository root"
+      );
+    }
+    expect(mockExecFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for citation verification
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { verifyRepoFacts } from "../src/verify.js";
+import type { RepoFacts, ScanResult } from "../src/types.js";
+
+const SERVER_SOURCE = `import express from "express";
+
+export function createServer(port: number) {
+  const app = express();
+  app.get("/health", (_req, res) => res.send("ok"));
+  return app.listen(port);
+}
+`;
+
+function makeFacts(overrides: Partial<RepoFacts> = {}): RepoFacts {
+  return {
+    repoName: "acme/widgets",
+    purpose: "Widget service",
+    description: "Serves widgets.",
+    confidence: "high",
+    sources: ["README.md", "docs/missing.md"],
+    stack: { languages: ["TypeScript"], frameworks: [], buildSystem: "npm", packageManager: "npm", hasDocker: false, hasCi: false },
+    quickstart: {
+      prerequisites: [],
+      steps: [],
+      commands: [
+        { name: "install", command: "npm install", source: "package.json" },
+        { name: "build", command: "npm run build", source: "package.json" },
+        { name: "e2e", command: "npm run e2e", source: "package.json" },
+        { name: "test", command: "NODE_ENV=test pnpm test -- --watch", source: "package.json" },
+        { name: "lint", command: "make lint", source: "Makefile" },
+        { name: "docs", command: "cd docs && npm run serve", source: "README.md" },
+      ],
+    },
+    structure: {
+      keyDirs: [
+        { path: "src/", purpose: "Source", keyFiles: ["server.ts", "src/missing.ts"] },
+        { path: "lib", purpose: "Does not exist" },
+      ],
+      entrypoints: [
+        { path: "src/server.ts:3", type: "server" },
+        { path: "bin/cli.js", type: "cli" },
+      ],
+      testDirs: ["test"],
+      docsDirs: [],
+    },
+    ci: { workflows: [], mainChecks: [] },
+    contrib: { howToAddFeature: [], howToAddTest: [] },
+    architecture: {
+      overview: "Small",
+      components: [],
+      codeExamples: [
+        {
+          title: "Server",
+          file: "src/server.ts",
+          code: 'const app = express();\n  // ...\nreturn app.listen(port);',
+          explanation: "Creates the app",
+        },
+        { title: "Invented", file: "src/server.ts", code: "app.use(auth());\napp.use(cors());", explanation: "Not real" },
+        { title: "Ghost", file: "src/ghost.ts", code: "ghost()", explanation: "Missing file" },
+      ],
+    },
+    firstTasks: [
+      { title: "Add health tests", description: "", difficulty: "beginner", category: "test", files: ["src/server.ts", "test/server.test.ts"], why: "" },
+      { title: "Fix imaginary module", description: "", difficulty: "beginner", category: "bug-fix", files: ["src/imaginary.ts"], why: "" },
+    ],
+    ...overrides,
+  };
+}
+
+const scanResult: ScanResult = {
+  files: [
+    { path: "README.md", size: 10, isDirectory: false },
+    { path: "src/server.ts", size: 200, isDirectory: false },
+  ],
+  stack: { languages: ["TypeScript"], frameworks: [], buildSystem: "npm", packageManager: "npm", hasDocker: false, hasCi: false },
+  commands: [
+    { name: "build", command: "npm run build", source: "package.json" },
+    { name: "test", command: "npm run test", source: "package.json" },
+  ],
+  ciWorkflows: [],
+  readme: "# Widgets",
+  contributing: null,
+  keySourceFiles: new Map(),
+};
+
+describe("verifyRepoFacts", () => {
+  let repoPath: string;
+
+  beforeAll(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "bootcamp-verify-"));
+    await mkdir(join(repoPath, "src"));
+    await mkdir(join(repoPath, "test"));
+    await writeFile(join(repoPath, "README.md"), "# Widgets\n");
+    await writeFile(join(repoPath, "src", "server.ts"), SERVER_SOURCE);
+  });
+
+  afterAll(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("drops cited paths that do not exist", async () => {
+    const facts = await verifyRepoFacts(repoPath, makeFacts(), scanResult);
+
+    expect(facts.sources).toEqual(["README.md"]);
+    expect(facts.structure.keyDirs).toEqual([{ path: "src/", purpose: "Source", keyFiles: ["server.ts"] }]);
+    expect(facts.structure.entrypoints.map((e) => e.path)).toEqual(["src/server.ts:3"]);
+    expect(facts.structure.testDirs).toEqual(["test"]);
+  });
+
+  it("drops commands that name unknown scripts or Makefile targets", async () => {
+    const facts = await verifyRepoFacts(repoPath, makeFacts(), scanResult);
+
+    expect(facts.quickstart.commands.map((c) => c.command)).toEqual([
+      "npm install",
+      "npm run build",
+      "NODE_ENV=test pnpm test -- --watch",
+      "cd docs && npm run serve",
+    ]);
+    const reasons = facts.verification!.issues.filter((i) => i.field === "quickstart.commands").map((i) => i.reason);
+    expect(reasons).toEqual(['no package.json script "e2e"', "no Makefile in the repository"]);
+  });
+
+  it("keeps code examples only when the code appears in the cited file", async () => {
+    const facts = await verifyRepoFacts(repoPath, makeFacts(), scanResult);
+
+    expect(facts.architecture.codeExamples?.map((e) => e.title)).toEqual(["Server"]);
+    const issues = facts.verification!.issues.filter((i) => i.field === "architecture.codeExamples");
+    expect(issues.map((i) => i.reason)).toEqual(["code does not appear in the file", "file does not exist"]);
+  });
+
+  it("flags first tasks whose files are all missing", async () => {
+    const facts = await verifyRepoFacts(repoPath, makeFacts(), scanResult);
+
+    expect(facts.firstTasks[0].files).toEqual(["src/server.ts"]);
+    expect(facts.firstTasks[1].files).toEqual([]);
+    expect(facts.verification!.issues).toContainEqual({
+      section: "firstTasks",
+      field: "firstTasks",
+      value: "Fix imaginary module",
+      action: "flagged",
+      reason: "none of the task's files exist",
+    });
+  });
+
+  it("downgrades confidence of corrected sections and leaves the input untouched", async () => {
+    const input = makeFacts({ fieldConfidence: { quickstart: "medium" } });
+    const facts = await verifyRepoFacts(repoPath, input, scanResult);
+
+    expect(facts.fieldConfidence).toMatchObject({
+      purpose: "medium",
+      quickstart: "low",
+      structure: "medium",
+      architecture: "low",
+      firstTasks: "low",
+    });
+    expect(facts.fieldConfidence?.ci).toBeUndefined();
+    expect(input.sources).toEqual(["README.md", "docs/missing.md"]);
+    expect(input.verification).toBeUndefined();
+  });
+
+  it("reports nothing for fully grounded facts", async () => {
+    const facts = await verifyRepoFacts(
+      repoPath,
+      makeFacts({
+        sources: ["README.md", "https://example.com/docs", "src/**/*.ts"],
+        quickstart: { prerequisites: [], steps: [], commands: [] },
+        structure: { keyDirs: [], entrypoints: [], testDirs: [], docsDirs: [] },
+        architecture: { overview: "", components: [] },
+        firstTasks: [],
+      }),
+      scanResult
+    );
+
+    expect(facts.verification).toEqual({ checked: 1, issues: [] });
+    expect(facts.fieldConfidence).toBeUndefined();
+  });
+});
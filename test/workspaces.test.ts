@@ -0,0 +1,173 @@
+/**
+ * Tests for monorepo workspace discovery
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { expandWorkspacePattern, findWorkspacePackage, yamlList } from "../src/workspaces.js";
+import { detectWorkspaces, scanRepo } from "../src/ingest.js";
+
+let root: string;
+
+async function write(files: Record<string, string | object>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), typeof content === "string" ? content : JSON.stringify(content));
+  }
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "bootcamp-workspaces-"));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("expandWorkspacePattern", () => {
+  it("expands single and recursive globs", async () => {
+    await write({
+      "packages/a/package.json": {},
+      "packages/b/package.json": {},
+      "apps/web/admin/package.json": {},
+    });
+
+    expect(await expandWorkspacePattern(root, "packages/*")).toEqual(["packages/a", "packages/b"]);
+    expect(await expandWorkspacePattern(root, "apps/**")).toContain("apps/web/admin");
+    expect(await expandWorkspacePattern(root, "./packages/a/")).toEqual(["packages/a"]);
+  });
+
+  it("matches nothing outside the repo", async () => {
+    await write({ "packages/a/package.json": {} });
+
+    expect(await expandWorkspacePattern(root, "../*")).toEqual([]);
+    expect(await expandWorkspacePattern(root, "packages/../../*")).toEqual([]);
+    expect(await expandWorkspacePattern(root, join(root, "packages", "*"))).toEqual([]);
+  });
+});
+
+describe("yamlList", () => {
+  it("reads a block list under a key", () => {
+    const yaml = `packages:\n  - "packages/*"\n  - 'apps/*' # apps\n  - "!**/test"\ncatalog:\n  - ignored\n`;
+    expect(yamlList(yaml, "packages")).toEqual(["packages/*", "apps/*", "!**/test"]);
+  });
+});
+
+describe("detectWorkspaces", () => {
+  it("returns null for single-package repos", async () => {
+    await write({ "package.json": { name: "solo", scripts: { build: "tsc" } } });
+    expect(await detectWorkspaces(root)).toBeNull();
+  });
+
+  it("finds pnpm packages with commands and internal dependencies", async () => {
+    await write({
+      "package.json": { name: "root", private: true },
+      "pnpm-workspace.yaml": "packages:\n  - 'packages/*'\n  - '!packages/scratch'\n",
+      "turbo.json": {},
+      "packages/core/package.json": { name: "@acme/core", version: "1.2.0", scripts: { build: "tsc" } },
+      "packages/web/package.json": {
+        name: "@acme/web",
+        scripts: { dev: "next dev", test: "vitest" },
+        dependencies: { "@acme/core": "workspace:*", next: "^14.0.0", react: "^18.0.0" },
+      },
+      "packages/scratch/package.json": { name: "scratch" },
+    });
+
+    const workspaces = await detectWorkspaces(root);
+    expect(workspaces?.tools).toEqual(["pnpm", "turborepo"]);
+    expect(workspaces?.packages.map((p) => p.name)).toEqual(["@acme/core", "@acme/web"]);
+
+    const web = findWorkspacePackage(workspaces, "@acme/web")!;
+    expect(web.internalDeps).toEqual(["@acme/core"]);
+    expect(web.dependencies).toEqual(["next", "react"]);
+    expect(web.stack.frameworks).toContain("Next.js");
+    expect(web.commands).toContainEqual({ name: "dev", command: "pnpm --filter @acme/web dev", source: "packages/web/package.json" });
+
+    expect(findWorkspacePackage(workspaces, "./packages/core/")).toMatchObject({ name: "@acme/core", version: "1.2.0" });
+    expect(findWorkspacePackage(workspaces, "missing")).toBeUndefined();
+  });
+
+  it("uses npm workspace flags when there is no other lockfile", async () => {
+    await write({
+      "package.json": { workspaces: ["libs/*"] },
+      "libs/util/package.json": { name: "util", scripts: { test: "jest" } },
+    });
+
+    const [util] = (await detectWorkspaces(root))!.packages;
+    expect(util.commands).toEqual([{ name: "test", command: "npm run test --workspace libs/util", source: "libs/util/package.json" }]);
+  });
+
+  it("finds Cargo workspace members and respects exclusions", async () => {
+    await write({
+      "Cargo.toml": `[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/legacy"]\n`,
+      "crates/cli/Cargo.toml": `[package]\nname = "acme-cli"\nversion = "0.3.0"\n\n[dependencies]\nacme-core = { path = "../core" }\nclap = "4"\n`,
+      "crates/cli/src/main.rs": "fn main() {}\n",
+      "crates/core/Cargo.toml": `[package]\nname = "acme-core"\nversion = "0.3.0"\n`,
+      "crates/legacy/Cargo.toml": `[package]\nname = "legacy"\n`,
+    });
+
+    const workspaces = (await detectWorkspaces(root))!;
+    expect(workspaces.tools).toEqual(["cargo"]);
+    expect(workspaces.packages.map((p) => p.name)).toEqual(["acme-cli", "acme-core"]);
+
+    const cli = workspaces.packages[0];
+    expect(cli.internalDeps).toEqual(["acme-core"]);
+    expect(cli.commands.map((c) => c.command)).toEqual(["cargo build -p acme-cli", "cargo test -p acme-cli", "cargo run -p acme-cli"]);
+    expect(cli.stack.languages).toContain("Rust");
+  });
+
+  it("finds go.work modules and Nx projects", async () => {
+    await write({
+      "go.work": "go 1.22\n\nuse (\n\t./api\n\t./worker // jobs\n)\n",
+      "api/go.mod": "module example.com/api\n",
+      "worker/go.mod": "module example.com/worker\n",
+    });
+    const go = (await detectWorkspaces(root))!;
+    expect(go.packages.map((p) => [p.name, p.path])).toEqual([
+      ["example.com/api", "api"],
+      ["example.com/worker", "worker"],
+    ]);
+    expect(go.packages[0].commands[0].command).toBe("go build ./api/...");
+
+    await rm(join(root, "go.work"));
+    await write({
+      "nx.json": {},
+      "apps/shop/project.json": { name: "shop", targets: { serve: {}, build: {} } },
+    });
+    const nx = (await detectWorkspaces(root))!;
+    expect(nx.tools).toEqual(["nx"]);
+    expect(nx.packages[0].commands.map((c) => c.command)).toEqual(["npx nx run shop:serve", "npx nx run shop:build"]);
+  });
+
+  it("skips members that escape the repo", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "bootcamp-outside-"));
+    try {
+      await mkdir(join(outside, "secret"), { recursive: true });
+      await writeFile(join(outside, "secret", "package.json"), JSON.stringify({ name: "secret" }));
+      await writeFile(join(outside, "secret", "go.mod"), "module example.com/secret\n");
+      await write({
+        "package.json": { workspaces: ["packages/*", "../*", join(outside, "*")] },
+        "packages/a/package.json": { name: "a" },
+        "go.work": `go 1.22\n\nuse (\n\t./api\n\t../secret\n\t${join(outside, "secret")}\n\t./packages/linked\n)\n`,
+        "api/go.mod": "module example.com/api\n",
+      });
+      await symlink(join(outside, "secret"), join(root, "packages", "linked"));
+
+      const info = (await detectWorkspaces(root))!;
+      expect(info.packages.map((p) => p.path).sort()).toEqual(["api", "packages/a"]);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("is included in the scan result", async () => {
+    await write({
+      "package.json": { workspaces: ["packages/*"] },
+      "packages/a/package.json": { name: "a" },
+    });
+
+    expect((await scanRepo(root, 100)).workspaces?.packages.map((p) => p.name)).toEqual(["a"]);
+  });
+});